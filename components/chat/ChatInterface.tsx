@@ -5,58 +5,122 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Send, Bot, User, RefreshCw } from 'lucide-react';
+import { Send, Bot, User, RefreshCw, Square } from 'lucide-react';
+import MessageContent from '@/components/chat/MessageContent';
+import type { ChatCitation } from '@/lib/services/grounded-chat';
+import type { ChatMessageRecord } from '@/lib/services/chat-sessions';
 
 interface Message {
   id: string;
   content: string;
   role: 'user' | 'assistant';
   timestamp: Date;
+  citations?: ChatCitation[];
+  isStreaming?: boolean;
 }
 
-// Format assistant messages with proper typography and spacing
-function formatAssistantMessage(content: string): string {
-  return content
-    // Convert **bold** to <strong>
-    .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-    // Convert *italic* to <em>
-    .replace(/\*(.*?)\*/g, '<em>$1</em>')
-    // Add line breaks for better paragraph spacing
-    .replace(/\n\n/g, '</p><p>')
-    // Wrap everything in paragraph tags
-    .replace(/^(.+)$/, '<p>$1</p>')
-    // Fix double paragraph tags
-    .replace(/<p><\/p><p>/g, '<p>')
-    // Handle numbered lists (1., 2., etc.)
-    .replace(/^(\d+\.\s)/gm, '<br><strong>$1</strong>')
-    // Handle bullet points (-, •, *)
-    .replace(/^([-•*]\s)/gm, '<br><strong>$1</strong>')
-    // Add spacing after periods for better readability
-    .replace(/\. ([A-Z])/g, '. $1')
-    // Handle document references in brackets
-    .replace(/\[(.*?)\]/g, '<em style="color: #666; font-size: 0.9em;">[$1]</em>')
-    // Clean up any empty paragraphs
-    .replace(/<p><\/p>/g, '');
+// Parse a server-sent event stream, calling onEvent for each complete event
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: any) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      let data = '';
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (data) onEvent(event, JSON.parse(data));
+    }
+  }
+}
+
+// Streaming needs readable fetch bodies; older browsers get the JSON path
+function supportsStreaming(): boolean {
+  return typeof window !== 'undefined' && 'ReadableStream' in window && 'TextDecoder' in window;
+}
+
+interface ChatInterfaceProps {
+  sessionId?: string | null;
+  onSessionChange?: (sessionId: string) => void;
 }
 
-export default function ChatInterface() {
+export default function ChatInterface({ sessionId = null, onSessionChange }: ChatInterfaceProps = {}) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
   const [isClient, setIsClient] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Session this conversation belongs to; set by the server on the first turn
+  const currentSessionRef = useRef<string | null>(sessionId);
 
   useEffect(() => {
     setIsClient(true);
   }, []);
 
+  // Resume a stored conversation when a different session is selected
+  useEffect(() => {
+    if (sessionId === currentSessionRef.current) return;
+    currentSessionRef.current = sessionId;
+    abortControllerRef.current?.abort();
+
+    if (!sessionId) {
+      setMessages([]);
+      return;
+    }
+
+    const loadSession = async () => {
+      try {
+        const response = await fetch(`/api/chat/sessions/${sessionId}`);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data = await response.json() as { messages: ChatMessageRecord[] };
+        if (currentSessionRef.current !== sessionId) return;
+        setMessages(data.messages.map(m => ({
+          id: m.id,
+          content: m.content,
+          role: m.role,
+          timestamp: new Date(m.createdAt),
+          citations: m.citations
+        })));
+      } catch (error) {
+        console.error('Error loading chat session:', error);
+      }
+    };
+
+    setMessages([]);
+    loadSession();
+  }, [sessionId]);
+
+  const trackSession = (id?: string) => {
+    if (!id || id === currentSessionRef.current) return;
+    currentSessionRef.current = id;
+    onSessionChange?.(id);
+  };
+
   const handleSendMessage = async () => {
-    if (!input.trim()) return;
+    if (!input.trim() || isLoading || isStreaming) return;
 
+    const messageText = input;
     const userMessage: Message = {
       id: Date.now().toString(),
-      content: input,
+      content: messageText,
       role: 'user',
       timestamp: new Date()
     };
@@ -65,37 +129,105 @@ export default function ChatInterface() {
     setInput('');
     setIsLoading(true);
 
+    const assistantId = (Date.now() + 1).toString();
+    const updateAssistant = (update: Partial<Message>) => {
+      setMessages(prev => prev.map(m => m.id === assistantId ? { ...m, ...update } : m));
+    };
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const stream = supportsStreaming();
+
     try {
       const response = await fetch('/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: input })
+        headers: {
+          'Content-Type': 'application/json',
+          ...(stream ? { 'Accept': 'text/event-stream' } : {})
+        },
+        body: JSON.stringify({ message: messageText, stream, sessionId: currentSessionRef.current }),
+        signal: abortController.signal
       });
 
-      const data = await response.json();
+      const contentType = response.headers.get('content-type') || '';
+
+      if (stream && contentType.includes('text/event-stream') && response.body) {
+        // Swap the typing indicator for a message that fills in as tokens arrive
+        setMessages(prev => [...prev, {
+          id: assistantId,
+          content: '',
+          role: 'assistant',
+          timestamp: new Date(),
+          citations: [],
+          isStreaming: true
+        }]);
+        setIsLoading(false);
+        setIsStreaming(true);
+
+        let content = '';
+        await readEventStream(response.body, (event, data) => {
+          if (event === 'session') {
+            trackSession(data.sessionId);
+          } else if (event === 'sources') {
+            // Sources share the prompt's numbering, so [n] markers resolve while streaming
+            updateAssistant({ citations: data.sources });
+          } else if (event === 'token') {
+            content += data.text;
+            updateAssistant({ content });
+          } else if (event === 'done') {
+            updateAssistant({ content: data.response, citations: data.citations, isStreaming: false });
+          } else if (event === 'error') {
+            updateAssistant({
+              content: content || 'Sorry, I encountered an error. Please try again.',
+              isStreaming: false
+            });
+          }
+        });
+        updateAssistant({ isStreaming: false });
+        return;
+      }
+
+      // Non-streaming answer (no model configured, or the server chose JSON)
+      const data = await response.json() as { response?: string; error?: string; citations?: ChatCitation[]; sessionId?: string };
+      trackSession(data.sessionId);
       
       const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: data.response,
+        id: assistantId,
+        content: data.response || data.error || 'Sorry, I encountered an error. Please try again.',
         role: 'assistant',
-        timestamp: new Date()
+        timestamp: new Date(),
+        citations: data.citations || []
       };
 
       setMessages(prev => [...prev, assistantMessage]);
     } catch (error) {
+      if (abortController.signal.aborted) {
+        // Keep whatever arrived before the user pressed stop
+        updateAssistant({ isStreaming: false });
+        return;
+      }
+
       console.error('Chat error:', error);
       const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: assistantId,
         content: 'Sorry, I encountered an error. Please try again.',
         role: 'assistant',
         timestamp: new Date()
       };
-      setMessages(prev => [...prev, errorMessage]);
+      setMessages(prev => prev.some(m => m.id === assistantId)
+        ? prev.map(m => m.id === assistantId ? { ...errorMessage, content: m.content || errorMessage.content } : m)
+        : [...prev, errorMessage]);
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
+      setIsStreaming(false);
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleSyncMeetings = async () => {
     setIsSyncing(true);
     try {
@@ -185,20 +317,22 @@ export default function ChatInterface() {
                           : 'bg-gray-100 text-gray-800'
                       }`}
                     >
-                      <div className={`prose prose-sm max-w-none ${
-                        message.role === 'user' ? 'prose-invert' : ''
-                      }`}>
-                        {message.role === 'assistant' ? (
-                          <div 
-                            className="whitespace-pre-wrap leading-relaxed"
-                            dangerouslySetInnerHTML={{ 
-                              __html: formatAssistantMessage(message.content) 
-                            }}
+                      {message.role === 'assistant' ? (
+                        <>
+                          <MessageContent
+                            content={message.content}
+                            role="assistant"
+                            citations={message.citations}
                           />
-                        ) : (
+                          {message.isStreaming && (
+                            <span className="inline-block w-2 h-4 bg-gray-400 animate-pulse align-middle" />
+                          )}
+                        </>
+                      ) : (
+                        <div className="prose prose-sm max-w-none prose-invert">
                           <p className="whitespace-pre-wrap m-0">{message.content}</p>
-                        )}
-                      </div>
+                        </div>
+                      )}
                       <span className="text-xs opacity-70 mt-2 block">
                         {isClient ? message.timestamp.toLocaleTimeString() : ''}
                       </span>
@@ -234,9 +368,15 @@ export default function ChatInterface() {
               onKeyPress={(e) => e.key === 'Enter' && !e.shiftKey && handleSendMessage()}
               className="flex-1"
             />
-            <Button onClick={handleSendMessage} disabled={isLoading || !input.trim()}>
-              <Send className="h-4 w-4" />
-            </Button>
+            {isLoading || isStreaming ? (
+              <Button onClick={handleStop} variant="outline" title="Stop generating">
+                <Square className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button onClick={handleSendMessage} disabled={!input.trim()}>
+                <Send className="h-4 w-4" />
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,159 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { MessageSquare, Plus, Pencil, Trash2, Check, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import type { ChatSession } from '@/lib/services/chat-sessions';
+
+interface ChatSessionsSidebarProps {
+  activeSessionId: string | null;
+  onSelectSession: (sessionId: string | null) => void;
+  refreshKey?: number; // Bump to reload the list, e.g. after a new session starts
+}
+
+export default function ChatSessionsSidebar({
+  activeSessionId,
+  onSelectSession,
+  refreshKey = 0
+}: ChatSessionsSidebarProps) {
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/chat/sessions');
+      if (response.ok) {
+        const data = await response.json() as { sessions: ChatSession[] };
+        setSessions(data.sessions || []);
+      }
+    } catch (error) {
+      console.error('Error fetching chat sessions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions, refreshKey]);
+
+  const startRename = (session: ChatSession) => {
+    setEditingId(session.id);
+    setEditingTitle(session.title);
+  };
+
+  const handleRename = async (sessionId: string) => {
+    const title = editingTitle.trim();
+    setEditingId(null);
+    if (!title) return;
+
+    try {
+      const response = await fetch(`/api/chat/sessions/${sessionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title })
+      });
+      if (response.ok) {
+        const data = await response.json() as { session: ChatSession };
+        setSessions(prev => prev.map(s => s.id === sessionId ? data.session : s));
+      }
+    } catch (error) {
+      console.error('Error renaming chat session:', error);
+    }
+  };
+
+  const handleDelete = async (session: ChatSession) => {
+    if (!confirm(`Delete "${session.title}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/chat/sessions/${session.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        setSessions(prev => prev.filter(s => s.id !== session.id));
+        if (session.id === activeSessionId) {
+          onSelectSession(null);
+        }
+      }
+    } catch (error) {
+      console.error('Error deleting chat session:', error);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full w-64 border-r border-gray-200 bg-white">
+      <div className="p-3 border-b border-gray-200">
+        <Button
+          onClick={() => onSelectSession(null)}
+          variant="outline"
+          className="w-full flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          New chat
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {loading && (
+            <p className="text-sm text-gray-500 p-2">Loading conversations...</p>
+          )}
+          {!loading && sessions.length === 0 && (
+            <p className="text-sm text-gray-500 p-2">No conversations yet.</p>
+          )}
+          {sessions.map(session => (
+            <div
+              key={session.id}
+              className={`group flex items-center gap-2 rounded-md px-2 py-2 text-sm cursor-pointer ${
+                session.id === activeSessionId ? 'bg-gray-100' : 'hover:bg-gray-50'
+              }`}
+              onClick={() => editingId !== session.id && onSelectSession(session.id)}
+            >
+              <MessageSquare className="h-4 w-4 shrink-0 text-gray-400" />
+              {editingId === session.id ? (
+                <div className="flex flex-1 items-center gap-1" onClick={e => e.stopPropagation()}>
+                  <Input
+                    value={editingTitle}
+                    onChange={e => setEditingTitle(e.target.value)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') handleRename(session.id);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="h-7 text-sm"
+                    autoFocus
+                  />
+                  <button onClick={() => handleRename(session.id)} title="Save">
+                    <Check className="h-4 w-4 text-gray-500 hover:text-gray-800" />
+                  </button>
+                  <button onClick={() => setEditingId(null)} title="Cancel">
+                    <X className="h-4 w-4 text-gray-500 hover:text-gray-800" />
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate text-gray-800">{session.title}</p>
+                    <p className="text-xs text-gray-400">
+                      {session.updatedAt ? formatDistanceToNow(new Date(session.updatedAt), { addSuffix: true }) : ''}
+                    </p>
+                  </div>
+                  <div className="hidden group-hover:flex items-center gap-1" onClick={e => e.stopPropagation()}>
+                    <button onClick={() => startRename(session)} title="Rename">
+                      <Pencil className="h-3.5 w-3.5 text-gray-400 hover:text-gray-700" />
+                    </button>
+                    <button onClick={() => handleDelete(session)} title="Delete">
+                      <Trash2 className="h-3.5 w-3.5 text-gray-400 hover:text-red-600" />
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
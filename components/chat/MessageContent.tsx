@@ -4,13 +4,38 @@ import React from 'react';
 import ReactMarkdown from 'react-markdown';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneDark } from 'react-syntax-highlighter/dist/cjs/styles/prism';
+import type { ChatCitation } from '@/lib/services/grounded-chat';
+import { formatTimestamp } from '@/lib/utils';
 
 interface MessageContentProps {
   content: string;
   role: 'user' | 'assistant';
+  citations?: ChatCitation[];
 }
 
-export default function MessageContent({ content, role }: MessageContentProps) {
+const CITATION_HREF_PREFIX = '#cite-';
+
+// Open the source transcript at the cited chunk
+function citationHref(citation: ChatCitation): string {
+  const params = new URLSearchParams({ chunk: citation.chunkId });
+  if (citation.timestamp !== undefined && citation.timestamp !== null) {
+    params.set('t', String(Math.floor(citation.timestamp)));
+  }
+  return `/meetings/${encodeURIComponent(citation.meetingId)}?${params.toString()}`;
+}
+
+// Turn [n] markers into links the renderer can pick up as footnote references
+function linkCitationMarkers(content: string, citations: ChatCitation[]): string {
+  if (citations.length === 0) return content;
+  const known = new Set(citations.map(citation => citation.index));
+  return content.replace(/\[(\d+)\](?!\()/g, (marker, n) =>
+    known.has(Number(n)) ? `[${n}](${CITATION_HREF_PREFIX}${n})` : marker
+  );
+}
+
+export default function MessageContent({ content, role, citations = [] }: MessageContentProps) {
+  const citationsByIndex = new Map(citations.map(citation => [citation.index, citation]));
+
   return (
     <div className={`prose ${role === 'user' ? 'prose-invert' : 'prose-slate'} max-w-none prose-sm`}>
       <ReactMarkdown
@@ -30,6 +55,24 @@ export default function MessageContent({ content, role }: MessageContentProps) {
         
         // Links
         a: ({ href, children }) => {
+          // Citation markers render as superscript footnote references
+          if (href?.startsWith(CITATION_HREF_PREFIX)) {
+            const citation = citationsByIndex.get(Number(href.slice(CITATION_HREF_PREFIX.length)));
+            if (citation) {
+              return (
+                <sup>
+                  <a
+                    href={citationHref(citation)}
+                    className="text-blue-500 hover:text-blue-600 no-underline font-medium"
+                    title={citation.title}
+                  >
+                    [{citation.index}]
+                  </a>
+                </sup>
+              );
+            }
+          }
+
           // Handle placeholder links differently
           if (href === '#' || !href) {
             return <span className="text-blue-500 font-medium">{children}</span>;
@@ -82,8 +125,27 @@ export default function MessageContent({ content, role }: MessageContentProps) {
         ),
         }}
       >
-        {content}
+        {linkCitationMarkers(content, citations)}
       </ReactMarkdown>
+      
+      {citations.length > 0 && (
+        <ol className="not-prose mt-3 pt-2 border-t border-gray-200 space-y-1 text-xs text-gray-600 list-none pl-0">
+          {citations.map(citation => (
+            <li key={citation.index} id={`cite-${citation.index}`}>
+              <a
+                href={citationHref(citation)}
+                className="hover:text-blue-600 hover:underline"
+              >
+                <span className="font-medium">[{citation.index}]</span>{' '}
+                {citation.title}
+                {citation.date && ` · ${new Date(citation.date).toLocaleDateString()}`}
+                {citation.speaker && ` · ${citation.speaker}`}
+                {citation.timestamp !== undefined && citation.timestamp !== null && ` · ${formatTimestamp(citation.timestamp)}`}
+              </a>
+            </li>
+          ))}
+        </ol>
+      )}
     </div>
   );
 }
\ No newline at end of file
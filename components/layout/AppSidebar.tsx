@@ -19,7 +19,8 @@ import {
   Plug, 
   ChevronDown, 
   MoreHorizontal,
-  User
+  User,
+  Bot
 } from "lucide-react";
 
 type NavItem = {
@@ -46,6 +47,11 @@ const coreFeatures: NavItem[] = [
     name: "Search & RAG",
     path: "/test-vectorization",
   },
+  {
+    icon: <Bot className="w-5 h-5" />,
+    name: "Agents",
+    path: "/agents",
+  },
 ];
 
 // Data Tables - All table views
@@ -77,7 +83,7 @@ const dataTables: NavItem[] = [
     icon: <PieChart className="w-5 h-5" />,
     name: "Reports",
     subItems: [
-      { name: "Project Reports", path: "/admin", pro: true },
+      { name: "Project Reports", path: "/reports" },
       { name: "Client Analytics", path: "/admin", pro: true },
     ],
   },
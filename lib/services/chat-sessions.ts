@@ -0,0 +1,174 @@
+/**
+ * Chat Session Store
+ * D1 persistence for multi-turn conversations in /api/chat
+ * Features:
+ * - Sessions with titles, optional project scope and message counts
+ * - Ordered message history used as conversation memory
+ * - Citations stored alongside assistant turns
+ */
+
+import type { ChatCitation } from './grounded-chat';
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  projectId?: string;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChatMessageRecord {
+  id: string;
+  sessionId: string;
+  role: 'user' | 'assistant';
+  content: string;
+  rewrittenQuery?: string;
+  citations: ChatCitation[];
+  createdAt: string;
+}
+
+const DEFAULT_TITLE = 'New conversation';
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Derive a session title from the first question
+ */
+export function titleFromMessage(message: string): string {
+  const text = message.replace(/\s+/g, ' ').trim();
+  if (!text) return DEFAULT_TITLE;
+  return text.length > MAX_TITLE_LENGTH
+    ? `${text.substring(0, MAX_TITLE_LENGTH - 1).trim()}…`
+    : text;
+}
+
+function toSession(row: Record<string, unknown>): ChatSession {
+  return {
+    id: String(row.id),
+    title: (row.title as string) || DEFAULT_TITLE,
+    projectId: (row.project_id as string) || undefined,
+    messageCount: Number(row.message_count || 0),
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function toMessage(row: Record<string, unknown>): ChatMessageRecord {
+  let citations: ChatCitation[] = [];
+  if (row.citations) {
+    try {
+      citations = JSON.parse(row.citations as string);
+    } catch (error) {
+      console.error('Error parsing message citations:', error);
+    }
+  }
+
+  return {
+    id: String(row.id),
+    sessionId: String(row.session_id),
+    role: row.role as ChatMessageRecord['role'],
+    content: (row.content as string) || '',
+    rewrittenQuery: (row.rewritten_query as string) || undefined,
+    citations,
+    createdAt: row.created_at as string,
+  };
+}
+
+export class ChatSessionStore {
+  constructor(private db: D1Database) {}
+
+  async listSessions(limit: number = 50): Promise<ChatSession[]> {
+    const { results } = await this.db.prepare(`
+      SELECT id, title, project_id, message_count, created_at, updated_at
+      FROM chat_sessions
+      ORDER BY updated_at DESC
+      LIMIT ?
+    `).bind(limit).all();
+
+    return results.map(toSession);
+  }
+
+  async getSession(id: string): Promise<ChatSession | null> {
+    const row = await this.db.prepare(`
+      SELECT id, title, project_id, message_count, created_at, updated_at
+      FROM chat_sessions
+      WHERE id = ?
+    `).bind(id).first();
+
+    return row ? toSession(row) : null;
+  }
+
+  async createSession(options: { title?: string; projectId?: string } = {}): Promise<ChatSession> {
+    const id = crypto.randomUUID();
+    await this.db.prepare(`
+      INSERT INTO chat_sessions (id, title, project_id, message_count, created_at, updated_at)
+      VALUES (?, ?, ?, 0, datetime('now'), datetime('now'))
+    `).bind(id, options.title || DEFAULT_TITLE, options.projectId || null).run();
+
+    return (await this.getSession(id))!;
+  }
+
+  async renameSession(id: string, title: string): Promise<ChatSession | null> {
+    await this.db.prepare(`
+      UPDATE chat_sessions SET title = ?, updated_at = datetime('now') WHERE id = ?
+    `).bind(titleFromMessage(title), id).run();
+
+    return this.getSession(id);
+  }
+
+  async deleteSession(id: string): Promise<boolean> {
+    // Delete messages explicitly rather than relying on foreign key enforcement
+    await this.db.prepare(`DELETE FROM chat_messages WHERE session_id = ?`).bind(id).run();
+    const result = await this.db.prepare(`DELETE FROM chat_sessions WHERE id = ?`).bind(id).run();
+    return (result.meta?.changes || 0) > 0;
+  }
+
+  /**
+   * Messages in chronological order; with a limit, the most recent ones
+   */
+  async getMessages(sessionId: string, limit?: number): Promise<ChatMessageRecord[]> {
+    const { results } = await this.db.prepare(`
+      SELECT id, session_id, role, content, rewritten_query, citations, created_at
+      FROM chat_messages
+      WHERE session_id = ?
+      ORDER BY created_at DESC, rowid DESC
+      LIMIT ?
+    `).bind(sessionId, limit ?? -1).all();
+
+    return results.map(toMessage).reverse();
+  }
+
+  async addMessage(
+    sessionId: string,
+    message: Pick<ChatMessageRecord, 'role' | 'content'> & Partial<Pick<ChatMessageRecord, 'rewrittenQuery' | 'citations'>>
+  ): Promise<ChatMessageRecord> {
+    const id = crypto.randomUUID();
+    await this.db.prepare(`
+      INSERT INTO chat_messages (id, session_id, role, content, rewritten_query, citations, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      id,
+      sessionId,
+      message.role,
+      message.content,
+      message.rewrittenQuery || null,
+      message.citations ? JSON.stringify(message.citations) : null
+    ).run();
+
+    await this.db.prepare(`
+      UPDATE chat_sessions
+      SET message_count = message_count + 1, updated_at = datetime('now')
+      WHERE id = ?
+    `).bind(sessionId).run();
+
+    return {
+      id,
+      sessionId,
+      role: message.role,
+      content: message.content,
+      rewrittenQuery: message.rewrittenQuery,
+      citations: message.citations || [],
+      createdAt: new Date().toISOString(),
+    };
+  }
+}
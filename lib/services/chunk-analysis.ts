@@ -0,0 +1,332 @@
+/**
+ * Chunk Analysis
+ * Structured model analysis of chunks for SmartChunkingService
+ * Features:
+ * - JSON-schema constrained replies: typed entities, a one-line summary,
+ *   topic labels and sentiment per chunk
+ * - Several chunks per request, packed to an input token budget
+ * - Token and cost caps per document; chunks past the cap keep their
+ *   rule-based analysis
+ * - Replies are checked field by field, so one bad chunk doesn't cost the batch
+ */
+
+import type { OpenAI } from 'openai';
+import { ENTITY_TYPES, type EntityType } from './entity-rules';
+
+export type ChunkSentiment = 'positive' | 'negative' | 'neutral' | 'mixed';
+
+export interface ChunkAnalysisRequest {
+  model: string;
+  system: string;
+  prompt: string;
+  schemaName: string;
+  schema: Record<string, unknown>; // JSON schema the reply must match
+  maxTokens: number;
+}
+
+export interface ChunkAnalysisResponse {
+  content: string;
+  usage?: { promptTokens: number; completionTokens: number };
+}
+
+// One structured completion; tests pass a fake
+export type ChunkAnalysisClient = (request: ChunkAnalysisRequest) => Promise<ChunkAnalysisResponse>;
+
+export interface ChunkAnalysisEntity {
+  type: EntityType;
+  value: string;
+  confidence: number;
+}
+
+export interface ChunkAnalysis {
+  id: string;
+  summary: string;
+  topics: string[];
+  sentiment: ChunkSentiment;
+  entities: ChunkAnalysisEntity[];
+}
+
+export interface ChunkAnalysisOptions {
+  model?: string;
+  minImportance?: number; // Chunks below this keep the rule-based analysis
+  maxChunksPerRequest?: number;
+  maxInputTokensPerRequest?: number;
+  maxOutputTokensPerChunk?: number;
+  maxTokensPerDocument?: number; // Prompt plus completion tokens across all requests
+  maxCostPerDocument?: number; // USD
+}
+
+export interface ChunkAnalysisUsage {
+  model: string;
+  requests: number;
+  chunksAnalyzed: number;
+  chunksSkipped: number; // Eligible but left out by a cap or a failed request
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // USD
+  capped: boolean;
+}
+
+interface AnalyzableChunk {
+  id: string;
+  content: string;
+  importance: number;
+}
+
+// USD per million tokens
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+};
+
+const DEFAULT_OPTIONS: Required<ChunkAnalysisOptions> = {
+  model: 'gpt-4o-mini',
+  minImportance: 0.7,
+  maxChunksPerRequest: 8,
+  maxInputTokensPerRequest: 8000,
+  maxOutputTokensPerChunk: 250,
+  maxTokensPerDocument: 40000,
+  maxCostPerDocument: 0.02,
+};
+
+const SENTIMENTS: ChunkSentiment[] = ['positive', 'negative', 'neutral', 'mixed'];
+
+const SYSTEM_PROMPT = `You analyse excerpts from construction project meetings and documents.
+For every chunk return its id, a one-line summary, up to 5 short topic labels, its overall sentiment, and the entities it mentions.
+Entity values must be copied exactly as they appear in the chunk text. Leave out anything that is not in the text.`;
+
+// Strict structured outputs need every property required and no extras
+export const CHUNK_ANALYSIS_SCHEMA = {
+  type: 'object',
+  properties: {
+    chunks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          summary: { type: 'string' },
+          topics: { type: 'array', items: { type: 'string' } },
+          sentiment: { type: 'string', enum: SENTIMENTS },
+          entities: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                type: { type: 'string', enum: ENTITY_TYPES },
+                value: { type: 'string' },
+                confidence: { type: 'number' },
+              },
+              required: ['type', 'value', 'confidence'],
+              additionalProperties: false,
+            },
+          },
+        },
+        required: ['id', 'summary', 'topics', 'sentiment', 'entities'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['chunks'],
+  additionalProperties: false,
+};
+
+/**
+ * Chat completions with a strict JSON schema response format
+ */
+export function openAIChunkAnalysisClient(openai: OpenAI): ChunkAnalysisClient {
+  return async request => {
+    const completion = await openai.chat.completions.create({
+      model: request.model,
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: request.prompt },
+      ],
+      max_tokens: request.maxTokens,
+      temperature: 0.2,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: request.schemaName, schema: request.schema, strict: true },
+      },
+    });
+
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      usage: completion.usage
+        ? { promptTokens: completion.usage.prompt_tokens, completionTokens: completion.usage.completion_tokens }
+        : undefined,
+    };
+  };
+}
+
+/**
+ * Cost in USD; unknown models are priced as gpt-4o so caps err on the safe side
+ */
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  const pricing = MODEL_PRICING[model] || MODEL_PRICING['gpt-4o'];
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Keep the well-formed analyses for chunks that were asked about. Entities
+ * must appear in their chunk's text; anything else is dropped.
+ */
+export function parseChunkAnalyses(content: string, chunks: AnalyzableChunk[]): Map<string, ChunkAnalysis> {
+  const analyses = new Map<string, ChunkAnalysis>();
+  const byId = new Map(chunks.map(chunk => [chunk.id, chunk]));
+
+  let reply: unknown;
+  try {
+    reply = JSON.parse(content);
+  } catch (error) {
+    return analyses;
+  }
+
+  const items = (reply as { chunks?: unknown })?.chunks;
+  if (!Array.isArray(items)) return analyses;
+
+  for (const item of items) {
+    const chunk = typeof item?.id === 'string' ? byId.get(item.id) : undefined;
+    if (!chunk || analyses.has(chunk.id)) continue;
+
+    const text = chunk.content.toLowerCase();
+    const entities: ChunkAnalysisEntity[] = (Array.isArray(item.entities) ? item.entities : [])
+      .filter((entity: any) =>
+        ENTITY_TYPES.includes(entity?.type) &&
+        typeof entity.value === 'string' &&
+        entity.value.trim() !== '' &&
+        text.includes(entity.value.trim().toLowerCase())
+      )
+      .map((entity: any) => ({
+        type: entity.type as EntityType,
+        value: entity.value.trim(),
+        confidence: Math.min(1, Math.max(0, Number(entity.confidence) || 0)),
+      }));
+
+    analyses.set(chunk.id, {
+      id: chunk.id,
+      summary: typeof item.summary === 'string' ? item.summary.trim() : '',
+      topics: (Array.isArray(item.topics) ? item.topics : [])
+        .filter((topic: unknown): topic is string => typeof topic === 'string' && topic.trim() !== '')
+        .map((topic: string) => topic.trim())
+        .slice(0, 5),
+      sentiment: SENTIMENTS.includes(item.sentiment) ? item.sentiment : 'neutral',
+      entities,
+    });
+  }
+
+  return analyses;
+}
+
+/**
+ * Analyse the important chunks of one document, most important first,
+ * until they run out or the next request could break a cap
+ */
+export async function analyzeChunks(
+  chunks: AnalyzableChunk[],
+  client: ChunkAnalysisClient,
+  countTokens: (text: string) => number,
+  options: ChunkAnalysisOptions = {}
+): Promise<{ analyses: Map<string, ChunkAnalysis>; usage: ChunkAnalysisUsage }> {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const analyses = new Map<string, ChunkAnalysis>();
+  const usage: ChunkAnalysisUsage = {
+    model: settings.model,
+    requests: 0,
+    chunksAnalyzed: 0,
+    chunksSkipped: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    cost: 0,
+    capped: false,
+  };
+
+  const eligible = chunks
+    .filter(chunk => chunk.importance >= settings.minImportance)
+    .sort((a, b) => b.importance - a.importance);
+
+  const overhead = countTokens(SYSTEM_PROMPT) + countTokens(JSON.stringify(CHUNK_ANALYSIS_SCHEMA));
+  const batches = packBatches(eligible, countTokens, settings.maxChunksPerRequest, settings.maxInputTokensPerRequest - overhead);
+
+  for (const batch of batches) {
+    const prompt = batch.prompt;
+    const maxTokens = batch.chunks.length * settings.maxOutputTokensPerChunk;
+    const promptTokens = overhead + countTokens(prompt);
+
+    // Budget for the worst case: the full prompt and every completion token
+    if (
+      usage.promptTokens + usage.completionTokens + promptTokens + maxTokens > settings.maxTokensPerDocument ||
+      usage.cost + estimateCost(settings.model, promptTokens, maxTokens) > settings.maxCostPerDocument
+    ) {
+      usage.capped = true;
+      break;
+    }
+
+    try {
+      const response = await client({
+        model: settings.model,
+        system: SYSTEM_PROMPT,
+        prompt,
+        schemaName: 'chunk_analysis',
+        schema: CHUNK_ANALYSIS_SCHEMA,
+        maxTokens,
+      });
+
+      const completionTokens = response.usage?.completionTokens ?? countTokens(response.content);
+      const billedPromptTokens = response.usage?.promptTokens ?? promptTokens;
+      usage.requests++;
+      usage.promptTokens += billedPromptTokens;
+      usage.completionTokens += completionTokens;
+      usage.cost += estimateCost(settings.model, billedPromptTokens, completionTokens);
+
+      parseChunkAnalyses(response.content, batch.chunks).forEach((analysis, id) => analyses.set(id, analysis));
+    } catch (error) {
+      console.error('Chunk analysis request failed:', error);
+      // Continue with the next batch
+    }
+  }
+
+  usage.chunksAnalyzed = analyses.size;
+  usage.chunksSkipped = eligible.length - analyses.size;
+  return { analyses, usage };
+}
+
+/**
+ * Group chunks into requests of at most `maxChunks` chunks and `budget`
+ * prompt tokens. A chunk too big for the budget goes in a request of its own.
+ */
+function packBatches(
+  chunks: AnalyzableChunk[],
+  countTokens: (text: string) => number,
+  maxChunks: number,
+  budget: number
+): Array<{ chunks: AnalyzableChunk[]; prompt: string }> {
+  const batches: Array<{ chunks: AnalyzableChunk[]; prompt: string }> = [];
+  let current: AnalyzableChunk[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    batches.push({ chunks: current, prompt: formatPrompt(current) });
+    current = [];
+    currentTokens = 0;
+  };
+
+  for (const chunk of chunks) {
+    const tokens = countTokens(formatChunk(chunk));
+    if (current.length >= maxChunks || (current.length > 0 && currentTokens + tokens > budget)) flush();
+    current.push(chunk);
+    currentTokens += tokens;
+  }
+  flush();
+
+  return batches;
+}
+
+function formatChunk(chunk: AnalyzableChunk): string {
+  return `<chunk id="${chunk.id}">\n${chunk.content}\n</chunk>`;
+}
+
+function formatPrompt(chunks: AnalyzableChunk[]): string {
+  return `Analyse each of these ${chunks.length} chunks and return one result per chunk id.\n\n${chunks.map(formatChunk).join('\n\n')}`;
+}
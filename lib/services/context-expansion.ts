@@ -0,0 +1,287 @@
+/**
+ * Context Expansion Service
+ * Grows a retrieved chunk into a readable passage by walking the
+ * chunk_relationships graph written by SmartChunkingService
+ * Features:
+ * - Previous/next, same-speaker and topic-continuation neighbours
+ * - Token-budgeted, greedy expansion ordered by edge priority
+ * - Passages stitched back together in transcript order
+ * - Falls back to chunk_index neighbours for meetings without edges
+ */
+
+import { ChunkRelationship } from './smart-chunking';
+import { estimateTokenizer } from './tokenizer';
+
+export type RelationshipType = ChunkRelationship['type'];
+
+export interface ContextExpansionOptions {
+  tokenBudget?: number; // Per passage, including the anchor chunk
+  neighbourTokenBudget?: number; // Per passage on top of the anchor chunk; replaces tokenBudget
+  maxHops?: number;
+  relationshipTypes?: RelationshipType[];
+  minStrength?: number;
+}
+
+export interface ExpandedPassage {
+  anchorChunkId: string;
+  meetingId: string;
+  chunkIds: string[]; // In transcript order
+  content: string;
+  tokenCount: number;
+  speakers: string[];
+  startTime?: number;
+  endTime?: number;
+  expandedVia: RelationshipType[];
+}
+
+interface ChunkRow {
+  id: string;
+  meetingId: string;
+  chunkIndex: number;
+  content: string;
+  speaker?: string;
+  startTime?: number;
+  endTime?: number;
+  tokenCount: number;
+}
+
+interface Neighbour {
+  chunkId: string;
+  type: RelationshipType;
+  priority: number;
+  hop: number;
+}
+
+const DEFAULT_TOKEN_BUDGET = 600;
+const DEFAULT_MAX_HOPS = 2;
+const DEFAULT_RELATIONSHIP_TYPES: RelationshipType[] = ['sequential', 'speaker_continuation', 'topic_continuation'];
+
+// Immediate neighbours repair cut sentences, so they win over looser links
+const RELATIONSHIP_WEIGHTS: Record<RelationshipType, number> = {
+  sequential: 1.0,
+  speaker_continuation: 0.7,
+  topic_continuation: 0.6,
+  reference: 0.4,
+};
+
+function toChunkRow(row: Record<string, unknown>): ChunkRow {
+  const content = (row.content as string) || '';
+  return {
+    id: String(row.id),
+    meetingId: String(row.meeting_id),
+    chunkIndex: Number(row.chunk_index ?? 0),
+    content,
+    speaker: (row.speaker as string) || undefined,
+    startTime: (row.start_time as number) ?? undefined,
+    endTime: (row.end_time as number) ?? undefined,
+    tokenCount: (row.token_count as number) || estimateTokenizer.count(content),
+  };
+}
+
+async function loadChunks(db: D1Database, ids: string[]): Promise<Map<string, ChunkRow>> {
+  if (ids.length === 0) return new Map();
+
+  const { results } = await db.prepare(`
+    SELECT id, meeting_id, chunk_index, content, speaker, start_time, end_time, token_count
+    FROM meeting_chunks
+    WHERE id IN (${ids.map(() => '?').join(', ')})
+  `).bind(...ids).all();
+
+  return new Map(results.map(row => [String(row.id), toChunkRow(row)]));
+}
+
+/**
+ * Edges are stored once (earlier chunk -> later chunk), so walk both directions
+ */
+async function loadNeighbours(
+  db: D1Database,
+  chunkIds: string[],
+  types: RelationshipType[],
+  minStrength: number
+): Promise<Array<{ from: string; to: string; type: RelationshipType; strength: number }>> {
+  if (chunkIds.length === 0 || types.length === 0) return [];
+
+  const idList = chunkIds.map(() => '?').join(', ');
+  const typeList = types.map(() => '?').join(', ');
+  const { results } = await db.prepare(`
+    SELECT from_chunk_id, to_chunk_id, relationship_type, strength
+    FROM chunk_relationships
+    WHERE (from_chunk_id IN (${idList}) OR to_chunk_id IN (${idList}))
+      AND relationship_type IN (${typeList})
+      AND strength >= ?
+  `).bind(...chunkIds, ...chunkIds, ...types, minStrength).all();
+
+  return results.map(row => ({
+    from: String(row.from_chunk_id),
+    to: String(row.to_chunk_id),
+    type: row.relationship_type as RelationshipType,
+    strength: Number(row.strength ?? 1),
+  }));
+}
+
+/**
+ * Previous/next chunks by chunk_index, for meetings chunked before
+ * relationships were recorded
+ */
+async function loadAdjacentChunks(db: D1Database, anchor: ChunkRow): Promise<ChunkRow[]> {
+  const { results } = await db.prepare(`
+    SELECT id, meeting_id, chunk_index, content, speaker, start_time, end_time, token_count
+    FROM meeting_chunks
+    WHERE meeting_id = ? AND chunk_index BETWEEN ? AND ? AND id != ?
+    ORDER BY chunk_index
+  `).bind(anchor.meetingId, anchor.chunkIndex - 1, anchor.chunkIndex + 1, anchor.id).all();
+
+  return results.map(toChunkRow);
+}
+
+/**
+ * Join chunks in transcript order, labelling speaker turns and marking gaps
+ */
+function stitchChunks(chunks: ChunkRow[]): string {
+  const ordered = [...chunks].sort((a, b) => a.chunkIndex - b.chunkIndex);
+  const parts: string[] = [];
+  let previous: ChunkRow | undefined;
+
+  for (const chunk of ordered) {
+    if (previous && chunk.chunkIndex - previous.chunkIndex > 1) {
+      parts.push('…');
+    }
+    const text = chunk.content.trim();
+    const labelled = chunk.speaker && chunk.speaker !== previous?.speaker && !text.startsWith(chunk.speaker)
+      ? `${chunk.speaker}: ${text}`
+      : text;
+    parts.push(labelled);
+    previous = chunk;
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * Expand a single anchor chunk into a passage within the token budget
+ */
+async function expandAnchor(
+  db: D1Database,
+  anchor: ChunkRow,
+  options: Required<Omit<ContextExpansionOptions, 'neighbourTokenBudget'>>
+): Promise<ExpandedPassage> {
+  const selected = new Map<string, ChunkRow>([[anchor.id, anchor]]);
+  const expandedVia = new Set<RelationshipType>();
+  let tokens = anchor.tokenCount;
+
+  let frontier = [anchor.id];
+  let foundEdges = false;
+
+  for (let hop = 1; hop <= options.maxHops && frontier.length > 0 && tokens < options.tokenBudget; hop++) {
+    const edges = await loadNeighbours(db, frontier, options.relationshipTypes, options.minStrength);
+    foundEdges = foundEdges || edges.length > 0;
+
+    const candidates = new Map<string, Neighbour>();
+    for (const edge of edges) {
+      const neighbourId = frontier.includes(edge.from) ? edge.to : edge.from;
+      if (selected.has(neighbourId)) continue;
+
+      const priority = (RELATIONSHIP_WEIGHTS[edge.type] ?? 0.5) * edge.strength / hop;
+      const existing = candidates.get(neighbourId);
+      if (!existing || existing.priority < priority) {
+        candidates.set(neighbourId, { chunkId: neighbourId, type: edge.type, priority, hop });
+      }
+    }
+
+    const rows = await loadChunks(db, Array.from(candidates.keys()));
+    const ranked = Array.from(candidates.values())
+      .filter(candidate => rows.get(candidate.chunkId)?.meetingId === anchor.meetingId)
+      .sort((a, b) => {
+        if (b.priority !== a.priority) return b.priority - a.priority;
+        // Prefer whatever sits closest to the anchor in the transcript
+        const distanceA = Math.abs(rows.get(a.chunkId)!.chunkIndex - anchor.chunkIndex);
+        const distanceB = Math.abs(rows.get(b.chunkId)!.chunkIndex - anchor.chunkIndex);
+        return distanceA - distanceB;
+      });
+
+    const added: string[] = [];
+    for (const candidate of ranked) {
+      const row = rows.get(candidate.chunkId)!;
+      if (tokens + row.tokenCount > options.tokenBudget) continue;
+      selected.set(row.id, row);
+      expandedVia.add(candidate.type);
+      tokens += row.tokenCount;
+      added.push(row.id);
+    }
+
+    frontier = added;
+  }
+
+  if (!foundEdges && options.relationshipTypes.includes('sequential')) {
+    for (const row of await loadAdjacentChunks(db, anchor)) {
+      if (tokens + row.tokenCount > options.tokenBudget) continue;
+      selected.set(row.id, row);
+      expandedVia.add('sequential');
+      tokens += row.tokenCount;
+    }
+  }
+
+  const chunks = Array.from(selected.values()).sort((a, b) => a.chunkIndex - b.chunkIndex);
+  const startTimes = chunks.map(chunk => chunk.startTime).filter((t): t is number => t !== undefined && t !== null);
+  const endTimes = chunks.map(chunk => chunk.endTime).filter((t): t is number => t !== undefined && t !== null);
+
+  return {
+    anchorChunkId: anchor.id,
+    meetingId: anchor.meetingId,
+    chunkIds: chunks.map(chunk => chunk.id),
+    content: stitchChunks(chunks),
+    tokenCount: tokens,
+    speakers: Array.from(new Set(chunks.map(chunk => chunk.speaker).filter((s): s is string => !!s))),
+    startTime: startTimes.length > 0 ? Math.min(...startTimes) : undefined,
+    endTime: endTimes.length > 0 ? Math.max(...endTimes) : undefined,
+    expandedVia: Array.from(expandedVia),
+  };
+}
+
+/**
+ * Expand search hits into stitched passages. Returns one passage per hit
+ * keyed by the hit's chunk id; a hit already covered by a higher-ranked
+ * passage shares that passage instead of repeating the same text.
+ */
+export async function expandChunkContext(
+  db: D1Database,
+  chunkIds: string[],
+  options: ContextExpansionOptions = {}
+): Promise<Map<string, ExpandedPassage>> {
+  const resolved: Required<Omit<ContextExpansionOptions, 'neighbourTokenBudget'>> = {
+    tokenBudget: options.tokenBudget ?? DEFAULT_TOKEN_BUDGET,
+    maxHops: options.maxHops ?? DEFAULT_MAX_HOPS,
+    relationshipTypes: options.relationshipTypes ?? DEFAULT_RELATIONSHIP_TYPES,
+    minStrength: options.minStrength ?? 0,
+  };
+
+  const anchors = await loadChunks(db, Array.from(new Set(chunkIds)));
+  const passages = new Map<string, ExpandedPassage>();
+  const covered = new Map<string, ExpandedPassage>();
+
+  for (const chunkId of chunkIds) {
+    if (passages.has(chunkId)) continue;
+
+    const existing = covered.get(chunkId);
+    if (existing) {
+      passages.set(chunkId, existing);
+      continue;
+    }
+
+    const anchor = anchors.get(chunkId);
+    if (!anchor) continue;
+
+    try {
+      const passage = await expandAnchor(db, anchor, {
+        ...resolved,
+        tokenBudget: options.neighbourTokenBudget !== undefined ? anchor.tokenCount + options.neighbourTokenBudget : resolved.tokenBudget,
+      });
+      passages.set(chunkId, passage);
+      passage.chunkIds.forEach(id => covered.set(id, passage));
+    } catch (error) {
+      console.error(`Context expansion failed for chunk ${chunkId}:`, error);
+    }
+  }
+
+  return passages;
+}
@@ -0,0 +1,392 @@
+/**
+ * Entity Matcher
+ * Shared project/client matching for meetings and documents
+ * Features:
+ * - Catalog from the D1 projects, clients and employees tables plus entity_aliases
+ * - Evidence from names, aliases, job numbers, addresses and participant emails
+ * - Ranked candidates with a 0-1 confidence and the reasons behind it
+ * - Only confident, unambiguous matches are assigned; the rest go to review
+ */
+
+export type MatchEntityType = 'project' | 'client';
+
+export interface MatchInput {
+  title?: string;
+  content: string;
+  participants?: string[]; // Names and/or email addresses
+  projectMentions?: string[]; // Names already extracted from the text
+  clientMentions?: string[];
+}
+
+export interface MatchCandidate {
+  entityType: MatchEntityType;
+  id: string;
+  name: string;
+  clientId?: string; // Projects only
+  confidence: number;
+  reason: string; // Strongest evidence, for display
+  reasons: string[];
+}
+
+export interface EntityMatchResult {
+  projects: MatchCandidate[];
+  clients: MatchCandidate[];
+  project?: MatchCandidate; // Set only when confident enough to assign
+  client?: MatchCandidate;
+  reviewFor: MatchEntityType[]; // Plausible but unassigned: send to the review queue
+}
+
+export interface EntityMatcherOptions {
+  autoAssignThreshold?: number; // Assign at or above this confidence
+  reviewThreshold?: number; // Below this a candidate isn't worth reviewing
+  ambiguityMargin?: number; // Runner-up this close to the leader forces review
+  maxCandidates?: number;
+}
+
+interface CatalogProject {
+  id: string;
+  title: string;
+  status?: string;
+  clientId?: string;
+  address?: string;
+  staffEmails: string[];
+  aliases: string[];
+  jobNumbers: string[];
+}
+
+interface CatalogClient {
+  id: string;
+  name: string;
+  email?: string;
+  aliases: string[];
+  emailDomains: string[];
+}
+
+interface Catalog {
+  projects: CatalogProject[];
+  clients: CatalogClient[];
+  internalDomains: Set<string>;
+}
+
+interface Evidence {
+  weight: number;
+  reason: string;
+}
+
+// Free-mail providers say nothing about which client someone works for
+const GENERIC_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'live.com', 'msn.com',
+  'yahoo.com', 'icloud.com', 'me.com', 'aol.com', 'proton.me', 'protonmail.com'
+]);
+
+const STOPWORDS = new Set([
+  'project', 'phase', 'building', 'the', 'and', 'for', 'with', 'inc', 'llc', 'corp', 'company', 'group'
+]);
+
+// Names shorter than this are too likely to appear by accident
+const MIN_PHRASE_LENGTH = 4;
+
+const INACTIVE_STATUSES = new Set(['completed', 'cancelled']);
+const INACTIVE_PENALTY = 0.7;
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Whole-word phrase match on normalized text
+ */
+function containsPhrase(normalizedText: string, phrase: string): boolean {
+  const normalizedPhrase = normalize(phrase);
+  if (normalizedPhrase.length < MIN_PHRASE_LENGTH) return false;
+  return ` ${normalizedText} `.includes(` ${normalizedPhrase} `);
+}
+
+function significantWords(text: string): string[] {
+  return normalize(text).split(' ').filter(word => word.length >= 4 && !STOPWORDS.has(word));
+}
+
+/**
+ * Share of a name's significant words that appear in the text
+ */
+function wordCoverage(name: string, words: Set<string>): number {
+  const nameWords = significantWords(name);
+  if (nameWords.length === 0) return 0;
+  return nameWords.filter(word => words.has(word)).length / nameWords.length;
+}
+
+function emailDomain(email: string): string {
+  return email.toLowerCase().split('@')[1] || '';
+}
+
+/**
+ * The first few tokens of a street address ("123 main st"); only usable when
+ * it starts with a street number
+ */
+function addressKey(address?: string): string | undefined {
+  if (!address) return undefined;
+  const tokens = normalize(address).split(' ');
+  return /^\d+$/.test(tokens[0]) && tokens.length >= 2 ? tokens.slice(0, 3).join(' ') : undefined;
+}
+
+/**
+ * Combine independent evidence: 1 - product of (1 - weight)
+ */
+function combine(evidence: Evidence[]): number {
+  return 1 - evidence.reduce((remaining, e) => remaining * (1 - e.weight), 1);
+}
+
+function toCandidate(
+  entityType: MatchEntityType,
+  entity: { id: string; name: string; clientId?: string },
+  evidence: Evidence[],
+  penalty: number = 1
+): MatchCandidate | null {
+  if (evidence.length === 0) return null;
+  const sorted = [...evidence].sort((a, b) => b.weight - a.weight);
+  return {
+    entityType,
+    id: entity.id,
+    name: entity.name,
+    clientId: entity.clientId,
+    confidence: Math.round(combine(sorted) * penalty * 1000) / 1000,
+    reason: sorted[0].reason,
+    reasons: sorted.map(e => e.reason),
+  };
+}
+
+export class EntityMatcher {
+  private catalog?: Promise<Catalog>;
+  private autoAssignThreshold: number;
+  private reviewThreshold: number;
+  private ambiguityMargin: number;
+  private maxCandidates: number;
+
+  constructor(private db: D1Database, options: EntityMatcherOptions = {}) {
+    this.autoAssignThreshold = options.autoAssignThreshold ?? 0.75;
+    this.reviewThreshold = options.reviewThreshold ?? 0.35;
+    this.ambiguityMargin = options.ambiguityMargin ?? 0.1;
+    this.maxCandidates = options.maxCandidates ?? 5;
+  }
+
+  /**
+   * Rank projects and clients for a meeting or document
+   */
+  async match(input: MatchInput): Promise<EntityMatchResult> {
+    const catalog = await this.loadCatalog();
+
+    const title = normalize(input.title || '');
+    const content = normalize(input.content);
+    const contentWords = new Set(content.split(' '));
+    const titleWords = new Set(title.split(' '));
+    const mentions = {
+      project: new Set((input.projectMentions || []).map(normalize)),
+      client: new Set((input.clientMentions || []).map(normalize)),
+    };
+
+    const emails = new Set<string>();
+    [...(input.participants || []), input.content].forEach(text => {
+      (text.match(EMAIL_PATTERN) || []).forEach(email => emails.add(email.toLowerCase()));
+    });
+    const externalDomains = new Set(
+      Array.from(emails).map(emailDomain)
+        .filter(domain => domain && !GENERIC_EMAIL_DOMAINS.has(domain) && !catalog.internalDomains.has(domain))
+    );
+
+    // Names, aliases, mentions and word overlap shared by both entity types
+    const nameEvidence = (name: string, aliases: string[], type: MatchEntityType): Evidence[] => {
+      const evidence: Evidence[] = [];
+      const label = type === 'project' ? 'Project' : 'Client';
+
+      if (containsPhrase(title, name)) {
+        evidence.push({ weight: 0.85, reason: `${label} name "${name}" in title` });
+      } else if (containsPhrase(content, name)) {
+        evidence.push({ weight: 0.65, reason: `${label} name "${name}" mentioned` });
+      } else {
+        const titleCoverage = wordCoverage(name, titleWords);
+        const contentCoverage = wordCoverage(name, contentWords);
+        if (titleCoverage >= 0.5) {
+          evidence.push({ weight: 0.5 * titleCoverage, reason: `Title shares words with "${name}"` });
+        } else if (contentCoverage >= 0.6) {
+          evidence.push({ weight: 0.3 * contentCoverage, reason: `Text shares words with "${name}"` });
+        }
+      }
+
+      for (const alias of aliases) {
+        if (containsPhrase(title, alias)) {
+          evidence.push({ weight: 0.8, reason: `Alias "${alias}" in title` });
+        } else if (containsPhrase(content, alias)) {
+          evidence.push({ weight: 0.6, reason: `Alias "${alias}" mentioned` });
+        }
+      }
+
+      if ([name, ...aliases].some(n => mentions[type].has(normalize(n)))) {
+        evidence.push({ weight: 0.8, reason: `Extracted ${type} mention "${name}"` });
+      }
+
+      return evidence;
+    };
+
+    // Clients first so projects can use them as supporting evidence
+    const clientEvidence = new Map<string, Evidence[]>();
+    for (const client of catalog.clients) {
+      const evidence = nameEvidence(client.name, client.aliases, 'client');
+
+      if (client.email && emails.has(client.email.toLowerCase())) {
+        evidence.push({ weight: 0.8, reason: `Participant ${client.email} is the client contact` });
+      }
+      const domain = client.emailDomains.find(d => externalDomains.has(d));
+      if (domain) {
+        evidence.push({ weight: 0.6, reason: `Participant email domain ${domain}` });
+      }
+
+      if (evidence.length > 0) clientEvidence.set(client.id, evidence);
+    }
+
+    const projectCandidates = catalog.projects
+      .map(project => {
+        const evidence = nameEvidence(project.title, project.aliases, 'project');
+
+        for (const jobNumber of project.jobNumbers) {
+          if (containsPhrase(title, jobNumber)) {
+            evidence.push({ weight: 0.95, reason: `Job number ${jobNumber} in title` });
+          } else if (containsPhrase(content, jobNumber)) {
+            evidence.push({ weight: 0.85, reason: `Job number ${jobNumber} mentioned` });
+          }
+        }
+
+        const address = addressKey(project.address);
+        if (address && ` ${content} `.includes(` ${address} `)) {
+          evidence.push({ weight: 0.7, reason: `Site address "${project.address}" mentioned` });
+        }
+
+        const staff = project.staffEmails.find(email => emails.has(email));
+        if (staff) {
+          evidence.push({ weight: 0.2, reason: `Project staff ${staff} attended` });
+        }
+
+        const client = project.clientId ? clientEvidence.get(project.clientId) : undefined;
+        if (client && evidence.length > 0) {
+          // Only corroborates: a client alone doesn't say which of its projects
+          evidence.push({ weight: 0.4 * combine(client), reason: 'Project client also matched' });
+        }
+
+        const penalty = project.status && INACTIVE_STATUSES.has(project.status) ? INACTIVE_PENALTY : 1;
+        return toCandidate('project', { id: project.id, name: project.title, clientId: project.clientId }, evidence, penalty);
+      })
+      .filter((c): c is MatchCandidate => c !== null);
+
+    const projects = this.rank(projectCandidates);
+    const project = this.accept(projects);
+
+    // A confidently matched project settles its client
+    if (project?.clientId) {
+      clientEvidence.set(project.clientId, [
+        ...(clientEvidence.get(project.clientId) || []),
+        { weight: 0.9, reason: `Client of matched project ${project.name}` },
+      ]);
+    }
+
+    const clientCandidates = catalog.clients
+      .map(client => toCandidate('client', client, clientEvidence.get(client.id) || []))
+      .filter((c): c is MatchCandidate => c !== null);
+
+    const clients = this.rank(clientCandidates);
+    const client = this.accept(clients);
+
+    const reviewable = (candidates: MatchCandidate[], accepted?: MatchCandidate) =>
+      !accepted && candidates.length > 0 && candidates[0].confidence >= this.reviewThreshold;
+    const reviewFor: MatchEntityType[] = [
+      ...(reviewable(projects, project) ? ['project' as const] : []),
+      ...(reviewable(clients, client) ? ['client' as const] : []),
+    ];
+
+    return { projects, clients, project, client, reviewFor };
+  }
+
+  private rank(candidates: MatchCandidate[]): MatchCandidate[] {
+    return candidates
+      .filter(c => c.confidence > 0)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, this.maxCandidates);
+  }
+
+  /**
+   * The top candidate, if it clears the threshold and isn't contested
+   */
+  private accept(ranked: MatchCandidate[]): MatchCandidate | undefined {
+    const [top, runnerUp] = ranked;
+    if (!top || top.confidence < this.autoAssignThreshold) return undefined;
+    if (runnerUp && top.confidence - runnerUp.confidence < this.ambiguityMargin) return undefined;
+    return top;
+  }
+
+  private loadCatalog(): Promise<Catalog> {
+    if (!this.catalog) {
+      this.catalog = this.fetchCatalog().catch(error => {
+        this.catalog = undefined;
+        throw error;
+      });
+    }
+    return this.catalog;
+  }
+
+  private async fetchCatalog(): Promise<Catalog> {
+    const [projects, clients, employees, aliases] = await Promise.all([
+      this.db.prepare(`
+        SELECT
+          p.id, p.title, p.status, p.client_id, p.project_address,
+          pm.email as pm_email, su.email as super_email
+        FROM projects p
+        LEFT JOIN employees pm ON p.project_manager_id = pm.id
+        LEFT JOIN employees su ON p.superintendent_id = su.id
+      `).all(),
+      this.db.prepare(`SELECT id, company_name, email FROM clients`).all(),
+      this.db.prepare(`SELECT email FROM employees WHERE email IS NOT NULL`).all(),
+      this.db.prepare(`SELECT entity_type, entity_id, alias, alias_type FROM entity_aliases`).all()
+        .catch(error => {
+          // Matching still works on names before the aliases migration is applied
+          console.error('Error loading entity aliases:', error);
+          return { results: [] as Record<string, unknown>[] };
+        }),
+    ]);
+
+    const aliasesFor = (type: MatchEntityType, id: string, aliasType: string) =>
+      aliases.results
+        .filter(a => a.entity_type === type && String(a.entity_id) === id && a.alias_type === aliasType)
+        .map(a => String(a.alias));
+
+    return {
+      projects: projects.results.map(row => {
+        const id = String(row.id);
+        return {
+          id,
+          title: String(row.title || ''),
+          status: (row.status as string) || undefined,
+          clientId: row.client_id != null ? String(row.client_id) : undefined,
+          address: (row.project_address as string) || aliasesFor('project', id, 'address')[0],
+          staffEmails: [row.pm_email, row.super_email].filter(Boolean).map(e => String(e).toLowerCase()),
+          aliases: aliasesFor('project', id, 'name'),
+          jobNumbers: aliasesFor('project', id, 'job_number'),
+        };
+      }),
+      clients: clients.results.map(row => {
+        const id = String(row.id);
+        const email = (row.email as string) || undefined;
+        return {
+          id,
+          name: String(row.company_name || ''),
+          email,
+          aliases: aliasesFor('client', id, 'name'),
+          emailDomains: [
+            ...aliasesFor('client', id, 'email_domain').map(d => d.toLowerCase()),
+            ...(email && !GENERIC_EMAIL_DOMAINS.has(emailDomain(email)) ? [emailDomain(email)] : []),
+          ],
+        };
+      }),
+      internalDomains: new Set(employees.results.map(row => emailDomain(String(row.email)))),
+    };
+  }
+}
@@ -0,0 +1,470 @@
+/**
+ * Entity Registry
+ * Canonical people, clients, subcontractors and projects, and the extracted
+ * mentions resolved to them
+ * Features:
+ * - Seeds a canonical entity for every employee, client, subcontractor and project
+ * - Resolution passes over unresolved mentions with EntityResolver
+ * - Manual merge and split; mentions placed by hand are never moved by a pass
+ */
+
+import {
+  EntityResolver,
+  RESOLVABLE_ENTITY_TYPES,
+  isSpecificMention,
+  type CanonicalEntity,
+  type EntityMention,
+  type LinkedTable,
+  type MeetingContext,
+  type ResolvableEntityType,
+  type ResolutionStatus,
+} from './entity-resolution';
+
+// 'auto' and 'created' come from resolution passes, 'manual' from merge/split
+export type MentionResolutionState = 'auto' | 'created' | 'ambiguous' | 'unresolved' | 'manual';
+
+export interface RegistryEntity extends CanonicalEntity {
+  mentionCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ResolvedMention {
+  id: string;
+  meetingId: string;
+  meetingTitle?: string;
+  meetingDate?: string;
+  type: string;
+  value: string;
+  context?: string;
+  entityId?: string;
+  resolution?: MentionResolutionState;
+}
+
+export interface ResolutionSummary {
+  processed: number;
+  linked: number;
+  created: number;
+  ambiguous: number;
+  unresolved: number;
+}
+
+const STATE_FOR_STATUS: Record<ResolutionStatus, MentionResolutionState> = {
+  linked: 'auto',
+  created: 'created',
+  ambiguous: 'ambiguous',
+  unresolved: 'unresolved',
+};
+
+// Each catalog table and how its rows become canonical entities
+const CATALOG_SEEDS: Array<{ table: LinkedTable; type: ResolvableEntityType; select: string }> = [
+  { table: 'employees', type: 'person', select: "SELECT id, first_name || ' ' || last_name AS name, email FROM employees" },
+  { table: 'clients', type: 'client', select: 'SELECT id, company_name AS name, email FROM clients' },
+  { table: 'subcontractors', type: 'subcontractor', select: 'SELECT id, company_name AS name, email FROM subcontractors' },
+  { table: 'projects', type: 'project', select: 'SELECT id, title AS name, NULL AS email FROM projects' },
+];
+
+// D1 allows 100 bound parameters per statement
+const IN_BATCH_SIZE = 90;
+
+function parseList(value: unknown): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(String(value));
+    if (Array.isArray(parsed)) return parsed.map(String);
+  } catch {
+    // Plain comma-separated text
+  }
+  return String(value).split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function toEntity(row: Record<string, unknown>, projectIds: string[] = []): RegistryEntity {
+  return {
+    id: String(row.id),
+    type: row.entity_type as ResolvableEntityType,
+    name: String(row.canonical_name),
+    aliases: parseList(row.aliases),
+    email: (row.email as string) || undefined,
+    linkedTable: (row.linked_table as LinkedTable) || undefined,
+    linkedId: row.linked_id != null ? String(row.linked_id) : undefined,
+    projectIds,
+    mentionCount: Number(row.mention_count || 0),
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function toMention(row: Record<string, unknown>): ResolvedMention {
+  return {
+    id: String(row.id),
+    meetingId: String(row.meeting_id),
+    meetingTitle: (row.meeting_title as string) || undefined,
+    meetingDate: (row.meeting_date as string) || undefined,
+    type: String(row.entity_type),
+    value: String(row.entity_value),
+    context: (row.context as string) || undefined,
+    entityId: (row.entity_id as string) || undefined,
+    resolution: (row.resolution as MentionResolutionState) || undefined,
+  };
+}
+
+function chunked<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) batches.push(items.slice(i, i + size));
+  return batches;
+}
+
+export class EntityRegistry {
+  constructor(private db: D1Database) {}
+
+  /**
+   * Make sure every catalog record has a canonical entity. Tables that
+   * don't exist in this database are skipped.
+   */
+  async seed(): Promise<void> {
+    for (const { table, type, select } of CATALOG_SEEDS) {
+      try {
+        await this.db.prepare(`
+          INSERT INTO entities (id, entity_type, canonical_name, aliases, email, linked_table, linked_id, created_at, updated_at)
+          SELECT lower(hex(randomblob(16))), ?, catalog.name, '[]', catalog.email, ?, catalog.id, datetime('now'), datetime('now')
+          FROM (${select}) AS catalog
+          WHERE catalog.name IS NOT NULL AND trim(catalog.name) != ''
+          ON CONFLICT(linked_table, linked_id) DO NOTHING
+        `).bind(type, table).run();
+      } catch (error) {
+        console.warn(`Could not seed entities from ${table}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Resolve mentions no pass has looked at yet, oldest first
+   */
+  async resolvePending(options: { meetingId?: string; limit?: number } = {}): Promise<ResolutionSummary> {
+    await this.seed();
+
+    const placeholders = RESOLVABLE_ENTITY_TYPES.map(() => '?').join(', ');
+    const params: (string | number)[] = [...RESOLVABLE_ENTITY_TYPES];
+    let where = `WHERE entity_id IS NULL AND resolution IS NULL AND entity_type IN (${placeholders})`;
+    if (options.meetingId) {
+      where += ' AND meeting_id = ?';
+      params.push(options.meetingId);
+    }
+
+    const { results } = await this.db.prepare(`
+      SELECT id, meeting_id, entity_type, entity_value, context
+      FROM extracted_entities
+      ${where}
+      ORDER BY created_at ASC
+      LIMIT ?
+    `).bind(...params, options.limit ?? 500).all();
+
+    const summary: ResolutionSummary = { processed: results.length, linked: 0, created: 0, ambiguous: 0, unresolved: 0 };
+    if (results.length === 0) return summary;
+
+    const mentions: EntityMention[] = results.map(row => ({
+      id: String(row.id),
+      meetingId: String(row.meeting_id),
+      type: row.entity_type as ResolvableEntityType,
+      value: String(row.entity_value),
+      context: (row.context as string) || undefined,
+    }));
+
+    const resolver = new EntityResolver(await this.loadEntities());
+    const { resolutions, created, updated } = resolver.resolve(mentions, await this.loadContexts(mentions));
+
+    const statements: D1PreparedStatement[] = [
+      ...created.map(entity => this.db.prepare(`
+        INSERT INTO entities (id, entity_type, canonical_name, aliases, email, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, datetime('now'), datetime('now'))
+      `).bind(entity.id, entity.type, entity.name, JSON.stringify(entity.aliases), entity.email || null)),
+      ...updated.map(entity => this.db.prepare(`
+        UPDATE entities SET aliases = ?, updated_at = datetime('now') WHERE id = ?
+      `).bind(JSON.stringify(entity.aliases), entity.id)),
+      ...resolutions.map(resolution => this.db.prepare(`
+        UPDATE extracted_entities SET entity_id = ?, resolution = ? WHERE id = ?
+      `).bind(resolution.entityId || null, STATE_FOR_STATUS[resolution.status], resolution.mentionId)),
+    ];
+    await this.db.batch(statements);
+
+    for (const resolution of resolutions) summary[resolution.status]++;
+    return summary;
+  }
+
+  async list(query: {
+    type?: ResolvableEntityType;
+    search?: string;
+    limit: number;
+    offset: number;
+  }): Promise<{ entities: RegistryEntity[]; total: number }> {
+    let where = 'WHERE 1 = 1';
+    const params: string[] = [];
+
+    if (query.type) {
+      where += ' AND e.entity_type = ?';
+      params.push(query.type);
+    }
+    if (query.search) {
+      where += ' AND (e.canonical_name LIKE ? OR e.aliases LIKE ?)';
+      params.push(`%${query.search}%`, `%${query.search}%`);
+    }
+
+    const count = await this.db.prepare(`SELECT COUNT(*) as total FROM entities e ${where}`)
+      .bind(...params).first();
+
+    const { results } = await this.db.prepare(`
+      SELECT e.*, (SELECT COUNT(*) FROM extracted_entities x WHERE x.entity_id = e.id) AS mention_count
+      FROM entities e
+      ${where}
+      ORDER BY mention_count DESC, e.canonical_name ASC
+      LIMIT ? OFFSET ?
+    `).bind(...params, query.limit, query.offset).all();
+
+    return {
+      entities: results.map(row => toEntity(row)),
+      total: Number(count?.total || 0),
+    };
+  }
+
+  async get(id: string): Promise<RegistryEntity | null> {
+    const row = await this.db.prepare(`
+      SELECT e.*, (SELECT COUNT(*) FROM extracted_entities x WHERE x.entity_id = e.id) AS mention_count
+      FROM entities e WHERE e.id = ?
+    `).bind(id).first();
+    return row ? toEntity(row, await this.projectIdsFor([id]).then(map => map.get(id) || [])) : null;
+  }
+
+  /**
+   * Mentions of one entity, or mentions waiting for a person (ambiguous)
+   */
+  async listMentions(query: {
+    entityId?: string;
+    resolution?: MentionResolutionState;
+    limit: number;
+    offset: number;
+  }): Promise<{ mentions: ResolvedMention[]; total: number }> {
+    let where = 'WHERE 1 = 1';
+    const params: string[] = [];
+
+    if (query.entityId) {
+      where += ' AND x.entity_id = ?';
+      params.push(query.entityId);
+    }
+    if (query.resolution) {
+      where += ' AND x.resolution = ?';
+      params.push(query.resolution);
+    }
+
+    const count = await this.db.prepare(`SELECT COUNT(*) as total FROM extracted_entities x ${where}`)
+      .bind(...params).first();
+
+    const { results } = await this.db.prepare(`
+      SELECT x.*, m.title AS meeting_title, m.date AS meeting_date
+      FROM extracted_entities x
+      LEFT JOIN meetings m ON m.id = x.meeting_id
+      ${where}
+      ORDER BY x.created_at DESC
+      LIMIT ? OFFSET ?
+    `).bind(...params, query.limit, query.offset).all();
+
+    return {
+      mentions: results.map(toMention),
+      total: Number(count?.total || 0),
+    };
+  }
+
+  /**
+   * Fold other entities and/or individual mentions into the target. The
+   * target keeps its name; the others' names become aliases. Two entities
+   * linked to different records can't be merged.
+   */
+  async merge(targetId: string, sources: { entityIds?: string[]; mentionIds?: string[] }): Promise<RegistryEntity> {
+    const target = await this.get(targetId);
+    if (!target) {
+      throw new Error(`Entity ${targetId} not found`);
+    }
+
+    const others: RegistryEntity[] = [];
+    for (const id of (sources.entityIds || []).filter(id => id !== targetId)) {
+      const entity = await this.get(id);
+      if (!entity) throw new Error(`Entity ${id} not found`);
+      if (entity.type !== target.type) throw new Error(`Entity ${id} is a ${entity.type}, not a ${target.type}`);
+      others.push(entity);
+    }
+
+    const links = [target, ...others].filter(entity => entity.linkedTable);
+    if (new Set(links.map(entity => `${entity.linkedTable}:${entity.linkedId}`)).size > 1) {
+      throw new Error('Entities linked to different records cannot be merged');
+    }
+    const link = links[0];
+
+    const mentions = await this.mentionsById(sources.mentionIds || []);
+    if (mentions.length !== new Set(sources.mentionIds || []).size) {
+      throw new Error('Mention not found');
+    }
+    const mismatched = mentions.find(mention => mention.type !== target.type);
+    if (mismatched) {
+      throw new Error(`Mention ${mismatched.id} is a ${mismatched.type}, not a ${target.type}`);
+    }
+
+    const names = [
+      ...others.flatMap(entity => [entity.name, ...entity.aliases]),
+      ...mentions.map(mention => mention.value).filter(value => isSpecificMention(target.type, value)),
+    ];
+    const aliases = [...target.aliases];
+    for (const name of names) {
+      const known = [target.name, ...aliases].some(existing => existing.toLowerCase() === name.toLowerCase());
+      if (!known) aliases.push(name);
+    }
+
+    const otherIds = others.map(entity => entity.id);
+    const statements: D1PreparedStatement[] = [];
+    for (const batch of chunked(otherIds, IN_BATCH_SIZE)) {
+      statements.push(this.db.prepare(`
+        UPDATE extracted_entities SET entity_id = ?, resolution = 'manual'
+        WHERE entity_id IN (${batch.map(() => '?').join(', ')})
+      `).bind(targetId, ...batch));
+      statements.push(this.db.prepare(`DELETE FROM entities WHERE id IN (${batch.map(() => '?').join(', ')})`).bind(...batch));
+    }
+    for (const batch of chunked(sources.mentionIds || [], IN_BATCH_SIZE)) {
+      statements.push(this.db.prepare(`
+        UPDATE extracted_entities SET entity_id = ?, resolution = 'manual'
+        WHERE id IN (${batch.map(() => '?').join(', ')})
+      `).bind(targetId, ...batch));
+    }
+    statements.push(this.db.prepare(`
+      UPDATE entities
+      SET aliases = ?, email = ?, linked_table = ?, linked_id = ?, updated_at = datetime('now')
+      WHERE id = ?
+    `).bind(
+      JSON.stringify(aliases),
+      target.email || others.find(entity => entity.email)?.email || null,
+      link?.linkedTable || null,
+      link?.linkedId || null,
+      targetId
+    ));
+    await this.db.batch(statements);
+
+    return (await this.get(targetId))!;
+  }
+
+  /**
+   * Move some of an entity's mentions to a new, unlinked entity named after
+   * them. Aliases only those mentions used move with them.
+   */
+  async split(entityId: string, mentionIds: string[], name?: string): Promise<RegistryEntity> {
+    const entity = await this.get(entityId);
+    if (!entity) {
+      throw new Error(`Entity ${entityId} not found`);
+    }
+
+    const moving = new Set(mentionIds);
+    const { results } = await this.db.prepare(`
+      SELECT id, entity_value FROM extracted_entities WHERE entity_id = ?
+    `).bind(entityId).all();
+    const moved = results.filter(row => moving.has(String(row.id))).map(row => String(row.entity_value));
+    const remaining = results.filter(row => !moving.has(String(row.id))).map(row => String(row.entity_value).toLowerCase());
+    if (moved.length !== moving.size) {
+      throw new Error(`Every mention to split off must belong to entity ${entityId}`);
+    }
+
+    // The most frequent spelling names the new entity unless one is given
+    const counts = new Map<string, number>();
+    moved.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+    const newName = name?.trim() || Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+    const newAliases = Array.from(counts.keys())
+      .filter(value => value.toLowerCase() !== newName.toLowerCase() && isSpecificMention(entity.type, value));
+    const movedNames = new Set(moved.map(value => value.toLowerCase()));
+    const keptAliases = entity.aliases.filter(alias =>
+      !movedNames.has(alias.toLowerCase()) || remaining.includes(alias.toLowerCase())
+    );
+
+    const newId = crypto.randomUUID();
+    const statements: D1PreparedStatement[] = [
+      this.db.prepare(`
+        INSERT INTO entities (id, entity_type, canonical_name, aliases, created_at, updated_at)
+        VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))
+      `).bind(newId, entity.type, newName, JSON.stringify(newAliases)),
+      this.db.prepare(`
+        UPDATE entities SET aliases = ?, updated_at = datetime('now') WHERE id = ?
+      `).bind(JSON.stringify(keptAliases), entityId),
+    ];
+    for (const batch of chunked(mentionIds, IN_BATCH_SIZE)) {
+      statements.push(this.db.prepare(`
+        UPDATE extracted_entities SET entity_id = ?, resolution = 'manual'
+        WHERE id IN (${batch.map(() => '?').join(', ')})
+      `).bind(newId, ...batch));
+    }
+    await this.db.batch(statements);
+
+    return (await this.get(newId))!;
+  }
+
+  private async loadEntities(): Promise<CanonicalEntity[]> {
+    const { results } = await this.db.prepare('SELECT * FROM entities').all();
+    const projectIds = await this.projectIdsFor();
+    return results.map(row => {
+      const entity = toEntity(row, projectIds.get(String(row.id)) || []);
+      // A project entity co-occurs with itself
+      if (entity.linkedTable === 'projects' && entity.linkedId && !entity.projectIds.includes(entity.linkedId)) {
+        entity.projectIds.push(entity.linkedId);
+      }
+      return entity;
+    });
+  }
+
+  /**
+   * Projects of the meetings each entity was mentioned in
+   */
+  private async projectIdsFor(entityIds?: string[]): Promise<Map<string, string[]>> {
+    const filter = entityIds ? `AND x.entity_id IN (${entityIds.map(() => '?').join(', ')})` : '';
+    const { results } = await this.db.prepare(`
+      SELECT DISTINCT x.entity_id, m.project_id
+      FROM extracted_entities x
+      JOIN meetings m ON m.id = x.meeting_id
+      WHERE x.entity_id IS NOT NULL AND m.project_id IS NOT NULL ${filter}
+    `).bind(...(entityIds || [])).all();
+
+    const projectIds = new Map<string, string[]>();
+    for (const row of results) {
+      const id = String(row.entity_id);
+      projectIds.set(id, [...(projectIds.get(id) || []), String(row.project_id)]);
+    }
+    return projectIds;
+  }
+
+  private async loadContexts(mentions: EntityMention[]): Promise<Map<string, MeetingContext>> {
+    const contexts = new Map<string, MeetingContext>();
+    const meetingIds = Array.from(new Set(mentions.map(mention => mention.meetingId)));
+
+    for (const batch of chunked(meetingIds, IN_BATCH_SIZE)) {
+      const { results } = await this.db.prepare(`
+        SELECT id, project_id, participants, speakers, attendee_emails
+        FROM meetings WHERE id IN (${batch.map(() => '?').join(', ')})
+      `).bind(...batch).all();
+
+      for (const row of results) {
+        contexts.set(String(row.id), {
+          participants: [
+            ...parseList(row.participants),
+            ...parseList(row.speakers),
+            ...parseList(row.attendee_emails),
+          ],
+          projectId: row.project_id != null ? String(row.project_id) : undefined,
+        });
+      }
+    }
+    return contexts;
+  }
+
+  private async mentionsById(mentionIds: string[]): Promise<ResolvedMention[]> {
+    const mentions: ResolvedMention[] = [];
+    for (const batch of chunked(Array.from(new Set(mentionIds)), IN_BATCH_SIZE)) {
+      const { results } = await this.db.prepare(`
+        SELECT * FROM extracted_entities WHERE id IN (${batch.map(() => '?').join(', ')})
+      `).bind(...batch).all();
+      mentions.push(...results.map(toMention));
+    }
+    return mentions;
+  }
+}
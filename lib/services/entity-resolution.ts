@@ -0,0 +1,377 @@
+/**
+ * Entity Resolution
+ * Clusters people, clients, subcontractors and projects mentioned across
+ * meetings into canonical entities
+ * Features:
+ * - Canonical entities for existing employees, clients, subcontractors and
+ *   projects, plus new ones for names not on file
+ * - Person names compared by first/last name, nicknames and initials
+ *   ("Mike", "Michael Johnson" and "M. Johnson")
+ * - Company and project names compared without legal suffixes, tolerating typos
+ * - Evidence from email addresses, meeting participants and the projects an
+ *   entity keeps coming up with
+ * - Lone first names never start a cluster, and close calls are left for a
+ *   person rather than guessed
+ */
+
+export type ResolvableEntityType = 'person' | 'client' | 'subcontractor' | 'project';
+export type LinkedTable = 'employees' | 'clients' | 'subcontractors' | 'projects';
+export type ResolutionStatus = 'linked' | 'created' | 'ambiguous' | 'unresolved';
+
+export const RESOLVABLE_ENTITY_TYPES: ResolvableEntityType[] = ['person', 'client', 'subcontractor', 'project'];
+
+export interface CanonicalEntity {
+  id: string;
+  type: ResolvableEntityType;
+  name: string;
+  aliases: string[];
+  email?: string;
+  linkedTable?: LinkedTable; // The record it stands for, when there is one
+  linkedId?: string;
+  projectIds: string[]; // Projects of the meetings it was mentioned in
+}
+
+export interface EntityMention {
+  id: string; // extracted_entities.id
+  meetingId: string;
+  type: ResolvableEntityType;
+  value: string;
+  context?: string;
+}
+
+export interface MeetingContext {
+  participants: string[]; // Names and/or email addresses
+  projectId?: string;
+}
+
+export interface ResolutionCandidate {
+  entityId: string;
+  name: string;
+  confidence: number;
+  reasons: string[];
+}
+
+export interface MentionResolution {
+  mentionId: string;
+  status: ResolutionStatus;
+  entityId?: string; // Set when linked or created
+  confidence: number;
+  candidates: ResolutionCandidate[]; // Best first
+}
+
+export interface ResolutionResult {
+  resolutions: MentionResolution[];
+  created: CanonicalEntity[];
+  updated: CanonicalEntity[]; // Existing entities that gained aliases or projects
+}
+
+export interface EntityResolverOptions {
+  linkThreshold?: number; // Link at or above this confidence
+  reviewThreshold?: number; // Below this a candidate isn't worth a person's time
+  ambiguityMargin?: number; // Runner-up this close to the leader forces review
+  maxCandidates?: number;
+}
+
+interface Evidence {
+  weight: number;
+  reason: string;
+}
+
+interface PersonName {
+  first?: string;
+  last?: string;
+  initial?: string; // "M. Johnson"
+}
+
+const TITLES = new Set(['mr', 'mrs', 'ms', 'miss', 'dr', 'prof']);
+
+// Formal name for common short forms; both sides are mapped before comparing
+const NICKNAMES: Record<string, string> = {
+  mike: 'michael', mikey: 'michael', mick: 'michael', bob: 'robert', rob: 'robert', bobby: 'robert',
+  bill: 'william', will: 'william', billy: 'william', jim: 'james', jimmy: 'james', dave: 'david',
+  chris: 'christopher', tom: 'thomas', tommy: 'thomas', joe: 'joseph', dan: 'daniel', danny: 'daniel',
+  matt: 'matthew', steve: 'steven', stephen: 'steven', rick: 'richard', rich: 'richard', dick: 'richard',
+  liz: 'elizabeth', beth: 'elizabeth', kate: 'katherine', kathy: 'katherine', jen: 'jennifer',
+  jenny: 'jennifer', sam: 'samuel', alex: 'alexander', nick: 'nicholas', tony: 'anthony', andy: 'andrew',
+  drew: 'andrew', ben: 'benjamin', greg: 'gregory', jeff: 'jeffrey', ken: 'kenneth', pat: 'patrick',
+  ron: 'ronald', tim: 'timothy', ed: 'edward', eddie: 'edward', ted: 'edward', sue: 'susan',
+  pete: 'peter', ray: 'raymond', charlie: 'charles', chuck: 'charles', larry: 'lawrence',
+};
+
+// Dropped before comparing company and project names
+const NAME_SUFFIXES = new Set([
+  'the', 'inc', 'llc', 'ltd', 'co', 'corp', 'corporation', 'company', 'group', 'project', 'services',
+]);
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+}
+
+/**
+ * Combine independent evidence: 1 - product of (1 - weight)
+ */
+function combine(evidence: Evidence[]): number {
+  return 1 - evidence.reduce((remaining, e) => remaining * (1 - e.weight), 1);
+}
+
+function parsePersonName(value: string): PersonName {
+  const tokens = normalize(value).split(' ').filter(token => token && !TITLES.has(token));
+  if (tokens.length === 0) return {};
+  if (tokens.length === 1) return { first: tokens[0] };
+
+  const last = tokens[tokens.length - 1];
+  return tokens[0].length === 1 ? { initial: tokens[0], last } : { first: tokens[0], last };
+}
+
+function formalName(first: string): string {
+  return NICKNAMES[first] || first;
+}
+
+/**
+ * Whether a mention names a person specifically enough to start a cluster:
+ * a first name alone could be anyone
+ */
+function isFullName(name: PersonName): boolean {
+  return Boolean(name.last && (name.first || name.initial));
+}
+
+/**
+ * Whether a mention is specific enough to name an entity or be kept as an
+ * alias; for people that takes a surname
+ */
+export function isSpecificMention(type: ResolvableEntityType, value: string): boolean {
+  return type !== 'person' || isFullName(parsePersonName(value));
+}
+
+/**
+ * How likely two person names refer to the same person, from the names alone
+ */
+function personNameScore(a: PersonName, b: PersonName): number {
+  if (isFullName(a) && isFullName(b)) {
+    if (a.last === b.last) {
+      if (a.first && b.first) {
+        if (a.first === b.first) return 1;
+        return formalName(a.first) === formalName(b.first) ? 0.95 : 0;
+      }
+      // At least one side is an initial
+      return (a.first || a.initial)![0] === (b.first || b.initial)![0] ? 0.85 : 0;
+    }
+    // Same first name and a surname one typo away
+    const sameFirst = a.first && b.first && formalName(a.first) === formalName(b.first);
+    return sameFirst && similarity(a.last!, b.last!) >= 0.8 ? 0.8 : 0;
+  }
+
+  // A single name against a full name: matches the first name or surname
+  const single = isFullName(a) ? b : a;
+  const full = isFullName(a) ? a : b;
+  if (!single.first) return 0;
+  if (full.first && formalName(single.first) === formalName(full.first)) return 0.5;
+  if (single.first === full.last) return 0.45;
+  return 0;
+}
+
+function orgWords(value: string): string[] {
+  return normalize(value).split(' ').filter(word => word && !NAME_SUFFIXES.has(word));
+}
+
+/**
+ * How likely two company or project names refer to the same thing
+ */
+function orgNameScore(a: string, b: string): number {
+  const wordsA = orgWords(a);
+  const wordsB = orgWords(b);
+  if (wordsA.length === 0 || wordsB.length === 0) return 0;
+
+  const joinedA = wordsA.join(' ');
+  const joinedB = wordsB.join(' ');
+  if (joinedA === joinedB) return 1;
+
+  // "Delta" for "Delta Mechanical": every word of the shorter name, if it
+  // has a distinctive one
+  const [shorter, longer] = wordsA.length <= wordsB.length ? [wordsA, wordsB] : [wordsB, wordsA];
+  if (shorter.every(word => longer.includes(word)) && shorter.some(word => word.length >= 4)) return 0.7;
+
+  const ratio = similarity(joinedA, joinedB);
+  return ratio >= 0.85 ? Math.round(ratio * 0.9 * 1000) / 1000 : 0;
+}
+
+function participantNames(context: MeetingContext): string[] {
+  return context.participants.filter(participant => !participant.includes('@'));
+}
+
+function participantEmails(context: MeetingContext): Set<string> {
+  const emails = new Set<string>();
+  context.participants.forEach(participant => {
+    (participant.match(EMAIL_PATTERN) || []).forEach(email => emails.add(email.toLowerCase()));
+  });
+  return emails;
+}
+
+export class EntityResolver {
+  private entities: CanonicalEntity[];
+  private linkThreshold: number;
+  private reviewThreshold: number;
+  private ambiguityMargin: number;
+  private maxCandidates: number;
+
+  constructor(entities: CanonicalEntity[], options: EntityResolverOptions = {}) {
+    this.entities = entities.map(entity => ({ ...entity, aliases: [...entity.aliases], projectIds: [...entity.projectIds] }));
+    this.linkThreshold = options.linkThreshold ?? 0.8;
+    this.reviewThreshold = options.reviewThreshold ?? 0.45;
+    this.ambiguityMargin = options.ambiguityMargin ?? 0.1;
+    this.maxCandidates = options.maxCandidates ?? 5;
+  }
+
+  /**
+   * Resolve a batch of mentions. The most specific names go first, so "Mike
+   * Johnson" is on file before a bare "Mike" from the same batch is weighed.
+   */
+  resolve(
+    mentions: EntityMention[],
+    contexts: Map<string, MeetingContext>,
+    newId: () => string = () => crypto.randomUUID()
+  ): ResolutionResult {
+    const created: CanonicalEntity[] = [];
+    const updated = new Map<string, CanonicalEntity>();
+    const specificity = (mention: EntityMention) => normalize(mention.value).split(' ').length;
+
+    const ordered = [...mentions].sort((a, b) => specificity(b) - specificity(a));
+    const resolutions = new Map<string, MentionResolution>();
+
+    for (const mention of ordered) {
+      const context = contexts.get(mention.meetingId) || { participants: [] };
+      const candidates = this.candidates(mention, context);
+      const [top, runnerUp] = candidates;
+
+      const contested = top && runnerUp && top.confidence - runnerUp.confidence < this.ambiguityMargin;
+      if (top && top.confidence >= this.linkThreshold && !contested) {
+        const entity = this.entities.find(e => e.id === top.entityId)!;
+        if (this.absorb(entity, mention, context)) updated.set(entity.id, entity);
+        resolutions.set(mention.id, { mentionId: mention.id, status: 'linked', entityId: entity.id, confidence: top.confidence, candidates });
+      } else if (top && top.confidence >= this.reviewThreshold) {
+        resolutions.set(mention.id, { mentionId: mention.id, status: 'ambiguous', confidence: top.confidence, candidates });
+      } else if (isSpecificMention(mention.type, mention.value)) {
+        const entity: CanonicalEntity = {
+          id: newId(),
+          type: mention.type,
+          name: mention.value.trim(),
+          aliases: [],
+          projectIds: context.projectId ? [context.projectId] : [],
+        };
+        this.entities.push(entity);
+        created.push(entity);
+        resolutions.set(mention.id, { mentionId: mention.id, status: 'created', entityId: entity.id, confidence: 1, candidates });
+      } else {
+        resolutions.set(mention.id, { mentionId: mention.id, status: 'unresolved', confidence: top?.confidence || 0, candidates });
+      }
+    }
+
+    return {
+      resolutions: mentions.map(mention => resolutions.get(mention.id)!),
+      created,
+      // Entities created in this batch are reported once, as created
+      updated: Array.from(updated.values()).filter(entity => !created.includes(entity)),
+    };
+  }
+
+  /**
+   * Entities of the mention's type ranked by confidence. Name similarity is
+   * required; emails, participants and projects only corroborate it.
+   */
+  candidates(mention: EntityMention, context: MeetingContext): ResolutionCandidate[] {
+    const emails = participantEmails(context);
+    const names = participantNames(context);
+    const mentionText = `${mention.value} ${mention.context || ''}`.toLowerCase();
+    const mentionName = parsePersonName(mention.value);
+
+    return this.entities
+      .filter(entity => entity.type === mention.type)
+      .map(entity => {
+        let nameScore = 0;
+        let matchedName = entity.name;
+        for (const name of [entity.name, ...entity.aliases]) {
+          const score = mention.type === 'person'
+            ? personNameScore(mentionName, parsePersonName(name))
+            : orgNameScore(mention.value, name);
+          if (score > nameScore) {
+            nameScore = score;
+            matchedName = name;
+          }
+        }
+        if (nameScore === 0) return null;
+
+        const evidence: Evidence[] = [{
+          weight: nameScore,
+          reason: nameScore === 1 ? `Same name as "${matchedName}"` : `Name resembles "${matchedName}"`,
+        }];
+
+        const email = entity.email?.toLowerCase();
+        if (email && mentionText.includes(email)) {
+          evidence.push({ weight: 0.9, reason: `${entity.email} mentioned alongside` });
+        }
+        if (mention.type === 'person') {
+          if (email && emails.has(email)) {
+            evidence.push({ weight: 0.6, reason: `${entity.email} attended` });
+          } else if (names.some(name => personNameScore(parsePersonName(name), parsePersonName(entity.name)) >= 0.95)) {
+            evidence.push({ weight: 0.6, reason: `${entity.name} attended` });
+          }
+        }
+        if (context.projectId && entity.projectIds.includes(context.projectId)) {
+          evidence.push({ weight: 0.25, reason: 'Mentioned before on the same project' });
+        }
+
+        return {
+          entityId: entity.id,
+          name: entity.name,
+          confidence: Math.round(combine(evidence) * 1000) / 1000,
+          reasons: evidence.map(e => e.reason),
+        };
+      })
+      .filter((candidate): candidate is ResolutionCandidate => candidate !== null)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, this.maxCandidates);
+  }
+
+  /**
+   * Record a linked mention's name and project on its entity; returns
+   * whether anything changed. Lone first names aren't kept as aliases, or
+   * they'd pull every "Mike" towards the first one seen.
+   */
+  private absorb(entity: CanonicalEntity, mention: EntityMention, context: MeetingContext): boolean {
+    let changed = false;
+    const value = mention.value.trim().replace(/\s+/g, ' ');
+    const known = [entity.name, ...entity.aliases].some(name => normalize(name) === normalize(value));
+    if (!known && isSpecificMention(mention.type, value)) {
+      entity.aliases.push(value);
+      changed = true;
+    }
+    if (context.projectId && !entity.projectIds.includes(context.projectId)) {
+      entity.projectIds.push(context.projectId);
+      changed = true;
+    }
+    return changed;
+  }
+}
@@ -0,0 +1,364 @@
+/**
+ * Entity Rules
+ * The regex rules SmartChunkingService extracts entities with, per tenant
+ * Features:
+ * - Generic meeting rules (people, decisions, action items, dates, ...)
+ * - Construction rules: RFIs, submittals, change orders, permits, CSI spec
+ *   sections, dollar amounts and subcontractors
+ * - Tenant rule sets as JSON, validated and compiled before use, stored in D1
+ * - Tenant rules extend the defaults unless they opt out
+ */
+
+export type EntityType =
+  | 'person' | 'project' | 'decision' | 'action_item' | 'date' | 'client' | 'risk' | 'milestone'
+  | 'rfi' | 'submittal' | 'change_order' | 'permit' | 'spec_section' | 'amount' | 'subcontractor';
+
+export const ENTITY_TYPES: EntityType[] = [
+  'person', 'project', 'decision', 'action_item', 'date', 'client', 'risk', 'milestone',
+  'rfi', 'submittal', 'change_order', 'permit', 'spec_section', 'amount', 'subcontractor',
+];
+
+export interface EntityRule {
+  pattern: RegExp; // Global; the entity value is capture group `group`
+  confidence: number;
+  group?: number; // Defaults to 1
+}
+
+export type EntityRuleSet = Partial<Record<EntityType, EntityRule[]>>;
+
+// JSON form of a rule, as tenants supply it
+export interface EntityRuleDefinition {
+  type: EntityType;
+  pattern: string;
+  flags?: string; // 'g' is always added
+  confidence: number; // 0-1
+  group?: number;
+}
+
+export interface EntityRuleConfig {
+  extendDefaults?: boolean; // Defaults to true; false uses only `rules`
+  disable?: EntityType[]; // Drop these types altogether
+  rules: EntityRuleDefinition[];
+}
+
+export interface StoredEntityRuleConfig {
+  tenantId: string;
+  config: EntityRuleConfig;
+  updatedBy?: string;
+  updatedAt: string;
+}
+
+export const DEFAULT_TENANT_ID = 'default';
+
+// Identifiers that differ by one digit ("RFI 23", "RFI 24") are different
+// entities, so these merge only on an exact identifierKey match, never by
+// fuzzy similarity
+export const IDENTIFIER_ENTITY_TYPES: ReadonlySet<EntityType> = new Set<EntityType>([
+  'rfi', 'submittal', 'change_order', 'permit', 'spec_section', 'amount',
+]);
+
+/**
+ * Comparable form of an identifier: "RFI No. 23" and "rfi #23" are both "rfi23"
+ */
+export function identifierKey(value: string): string {
+  return value.toLowerCase().replace(/\bno\.\s*/g, '').replace(/[^a-z0-9.]/g, '');
+}
+
+const TRADES = 'Electric(?:al)?|Plumbing|Mechanical|HVAC|Concrete|Steel|Drywall|Roofing|Glazing|Glass|Painting|Excavation|Framing|Masonry|Fire Protection|Landscaping|Flooring';
+// General contractors and owners also end in Construction/Builders, so those
+// suffixes aren't evidence of a sub
+const COMPANY_SUFFIXES = 'Inc\\.?|LLC|Corp\\.?|Co\\.|Company|Contractors?|Services|Group';
+// Capitalised words that start a sentence or name a time or a place on site:
+// "Tomorrow Concrete pour", "Friday Steel delivery", "Level Three Electrical"
+const NOT_NAME_WORDS = [
+  'The|Our|Their|Your|His|Her|Its|A|An|This|That|These|Those|Next|Last|Every|Each|Any|All|No|Some|Both|And|But|Or|So|If|When|Once|After|Before|Until|Then|Also|Please|Maybe',
+  'Today|Tonight|Tomorrow|Yesterday|Morning|Afternoon|Evening|Week|Weekend|Month|Monday|Tuesday|Wednesday|Thursday|Friday|Saturday|Sunday',
+  'January|February|March|April|June|July|August|September|October|November|December',
+  'One|Two|Three|Four|Five|Six|Seven|Eight|Nine|Ten|First|Second|Third|Fourth|Fifth|Ground|Upper|Lower',
+  'Level|Floor|Wing|Building|Tower|Site|Area|Zone|Phase|Lobby|Roof|Basement|Elevation|Garage|Plaza|Podium|Stair|Corridor|Room|Suite|Unit|Core',
+  'Company|Group|Services|Owner|Client|Team',
+].join('|');
+// Compass points only when a place follows, so "North Star Electric" is still a name
+const PLACE = '(?:North|South|East|West)(?:east|west)?\\s+(?:Side|End|Wing|Building|Tower|Elevation|Stair|Lot|Garage|Plaza|Core)\\b';
+const NAME_WORD = `(?!(?:${NOT_NAME_WORDS})\\b|${PLACE})[A-Z][A-Za-z&'.-]+`;
+// A "[list] [of] Capitalised Words" name
+const COMPANY_NAME = `${NAME_WORD}(?:\\s+${NAME_WORD}){0,3}`;
+// Words that put a suffix-only name ("Harbor Group") in the context of a
+// trade package, in the same speaker turn
+const TRADE_CONTEXT = 'subs?|subcontractors?|trade partners?|bids?|bidding|bidders?|quotes?|quoted|priced|pricing|proposals?|scope|crews?|installers?|mobiliz\\w*|retainage|lien|pay app\\w*|backcharges?|punch list';
+
+export const DEFAULT_ENTITY_RULES: EntityRuleSet = {
+  person: [
+    { pattern: /(?:^|\s)([A-Z][a-z]+(?:\s+[A-Z][a-z]+){1,3})(?:\s+(?:said|mentioned|asked|responded|suggested|proposed|agreed|disagreed))/g, confidence: 0.9 },
+    { pattern: /(?:^|\s)(?:Mr\.|Mrs\.|Ms\.|Dr\.|Prof\.)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/g, confidence: 0.95 },
+    { pattern: /(?:Participants?|Attendees?|Present):\s*([^,\n]+(?:,\s*[^,\n]+)*)/gi, confidence: 0.85 },
+    { pattern: /(?:@)([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/g, confidence: 0.8 },
+  ],
+
+  project: [
+    { pattern: /(?:project|Project)\s+(?:name|Name)?:?\s*"?([^"\n,]+)"?/gi, confidence: 0.9 },
+    { pattern: /(?:working on|developing|building|implementing)\s+(?:the\s+)?([A-Z][A-Za-z0-9\s\-]{3,50})\s+(?:project|system|platform)/gi, confidence: 0.85 },
+    { pattern: /(?:for\s+)?(?:the\s+)?([A-Z][A-Za-z0-9\s\-]{3,50})\s+(?:Project|Initiative|Program)/g, confidence: 0.8 },
+  ],
+
+  decision: [
+    { pattern: /(?:Decision|Decided|Agreed|Resolved|Concluded):\s*([^\n]+)/gi, confidence: 0.95 },
+    { pattern: /(?:We|The team|It was)\s+(?:decided|agreed|resolved)\s+(?:to|that)\s+([^.!?]+)[.!?]/gi, confidence: 0.85 },
+    { pattern: /(?:will|shall|must|should)\s+(?:now|going forward)\s+([^.!?]+)[.!?]/gi, confidence: 0.7 },
+  ],
+
+  action_item: [
+    { pattern: /(?:Action Item|TODO|Task|Follow-up):\s*([^\n]+)(?:\s*-\s*(?:Owner|Assigned to|Assignee):\s*([A-Za-z\s]+))?(?:\s*-\s*(?:Due|Deadline|By):\s*([^\n]+))?/gi, confidence: 0.95 },
+    { pattern: /(?:need to|needs to|will|shall)\s+([^.!?]+)\s+by\s+([^.!?]+)[.!?]/gi, confidence: 0.75 },
+    { pattern: /\[\s*\]\s*([^\n]+)(?:\s*@([A-Za-z\s]+))?/g, confidence: 0.8 },
+  ],
+
+  date: [
+    { pattern: /\b(\d{4}-\d{2}-\d{2})\b/g, confidence: 0.95 },
+    { pattern: /\b(\d{1,2}\/\d{1,2}\/\d{2,4})\b/g, confidence: 0.95 },
+    { pattern: /\b((?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\s+\d{1,2}(?:st|nd|rd|th)?(?:,?\s+\d{4})?)\b/gi, confidence: 0.9 },
+    { pattern: /\b((?:next|last|this)\s+(?:Monday|Tuesday|Wednesday|Thursday|Friday|Saturday|Sunday|week|month|quarter|year))\b/gi, confidence: 0.8 },
+  ],
+
+  client: [
+    { pattern: /(?:client|Client|customer|Customer)\s+(?:name|Name)?:?\s*"?([^"\n,]{2,50})"?/gi, confidence: 0.9 },
+    { pattern: /(?:for|with|from)\s+(?:client|customer)\s+([A-Z][A-Za-z0-9\s\-&]{2,50})(?:\s|,|\.)/gi, confidence: 0.85 },
+  ],
+
+  risk: [
+    { pattern: /(?:Risk|Issue|Concern|Problem|Blocker):\s*([^\n]+)/gi, confidence: 0.9 },
+    { pattern: /(?:risk|issue|concern|problem)\s+(?:is|are)\s+(?:that\s+)?([^.!?]+)[.!?]/gi, confidence: 0.8 },
+    { pattern: /(?:may|might|could)\s+(?:cause|lead to|result in)\s+([^.!?]+)[.!?]/gi, confidence: 0.7 },
+  ],
+
+  milestone: [
+    { pattern: /(?:Milestone|Deliverable|Deadline):\s*([^\n]+)/gi, confidence: 0.9 },
+    { pattern: /(?:complete|deliver|finish|launch)\s+(?:by|on)\s+([^.!?]+)[.!?]/gi, confidence: 0.75 },
+  ],
+
+  // "RFI 23", "RFI #023", "RFI-7", "RFI No. 12"
+  rfi: [
+    { pattern: /\b(RFI\s*(?:#|No\.)?\s*-?\s*\d{1,4})\b/gi, confidence: 0.95 },
+  ],
+
+  // "Submittal 14", "submittal #3.1", "submittal 08 71 00-2"
+  submittal: [
+    { pattern: /\b(submittal\s*(?:#|No\.)?\s*-?\s*(?:\d{2}\s\d{2}\s\d{2}|\d{6}|\d{1,4})(?:[-.]\d{1,3})?)\b/gi, confidence: 0.9 },
+  ],
+
+  // "Change Order 7", "CO #12", "PCO-4", "COR 3"
+  change_order: [
+    { pattern: /\b(change order\s*(?:#|No\.)?\s*-?\s*\d{1,4})\b/gi, confidence: 0.95 },
+    { pattern: /\b((?:P?CO|COR)(?:\s*[#-]\s*|\s+)\d{1,4})\b/g, confidence: 0.85 }, // Not CO2
+  ],
+
+  // The permit number: "permit #BLD-2024-01234", "permit number E24-5567"
+  permit: [
+    { pattern: /\bpermit\s*(?:#|No\.|number)\s*:?\s*([A-Z0-9]+(?:-[A-Z0-9]+)+|[A-Z]{0,4}\d{4,})\b/gi, confidence: 0.95 },
+    { pattern: /\b((?:BLD|BP|ELEC|PLB|MECH|GRD|ROW|DEMO|FIRE)-\d{2,4}-\d{3,6})\b/g, confidence: 0.85 },
+  ],
+
+  // CSI MasterFormat: "Section 09 21 16", "spec 033000", "07 92 00.13"
+  spec_section: [
+    { pattern: /\b(?:spec(?:ification)?s?|section)\s+(\d{2}\s?\d{2}\s?\d{2}(?:\.\d{2})?)\b/gi, confidence: 0.95 },
+    { pattern: /\b([0-4]\d \d{2} \d{2}(?:\.\d{2})?)\b/g, confidence: 0.8 },
+  ],
+
+  // "$45,000", "$1.2M", "$350k", "12,500 dollars"
+  amount: [
+    { pattern: /(\$\s?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?(?:\s?(?:million|thousand)\b|[kKmM]\b)?)/g, confidence: 0.95 },
+    { pattern: /\b((?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?\s+dollars)\b/gi, confidence: 0.85 },
+  ],
+
+  // "Bright Line Electric", "Delta Mechanical Inc.", "our drywall sub, Summit Interiors";
+  // a name with only a company suffix needs a bid, scope or sub nearby
+  subcontractor: [
+    { pattern: new RegExp(`\\b(${COMPANY_NAME}\\s+(?:${TRADES})(?:\\s+(?:${COMPANY_SUFFIXES}))?)`, 'g'), confidence: 0.85 },
+    { pattern: new RegExp(`\\b(?:sub(?:contractor)?|trade partner),?\\s+(?:is\\s+)?(${COMPANY_NAME})`, 'g'), confidence: 0.8 },
+    {
+      pattern: new RegExp(
+        `\\b(${COMPANY_NAME}\\s+(?:${COMPANY_SUFFIXES}))(?=[\\s,.;:]|$)(?:(?<=\\b(?:${TRADE_CONTEXT})\\b[^\\n]{0,200})|(?=[^\\n]{0,200}\\b(?:${TRADE_CONTEXT})\\b))`,
+        'g'
+      ),
+      confidence: 0.7,
+    },
+  ],
+};
+
+// Longest tenant pattern accepted
+const MAX_PATTERN_LENGTH = 500;
+
+/**
+ * Why a tenant pattern could backtrack catastrophically, or null. Rejects
+ * backreferences, and repeating with +, * or {n,} a group that itself
+ * repeats or has alternatives, e.g. "(a+)+", "(\w+\s?)*", "(a|ab)+".
+ * Conservative: some safe patterns are rejected too.
+ */
+export function findBacktrackingRisk(pattern: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) return `pattern is longer than ${MAX_PATTERN_LENGTH} characters`;
+  if (/\\(?:[1-9]|k<)/.test(pattern)) return 'backreferences are not allowed';
+
+  // Per open group: whether it repeats something or has alternatives
+  const groups: Array<{ repeats: boolean; alternates: boolean }> = [{ repeats: false, alternates: false }];
+  const unboundedAt = (i: number) => /^(?:[+*]|\{\d+,\})/.test(pattern.slice(i));
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Skip the character class
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push({ repeats: false, alternates: false });
+    } else if (char === '|') {
+      groups[groups.length - 1].alternates = true;
+    } else if (char === ')' && groups.length > 1) {
+      const group = groups.pop()!;
+      if (unboundedAt(i + 1) && (group.repeats || group.alternates)) {
+        return `repeated group "${pattern.slice(0, i + 2).slice(-40)}" contains ${group.repeats ? 'a repeat' : 'alternatives'}`;
+      }
+      if (group.repeats || unboundedAt(i + 1)) groups[groups.length - 1].repeats = true;
+    } else if (unboundedAt(i)) {
+      groups[groups.length - 1].repeats = true;
+    }
+  }
+
+  return null;
+}
+
+// A tenant rule's flags as compiled: its own, once each, plus 'g'
+function ruleFlags(flags: string | undefined): string {
+  return Array.from(new Set(`${flags || ''}g`)).join('');
+}
+
+/**
+ * Check a tenant's JSON rule config; returns every problem found, or null
+ */
+export function validateEntityRuleConfig(input: unknown): string | null {
+  const config = input as Partial<EntityRuleConfig> | null;
+  if (!config || typeof config !== 'object' || !Array.isArray(config.rules)) {
+    return 'Entity rule config must be an object with a rules array';
+  }
+
+  const problems: string[] = [];
+  if (config.extendDefaults !== undefined && typeof config.extendDefaults !== 'boolean') {
+    problems.push('extendDefaults must be true or false');
+  }
+  if (config.disable !== undefined && !Array.isArray(config.disable)) {
+    problems.push('disable must be an array of entity types');
+  }
+  for (const type of Array.isArray(config.disable) ? config.disable : []) {
+    if (!ENTITY_TYPES.includes(type)) problems.push(`disable: unknown entity type "${type}"`);
+  }
+
+  config.rules.forEach((rule, i) => {
+    if (!ENTITY_TYPES.includes(rule?.type)) problems.push(`rules[${i}]: unknown entity type "${rule?.type}"`);
+    if (typeof rule?.confidence !== 'number' || rule.confidence < 0 || rule.confidence > 1) {
+      problems.push(`rules[${i}]: confidence must be between 0 and 1`);
+    }
+    if (rule?.group !== undefined && (!Number.isInteger(rule.group) || rule.group < 0)) {
+      problems.push(`rules[${i}]: group must be a capture group number`);
+    }
+    const validFlags = rule?.flags === undefined || (typeof rule.flags === 'string' && /^[gimsuy]*$/.test(rule.flags));
+    if (!validFlags) {
+      problems.push(`rules[${i}]: flags may only contain g, i, m, s, u and y`);
+    } else if (rule.flags && new Set(rule.flags).size !== rule.flags.length) {
+      problems.push(`rules[${i}]: flags may not repeat`);
+    }
+    if (typeof rule?.pattern !== 'string') {
+      problems.push(`rules[${i}]: pattern must be a string`);
+    } else {
+      try {
+        // Compiled as extraction will, so flags such as 'u' apply
+        new RegExp(rule.pattern, validFlags ? ruleFlags(rule.flags) : 'g');
+        const risk = findBacktrackingRisk(rule.pattern);
+        if (risk) problems.push(`rules[${i}]: pattern could backtrack catastrophically (${risk})`);
+      } catch (error) {
+        problems.push(`rules[${i}]: invalid pattern (${error instanceof Error ? error.message : error})`);
+      }
+    }
+  });
+
+  return problems.length > 0 ? problems.join('; ') : null;
+}
+
+/**
+ * Turn a validated config into the rule set extraction runs: the defaults
+ * (unless opted out), then the tenant's rules, minus disabled types
+ */
+export function compileEntityRules(config: EntityRuleConfig): EntityRuleSet {
+  const rules: EntityRuleSet = {};
+  if (config.extendDefaults !== false) {
+    for (const [type, typeRules] of Object.entries(DEFAULT_ENTITY_RULES)) {
+      rules[type as EntityType] = [...typeRules];
+    }
+  }
+
+  for (const definition of config.rules) {
+    (rules[definition.type] ||= []).push({
+      pattern: new RegExp(definition.pattern, ruleFlags(definition.flags)),
+      confidence: definition.confidence,
+      group: definition.group,
+    });
+  }
+
+  for (const type of config.disable || []) {
+    delete rules[type];
+  }
+  return rules;
+}
+
+export class EntityRuleStore {
+  constructor(private db: D1Database) {}
+
+  async get(tenantId: string): Promise<StoredEntityRuleConfig | null> {
+    const row = await this.db.prepare(
+      'SELECT * FROM entity_rule_sets WHERE tenant_id = ?'
+    ).bind(tenantId).first<Record<string, unknown>>();
+    if (!row) return null;
+
+    return {
+      tenantId: String(row.tenant_id),
+      config: JSON.parse(String(row.config)) as EntityRuleConfig,
+      updatedBy: (row.updated_by as string) || undefined,
+      updatedAt: row.updated_at as string,
+    };
+  }
+
+  /**
+   * Save a tenant's rules (checked with validateEntityRuleConfig), replacing
+   * any previous set
+   */
+  async save(tenantId: string, config: EntityRuleConfig, updatedBy?: string): Promise<StoredEntityRuleConfig | null> {
+    await this.db.prepare(`
+      INSERT INTO entity_rule_sets (tenant_id, config, updated_by, created_at, updated_at)
+      VALUES (?, ?, ?, datetime('now'), datetime('now'))
+      ON CONFLICT(tenant_id) DO UPDATE SET
+        config = excluded.config,
+        updated_by = excluded.updated_by,
+        updated_at = datetime('now')
+    `).bind(tenantId, JSON.stringify(config), updatedBy || null).run();
+    return this.get(tenantId);
+  }
+
+  /**
+   * The compiled rules for a tenant. A missing or unreadable rule set falls
+   * back to the defaults so extraction never blocks ingestion.
+   */
+  async load(tenantId: string = DEFAULT_TENANT_ID): Promise<EntityRuleSet> {
+    try {
+      const stored = await this.get(tenantId);
+      if (!stored) return DEFAULT_ENTITY_RULES;
+
+      const invalid = validateEntityRuleConfig(stored.config);
+      if (invalid) throw new Error(invalid);
+      return compileEntityRules(stored.config);
+    } catch (error) {
+      console.warn(`Entity rules for tenant ${tenantId} unavailable, using defaults:`, error);
+      return DEFAULT_ENTITY_RULES;
+    }
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * Grounded Chat Service
+ * Retrieval-augmented answers over meeting transcripts with inline citations
+ * Features:
+ * - Numbered source blocks built from retrieved passages
+ * - Prompt that restricts the model to the supplied sources
+ * - [n] markers in the answer mapped back to meeting/chunk citations
+ * - Token streaming with abort support
+ * - Conversation memory and follow-up question rewriting
+ * - Project scoping with structured project facts
+ */
+
+import { OpenAI } from 'openai';
+import { formatTimestamp } from '../utils';
+
+export interface RetrievedSource {
+  meetingId: string;
+  title: string;
+  date?: string;
+  chunkId: string;
+  speaker?: string;
+  timestamp?: number; // Seconds from the start of the meeting
+  content: string;
+}
+
+export interface ChatCitation {
+  index: number; // Matches the [n] marker in the answer
+  meetingId: string;
+  title: string;
+  date?: string;
+  chunkId: string;
+  speaker?: string;
+  timestamp?: number;
+}
+
+export interface GroundedAnswer {
+  response: string;
+  citations: ChatCitation[];
+}
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ProjectScope {
+  projectTitle: string;
+  facts: string; // Rendered by formatProjectFacts
+}
+
+export interface GroundedAnswerOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  history?: ConversationTurn[]; // Earlier turns, oldest first
+  scope?: ProjectScope;
+}
+
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+const SYSTEM_PROMPT = `You are the Alleato assistant. Answer questions using only the meeting transcript excerpts provided as numbered sources.
+- Cite every factual statement with the number of its source in square brackets, e.g. [1] or [2][3].
+- Only cite sources you actually used.
+- If the sources don't contain the answer, say that you couldn't find it in the meeting transcripts. Do not guess.
+- Keep answers concise and use markdown for lists.`;
+
+/**
+ * Render sources as numbered blocks for the prompt
+ */
+export function formatSources(sources: RetrievedSource[]): string {
+  return sources.map((source, i) => {
+    const details = [
+      source.date ? new Date(source.date).toLocaleDateString() : null,
+      source.speaker ? `speaker: ${source.speaker}` : null,
+      source.timestamp !== undefined ? `at ${formatTimestamp(source.timestamp)}` : null,
+    ].filter(Boolean).join(', ');
+
+    return `[${i + 1}] "${source.title}"${details ? ` (${details})` : ''}\n${source.content.trim()}`;
+  }).join('\n\n');
+}
+
+export const PROJECT_NO_INFO_RESPONSE = "I don't have information on that for this project.";
+
+function scopePrompt(scope: ProjectScope): string {
+  return `This conversation is about the project "${scope.projectTitle}". The sources only come from that project's meetings.
+Project facts from the project database (use them without citation markers):
+${scope.facts}
+
+Only answer about this project. If neither the sources nor the project facts answer the question, reply exactly: "${PROJECT_NO_INFO_RESPONSE}"`;
+}
+
+const REWRITE_PROMPT = `Rewrite the user's latest message as a standalone search question for a meeting transcript database.
+- Resolve references to earlier turns ("the second one", "that project", "he") into the names or topics they refer to.
+- Keep it short and keep the user's wording where possible.
+- If the message is already standalone, return it unchanged.
+Respond with the question only.`;
+
+/**
+ * Earlier answers cite sources from their own turn, so drop their markers
+ */
+function stripCitationMarkers(text: string): string {
+  return text.replace(/\[\d+\]/g, '').replace(/[ \t]+\n/g, '\n').trim();
+}
+
+/**
+ * Build the chat messages for a grounded answer
+ */
+export function buildGroundedPrompt(
+  question: string,
+  sources: RetrievedSource[],
+  history: ConversationTurn[] = [],
+  scope?: ProjectScope
+): Array<{ role: 'system' | 'user' | 'assistant'; content: string }> {
+  const sourceBlock = sources.length > 0 ? formatSources(sources) : '(no matching transcript excerpts)';
+
+  return [
+    { role: 'system', content: scope ? `${SYSTEM_PROMPT}\n\n${scopePrompt(scope)}` : SYSTEM_PROMPT },
+    ...history.map(turn => ({ role: turn.role, content: stripCitationMarkers(turn.content) })),
+    {
+      role: 'user',
+      content: `Sources:\n\n${sourceBlock}\n\nQuestion: ${question}`,
+    },
+  ];
+}
+
+/**
+ * Turn a follow-up ("what about the second one?") into a standalone
+ * question that retrieval can work with. Returns the question unchanged
+ * when there is no history or the rewrite fails.
+ */
+export async function rewriteFollowUpQuestion(
+  openai: OpenAI,
+  history: ConversationTurn[],
+  question: string,
+  options: Pick<GroundedAnswerOptions, 'model' | 'signal'> = {}
+): Promise<string> {
+  if (history.length === 0) return question;
+
+  const transcript = history
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${stripCitationMarkers(turn.content)}`)
+    .join('\n');
+
+  try {
+    const completion = await openai.chat.completions.create({
+      model: options.model || DEFAULT_MODEL,
+      messages: [
+        { role: 'system', content: REWRITE_PROMPT },
+        { role: 'user', content: `Conversation:\n${transcript}\n\nLatest message: ${question}` },
+      ],
+      temperature: 0,
+      max_tokens: 100,
+    }, { signal: options.signal });
+
+    const rewritten = completion.choices[0]?.message?.content?.trim();
+    return rewritten || question;
+  } catch (error) {
+    console.error('Question rewriting failed:', error);
+    return question;
+  }
+}
+
+/**
+ * Map the [n] markers used in an answer back to their sources.
+ * Markers that don't match a source are stripped from the text.
+ */
+export function extractCitations(
+  answer: string,
+  sources: RetrievedSource[]
+): GroundedAnswer {
+  const used = new Set<number>();
+
+  const response = answer.replace(/\[(\d+)\]/g, (marker, n) => {
+    const index = Number(n);
+    if (index < 1 || index > sources.length) return '';
+    used.add(index);
+    return marker;
+  });
+
+  const citations = Array.from(used)
+    .sort((a, b) => a - b)
+    .map(index => toCitation(sources[index - 1], index));
+
+  return { response, citations };
+}
+
+/**
+ * Citation for a source, numbered as in the prompt (1-based)
+ */
+export function toCitation(source: RetrievedSource, index: number): ChatCitation {
+  return {
+    index,
+    meetingId: source.meetingId,
+    title: source.title,
+    date: source.date,
+    chunkId: source.chunkId,
+    speaker: source.speaker,
+    timestamp: source.timestamp,
+  };
+}
+
+/**
+ * Ask the model to answer from the given sources and return the answer
+ * with its citations
+ */
+export async function generateGroundedAnswer(
+  openai: OpenAI,
+  question: string,
+  sources: RetrievedSource[],
+  options: GroundedAnswerOptions = {}
+): Promise<GroundedAnswer> {
+  const completion = await openai.chat.completions.create({
+    model: options.model || DEFAULT_MODEL,
+    messages: buildGroundedPrompt(question, sources, options.history, options.scope),
+    temperature: options.temperature ?? 0.2,
+    max_tokens: options.maxTokens ?? 800,
+  }, { signal: options.signal });
+
+  const answer = completion.choices[0]?.message?.content || '';
+  return extractCitations(answer, sources);
+}
+
+/**
+ * Stream the answer token by token. Citations are resolved by the caller
+ * with extractCitations once the full text is known.
+ */
+export async function* streamGroundedAnswer(
+  openai: OpenAI,
+  question: string,
+  sources: RetrievedSource[],
+  options: GroundedAnswerOptions = {}
+): AsyncGenerator<string> {
+  const stream = await openai.chat.completions.create({
+    model: options.model || DEFAULT_MODEL,
+    messages: buildGroundedPrompt(question, sources, options.history, options.scope),
+    temperature: options.temperature ?? 0.2,
+    max_tokens: options.maxTokens ?? 800,
+    stream: true,
+  }, { signal: options.signal });
+
+  for await (const chunk of stream) {
+    const token = chunk.choices[0]?.delta?.content;
+    if (token) yield token;
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * Hybrid Search Service
+ * Fuses BM25 keyword hits from the search_fts index with vector hits from
+ * chunk embeddings using reciprocal rank fusion (RRF)
+ * Features:
+ * - FTS5 keyword retrieval over meetings, chunks, tasks and projects
+ * - Cosine-similarity retrieval via any VectorIndex
+ * - Per-source and per-retriever weights
+ * - Unified result type recording which retrievers matched
+ */
+
+import { OpenAI } from 'openai';
+import { VectorIndex } from './vector-search';
+
+export type SearchSource = 'meeting' | 'chunk' | 'task' | 'project';
+export type Retriever = 'keyword' | 'vector';
+
+export type QueryEmbedder = (text: string) => Promise<number[]>;
+
+export interface HybridSearchResult {
+  id: string;
+  sourceType: SearchSource;
+  title: string;
+  snippet: string;
+  meetingId?: string;
+  projectId?: string;
+  date?: string;
+  score: number;
+  matchedBy: Retriever[];
+  keywordRank?: number;
+  vectorRank?: number;
+  bm25?: number;
+  similarity?: number;
+}
+
+export interface HybridSearchOptions {
+  limit?: number;
+  projectId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  sources?: SearchSource[];
+  sourceWeights?: Partial<Record<SearchSource, number>>;
+  retrieverWeights?: Partial<Record<Retriever, number>>;
+  rrfK?: number;
+  candidateLimit?: number;
+  minSimilarity?: number;
+  embedQuery?: QueryEmbedder;
+  vectorIndex?: VectorIndex;
+}
+
+export const DEFAULT_SOURCE_WEIGHTS: Record<SearchSource, number> = {
+  project: 1.2,
+  meeting: 1.0,
+  chunk: 1.0,
+  task: 0.9,
+};
+
+export const DEFAULT_RETRIEVER_WEIGHTS: Record<Retriever, number> = {
+  keyword: 1.0,
+  vector: 1.0,
+};
+
+const ALL_SOURCES: SearchSource[] = ['meeting', 'chunk', 'task', 'project'];
+const DEFAULT_RRF_K = 60;
+const DEFAULT_CANDIDATE_LIMIT = 50;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'what', 'when', 'where', 'who', 'how',
+  'with', 'about', 'that', 'this', 'from', 'have', 'has', 'did', 'does',
+]);
+
+/**
+ * Turn free text into an FTS5 MATCH expression.
+ * Every term is quoted (so user input can't inject FTS syntax) and
+ * prefix-matched, and terms are OR'ed so BM25 does the ranking.
+ */
+export function buildFtsQuery(query: string): string | null {
+  const terms = (query.toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term));
+
+  const unique = Array.from(new Set(terms));
+  if (unique.length === 0) return null;
+
+  return unique
+    .map(term => (term.length >= 3 ? `"${term}"*` : `"${term}"`))
+    .join(' OR ');
+}
+
+/**
+ * Reciprocal rank fusion: each list contributes weight / (k + rank)
+ * for every item it contains. Ranks are 1-based.
+ */
+export function reciprocalRankFusion<T extends { key: string }>(
+  lists: Array<{ items: T[]; weight?: number }>,
+  k: number = DEFAULT_RRF_K
+): Map<string, number> {
+  const scores = new Map<string, number>();
+
+  for (const { items, weight = 1 } of lists) {
+    items.forEach((item, index) => {
+      const contribution = weight / (k + index + 1);
+      scores.set(item.key, (scores.get(item.key) || 0) + contribution);
+    });
+  }
+
+  return scores;
+}
+
+export interface SearchCandidate extends Omit<HybridSearchResult, 'score' | 'matchedBy'> {
+  key: string;
+}
+
+/**
+ * BM25 retrieval from the search_fts table
+ */
+export async function keywordSearch(
+  db: D1Database,
+  query: string,
+  options: HybridSearchOptions = {}
+): Promise<SearchCandidate[]> {
+  const match = buildFtsQuery(query);
+  if (!match) return [];
+
+  const sources = options.sources || ALL_SOURCES;
+  let sql = `
+    SELECT
+      source_type,
+      source_id,
+      title,
+      snippet(search_fts, 1, '', '', '…', 24) as snippet,
+      meeting_id,
+      project_id,
+      date,
+      bm25(search_fts, 4.0, 1.0) as bm25
+    FROM search_fts
+    WHERE search_fts MATCH ?
+      AND source_type IN (${sources.map(() => '?').join(', ')})
+  `;
+  const params: (string | number)[] = [match, ...sources];
+
+  if (options.projectId) {
+    sql += ` AND project_id = ?`;
+    params.push(options.projectId);
+  }
+  if (options.dateFrom) {
+    sql += ` AND (date IS NULL OR date >= ?)`;
+    params.push(options.dateFrom);
+  }
+  if (options.dateTo) {
+    sql += ` AND (date IS NULL OR date <= ?)`;
+    params.push(options.dateTo);
+  }
+
+  // bm25() is lower-is-better in SQLite
+  sql += ` ORDER BY bm25 ASC LIMIT ?`;
+  params.push(options.candidateLimit ?? DEFAULT_CANDIDATE_LIMIT);
+
+  const { results } = await db.prepare(sql).bind(...params).all();
+
+  return results.map((row, index) => ({
+    key: `${row.source_type}:${row.source_id}`,
+    id: String(row.source_id),
+    sourceType: row.source_type as SearchSource,
+    title: (row.title as string) || '',
+    snippet: (row.snippet as string) || '',
+    meetingId: (row.meeting_id as string) || undefined,
+    projectId: (row.project_id as string) || undefined,
+    date: (row.date as string) || undefined,
+    keywordRank: index + 1,
+    bm25: row.bm25 as number,
+  }));
+}
+
+/**
+ * Cosine-similarity retrieval over chunk embeddings
+ */
+export async function semanticSearch(
+  db: D1Database,
+  query: string,
+  options: HybridSearchOptions = {}
+): Promise<SearchCandidate[]> {
+  const { embedQuery, vectorIndex } = options;
+  if (!embedQuery || !vectorIndex) return [];
+  if (options.sources && !options.sources.includes('chunk')) return [];
+
+  const embedding = await embedQuery(query);
+  const matches = await vectorIndex.query(embedding, {
+    topK: options.candidateLimit ?? DEFAULT_CANDIDATE_LIMIT,
+    minScore: options.minSimilarity ?? 0.2,
+    filter: options.projectId ? { projectId: options.projectId } : undefined,
+  });
+  if (matches.length === 0) return [];
+
+  const { results } = await db.prepare(`
+    SELECT
+      mc.id,
+      mc.meeting_id,
+      mc.content,
+      mc.speaker,
+      m.title as meeting_title,
+      m.date as meeting_date,
+      m.project_id
+    FROM meeting_chunks mc
+    JOIN meetings m ON mc.meeting_id = m.id
+    WHERE mc.id IN (${matches.map(() => '?').join(', ')})
+  `).bind(...matches.map(match => match.id)).all();
+  const rowsById = new Map(results.map(row => [row.id as string, row]));
+
+  const candidates: SearchCandidate[] = [];
+  for (const match of matches) {
+    const row = rowsById.get(match.id);
+    if (!row) continue;
+
+    const date = (row.meeting_date as string) || undefined;
+    if (options.dateFrom && date && date < options.dateFrom) continue;
+    if (options.dateTo && date && date > options.dateTo) continue;
+
+    candidates.push({
+      key: `chunk:${match.id}`,
+      id: match.id,
+      sourceType: 'chunk',
+      title: (row.meeting_title as string) || '',
+      snippet: ((row.content as string) || '').substring(0, 300),
+      meetingId: row.meeting_id as string,
+      projectId: (row.project_id as string) || undefined,
+      date,
+      vectorRank: candidates.length + 1,
+      similarity: match.score,
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Run keyword and vector retrieval and fuse them with weighted RRF
+ */
+export async function hybridSearch(
+  db: D1Database,
+  query: string,
+  options: HybridSearchOptions = {}
+): Promise<HybridSearchResult[]> {
+  const sourceWeights = { ...DEFAULT_SOURCE_WEIGHTS, ...options.sourceWeights };
+  const retrieverWeights = { ...DEFAULT_RETRIEVER_WEIGHTS, ...options.retrieverWeights };
+
+  const [keywordHits, vectorHits] = await Promise.all([
+    keywordSearch(db, query, options).catch(error => {
+      console.error('Keyword search failed:', error);
+      return [] as SearchCandidate[];
+    }),
+    semanticSearch(db, query, options).catch(error => {
+      console.error('Vector search failed:', error);
+      return [] as SearchCandidate[];
+    }),
+  ]);
+
+  const fused = reciprocalRankFusion([
+    { items: keywordHits, weight: retrieverWeights.keyword },
+    { items: vectorHits, weight: retrieverWeights.vector },
+  ], options.rrfK ?? DEFAULT_RRF_K);
+
+  // Merge what each retriever knows about an item
+  const merged = new Map<string, HybridSearchResult>();
+  const add = (candidate: SearchCandidate, retriever: Retriever) => {
+    const { key, ...fields } = candidate;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.matchedBy.push(retriever);
+      existing.vectorRank = existing.vectorRank ?? fields.vectorRank;
+      existing.similarity = existing.similarity ?? fields.similarity;
+      existing.keywordRank = existing.keywordRank ?? fields.keywordRank;
+      existing.bm25 = existing.bm25 ?? fields.bm25;
+      return;
+    }
+    merged.set(key, {
+      ...fields,
+      score: (fused.get(key) || 0) * (sourceWeights[fields.sourceType] ?? 1),
+      matchedBy: [retriever],
+    });
+  };
+
+  keywordHits.forEach(hit => add(hit, 'keyword'));
+  vectorHits.forEach(hit => add(hit, 'vector'));
+
+  return Array.from(merged.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? 10);
+}
+
+/**
+ * Query embedder backed by OpenAI, matching the model used to embed chunks
+ */
+export function createOpenAIEmbedder(apiKey: string, model: string = 'text-embedding-3-small'): QueryEmbedder {
+  const openai = new OpenAI({ apiKey });
+  return async (text: string) => {
+    const response = await openai.embeddings.create({ model, input: text });
+    return response.data[0].embedding;
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Leadership Metrics
+ * Portfolio queries behind the leadership dashboard and the generated reports
+ * Features:
+ * - Headline project counts and active pipeline value
+ * - Recent activity: meetings held and tasks completed
+ * - Projects needing attention: high priority, overdue tasks or due within 30 days
+ */
+
+export interface PortfolioMetrics {
+  active_projects: number;
+  completed_projects: number;
+  active_project_value: number;
+  critical_projects: number;
+  high_priority_projects: number;
+}
+
+export interface ActivityItem {
+  activity_type: 'meeting' | 'task_completed';
+  title: string;
+  activity_date: string;
+  project_id: string | null;
+}
+
+export interface AttentionProject {
+  id: string;
+  title: string;
+  status: string;
+  priority: string | null;
+  client_name: string | null;
+  estimated_completion: string | null;
+  open_tasks_count: number;
+  overdue_tasks_count: number;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+export async function getPortfolioMetrics(db: D1Database): Promise<PortfolioMetrics> {
+  const metrics = await db.prepare(`
+    SELECT
+      COUNT(CASE WHEN status IN ('planning', 'active') THEN 1 END) as active_projects,
+      COUNT(CASE WHEN status = 'completed' THEN 1 END) as completed_projects,
+      COALESCE(SUM(CASE WHEN status IN ('planning', 'active') THEN estimated_value END), 0) as active_project_value,
+      COUNT(CASE WHEN priority = 'critical' THEN 1 END) as critical_projects,
+      COUNT(CASE WHEN priority = 'high' THEN 1 END) as high_priority_projects
+    FROM projects
+  `).first<PortfolioMetrics>();
+
+  return metrics || {
+    active_projects: 0,
+    completed_projects: 0,
+    active_project_value: 0,
+    critical_projects: 0,
+    high_priority_projects: 0,
+  };
+}
+
+/**
+ * Meetings and completed tasks in the `days` before `asOf`, newest first;
+ * pass `projectId` to limit them to one project
+ */
+export async function getRecentActivity(
+  db: D1Database,
+  options: { asOf?: Date; days?: number; limit?: number; projectId?: string } = {}
+): Promise<ActivityItem[]> {
+  const since = new Date((options.asOf || new Date()).getTime() - (options.days ?? 7) * 24 * 60 * 60 * 1000);
+  const projectFilter = options.projectId ? 'AND project_id = ?' : '';
+  const params: (string | number)[] = options.projectId
+    ? [toDateString(since), options.projectId, toDateString(since), options.projectId]
+    : [toDateString(since), toDateString(since)];
+
+  const { results } = await db.prepare(`
+    SELECT
+      'meeting' as activity_type,
+      title,
+      date as activity_date,
+      project_id
+    FROM meetings
+    WHERE date >= ? ${projectFilter}
+
+    UNION ALL
+
+    SELECT
+      'task_completed' as activity_type,
+      title,
+      completed_date as activity_date,
+      project_id
+    FROM tasks
+    WHERE completed_date >= ? ${projectFilter}
+
+    ORDER BY activity_date DESC
+    LIMIT ?
+  `).bind(...params, options.limit ?? 10).all<ActivityItem>();
+
+  return results;
+}
+
+export async function getProjectsNeedingAttention(
+  db: D1Database,
+  options: { asOf?: Date; limit?: number } = {}
+): Promise<AttentionProject[]> {
+  const asOf = options.asOf || new Date();
+  const horizon = new Date(asOf.getTime() + 30 * 24 * 60 * 60 * 1000);
+
+  const { results } = await db.prepare(`
+    SELECT
+      p.id,
+      p.title,
+      p.status,
+      p.priority,
+      c.company_name as client_name,
+      p.estimated_completion,
+      COALESCE(open_tasks.count, 0) as open_tasks_count,
+      COALESCE(overdue_tasks.count, 0) as overdue_tasks_count
+    FROM projects p
+    LEFT JOIN clients c ON p.client_id = c.id
+    LEFT JOIN (
+      SELECT project_id, COUNT(*) as count
+      FROM tasks
+      WHERE status != 'completed'
+      GROUP BY project_id
+    ) open_tasks ON p.id = open_tasks.project_id
+    LEFT JOIN (
+      SELECT project_id, COUNT(*) as count
+      FROM tasks
+      WHERE status != 'completed' AND due_date < ?
+      GROUP BY project_id
+    ) overdue_tasks ON p.id = overdue_tasks.project_id
+    WHERE p.status IN ('planning', 'active')
+    AND (
+      p.priority IN ('critical', 'high')
+      OR overdue_tasks.count > 0
+      OR p.estimated_completion <= ?
+    )
+    ORDER BY
+      CASE p.priority
+        WHEN 'critical' THEN 1
+        WHEN 'high' THEN 2
+        ELSE 3
+      END,
+      overdue_tasks.count DESC,
+      p.estimated_completion ASC
+    LIMIT ?
+  `).bind(toDateString(asOf), toDateString(horizon), options.limit ?? 8).all<AttentionProject>();
+
+  return results;
+}
@@ -0,0 +1,96 @@
+/**
+ * List Query Params
+ * Shared parsing of pagination, date-range and sort parameters for list endpoints
+ * Features:
+ * - page/limit pagination with bounds
+ * - from/to date filters (YYYY-MM-DD or ISO timestamps)
+ * - sort field whitelisting so values can be interpolated into SQL safely
+ */
+
+export interface ListParams<TSort extends string> {
+  page: number;
+  limit: number;
+  offset: number;
+  dateFrom?: string;
+  dateTo?: string;
+  sort: TSort;
+  order: 'ASC' | 'DESC';
+}
+
+export interface PaginationMeta {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+  hasMore: boolean;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+function parseDate(value: string | null): string | undefined {
+  if (!value) return undefined;
+  return isNaN(Date.parse(value)) ? undefined : value;
+}
+
+/**
+ * Parse list params. `sort` falls back to the default when it isn't one
+ * of the allowed fields; the caller maps fields to SQL columns.
+ */
+export function parseListParams<TSort extends string>(
+  searchParams: URLSearchParams,
+  options: { sortFields: readonly TSort[]; defaultSort: TSort; defaultOrder?: 'ASC' | 'DESC' }
+): ListParams<TSort> {
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+  const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(searchParams.get('limit') || String(DEFAULT_LIMIT)) || DEFAULT_LIMIT));
+
+  const requestedSort = searchParams.get('sort') as TSort | null;
+  const sort = requestedSort && options.sortFields.includes(requestedSort) ? requestedSort : options.defaultSort;
+
+  const requestedOrder = (searchParams.get('order') || '').toUpperCase();
+  const order = requestedOrder === 'ASC' || requestedOrder === 'DESC'
+    ? requestedOrder
+    : options.defaultOrder || 'DESC';
+
+  return {
+    page,
+    limit,
+    offset: (page - 1) * limit,
+    dateFrom: parseDate(searchParams.get('from')),
+    dateTo: parseDate(searchParams.get('to')),
+    sort,
+    order,
+  };
+}
+
+export function paginationMeta(page: number, limit: number, total: number): PaginationMeta {
+  const totalPages = Math.max(1, Math.ceil(total / limit));
+  return {
+    page,
+    limit,
+    total,
+    totalPages,
+    hasMore: page < totalPages,
+  };
+}
+
+/**
+ * Parse a column holding a JSON array or a comma-separated list
+ */
+export function parseListColumn(value: unknown): string[] {
+  if (!value) return [];
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== 'string') return [];
+
+  const trimmed = value.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      return Array.isArray(parsed) ? parsed.map(item => typeof item === 'string' ? item : item?.name || item?.text || JSON.stringify(item)) : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  return trimmed.split(',').map(item => item.trim()).filter(Boolean);
+}
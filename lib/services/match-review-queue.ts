@@ -0,0 +1,187 @@
+/**
+ * Match Review Queue
+ * Meetings and documents the EntityMatcher couldn't assign on its own
+ * Features:
+ * - One review per source and entity type; re-matching refreshes a pending review
+ * - Accepting a review writes the chosen project/client back to the source row
+ */
+
+import type { EntityMatchResult, MatchCandidate, MatchEntityType } from './entity-matcher';
+
+export type ReviewSourceType = 'meeting' | 'document';
+export type ReviewStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface ReviewSource {
+  type: ReviewSourceType;
+  id: string;
+  title?: string;
+}
+
+export interface MatchReview {
+  id: number;
+  sourceType: ReviewSourceType;
+  sourceId: string;
+  sourceTitle?: string;
+  entityType: MatchEntityType;
+  candidates: MatchCandidate[];
+  topEntityId?: string;
+  topConfidence?: number;
+  status: ReviewStatus;
+  resolvedEntityId?: string;
+  resolvedBy?: string;
+  createdAt: string;
+  resolvedAt?: string;
+}
+
+export interface ReviewDecision {
+  action: 'accept' | 'reject';
+  entityId?: string; // Defaults to the top candidate when accepting
+  resolvedBy?: string;
+}
+
+// Both source tables carry project_id and client_id columns
+const SOURCE_TABLES: Record<ReviewSourceType, string> = {
+  meeting: 'meetings',
+  document: 'document_metadata',
+};
+
+const ENTITY_COLUMNS: Record<MatchEntityType, string> = {
+  project: 'project_id',
+  client: 'client_id',
+};
+
+function toReview(row: Record<string, unknown>): MatchReview {
+  let candidates: MatchCandidate[] = [];
+  try {
+    candidates = row.candidates ? JSON.parse(String(row.candidates)) : [];
+  } catch (error) {
+    console.error('Error parsing review candidates:', error);
+  }
+
+  return {
+    id: Number(row.id),
+    sourceType: row.source_type as ReviewSourceType,
+    sourceId: String(row.source_id),
+    sourceTitle: (row.source_title as string) || undefined,
+    entityType: row.entity_type as MatchEntityType,
+    candidates,
+    topEntityId: (row.top_entity_id as string) || undefined,
+    topConfidence: row.top_confidence != null ? Number(row.top_confidence) : undefined,
+    status: row.status as ReviewStatus,
+    resolvedEntityId: (row.resolved_entity_id as string) || undefined,
+    resolvedBy: (row.resolved_by as string) || undefined,
+    createdAt: row.created_at as string,
+    resolvedAt: (row.resolved_at as string) || undefined,
+  };
+}
+
+export class MatchReviewQueue {
+  constructor(private db: D1Database) {}
+
+  /**
+   * Queue the entity types the matcher flagged for review. Resolved reviews
+   * are left alone so a person's decision isn't reopened by a re-sync.
+   */
+  async queueFromMatch(source: ReviewSource, result: EntityMatchResult): Promise<void> {
+    for (const entityType of result.reviewFor) {
+      const candidates = entityType === 'project' ? result.projects : result.clients;
+
+      await this.db.prepare(`
+        INSERT INTO entity_match_reviews (
+          source_type, source_id, source_title, entity_type,
+          candidates, top_entity_id, top_confidence, status, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', datetime('now'), datetime('now'))
+        ON CONFLICT(source_type, source_id, entity_type) DO UPDATE SET
+          source_title = excluded.source_title,
+          candidates = excluded.candidates,
+          top_entity_id = excluded.top_entity_id,
+          top_confidence = excluded.top_confidence,
+          updated_at = datetime('now')
+        WHERE entity_match_reviews.status = 'pending'
+      `).bind(
+        source.type,
+        source.id,
+        source.title || null,
+        entityType,
+        JSON.stringify(candidates),
+        candidates[0]?.id || null,
+        candidates[0]?.confidence ?? null
+      ).run();
+    }
+  }
+
+  async list(query: {
+    status?: ReviewStatus;
+    sourceType?: ReviewSourceType;
+    limit: number;
+    offset: number;
+  }): Promise<{ reviews: MatchReview[]; total: number }> {
+    let where = 'WHERE status = ?';
+    const params: string[] = [query.status || 'pending'];
+
+    if (query.sourceType) {
+      where += ' AND source_type = ?';
+      params.push(query.sourceType);
+    }
+
+    const count = await this.db.prepare(`SELECT COUNT(*) as total FROM entity_match_reviews ${where}`)
+      .bind(...params).first();
+
+    const { results } = await this.db.prepare(`
+      SELECT * FROM entity_match_reviews
+      ${where}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ? OFFSET ?
+    `).bind(...params, query.limit, query.offset).all();
+
+    return {
+      reviews: results.map(toReview),
+      total: Number(count?.total || 0),
+    };
+  }
+
+  async get(id: number): Promise<MatchReview | null> {
+    const row = await this.db.prepare(`SELECT * FROM entity_match_reviews WHERE id = ?`).bind(id).first();
+    return row ? toReview(row) : null;
+  }
+
+  /**
+   * Accept (assigning the entity to the source) or reject a pending review
+   */
+  async resolve(id: number, decision: ReviewDecision): Promise<MatchReview> {
+    const review = await this.get(id);
+    if (!review) {
+      throw new Error(`Review ${id} not found`);
+    }
+    if (review.status !== 'pending') {
+      throw new Error(`Review ${id} is already ${review.status}`);
+    }
+
+    const entityId = decision.action === 'accept' ? decision.entityId || review.topEntityId : undefined;
+    if (decision.action === 'accept') {
+      if (!entityId) {
+        throw new Error(`Review ${id} has no candidate to accept; pass an entityId`);
+      }
+
+      await this.db.prepare(`
+        UPDATE ${SOURCE_TABLES[review.sourceType]}
+        SET ${ENTITY_COLUMNS[review.entityType]} = ?
+        WHERE id = ?
+      `).bind(entityId, review.sourceId).run();
+    }
+
+    await this.db.prepare(`
+      UPDATE entity_match_reviews
+      SET status = ?, resolved_entity_id = ?, resolved_by = ?,
+          resolved_at = datetime('now'), updated_at = datetime('now')
+      WHERE id = ?
+    `).bind(
+      decision.action === 'accept' ? 'accepted' : 'rejected',
+      entityId || null,
+      decision.resolvedBy || null,
+      id
+    ).run();
+
+    return (await this.get(id))!;
+  }
+}
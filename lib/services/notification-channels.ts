@@ -0,0 +1,289 @@
+/**
+ * Notification Channels
+ * Delivery channels beyond the in-app inbox, for Workers
+ * Features:
+ * - Email over SMTP using Workers TCP sockets (implicit TLS, STARTTLS, or plain
+ *   for a local stand-in such as scripts/notification-sink.js)
+ * - Webhooks with a Slack-compatible payload (`text` plus the notification)
+ * - RecordingChannel keeps deliveries in memory for tests and dry runs
+ *
+ * Kept apart from notifications.ts because `cloudflare:sockets` only exists
+ * in the Workers runtime.
+ */
+
+import { connect } from 'cloudflare:sockets';
+import {
+  InAppChannel,
+  type ChannelName,
+  type Notification,
+  type NotificationChannel,
+  type NotificationPreferences,
+  type NotificationRecipient,
+} from './notifications';
+
+export interface NotificationEnv {
+  SMTP_HOST?: string;
+  SMTP_PORT?: string;
+  SMTP_SECURITY?: 'tls' | 'starttls' | 'none'; // Default: tls on 465, otherwise starttls
+  SMTP_USERNAME?: string;
+  SMTP_PASSWORD?: string;
+  NOTIFY_FROM_EMAIL?: string;
+  NOTIFY_WEBHOOK_URL?: string; // Used for recipients without their own webhook URL
+  APP_URL?: string; // Base for links in emails and webhooks
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  security: 'tls' | 'starttls' | 'none';
+  username?: string;
+  password?: string;
+  from: string;
+  heloName?: string;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+function absoluteLink(link: string | undefined, appUrl?: string): string | undefined {
+  if (!link) return undefined;
+  return appUrl && link.startsWith('/') ? `${appUrl.replace(/\/$/, '')}${link}` : link;
+}
+
+function base64(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+// RFC 2047 encoded-word for non-ASCII headers
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${base64(value)}?=`;
+}
+
+/**
+ * One SMTP conversation over a Workers socket
+ */
+class SmtpSession {
+  private reader!: ReadableStreamDefaultReader<Uint8Array>;
+  private writer!: WritableStreamDefaultWriter<Uint8Array>;
+  private buffer = '';
+  private decoder = new TextDecoder();
+  private encoder = new TextEncoder();
+
+  constructor(private socket: Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: Socket) {
+    this.socket = socket;
+    this.reader = socket.readable.getReader();
+    this.writer = socket.writable.getWriter();
+  }
+
+  private async readLine(): Promise<string> {
+    while (!this.buffer.includes('\r\n')) {
+      const { value, done } = await this.reader.read();
+      if (done) throw new Error('SMTP server closed the connection');
+      this.buffer += this.decoder.decode(value, { stream: true });
+    }
+    const index = this.buffer.indexOf('\r\n');
+    const line = this.buffer.substring(0, index);
+    this.buffer = this.buffer.substring(index + 2);
+    return line;
+  }
+
+  /**
+   * Read a reply, including multi-line ones ("250-..." up to "250 ...")
+   */
+  async reply(expected: number[]): Promise<SmtpReply> {
+    const lines: string[] = [];
+    let line: string;
+    do {
+      line = await this.readLine();
+      lines.push(line.substring(4));
+    } while (line.charAt(3) === '-');
+
+    const code = parseInt(line.substring(0, 3));
+    const text = lines.join('\n');
+    if (!expected.includes(code)) {
+      throw new Error(`SMTP error ${code}: ${text}`);
+    }
+    return { code, text };
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    await this.writer.write(this.encoder.encode(`${line}\r\n`));
+    return this.reply(expected);
+  }
+
+  async upgradeToTls(hostname: string) {
+    this.reader.releaseLock();
+    this.writer.releaseLock();
+    this.buffer = '';
+    this.attach(this.socket.startTls({ expectedServerHostname: hostname }));
+  }
+
+  async close() {
+    try {
+      await this.socket.close();
+    } catch (error) {
+      // Already closed by the server after QUIT
+    }
+  }
+}
+
+/**
+ * Minimal SMTP client: EHLO, optional STARTTLS and AUTH PLAIN, one message
+ */
+export async function sendSmtpMail(
+  config: SmtpConfig,
+  message: { to: string; subject: string; text: string }
+): Promise<void> {
+  const socket = connect(
+    { hostname: config.host, port: config.port },
+    { secureTransport: config.security === 'tls' ? 'on' : config.security === 'starttls' ? 'starttls' : 'off', allowHalfOpen: false }
+  );
+  const session = new SmtpSession(socket);
+  const heloName = config.heloName || 'alleato.local';
+
+  try {
+    await session.reply([220]);
+    let ehlo = await session.command(`EHLO ${heloName}`, [250]);
+
+    if (config.security === 'starttls') {
+      if (!/\bSTARTTLS\b/i.test(ehlo.text)) {
+        throw new Error('SMTP server does not offer STARTTLS');
+      }
+      await session.command('STARTTLS', [220]);
+      await session.upgradeToTls(config.host);
+      ehlo = await session.command(`EHLO ${heloName}`, [250]);
+    }
+
+    if (config.username && config.password) {
+      await session.command(`AUTH PLAIN ${base64(`\0${config.username}\0${config.password}`)}`, [235]);
+    }
+
+    await session.command(`MAIL FROM:<${config.from}>`, [250]);
+    await session.command(`RCPT TO:<${message.to}>`, [250, 251]);
+    await session.command('DATA', [354]);
+
+    const headers = [
+      `From: ${config.from}`,
+      `To: ${message.to}`,
+      `Subject: ${encodeHeader(message.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${crypto.randomUUID()}@${heloName}>`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit',
+    ];
+    // Dot-stuff lines that start with "." so they don't end the message early
+    const body = message.text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    await session.command(`${headers.join('\r\n')}\r\n\r\n${body}\r\n.`, [250]);
+
+    await session.command('QUIT', [221]);
+  } finally {
+    await session.close();
+  }
+}
+
+export class SmtpEmailChannel implements NotificationChannel {
+  name: ChannelName = 'email';
+
+  constructor(private config: SmtpConfig, private appUrl?: string) {}
+
+  async send(notification: Notification, recipient: NotificationRecipient): Promise<'sent' | 'skipped'> {
+    if (!recipient.email) return 'skipped';
+
+    const link = absoluteLink(notification.link, this.appUrl);
+    const text = [
+      `Hi ${recipient.name || 'there'},`,
+      '',
+      notification.title,
+      notification.body ? `\n${notification.body}` : '',
+      link ? `\n${link}` : '',
+    ].join('\n');
+
+    await sendSmtpMail(this.config, {
+      to: recipient.email,
+      subject: `${notification.severity === 'critical' ? '[Critical] ' : ''}${notification.title}`,
+      text,
+    });
+    return 'sent';
+  }
+}
+
+export class WebhookChannel implements NotificationChannel {
+  name: ChannelName = 'webhook';
+
+  constructor(private options: { defaultUrl?: string; appUrl?: string; fetch?: typeof fetch } = {}) {}
+
+  async send(
+    notification: Notification,
+    recipient: NotificationRecipient,
+    preferences: NotificationPreferences
+  ): Promise<'sent' | 'skipped'> {
+    const url = preferences.webhookUrl || this.options.defaultUrl;
+    if (!url) return 'skipped';
+
+    const link = absoluteLink(notification.link, this.options.appUrl);
+    const icon = notification.severity === 'critical' ? ':rotating_light: ' : notification.severity === 'warning' ? ':warning: ' : '';
+    const payload = {
+      // Slack (and compatible) incoming webhooks only read `text`
+      text: `${icon}*${notification.title}*${notification.body ? `\n${notification.body}` : ''}${link ? `\n<${link}|Open in Alleato>` : ''}`,
+      notification: { ...notification, recipient: { id: recipient.id, name: recipient.name } },
+    };
+
+    const response = await (this.options.fetch || fetch)(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded ${response.status}: ${(await response.text()).substring(0, 200)}`);
+    }
+    return 'sent';
+  }
+}
+
+/**
+ * Keeps deliveries in memory instead of sending them
+ */
+export class RecordingChannel implements NotificationChannel {
+  sent: Array<{ notification: Notification; recipient: NotificationRecipient }> = [];
+
+  constructor(public name: ChannelName) {}
+
+  async send(notification: Notification, recipient: NotificationRecipient): Promise<'sent'> {
+    this.sent.push({ notification, recipient });
+    return 'sent';
+  }
+}
+
+/**
+ * In-app always; email when SMTP_HOST is set; webhooks for recipients with a
+ * URL of their own or when NOTIFY_WEBHOOK_URL is set
+ */
+export function createNotificationChannels(env: NotificationEnv & { DB: D1Database }): NotificationChannel[] {
+  const channels: NotificationChannel[] = [new InAppChannel(env.DB)];
+
+  if (env.SMTP_HOST) {
+    const port = parseInt(env.SMTP_PORT || '587');
+    channels.push(new SmtpEmailChannel({
+      host: env.SMTP_HOST,
+      port,
+      security: env.SMTP_SECURITY || (port === 465 ? 'tls' : 'starttls'),
+      username: env.SMTP_USERNAME,
+      password: env.SMTP_PASSWORD,
+      from: env.NOTIFY_FROM_EMAIL || 'notifications@alleato.local',
+    }, env.APP_URL));
+  }
+
+  channels.push(new WebhookChannel({ defaultUrl: env.NOTIFY_WEBHOOK_URL, appUrl: env.APP_URL }));
+  return channels;
+}
@@ -0,0 +1,608 @@
+/**
+ * Notifications
+ * Notifications for employees, delivered over the channels each recipient chose
+ * Features:
+ * - One row per notification and recipient; the in-app inbox reads these rows
+ * - Pluggable channels (NotificationChannel); in-app lives here, SMTP email and
+ *   Slack-compatible webhooks in notification-channels.ts
+ * - Per-employee preferences: channels, minimum severity for channels other
+ *   than in-app, webhook URL and quiet hours
+ * - Deliveries that fall in quiet hours are deferred and sent by
+ *   deliverDeferred() once they end; critical notifications go straight through
+ *   unless the recipient opted out
+ * - Critical meeting risks are routed to the project's PM, or to admins and
+ *   executives when no PM is known
+ */
+
+export type NotificationSeverity = 'info' | 'warning' | 'critical';
+export type ChannelName = 'in-app' | 'email' | 'webhook';
+export type DeliveryStatus = 'sent' | 'failed' | 'deferred' | 'skipped';
+
+export interface Notification {
+  id: string;
+  recipientId: string;
+  type: string;
+  severity: NotificationSeverity;
+  title: string;
+  body?: string;
+  link?: string;
+  projectId?: string;
+  meetingId?: string;
+  data?: any;
+  correlationId?: string;
+  inApp: boolean;
+  readAt?: string;
+  createdAt: string;
+}
+
+export interface NotificationInput {
+  type: string;
+  severity?: NotificationSeverity; // Default 'info'
+  title: string;
+  body?: string;
+  link?: string;
+  projectId?: string;
+  meetingId?: string;
+  data?: any;
+  correlationId?: string;
+}
+
+export interface NotificationRecipient {
+  id: string;
+  name: string;
+  email?: string;
+  role?: string;
+}
+
+export interface QuietHours {
+  start: string; // 'HH:MM' local time
+  end: string;
+}
+
+export interface NotificationPreferences {
+  employeeId: string;
+  channels: ChannelName[];
+  minSeverity: NotificationSeverity;
+  webhookUrl?: string;
+  quietHours?: QuietHours;
+  timeZone?: string;
+  criticalBypassesQuietHours: boolean;
+}
+
+export interface NotificationChannel {
+  name: ChannelName;
+  /**
+   * Deliver one notification. Resolves 'skipped' when the recipient has
+   * nowhere to deliver to on this channel (no email address, no webhook);
+   * throws when delivery failed.
+   */
+  send(
+    notification: Notification,
+    recipient: NotificationRecipient,
+    preferences: NotificationPreferences
+  ): Promise<'sent' | 'skipped'>;
+}
+
+export interface DeliveryResult {
+  notificationId: string;
+  recipientId: string;
+  channel: ChannelName;
+  status: DeliveryStatus;
+  error?: string;
+}
+
+export interface CriticalRisk {
+  description: string;
+  severity: string;
+  mitigation?: string;
+  owner?: string;
+}
+
+export const NOTIFICATION_CHANNELS: ChannelName[] = ['in-app', 'email', 'webhook'];
+
+const SEVERITY_RANK: Record<NotificationSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+const DEFAULT_CHANNELS: ChannelName[] = ['in-app', 'email'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+function sqlTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').substring(0, 19);
+}
+
+function parseJson(value: unknown): any {
+  if (value == null) return undefined;
+  try {
+    return JSON.parse(String(value));
+  } catch (error) {
+    console.error('Error parsing notification column:', error);
+    return undefined;
+  }
+}
+
+function toNotification(row: Record<string, unknown>): Notification {
+  return {
+    id: String(row.id),
+    recipientId: String(row.recipient_id),
+    type: String(row.type),
+    severity: row.severity as NotificationSeverity,
+    title: String(row.title),
+    body: (row.body as string) || undefined,
+    link: (row.link as string) || undefined,
+    projectId: (row.project_id as string) || undefined,
+    meetingId: (row.meeting_id as string) || undefined,
+    data: parseJson(row.data),
+    correlationId: (row.correlation_id as string) || undefined,
+    inApp: Boolean(Number(row.in_app)),
+    readAt: (row.read_at as string) || undefined,
+    createdAt: row.created_at as string,
+  };
+}
+
+function toPreferences(employeeId: string, row: Record<string, unknown> | null): NotificationPreferences {
+  if (!row) {
+    return { employeeId, channels: DEFAULT_CHANNELS, minSeverity: 'info', criticalBypassesQuietHours: true };
+  }
+
+  const channels = parseJson(row.channels);
+  return {
+    employeeId,
+    channels: Array.isArray(channels) ? channels.filter(c => NOTIFICATION_CHANNELS.includes(c)) : DEFAULT_CHANNELS,
+    minSeverity: (row.min_severity as NotificationSeverity) || 'info',
+    webhookUrl: (row.webhook_url as string) || undefined,
+    quietHours: row.quiet_hours_start && row.quiet_hours_end
+      ? { start: String(row.quiet_hours_start), end: String(row.quiet_hours_end) }
+      : undefined,
+    timeZone: (row.time_zone as string) || undefined,
+    criticalBypassesQuietHours: row.critical_bypasses_quiet_hours == null
+      ? true
+      : Boolean(Number(row.critical_bypasses_quiet_hours)),
+  };
+}
+
+function toRecipient(row: Record<string, unknown>): NotificationRecipient {
+  return {
+    id: String(row.id),
+    name: `${row.first_name || ''} ${row.last_name || ''}`.trim(),
+    email: (row.email as string) || undefined,
+    role: (row.role as string) || undefined,
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function localMinutes(date: Date, timeZone: string): number {
+  const parts: Record<string, string> = {};
+  const formatter = new Intl.DateTimeFormat('en-US', { timeZone, hourCycle: 'h23', hour: 'numeric', minute: 'numeric' });
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return Number(parts.hour) * 60 + Number(parts.minute);
+}
+
+/**
+ * When quiet hours end if `now` falls inside them, otherwise null. Windows
+ * may span midnight (22:00-07:00).
+ */
+export function quietHoursEnd(quietHours: QuietHours | undefined, now: Date, timeZone: string): Date | null {
+  if (!quietHours) return null;
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const current = localMinutes(now, timeZone);
+  const inside = start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+  if (!inside || start === end) return null;
+
+  const minutesLeft = (end - current + 24 * 60) % (24 * 60);
+  const endsAt = new Date(now.getTime() + minutesLeft * 60 * 1000);
+  endsAt.setUTCSeconds(0, 0);
+  return endsAt;
+}
+
+/**
+ * Check a preferences update from the API; returns an error message or null
+ */
+export function validatePreferences(update: Partial<NotificationPreferences>): string | null {
+  if (update.channels && (!Array.isArray(update.channels) || update.channels.some(c => !NOTIFICATION_CHANNELS.includes(c)))) {
+    return `channels must be a list of ${NOTIFICATION_CHANNELS.join(', ')}`;
+  }
+  if (update.minSeverity && !(update.minSeverity in SEVERITY_RANK)) {
+    return 'minSeverity must be info, warning or critical';
+  }
+  if (update.quietHours && (!TIME_PATTERN.test(update.quietHours.start) || !TIME_PATTERN.test(update.quietHours.end))) {
+    return 'quietHours start and end must be HH:MM';
+  }
+  if (update.timeZone) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: update.timeZone });
+    } catch (error) {
+      return `Unknown time zone: ${update.timeZone}`;
+    }
+  }
+  if (update.webhookUrl && !/^https?:\/\//.test(update.webhookUrl)) {
+    return 'webhookUrl must be an http(s) URL';
+  }
+  return null;
+}
+
+/**
+ * The built-in channel: marks the notification as visible in the recipient's inbox
+ */
+export class InAppChannel implements NotificationChannel {
+  name: ChannelName = 'in-app';
+
+  constructor(private db: D1Database) {}
+
+  async send(notification: Notification): Promise<'sent'> {
+    await this.db.prepare(`UPDATE notifications SET in_app = 1 WHERE id = ?`).bind(notification.id).run();
+    notification.inApp = true;
+    return 'sent';
+  }
+}
+
+export class NotificationStore {
+  constructor(private db: D1Database) {}
+
+  async create(recipientId: string, input: NotificationInput, now: Date): Promise<Notification> {
+    const id = crypto.randomUUID();
+    await this.db.prepare(`
+      INSERT INTO notifications (
+        id, recipient_id, type, severity, title, body, link, project_id, meeting_id, data, correlation_id, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      id,
+      recipientId,
+      input.type,
+      input.severity || 'info',
+      input.title,
+      input.body || null,
+      input.link || null,
+      input.projectId || null,
+      input.meetingId || null,
+      input.data === undefined ? null : JSON.stringify(input.data),
+      input.correlationId || null,
+      sqlTimestamp(now)
+    ).run();
+
+    return (await this.get(id))!;
+  }
+
+  async get(id: string): Promise<Notification | null> {
+    const row = await this.db.prepare(`SELECT * FROM notifications WHERE id = ?`).bind(id).first();
+    return row ? toNotification(row) : null;
+  }
+
+  /**
+   * A recipient's in-app inbox, newest first
+   */
+  async listForRecipient(
+    recipientId: string,
+    options: { unreadOnly?: boolean; limit?: number; offset?: number } = {}
+  ): Promise<{ notifications: Notification[]; total: number; unread: number }> {
+    const where = `WHERE recipient_id = ? AND in_app = 1${options.unreadOnly ? ' AND read_at IS NULL' : ''}`;
+
+    const counts = await this.db.prepare(`
+      SELECT COUNT(*) as total, SUM(CASE WHEN read_at IS NULL THEN 1 ELSE 0 END) as unread
+      FROM notifications
+      ${where}
+    `).bind(recipientId).first();
+
+    const { results } = await this.db.prepare(`
+      SELECT * FROM notifications
+      ${where}
+      ORDER BY created_at DESC
+      LIMIT ? OFFSET ?
+    `).bind(recipientId, options.limit ?? 20, options.offset ?? 0).all();
+
+    return {
+      notifications: results.map(toNotification),
+      total: Number(counts?.total || 0),
+      unread: Number(counts?.unread || 0),
+    };
+  }
+
+  /**
+   * Returns false when there is no such notification for the recipient
+   */
+  async markRead(id: string, recipientId: string, now: Date): Promise<boolean> {
+    const result = await this.db.prepare(`
+      UPDATE notifications SET read_at = COALESCE(read_at, ?)
+      WHERE id = ? AND recipient_id = ?
+    `).bind(sqlTimestamp(now), id, recipientId).run();
+    return (result.meta?.changes || 0) > 0;
+  }
+
+  async markAllRead(recipientId: string, now: Date): Promise<number> {
+    const result = await this.db.prepare(`
+      UPDATE notifications SET read_at = ?
+      WHERE recipient_id = ? AND in_app = 1 AND read_at IS NULL
+    `).bind(sqlTimestamp(now), recipientId).run();
+    return result.meta?.changes || 0;
+  }
+
+  async getRecipient(employeeId: string): Promise<NotificationRecipient | null> {
+    const row = await this.db.prepare(`
+      SELECT id, first_name, last_name, email, role FROM employees WHERE id = ?
+    `).bind(employeeId).first();
+    return row ? toRecipient(row) : null;
+  }
+
+  /**
+   * Who hears about a project: its PM, or active admins and executives when
+   * the project (or the meeting's project) has none
+   */
+  async findProjectRecipients(projectId?: string, meetingId?: string): Promise<NotificationRecipient[]> {
+    if (!projectId && meetingId) {
+      const meeting = await this.db.prepare(`SELECT project_id FROM meetings WHERE id = ?`).bind(meetingId).first();
+      projectId = (meeting?.project_id as string) || undefined;
+    }
+
+    if (projectId) {
+      const manager = await this.db.prepare(`
+        SELECT e.id, e.first_name, e.last_name, e.email, e.role
+        FROM projects p
+        JOIN employees e ON e.id = p.project_manager_id
+        WHERE p.id = ? AND (e.is_active IS NULL OR e.is_active = 1)
+      `).bind(projectId).first();
+      if (manager) return [toRecipient(manager)];
+    }
+
+    const { results } = await this.db.prepare(`
+      SELECT id, first_name, last_name, email, role FROM employees
+      WHERE role IN ('admin', 'executive') AND (is_active IS NULL OR is_active = 1)
+      ORDER BY id
+    `).all();
+    return results.map(toRecipient);
+  }
+
+  async getPreferences(employeeId: string): Promise<NotificationPreferences> {
+    const row = await this.db.prepare(`
+      SELECT * FROM notification_preferences WHERE employee_id = ?
+    `).bind(employeeId).first();
+    return toPreferences(employeeId, row);
+  }
+
+  /**
+   * Merge `update` into the stored preferences (or the defaults)
+   */
+  async setPreferences(employeeId: string, update: Partial<NotificationPreferences>, now: Date): Promise<NotificationPreferences> {
+    const merged = { ...(await this.getPreferences(employeeId)), ...update, employeeId };
+
+    await this.db.prepare(`
+      INSERT INTO notification_preferences (
+        employee_id, channels, min_severity, webhook_url, quiet_hours_start, quiet_hours_end,
+        time_zone, critical_bypasses_quiet_hours, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(employee_id) DO UPDATE SET
+        channels = excluded.channels,
+        min_severity = excluded.min_severity,
+        webhook_url = excluded.webhook_url,
+        quiet_hours_start = excluded.quiet_hours_start,
+        quiet_hours_end = excluded.quiet_hours_end,
+        time_zone = excluded.time_zone,
+        critical_bypasses_quiet_hours = excluded.critical_bypasses_quiet_hours,
+        updated_at = excluded.updated_at
+    `).bind(
+      employeeId,
+      JSON.stringify(merged.channels),
+      merged.minSeverity,
+      merged.webhookUrl || null,
+      merged.quietHours?.start || null,
+      merged.quietHours?.end || null,
+      merged.timeZone || null,
+      merged.criticalBypassesQuietHours ? 1 : 0,
+      sqlTimestamp(now)
+    ).run();
+
+    return merged;
+  }
+
+  async recordDelivery(
+    notificationId: string,
+    channel: ChannelName,
+    status: DeliveryStatus,
+    now: Date,
+    details: { error?: string; deliverAfter?: Date } = {}
+  ): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO notification_deliveries (id, notification_id, channel, status, deliver_after, error_message, attempted_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(notification_id, channel) DO UPDATE SET
+        status = excluded.status,
+        deliver_after = excluded.deliver_after,
+        error_message = excluded.error_message,
+        attempted_at = excluded.attempted_at
+    `).bind(
+      crypto.randomUUID(),
+      notificationId,
+      channel,
+      status,
+      details.deliverAfter ? sqlTimestamp(details.deliverAfter) : null,
+      details.error || null,
+      sqlTimestamp(now)
+    ).run();
+  }
+
+  /**
+   * Deferred deliveries whose quiet hours are over
+   */
+  async getDueDeferred(now: Date, limit = 100): Promise<Array<{ notification: Notification; channel: ChannelName }>> {
+    const { results } = await this.db.prepare(`
+      SELECT n.*, d.channel as delivery_channel
+      FROM notification_deliveries d
+      JOIN notifications n ON n.id = d.notification_id
+      WHERE d.status = 'deferred' AND d.deliver_after <= ?
+      ORDER BY d.deliver_after ASC
+      LIMIT ?
+    `).bind(sqlTimestamp(now), limit).all();
+
+    return results.map(row => ({
+      notification: toNotification(row),
+      channel: row.delivery_channel as ChannelName,
+    }));
+  }
+}
+
+export class NotificationDispatcher {
+  private store: NotificationStore;
+  private channels: Map<ChannelName, NotificationChannel>;
+
+  constructor(
+    db: D1Database,
+    channels: NotificationChannel[],
+    private options: { defaultTimeZone?: string } = {}
+  ) {
+    this.store = new NotificationStore(db);
+    this.channels = new Map(channels.map(channel => [channel.name, channel]));
+  }
+
+  /**
+   * Store a notification for each recipient and deliver it on their channels
+   */
+  async notify(recipients: NotificationRecipient[], input: NotificationInput, now: Date): Promise<DeliveryResult[]> {
+    const results: DeliveryResult[] = [];
+
+    for (const recipient of recipients) {
+      const notification = await this.store.create(recipient.id, input, now);
+      const preferences = await this.store.getPreferences(recipient.id);
+
+      for (const name of preferences.channels) {
+        results.push(await this.deliver(notification, name, recipient, preferences, now));
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * notify() by employee id; unknown ids are skipped
+   */
+  async notifyEmployees(employeeIds: string[], input: NotificationInput, now: Date): Promise<DeliveryResult[]> {
+    const recipients: NotificationRecipient[] = [];
+    for (const id of employeeIds) {
+      const recipient = await this.store.getRecipient(id);
+      if (recipient) {
+        recipients.push(recipient);
+      } else {
+        console.warn(`[Notifications] Unknown employee ${id}; not notified`);
+      }
+    }
+    return this.notify(recipients, input, now);
+  }
+
+  /**
+   * Tell the right people about critical risks raised in a meeting
+   */
+  async notifyCriticalRisks(
+    event: { meetingId?: string; projectId?: string; risks: CriticalRisk[]; correlationId?: string },
+    now: Date
+  ): Promise<DeliveryResult[]> {
+    const recipients = await this.store.findProjectRecipients(event.projectId, event.meetingId);
+    if (recipients.length === 0) {
+      console.warn('[Notifications] No PM, admin or executive to notify about critical risks');
+      return [];
+    }
+
+    const count = event.risks.length;
+    const body = event.risks.map(risk => {
+      const extra = [risk.owner && `owner: ${risk.owner}`, risk.mitigation && `mitigation: ${risk.mitigation}`]
+        .filter(Boolean)
+        .join('; ');
+      return `- ${risk.description}${extra ? ` (${extra})` : ''}`;
+    }).join('\n');
+
+    return this.notify(recipients, {
+      type: 'critical-risk',
+      severity: 'critical',
+      title: `${count} critical risk${count === 1 ? '' : 's'} raised in a meeting`,
+      body,
+      link: event.meetingId ? `/meetings/${event.meetingId}` : event.projectId ? `/projects-dashboard/${event.projectId}` : undefined,
+      projectId: event.projectId,
+      meetingId: event.meetingId,
+      data: { risks: event.risks },
+      correlationId: event.correlationId,
+    }, now);
+  }
+
+  /**
+   * Send deliveries held back by quiet hours that have since ended
+   */
+  async deliverDeferred(now: Date): Promise<DeliveryResult[]> {
+    const results: DeliveryResult[] = [];
+
+    for (const { notification, channel } of await this.store.getDueDeferred(now)) {
+      const recipient = await this.store.getRecipient(notification.recipientId);
+      if (!recipient) {
+        await this.store.recordDelivery(notification.id, channel, 'skipped', now, { error: 'Recipient no longer exists' });
+        continue;
+      }
+      const preferences = await this.store.getPreferences(recipient.id);
+      results.push(await this.send(notification, channel, recipient, preferences, now));
+    }
+
+    return results;
+  }
+
+  private async deliver(
+    notification: Notification,
+    channel: ChannelName,
+    recipient: NotificationRecipient,
+    preferences: NotificationPreferences,
+    now: Date
+  ): Promise<DeliveryResult> {
+    // The inbox always gets everything; other channels respect severity and quiet hours
+    if (channel !== 'in-app') {
+      if (SEVERITY_RANK[notification.severity] < SEVERITY_RANK[preferences.minSeverity]) {
+        return this.finish(notification, channel, 'skipped', now, { error: `Below ${preferences.minSeverity}` });
+      }
+
+      const bypass = notification.severity === 'critical' && preferences.criticalBypassesQuietHours;
+      const timeZone = preferences.timeZone || this.options.defaultTimeZone || 'UTC';
+      const deliverAfter = bypass ? null : quietHoursEnd(preferences.quietHours, now, timeZone);
+      if (deliverAfter) {
+        return this.finish(notification, channel, 'deferred', now, { deliverAfter });
+      }
+    }
+
+    return this.send(notification, channel, recipient, preferences, now);
+  }
+
+  private async send(
+    notification: Notification,
+    channel: ChannelName,
+    recipient: NotificationRecipient,
+    preferences: NotificationPreferences,
+    now: Date
+  ): Promise<DeliveryResult> {
+    const handler = this.channels.get(channel);
+    if (!handler) {
+      return this.finish(notification, channel, 'skipped', now, { error: `${channel} channel not configured` });
+    }
+
+    try {
+      const status = await handler.send(notification, recipient, preferences);
+      return this.finish(notification, channel, status, now);
+    } catch (error) {
+      console.error(`[Notifications] ${channel} delivery of ${notification.id} failed:`, error);
+      return this.finish(notification, channel, 'failed', now, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private async finish(
+    notification: Notification,
+    channel: ChannelName,
+    status: DeliveryStatus,
+    now: Date,
+    details: { error?: string; deliverAfter?: Date } = {}
+  ): Promise<DeliveryResult> {
+    await this.store.recordDelivery(notification.id, channel, status, now, details);
+    return { notificationId: notification.id, recipientId: notification.recipientId, channel, status, error: details.error };
+  }
+}
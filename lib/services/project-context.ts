@@ -0,0 +1,143 @@
+/**
+ * Project Context Service
+ * Structured project facts from D1 for project-scoped chat
+ * Features:
+ * - Budget, status, schedule and team from the projects table
+ * - Open tasks with assignees and due dates
+ * - Compact text rendering for prompts
+ */
+
+export interface ProjectTaskFact {
+  title: string;
+  status?: string;
+  priority?: string;
+  dueDate?: string;
+  assignee?: string;
+}
+
+export interface ProjectFacts {
+  id: string;
+  title: string;
+  status?: string;
+  priority?: string;
+  clientName?: string;
+  projectManager?: string;
+  superintendent?: string;
+  estimatedValue?: number;
+  budget?: number;
+  actualCost?: number;
+  startDate?: string;
+  estimatedCompletion?: string;
+  address?: string;
+  openTasks: ProjectTaskFact[];
+}
+
+const MAX_OPEN_TASKS = 15;
+
+/**
+ * Load the facts for a project, or null if it doesn't exist
+ */
+export async function loadProjectFacts(db: D1Database, projectId: string): Promise<ProjectFacts | null> {
+  const project = await db.prepare(`
+    SELECT
+      p.id,
+      p.title,
+      p.status,
+      p.priority,
+      p.estimated_value,
+      p.budget,
+      p.actual_cost,
+      p.start_date,
+      p.estimated_completion,
+      p.project_address,
+      c.company_name as client_name,
+      pm.first_name || ' ' || pm.last_name as project_manager_name,
+      su.first_name || ' ' || su.last_name as superintendent_name
+    FROM projects p
+    LEFT JOIN clients c ON p.client_id = c.id
+    LEFT JOIN employees pm ON p.project_manager_id = pm.id
+    LEFT JOIN employees su ON p.superintendent_id = su.id
+    WHERE p.id = ?
+  `).bind(projectId).first();
+
+  if (!project) return null;
+
+  const tasks = await db.prepare(`
+    SELECT
+      t.title,
+      t.status,
+      t.priority,
+      t.due_date,
+      e.first_name || ' ' || e.last_name as assignee_name
+    FROM tasks t
+    LEFT JOIN employees e ON t.assigned_to = e.id
+    WHERE t.project_id = ?
+      AND (t.status IS NULL OR t.status != 'completed')
+    ORDER BY t.due_date IS NULL, t.due_date ASC
+    LIMIT ?
+  `).bind(projectId, MAX_OPEN_TASKS).all();
+
+  return {
+    id: String(project.id),
+    title: (project.title as string) || 'Untitled project',
+    status: (project.status as string) || undefined,
+    priority: (project.priority as string) || undefined,
+    clientName: (project.client_name as string) || undefined,
+    projectManager: (project.project_manager_name as string) || undefined,
+    superintendent: (project.superintendent_name as string) || undefined,
+    estimatedValue: (project.estimated_value as number) ?? undefined,
+    budget: (project.budget as number) ?? undefined,
+    actualCost: (project.actual_cost as number) ?? undefined,
+    startDate: (project.start_date as string) || undefined,
+    estimatedCompletion: (project.estimated_completion as string) || undefined,
+    address: (project.project_address as string) || undefined,
+    openTasks: tasks.results.map(task => ({
+      title: task.title as string,
+      status: (task.status as string) || undefined,
+      priority: (task.priority as string) || undefined,
+      dueDate: (task.due_date as string) || undefined,
+      assignee: (task.assignee_name as string) || undefined,
+    })),
+  };
+}
+
+function formatCurrency(value: number): string {
+  return `$${Math.round(value).toLocaleString('en-US')}`;
+}
+
+/**
+ * Render facts as "Label: value" lines; unknown values are left out
+ */
+export function formatProjectFacts(facts: ProjectFacts): string {
+  const lines = [
+    `Project: ${facts.title}`,
+    facts.status && `Status: ${facts.status}`,
+    facts.priority && `Priority: ${facts.priority}`,
+    facts.clientName && `Client: ${facts.clientName}`,
+    facts.projectManager && `Project manager: ${facts.projectManager}`,
+    facts.superintendent && `Superintendent: ${facts.superintendent}`,
+    facts.budget != null && `Budget: ${formatCurrency(facts.budget)}`,
+    facts.estimatedValue != null && `Estimated value: ${formatCurrency(facts.estimatedValue)}`,
+    facts.actualCost != null && `Actual cost to date: ${formatCurrency(facts.actualCost)}`,
+    facts.startDate && `Start date: ${facts.startDate}`,
+    facts.estimatedCompletion && `Estimated completion: ${facts.estimatedCompletion}`,
+    facts.address && `Address: ${facts.address}`,
+  ].filter(Boolean) as string[];
+
+  if (facts.openTasks.length > 0) {
+    lines.push('Open tasks:');
+    for (const task of facts.openTasks) {
+      const details = [
+        task.status,
+        task.priority && `${task.priority} priority`,
+        task.assignee && `assigned to ${task.assignee}`,
+        task.dueDate && `due ${task.dueDate}`,
+      ].filter(Boolean).join(', ');
+      lines.push(`- ${task.title}${details ? ` (${details})` : ''}`);
+    }
+  } else {
+    lines.push('Open tasks: none');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,133 @@
+/**
+ * Semantic Segmentation
+ * TextTiling-style topic boundaries from embeddings, for text without headers
+ * Features:
+ * - Similarity between the blocks of units either side of every gap
+ * - Depth scores: how far similarity dips below the peaks around a gap
+ * - Boundaries at dips deeper than the document's own cutoff (mean + sd / 2)
+ * - Topic labels from words distinctive to each segment
+ */
+
+export type SentenceEmbedder = (texts: string[]) => Promise<number[][]>;
+
+// Units averaged on each side of a gap
+const DEFAULT_BLOCK_SIZE = 2;
+
+const LABEL_STOPWORDS = new Set([
+  'about', 'after', 'again', 'also', 'been', 'before', 'being', 'could', 'does', 'doing', 'done',
+  'from', 'going', 'have', 'here', 'just', 'know', 'like', 'make', 'more', 'need', 'okay', 'really',
+  'right', 'said', 'should', 'some', 'that', 'their', 'them', 'then', 'there', 'these', 'they',
+  'thing', 'think', 'this', 'those', 'want', 'well', 'were', 'what', 'when', 'where', 'which',
+  'will', 'with', 'would', 'yeah', 'your', 'into', 'over', 'only', 'than', 'very', 'because',
+]);
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function meanVector(vectors: number[][]): number[] {
+  const mean = new Array(vectors[0].length).fill(0);
+  for (const vector of vectors) {
+    for (let i = 0; i < vector.length; i++) mean[i] += vector[i] / vectors.length;
+  }
+  return mean;
+}
+
+/**
+ * Similarity across each gap: gap g sits between unit g - 1 and unit g
+ * (g = 1 .. n - 1), comparing up to `blockSize` units on either side
+ */
+export function gapSimilarities(embeddings: number[][], blockSize = DEFAULT_BLOCK_SIZE): number[] {
+  const similarities: number[] = [];
+  for (let gap = 1; gap < embeddings.length; gap++) {
+    const left = meanVector(embeddings.slice(Math.max(0, gap - blockSize), gap));
+    const right = meanVector(embeddings.slice(gap, gap + blockSize));
+    similarities.push(cosineSimilarity(left, right));
+  }
+  return similarities;
+}
+
+/**
+ * How deep each gap's similarity sits below the nearest peaks to its left
+ * and right (climbing while similarity keeps rising)
+ */
+export function depthScores(similarities: number[]): number[] {
+  return similarities.map((similarity, i) => {
+    let left = similarity;
+    for (let j = i - 1; j >= 0 && similarities[j] >= left; j--) left = similarities[j];
+    let right = similarity;
+    for (let j = i + 1; j < similarities.length && similarities[j] >= right; j++) right = similarities[j];
+    return (left - similarity) + (right - similarity);
+  });
+}
+
+/**
+ * Unit indexes where a new topic starts, in order. A gap is a boundary when
+ * its similarity is a local minimum and its depth clears mean + sd / 2 of
+ * all depths; TextTiling's looser mean - sd / 2 splits meeting chatter into
+ * too many topics.
+ */
+export function findTopicBoundaries(embeddings: number[][], blockSize = DEFAULT_BLOCK_SIZE): number[] {
+  if (embeddings.length < 3) return [];
+
+  const similarities = gapSimilarities(embeddings, blockSize);
+  const depths = depthScores(similarities);
+  const mean = depths.reduce((sum, depth) => sum + depth, 0) / depths.length;
+  const sd = Math.sqrt(depths.reduce((sum, depth) => sum + (depth - mean) ** 2, 0) / depths.length);
+  const cutoff = mean + sd / 2;
+
+  const boundaries: number[] = [];
+  similarities.forEach((similarity, i) => {
+    const isDip = (i === 0 || similarity <= similarities[i - 1])
+      && (i === similarities.length - 1 || similarity <= similarities[i + 1]);
+    if (isDip && depths[i] > 0 && depths[i] > cutoff) boundaries.push(i + 1);
+  });
+  return boundaries;
+}
+
+function labelWords(text: string): string[] {
+  return (text.toLowerCase().match(/\b[a-z][a-z-]{3,}\b/g) || []).filter(word => !LABEL_STOPWORDS.has(word));
+}
+
+/**
+ * Up to `count` words per segment, weighted by how often they appear in it
+ * and how few other segments use them
+ */
+export function topicKeywords(segments: string[], count = 3): string[][] {
+  const counts = segments.map(segment => {
+    const frequencies = new Map<string, number>();
+    for (const word of labelWords(segment)) frequencies.set(word, (frequencies.get(word) || 0) + 1);
+    return frequencies;
+  });
+
+  const documentFrequency = new Map<string, number>();
+  for (const frequencies of counts) {
+    for (const word of frequencies.keys()) documentFrequency.set(word, (documentFrequency.get(word) || 0) + 1);
+  }
+
+  return counts.map(frequencies => Array.from(frequencies.entries())
+    .map(([word, frequency]) => ({
+      word,
+      score: frequency * Math.log(1 + segments.length / documentFrequency.get(word)!),
+    }))
+    .sort((a, b) => b.score - a.score || a.word.localeCompare(b.word))
+    .slice(0, count)
+    .map(({ word }) => word));
+}
+
+/**
+ * A short label from a segment's keywords, e.g. "Concrete, pour, schedule"
+ */
+export function topicLabel(keywords: string[]): string {
+  if (keywords.length === 0) return 'General';
+  const label = keywords.join(', ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
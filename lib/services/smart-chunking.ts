@@ -4,22 +4,59 @@
  * Features:
  * - Sliding window chunking with overlap
  * - Speaker-aware chunking for meetings
- * - Entity extraction (people, projects, decisions, dates)
+ * - Entity extraction (people, projects, decisions, dates, RFIs, change orders, ...)
+ *   with per-tenant rule sets
  * - Chunk relationship tracking
  * - Context preservation
+ * - Token budgets counted with the embedding model's BPE encoding when its
+ *   rank table is configured, estimated otherwise
+ * - Semantic mode: topic segments where embedding similarity drops
+ * - Structured model analysis of important chunks (summary, topics,
+ *   sentiment, entities) within per-document token and cost caps
  */
 
 import { OpenAI } from 'openai';
+import { estimateTokenizer, getTokenizer, type Tokenizer, type TokenizerMode } from './tokenizer';
+import { findTopicBoundaries, topicKeywords, topicLabel, type SentenceEmbedder } from './semantic-segmentation';
+import {
+  DEFAULT_ENTITY_RULES,
+  IDENTIFIER_ENTITY_TYPES,
+  identifierKey,
+  type EntityRuleSet,
+  type EntityType,
+} from './entity-rules';
+import {
+  analyzeChunks,
+  openAIChunkAnalysisClient,
+  type ChunkAnalysisClient,
+  type ChunkAnalysisOptions,
+  type ChunkAnalysisUsage,
+} from './chunk-analysis';
 
 export interface ChunkConfig {
   maxTokens: number;
   minTokens: number;
   overlapTokens: number;
   targetTokens: number;
+  encoding: TokenizerMode; // How budgets are counted; 'estimate' skips loading a rank table
+  // Where to fetch the encoding's .tiktoken rank table, e.g. a copy in R2.
+  // Budgets default to cl100k_base when set, otherwise to 'estimate'
+  rankTableUrl?: string;
+  // 'semantic' segments text without headers by embedding similarity
+  // instead of speaker turns or fixed windows; needs an embedder
+  segmentation: 'structure' | 'semantic';
+}
+
+export interface SmartChunkingOptions {
+  tokenizer?: Tokenizer; // Already loaded; otherwise `encoding` is loaded on first use
+  embedder?: SentenceEmbedder; // For semantic segmentation; defaults to OpenAI embeddings when a key is given
+  entityRules?: EntityRuleSet; // A tenant's compiled rules; defaults to DEFAULT_ENTITY_RULES
+  analysisClient?: ChunkAnalysisClient; // Structured chunk analysis; defaults to OpenAI when a key is given
+  analysis?: ChunkAnalysisOptions; // Model, batching and per-document caps
 }
 
 export interface ExtractedEntity {
-  type: 'person' | 'project' | 'decision' | 'action_item' | 'date' | 'client' | 'risk' | 'milestone';
+  type: EntityType;
   value: string;
   confidence: number;
   context?: string;
@@ -48,7 +85,9 @@ export interface SmartChunk {
   
   // Metadata
   topics: string[];
+  topicLabel?: string; // Section header, or the detected topic in semantic mode
   sentiment?: 'positive' | 'negative' | 'neutral' | 'mixed';
+  summary?: string; // One line, from model analysis
   importance: number; // 0-1 score
   
   // Context preservation
@@ -64,12 +103,14 @@ export interface ChunkingResult {
 
 export interface DocumentMetadata {
   totalTokens: number;
+  tokenizer: TokenizerMode; // What the token counts were measured with
   chunkCount: number;
   extractedEntities: Map<string, ExtractedEntity[]>;
   topics: string[];
   speakers?: string[];
   timeline?: TimelineEvent[];
   summary?: string;
+  aiAnalysis?: ChunkAnalysisUsage; // Requests, tokens and cost of model analysis
 }
 
 export interface ChunkRelationship {
@@ -91,68 +132,63 @@ const DEFAULT_CONFIG: ChunkConfig = {
   minTokens: 100,
   overlapTokens: 200,
   targetTokens: 1000,
+  encoding: 'estimate', // cl100k_base (text-embedding-3-small) once a rankTableUrl is set
+  segmentation: 'structure',
 };
 
-// Enhanced entity patterns with confidence scoring
-const ENTITY_PATTERNS = {
-  person: [
-    { pattern: /(?:^|\s)([A-Z][a-z]+(?:\s+[A-Z][a-z]+){1,3})(?:\s+(?:said|mentioned|asked|responded|suggested|proposed|agreed|disagreed))/g, confidence: 0.9 },
-    { pattern: /(?:^|\s)(?:Mr\.|Mrs\.|Ms\.|Dr\.|Prof\.)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/g, confidence: 0.95 },
-    { pattern: /(?:Participants?|Attendees?|Present):\s*([^,\n]+(?:,\s*[^,\n]+)*)/gi, confidence: 0.85 },
-    { pattern: /(?:@)([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/g, confidence: 0.8 },
-  ],
-  
-  project: [
-    { pattern: /(?:project|Project)\s+(?:name|Name)?:?\s*"?([^"\n,]+)"?/gi, confidence: 0.9 },
-    { pattern: /(?:working on|developing|building|implementing)\s+(?:the\s+)?([A-Z][A-Za-z0-9\s\-]{3,50})\s+(?:project|system|platform)/gi, confidence: 0.85 },
-    { pattern: /(?:for\s+)?(?:the\s+)?([A-Z][A-Za-z0-9\s\-]{3,50})\s+(?:Project|Initiative|Program)/g, confidence: 0.8 },
-  ],
-  
-  decision: [
-    { pattern: /(?:Decision|Decided|Agreed|Resolved|Concluded):\s*([^\n]+)/gi, confidence: 0.95 },
-    { pattern: /(?:We|The team|It was)\s+(?:decided|agreed|resolved)\s+(?:to|that)\s+([^.!?]+)[.!?]/gi, confidence: 0.85 },
-    { pattern: /(?:will|shall|must|should)\s+(?:now|going forward)\s+([^.!?]+)[.!?]/gi, confidence: 0.7 },
-  ],
-  
-  action_item: [
-    { pattern: /(?:Action Item|TODO|Task|Follow-up):\s*([^\n]+)(?:\s*-\s*(?:Owner|Assigned to|Assignee):\s*([A-Za-z\s]+))?(?:\s*-\s*(?:Due|Deadline|By):\s*([^\n]+))?/gi, confidence: 0.95 },
-    { pattern: /(?:need to|needs to|will|shall)\s+([^.!?]+)\s+by\s+([^.!?]+)[.!?]/gi, confidence: 0.75 },
-    { pattern: /\[\s*\]\s*([^\n]+)(?:\s*@([A-Za-z\s]+))?/g, confidence: 0.8 },
-  ],
-  
-  date: [
-    { pattern: /\b(\d{4}-\d{2}-\d{2})\b/g, confidence: 0.95 },
-    { pattern: /\b(\d{1,2}\/\d{1,2}\/\d{2,4})\b/g, confidence: 0.95 },
-    { pattern: /\b((?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\s+\d{1,2}(?:st|nd|rd|th)?(?:,?\s+\d{4})?)\b/gi, confidence: 0.9 },
-    { pattern: /\b((?:next|last|this)\s+(?:Monday|Tuesday|Wednesday|Thursday|Friday|Saturday|Sunday|week|month|quarter|year))\b/gi, confidence: 0.8 },
-  ],
-  
-  client: [
-    { pattern: /(?:client|Client|customer|Customer)\s+(?:name|Name)?:?\s*"?([^"\n,]{2,50})"?/gi, confidence: 0.9 },
-    { pattern: /(?:for|with|from)\s+(?:client|customer)\s+([A-Z][A-Za-z0-9\s\-&]{2,50})(?:\s|,|\.)/gi, confidence: 0.85 },
-  ],
-  
-  risk: [
-    { pattern: /(?:Risk|Issue|Concern|Problem|Blocker):\s*([^\n]+)/gi, confidence: 0.9 },
-    { pattern: /(?:risk|issue|concern|problem)\s+(?:is|are)\s+(?:that\s+)?([^.!?]+)[.!?]/gi, confidence: 0.8 },
-    { pattern: /(?:may|might|could)\s+(?:cause|lead to|result in)\s+([^.!?]+)[.!?]/gi, confidence: 0.7 },
-  ],
-  
-  milestone: [
-    { pattern: /(?:Milestone|Deliverable|Deadline):\s*([^\n]+)/gi, confidence: 0.9 },
-    { pattern: /(?:complete|deliver|finish|launch)\s+(?:by|on)\s+([^.!?]+)[.!?]/gi, confidence: 0.75 },
-  ],
-};
+const EMBEDDING_MODEL = 'text-embedding-3-small';
+
+// Units per embeddings request
+const EMBEDDING_BATCH_SIZE = 96;
+
+// "[m:ss] First Last:" opening a speaker turn
+const SPEAKER_LINE = /^(?:\[(\d+:\d+)\])?\s*([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)\s*:/;
 
 export class SmartChunkingService {
   private config: ChunkConfig;
   private openai?: OpenAI;
+  private tokenizer?: Tokenizer;
+  private embedder?: SentenceEmbedder;
+  private entityRules: EntityRuleSet;
+  private analysisClient?: ChunkAnalysisClient;
+  private analysisOptions?: ChunkAnalysisOptions;
 
-  constructor(config: Partial<ChunkConfig> = {}, openaiApiKey?: string) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
+  constructor(config: Partial<ChunkConfig> = {}, openaiApiKey?: string, options: SmartChunkingOptions = {}) {
+    this.config = { ...DEFAULT_CONFIG, encoding: config.rankTableUrl ? 'cl100k_base' : DEFAULT_CONFIG.encoding, ...config };
+    this.tokenizer = options.tokenizer;
+    this.embedder = options.embedder;
+    this.entityRules = options.entityRules || DEFAULT_ENTITY_RULES;
+    this.analysisClient = options.analysisClient;
+    this.analysisOptions = options.analysis;
     if (openaiApiKey) {
       this.openai = new OpenAI({ apiKey: openaiApiKey });
     }
+    if (!this.analysisClient && this.openai) {
+      this.analysisClient = openAIChunkAnalysisClient(this.openai);
+    }
+    if (!this.embedder && this.openai) {
+      const openai = this.openai;
+      this.embedder = async (texts: string[]) => {
+        const response = await openai.embeddings.create({ model: EMBEDDING_MODEL, input: texts });
+        return response.data.map(item => item.embedding);
+      };
+    }
+  }
+
+  /**
+   * Load the configured tokenizer once. If the rank table can't be fetched
+   * chunking still proceeds on the character estimate rather than failing.
+   */
+  private async ensureTokenizer(): Promise<Tokenizer> {
+    if (!this.tokenizer) {
+      try {
+        this.tokenizer = await getTokenizer(this.config.encoding, { url: this.config.rankTableUrl });
+      } catch (error) {
+        console.warn(`Tokenizer ${this.config.encoding} unavailable, estimating token counts:`, error);
+        this.tokenizer = estimateTokenizer;
+      }
+    }
+    return this.tokenizer;
   }
 
   /**
@@ -162,6 +198,8 @@ export class SmartChunkingService {
     content: string,
     documentType: 'meeting' | 'document' | 'email' | 'chat' = 'document'
   ): Promise<ChunkingResult> {
+    await this.ensureTokenizer();
+
     // Extract entities from the entire document first
     const documentEntities = this.extractEntities(content);
     
@@ -169,28 +207,37 @@ export class SmartChunkingService {
     const structure = this.detectStructure(content, documentType);
     
     // Create chunks based on document type and structure
-    let chunks: SmartChunk[];
-    if (documentType === 'meeting' && structure.hasSpeakers) {
-      chunks = await this.createSpeakerAwareChunks(content, structure);
-    } else if (structure.hasHeaders) {
-      chunks = await this.createTopicBasedChunks(content, structure);
-    } else {
-      chunks = await this.createSlidingWindowChunks(content);
+    let chunks: SmartChunk[] | null = null;
+    const useHeaders = structure.hasHeaders && !(documentType === 'meeting' && structure.hasSpeakers);
+    if (this.config.segmentation === 'semantic' && !useHeaders) {
+      // null without an embedder or when embedding fails
+      chunks = await this.createSemanticChunks(content, structure);
+    }
+    if (!chunks) {
+      if (documentType === 'meeting' && structure.hasSpeakers) {
+        chunks = await this.createSpeakerAwareChunks(content, structure);
+      } else if (structure.hasHeaders) {
+        chunks = await this.createTopicBasedChunks(content, structure);
+      } else {
+        chunks = await this.createSlidingWindowChunks(content);
+      }
     }
     
     // Enhance chunks with entities and relationships
     chunks = this.enhanceChunksWithEntities(chunks, documentEntities);
     
+    // Add model analysis before relationships and metadata are derived
+    let aiAnalysis: ChunkAnalysisUsage | undefined;
+    if (this.analysisClient) {
+      aiAnalysis = await this.enhanceWithAI(chunks, documentEntities);
+    }
+    
     // Build chunk relationships
     const relationships = this.buildChunkRelationships(chunks);
     
     // Generate document metadata
     const metadata = this.generateMetadata(chunks, documentEntities, relationships);
-    
-    // Add AI-powered enhancements if OpenAI is available
-    if (this.openai) {
-      chunks = await this.enhanceWithAI(chunks);
-    }
+    if (aiAnalysis) metadata.aiAnalysis = aiAnalysis;
     
     return {
       chunks,
@@ -200,24 +247,25 @@ export class SmartChunkingService {
   }
 
   /**
-   * Extract entities from content using patterns and NLP
+   * Extract entities from content using the configured entity rules
    */
-  private extractEntities(content: string): Map<string, ExtractedEntity[]> {
+  extractEntities(content: string): Map<string, ExtractedEntity[]> {
     const entities = new Map<string, ExtractedEntity[]>();
     
-    for (const [entityType, patterns] of Object.entries(ENTITY_PATTERNS)) {
+    for (const [entityType, rules] of Object.entries(this.entityRules)) {
       const typeEntities: ExtractedEntity[] = [];
+      const sameEntity = IDENTIFIER_ENTITY_TYPES.has(entityType as EntityType)
+        ? (a: string, b: string) => identifierKey(a) === identifierKey(b)
+        : (a: string, b: string) => this.similarityScore(a.toLowerCase(), b.toLowerCase()) > 0.8;
       
-      for (const { pattern, confidence } of patterns) {
+      for (const { pattern, confidence, group = 1 } of rules) {
         const matches = Array.from(content.matchAll(pattern));
         
         for (const match of matches) {
-          const value = match[1]?.trim();
+          const value = match[group]?.trim().replace(/\s+/g, ' ');
           if (value && value.length > 1) {
             // Deduplicate and merge similar entities
-            const existing = typeEntities.find(e => 
-              this.similarityScore(e.value.toLowerCase(), value.toLowerCase()) > 0.8
-            );
+            const existing = typeEntities.find(e => sameEntity(e.value, value));
             
             if (existing) {
               existing.confidence = Math.max(existing.confidence, confidence);
@@ -250,42 +298,48 @@ export class SmartChunkingService {
     structure: DocumentStructure
   ): Promise<SmartChunk[]> {
     const chunks: SmartChunk[] = [];
-    const lines = content.split('\n');
+    // A single line over maxTokens is split so no chunk has to exceed it
+    const lines = content.split('\n').flatMap(line => this.splitToFit(line, this.config.maxTokens));
     
     let currentChunk: string[] = [];
     let currentSpeaker: string | undefined;
     let currentStartTime: number | undefined;
     let chunkPosition = 0;
+    // Lines at the start of currentChunk carried over from the previous chunk
+    let carried = 0;
+    
+    const pushChunk = () => {
+      const chunkContent = currentChunk.join('\n');
+      chunks.push({
+        id: this.generateChunkId(chunkPosition),
+        content: chunkContent,
+        type: 'speaker_turn',
+        position: chunkPosition++,
+        tokenCount: this.estimateTokens(chunkContent),
+        speaker: currentSpeaker,
+        startTime: currentStartTime,
+        entities: [],
+        topics: this.extractTopics(chunkContent),
+        importance: this.calculateImportance(chunkContent),
+      });
+    };
     
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
       
       // Detect speaker change
-      const speakerMatch = line.match(/^(?:\[(\d+:\d+)\])?\s*([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)\s*:/);
+      const speakerMatch = line.match(SPEAKER_LINE);
       
       if (speakerMatch) {
-        // Save current chunk if it exists
-        if (currentChunk.length > 0) {
-          const chunkContent = currentChunk.join('\n');
-          const chunkId = this.generateChunkId(chunkPosition);
-          
-          chunks.push({
-            id: chunkId,
-            content: chunkContent,
-            type: 'speaker_turn',
-            position: chunkPosition++,
-            tokenCount: this.estimateTokens(chunkContent),
-            speaker: currentSpeaker,
-            startTime: currentStartTime,
-            entities: [],
-            topics: this.extractTopics(chunkContent),
-            importance: this.calculateImportance(chunkContent),
-          });
+        // Save current chunk if it has anything beyond the carried-over lines
+        if (currentChunk.length > carried) {
+          pushChunk();
         }
         
         // Start new chunk
         currentSpeaker = speakerMatch[2];
         currentChunk = [line];
+        carried = 0;
         
         // Parse timestamp if available
         if (speakerMatch[1]) {
@@ -293,51 +347,28 @@ export class SmartChunkingService {
           currentStartTime = minutes * 60 + seconds;
         }
       } else {
+        // Close the chunk first if this line would take it past maxTokens
+        if (currentChunk.length > 0 && this.estimateTokens([...currentChunk, line].join('\n')) > this.config.maxTokens) {
+          if (currentChunk.length > carried) pushChunk();
+          currentChunk = [];
+          carried = 0;
+        }
         currentChunk.push(line);
       }
       
       // Check if chunk is getting too large
-      const currentTokens = this.estimateTokens(currentChunk.join('\n'));
-      if (currentTokens >= this.config.targetTokens) {
-        const chunkContent = currentChunk.join('\n');
-        const chunkId = this.generateChunkId(chunkPosition);
-        
-        chunks.push({
-          id: chunkId,
-          content: chunkContent,
-          type: 'speaker_turn',
-          position: chunkPosition++,
-          tokenCount: currentTokens,
-          speaker: currentSpeaker,
-          startTime: currentStartTime,
-          entities: [],
-          topics: this.extractTopics(chunkContent),
-          importance: this.calculateImportance(chunkContent),
-        });
+      if (this.estimateTokens(currentChunk.join('\n')) >= this.config.targetTokens) {
+        pushChunk();
         
-        // Keep last few lines for context
-        const overlap = Math.floor(currentChunk.length * 0.1);
-        currentChunk = currentChunk.slice(-overlap);
+        // Keep the last lines, up to overlapTokens, for context
+        currentChunk = this.overlapTail(currentChunk, '\n');
+        carried = currentChunk.length;
       }
     }
     
     // Save final chunk
-    if (currentChunk.length > 0) {
-      const chunkContent = currentChunk.join('\n');
-      const chunkId = this.generateChunkId(chunkPosition);
-      
-      chunks.push({
-        id: chunkId,
-        content: chunkContent,
-        type: 'speaker_turn',
-        position: chunkPosition,
-        tokenCount: this.estimateTokens(chunkContent),
-        speaker: currentSpeaker,
-        startTime: currentStartTime,
-        entities: [],
-        topics: this.extractTopics(chunkContent),
-        importance: this.calculateImportance(chunkContent),
-      });
+    if (currentChunk.length > carried) {
+      pushChunk();
     }
     
     // Add chunk relationships
@@ -393,6 +424,7 @@ export class SmartChunkingService {
           tokenCount: this.estimateTokens(section.content),
           entities: [],
           topics: [section.header || 'General'],
+          topicLabel: section.header || 'General',
           importance: this.calculateImportance(section.content),
         });
       }
@@ -406,18 +438,22 @@ export class SmartChunkingService {
    */
   private async createSlidingWindowChunks(content: string): Promise<SmartChunk[]> {
     const chunks: SmartChunk[] = [];
-    const sentences = this.splitIntoSentences(content);
+    // A single sentence over maxTokens is split so no chunk has to exceed it
+    const sentences = this.splitIntoSentences(content)
+      .flatMap(sentence => this.splitToFit(sentence, this.config.maxTokens));
     
     let currentChunk: string[] = [];
     let currentTokens = 0;
     let chunkPosition = 0;
+    // Sentences at the start of currentChunk carried over from the previous chunk
+    let carried = 0;
     
     for (let i = 0; i < sentences.length; i++) {
       const sentence = sentences[i];
       const sentenceTokens = this.estimateTokens(sentence);
       
       // Check if adding this sentence would exceed target
-      if (currentTokens + sentenceTokens > this.config.targetTokens && currentChunk.length > 0) {
+      if (currentTokens + sentenceTokens > this.config.targetTokens && currentChunk.length > carried) {
         // Create chunk with current content
         const chunkContent = currentChunk.join(' ');
         const chunkId = this.generateChunkId(chunkPosition);
@@ -427,16 +463,23 @@ export class SmartChunkingService {
           content: chunkContent,
           type: 'context_window',
           position: chunkPosition++,
-          tokenCount: currentTokens,
+          tokenCount: this.estimateTokens(chunkContent),
           entities: [],
           topics: this.extractTopics(chunkContent),
           importance: this.calculateImportance(chunkContent),
         });
         
-        // Create overlap by keeping last portion
-        const overlapSentences = Math.ceil(currentChunk.length * 0.2);
-        currentChunk = currentChunk.slice(-overlapSentences);
+        // Create overlap by keeping the last sentences, up to overlapTokens
+        currentChunk = this.overlapTail(currentChunk, ' ');
         currentTokens = this.estimateTokens(currentChunk.join(' '));
+        carried = currentChunk.length;
+      }
+      
+      // Drop the overlap rather than let it push a long sentence past maxTokens
+      if (currentTokens + sentenceTokens > this.config.maxTokens && currentChunk.length <= carried) {
+        currentChunk = [];
+        currentTokens = 0;
+        carried = 0;
       }
       
       currentChunk.push(sentence);
@@ -444,14 +487,14 @@ export class SmartChunkingService {
     }
     
     // Add final chunk
-    if (currentChunk.length > 0) {
+    if (currentChunk.length > carried) {
       const chunkContent = currentChunk.join(' ');
       chunks.push({
         id: this.generateChunkId(chunkPosition),
         content: chunkContent,
         type: 'context_window',
         position: chunkPosition,
-        tokenCount: currentTokens,
+        tokenCount: this.estimateTokens(chunkContent),
         entities: [],
         topics: this.extractTopics(chunkContent),
         importance: this.calculateImportance(chunkContent),
@@ -467,6 +510,89 @@ export class SmartChunkingService {
     return chunks;
   }
 
+  /**
+   * Create topic segments from embedding similarity (TextTiling): units
+   * are speaker turns when there are speakers and sentences otherwise, and a
+   * segment ends where similarity between neighbouring units drops. Returns
+   * null without an embedder or if embedding fails, so the caller can fall
+   * back to structural chunking.
+   */
+  private async createSemanticChunks(
+    content: string,
+    structure: DocumentStructure
+  ): Promise<SmartChunk[] | null> {
+    if (!this.embedder) return null;
+
+    const separator = structure.hasSpeakers ? '\n' : ' ';
+    const units = (structure.hasSpeakers
+      ? this.splitIntoTurns(content)
+      : this.splitIntoSentences(content).map(text => ({ text } as SegmentUnit))
+    ).flatMap(unit => this.splitToFit(unit.text, this.config.maxTokens).map(text => ({ ...unit, text })));
+
+    if (units.length === 0) return null;
+
+    const embeddings: number[][] = [];
+    try {
+      for (let i = 0; i < units.length; i += EMBEDDING_BATCH_SIZE) {
+        embeddings.push(...await this.embedder(units.slice(i, i + EMBEDDING_BATCH_SIZE).map(unit => unit.text)));
+      }
+    } catch (error) {
+      console.warn('Semantic segmentation failed, falling back to structural chunking:', error);
+      return null;
+    }
+
+    // Cut at topic boundaries, except where the segment so far is under
+    // minTokens, and between units wherever a segment would pass maxTokens
+    const boundaries = new Set(findTopicBoundaries(embeddings));
+    const joined = (segment: SegmentUnit[]) => segment.map(unit => unit.text).join(separator);
+    const segments: SegmentUnit[][] = [];
+    let current: SegmentUnit[] = [];
+
+    units.forEach((unit, i) => {
+      const topicChange = boundaries.has(i) && this.estimateTokens(joined(current)) >= this.config.minTokens;
+      if (current.length > 0 && (topicChange || this.estimateTokens(joined([...current, unit])) > this.config.maxTokens)) {
+        segments.push(current);
+        current = [];
+      }
+      current.push(unit);
+    });
+
+    // A short tail joins the segment before it when both fit
+    const previous = segments[segments.length - 1];
+    if (previous && this.estimateTokens(joined(current)) < this.config.minTokens
+      && this.estimateTokens(joined([...previous, ...current])) <= this.config.maxTokens) {
+      previous.push(...current);
+    } else {
+      segments.push(current);
+    }
+
+    const keywords = topicKeywords(segments.map(joined));
+    const chunks = segments.map((segment, i): SmartChunk => {
+      const chunkContent = joined(segment);
+      const speakers = Array.from(new Set(segment.map(unit => unit.speaker).filter(Boolean)));
+      return {
+        id: this.generateChunkId(i),
+        content: chunkContent,
+        type: 'topic_segment',
+        position: i,
+        tokenCount: this.estimateTokens(chunkContent),
+        speaker: speakers.length === 1 ? speakers[0] : undefined,
+        startTime: segment.find(unit => unit.startTime !== undefined)?.startTime,
+        entities: [],
+        topics: keywords[i],
+        topicLabel: topicLabel(keywords[i]),
+        importance: this.calculateImportance(chunkContent),
+      };
+    });
+
+    for (let i = 0; i < chunks.length; i++) {
+      if (i > 0) chunks[i].previousChunkId = chunks[i - 1].id;
+      if (i < chunks.length - 1) chunks[i].nextChunkId = chunks[i + 1].id;
+    }
+
+    return chunks;
+  }
+
   /**
    * Enhance chunks with extracted entities
    */
@@ -604,6 +730,7 @@ export class SmartChunkingService {
     
     return {
       totalTokens,
+      tokenizer: (this.tokenizer || estimateTokenizer).name,
       chunkCount: chunks.length,
       extractedEntities: entities,
       topics: Array.from(allTopics),
@@ -613,46 +740,49 @@ export class SmartChunkingService {
   }
 
   /**
-   * Enhance chunks with AI-powered analysis
+   * Merge structured model analysis into the important chunks. Model
+   * entities join the rule-based ones (and the document's), model topics
+   * lead the keyword topics, and model sentiment replaces the keyword guess.
    */
-  private async enhanceWithAI(chunks: SmartChunk[]): Promise<SmartChunk[]> {
-    if (!this.openai) return chunks;
-    
-    // Process important chunks with AI for better entity extraction
-    const importantChunks = chunks.filter(c => c.importance > 0.7);
-    
-    for (const chunk of importantChunks) {
-      try {
-        const response = await this.openai.chat.completions.create({
-          model: 'gpt-4o-mini',
-          messages: [
-            {
-              role: 'system',
-              content: 'Extract entities, summarize key points, and identify the main topic from the text.',
-            },
-            {
-              role: 'user',
-              content: chunk.content,
-            },
-          ],
-          max_tokens: 200,
-          temperature: 0.3,
-        });
-        
-        // Parse AI response and enhance chunk
-        const aiAnalysis = response.choices[0].message.content;
-        if (aiAnalysis) {
-          // Add AI-extracted insights to chunk metadata
-          // This is simplified - in production, you'd parse structured output
-          chunk.topics = [...chunk.topics, ...this.extractTopics(aiAnalysis)];
+  private async enhanceWithAI(
+    chunks: SmartChunk[],
+    documentEntities: Map<string, ExtractedEntity[]>
+  ): Promise<ChunkAnalysisUsage> {
+    const { analyses, usage } = await analyzeChunks(
+      chunks,
+      this.analysisClient!,
+      text => this.estimateTokens(text),
+      this.analysisOptions
+    );
+
+    for (const chunk of chunks) {
+      const analysis = analyses.get(chunk.id);
+      if (!analysis) continue;
+
+      if (analysis.summary) chunk.summary = analysis.summary;
+      chunk.topics = Array.from(new Set([...analysis.topics, ...chunk.topics]));
+      if (!chunk.topicLabel && analysis.topics.length > 0) chunk.topicLabel = analysis.topics[0];
+      chunk.sentiment = analysis.sentiment;
+
+      // Rule-based positions are document offsets; these only have the chunk
+      const modelEntities: ExtractedEntity[] = analysis.entities.map(entity => ({
+        ...entity,
+        context: this.extractContext(chunk.content, chunk.content.toLowerCase().indexOf(entity.value.toLowerCase())),
+      }));
+      chunk.entities = this.deduplicateEntities([...chunk.entities, ...modelEntities]);
+
+      for (const entity of modelEntities) {
+        const known = documentEntities.get(entity.type) || [];
+        if (!known.some(e => e.value.toLowerCase() === entity.value.toLowerCase())) {
+          documentEntities.set(entity.type, [...known, entity]);
         }
-      } catch (error) {
-        console.error('AI enhancement error:', error);
-        // Continue without AI enhancement
       }
     }
-    
-    return chunks;
+
+    if (usage.capped) {
+      console.warn(`Chunk analysis capped: ${usage.chunksSkipped} chunk(s) left to rule-based analysis`);
+    }
+    return usage;
   }
 
   // Helper methods
@@ -713,12 +843,75 @@ export class SmartChunkingService {
 
   private splitIntoSentences(text: string): string[] {
     // Simple sentence splitter - in production, use a proper NLP library
-    return text.match(/[^.!?]+[.!?]+/g) || [text];
+    // Text after the last full stop is kept as a final sentence
+    return (text.match(/[^.!?]+(?:[.!?]+|$)/g) || []).filter(sentence => sentence.trim());
+  }
+
+  /**
+   * Speaker turns: a speaker line and the lines after it up to the next one
+   */
+  private splitIntoTurns(content: string): SegmentUnit[] {
+    const turns: SegmentUnit[] = [];
+    for (const line of content.split('\n')) {
+      const speakerMatch = line.match(SPEAKER_LINE);
+      if (speakerMatch) {
+        const [minutes, seconds] = (speakerMatch[1] || '').split(':').map(Number);
+        turns.push({
+          text: line,
+          speaker: speakerMatch[2],
+          startTime: speakerMatch[1] ? minutes * 60 + seconds : undefined,
+        });
+      } else if (turns.length > 0) {
+        turns[turns.length - 1].text += '\n' + line;
+      } else if (line.trim()) {
+        turns.push({ text: line });
+      }
+    }
+    return turns
+      .map(turn => ({ ...turn, text: turn.text.trimEnd() }))
+      .filter(turn => turn.text.trim());
   }
 
   private estimateTokens(text: string): number {
-    // Rough estimation: 1 token ≈ 4 characters
-    return Math.ceil(text.length / 4);
+    return (this.tokenizer || estimateTokenizer).count(text);
+  }
+
+  /**
+   * Split text over `budget` tokens at word boundaries into pieces that fit.
+   * Word counts are summed, which slightly overcounts, so pieces stay
+   * under the budget.
+   */
+  private splitToFit(text: string, budget: number): string[] {
+    if (this.estimateTokens(text) <= budget) return [text];
+
+    const pieces: string[] = [];
+    let current = '';
+    let currentTokens = 0;
+    for (const word of text.match(/\S+\s*/g) || []) {
+      const wordTokens = this.estimateTokens(word);
+      if (current && currentTokens + wordTokens > budget) {
+        pieces.push(current.trimEnd());
+        current = '';
+        currentTokens = 0;
+      }
+      current += word;
+      currentTokens += wordTokens;
+    }
+    if (current) pieces.push(current.trimEnd());
+    return pieces;
+  }
+
+  /**
+   * The trailing parts of a finished chunk, up to overlapTokens, to start
+   * the next one with. Never the whole chunk, so chunking always advances.
+   */
+  private overlapTail(parts: string[], separator: string): string[] {
+    const tail: string[] = [];
+    for (let i = parts.length - 1; i > 0; i--) {
+      if (this.estimateTokens([parts[i], ...tail].join(separator)) > this.config.overlapTokens) break;
+      tail.unshift(parts[i]);
+    }
+    return tail;
   }
 
   private extractTopics(content: string): string[] {
@@ -872,5 +1065,11 @@ interface Section {
   content: string;
 }
 
+interface SegmentUnit {
+  text: string;
+  speaker?: string;
+  startTime?: number;
+}
+
 // Export for use in other modules
 export default SmartChunkingService;
\ No newline at end of file
@@ -0,0 +1,233 @@
+/**
+ * Tokenizer
+ * Token counts for chunk budgets that match OpenAI's cl100k_base and
+ * o200k_base encodings, in plain TypeScript so it runs in Workers without WASM
+ * Features:
+ * - Same pre-tokenization pattern and byte-pair merge order as tiktoken
+ * - Rank tables loaded once per isolate from the published .tiktoken files
+ *   (or a copy at another URL) and kept in memory
+ * - A fast character-based estimate behind the same interface for bulk work
+ *
+ * Text is encoded as ordinary text: special tokens such as <|endoftext|> are
+ * not recognised, which is what embedding inputs need.
+ */
+
+export type EncodingName = 'cl100k_base' | 'o200k_base';
+export type TokenizerMode = EncodingName | 'estimate';
+
+export interface Tokenizer {
+  readonly name: TokenizerMode;
+  count(text: string): number;
+}
+
+export const ENCODING_URLS: Record<EncodingName, string> = {
+  cl100k_base: 'https://openaipublic.blob.core.windows.net/encodings/cl100k_base.tiktoken',
+  o200k_base: 'https://openaipublic.blob.core.windows.net/encodings/o200k_base.tiktoken',
+};
+
+// tiktoken's patterns use (?i:...) groups, which JavaScript lacks; the
+// contraction suffixes are spelled out in both cases instead
+const CONTRACTIONS = "'(?:[sS]|[tT]|[rR][eE]|[vV][eE]|[mM]|[lL][lL]|[dD])";
+
+const PATTERNS: Record<EncodingName, string> = {
+  cl100k_base: [
+    CONTRACTIONS,
+    '[^\\r\\n\\p{L}\\p{N}]?\\p{L}+',
+    '\\p{N}{1,3}',
+    ' ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*',
+    '\\s*[\\r\\n]+',
+    '\\s+(?!\\S)',
+    '\\s+',
+  ].join('|'),
+  o200k_base: [
+    `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:${CONTRACTIONS})?`,
+    `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:${CONTRACTIONS})?`,
+    '\\p{N}{1,3}',
+    ' ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*',
+    '\\s*[\\r\\n]+',
+    '\\s+(?!\\S)',
+    '\\s+',
+  ].join('|'),
+};
+
+// Encoded pieces kept per tokenizer; transcripts repeat the same words a lot
+const PIECE_CACHE_SIZE = 20000;
+
+const LOAD_TIMEOUT_MS = 15000;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * UTF-8 bytes of a string as a "byte string" (one char per byte), the form
+ * rank tables are keyed by
+ */
+function toByteString(text: string): string {
+  if (!/[^\p{ASCII}]/u.test(text)) return text;
+  const bytes = textEncoder.encode(text);
+  let result = '';
+  for (let i = 0; i < bytes.length; i++) {
+    result += String.fromCharCode(bytes[i]);
+  }
+  return result;
+}
+
+/**
+ * Parse a .tiktoken rank file: one "<base64 token> <rank>" pair per line
+ */
+export function parseTiktokenRanks(text: string): Map<string, number> {
+  const ranks = new Map<string, number>();
+  for (const line of text.split('\n')) {
+    const space = line.indexOf(' ');
+    if (space < 1) continue;
+    ranks.set(atob(line.substring(0, space)), parseInt(line.substring(space + 1), 10));
+  }
+  return ranks;
+}
+
+/**
+ * Byte-level BPE over a rank table. Adjacent parts are merged lowest rank
+ * first until no pair is in the table, exactly as tiktoken does.
+ */
+export class BpeTokenizer implements Tokenizer {
+  private pattern: RegExp;
+  private cache = new Map<string, number[]>();
+  private decoder?: Map<number, string>;
+
+  constructor(readonly name: EncodingName, private ranks: Map<string, number>) {
+    this.pattern = new RegExp(PATTERNS[name], 'gu');
+  }
+
+  encode(text: string): number[] {
+    const tokens: number[] = [];
+    for (const [piece] of text.matchAll(this.pattern)) {
+      tokens.push(...this.encodePiece(piece));
+    }
+    return tokens;
+  }
+
+  count(text: string): number {
+    let total = 0;
+    for (const [piece] of text.matchAll(this.pattern)) {
+      total += this.encodePiece(piece).length;
+    }
+    return total;
+  }
+
+  decode(tokens: number[]): string {
+    if (!this.decoder) {
+      this.decoder = new Map(Array.from(this.ranks, ([bytes, rank]) => [rank, bytes]));
+    }
+    const bytes = tokens.map(token => {
+      const value = this.decoder!.get(token);
+      if (value === undefined) throw new Error(`Unknown ${this.name} token ${token}`);
+      return value;
+    }).join('');
+    return textDecoder.decode(Uint8Array.from(bytes, char => char.charCodeAt(0)));
+  }
+
+  private encodePiece(piece: string): number[] {
+    const cached = this.cache.get(piece);
+    if (cached) return cached;
+
+    const bytes = toByteString(piece);
+    const direct = this.ranks.get(bytes);
+    const tokens = direct !== undefined ? [direct] : this.bytePairEncode(bytes);
+
+    if (this.cache.size >= PIECE_CACHE_SIZE) this.cache.clear();
+    this.cache.set(piece, tokens);
+    return tokens;
+  }
+
+  private bytePairEncode(bytes: string): number[] {
+    if (bytes.length === 1) return [this.rank(bytes)];
+
+    // starts[i] is where part i begins; pairRanks[i] is the rank of part i
+    // merged with part i + 1 (Infinity when that isn't a token)
+    const starts: number[] = [];
+    const pairRanks: number[] = [];
+    for (let i = 0; i < bytes.length; i++) {
+      starts.push(i);
+      pairRanks.push(i < bytes.length - 1 ? this.ranks.get(bytes.substring(i, i + 2)) ?? Infinity : Infinity);
+    }
+    starts.push(bytes.length);
+
+    const mergedRank = (i: number) => i + 2 < starts.length
+      ? this.ranks.get(bytes.substring(starts[i], starts[i + 2])) ?? Infinity
+      : Infinity;
+
+    for (;;) {
+      let best = -1;
+      let bestRank = Infinity;
+      for (let i = 0; i < pairRanks.length; i++) {
+        if (pairRanks[i] < bestRank) {
+          bestRank = pairRanks[i];
+          best = i;
+        }
+      }
+      if (best === -1) break;
+
+      starts.splice(best + 1, 1);
+      pairRanks.splice(best + 1, 1);
+      pairRanks[best] = mergedRank(best);
+      if (best > 0) pairRanks[best - 1] = mergedRank(best - 1);
+    }
+
+    const tokens: number[] = [];
+    for (let i = 0; i < starts.length - 1; i++) {
+      tokens.push(this.rank(bytes.substring(starts[i], starts[i + 1])));
+    }
+    return tokens;
+  }
+
+  private rank(bytes: string): number {
+    const rank = this.ranks.get(bytes);
+    if (rank === undefined) {
+      throw new Error(`${this.name} has no token for byte sequence ${JSON.stringify(bytes)}`);
+    }
+    return rank;
+  }
+}
+
+/**
+ * The old rule of thumb, 1 token ≈ 4 characters: no table to load and no
+ * encoding work, for bulk operations where a rough count is enough
+ */
+export const estimateTokenizer: Tokenizer = {
+  name: 'estimate',
+  count: (text: string) => Math.ceil(text.length / 4),
+};
+
+const loaded = new Map<EncodingName, Promise<BpeTokenizer>>();
+
+/**
+ * The tokenizer for an encoding, fetching its rank table on first use.
+ * Concurrent callers share one download; a failed download is retried on
+ * the next call.
+ */
+export function loadTokenizer(
+  encoding: EncodingName,
+  options: { url?: string; fetcher?: typeof fetch } = {}
+): Promise<BpeTokenizer> {
+  let tokenizer = loaded.get(encoding);
+  if (!tokenizer) {
+    tokenizer = (async () => {
+      const url = options.url || ENCODING_URLS[encoding];
+      const response = await (options.fetcher || fetch)(url, { signal: AbortSignal.timeout(LOAD_TIMEOUT_MS) });
+      if (!response.ok) {
+        throw new Error(`Failed to load ${encoding} ranks from ${url}: ${response.status}`);
+      }
+      return new BpeTokenizer(encoding, parseTiktokenRanks(await response.text()));
+    })();
+    tokenizer.catch(() => loaded.delete(encoding));
+    loaded.set(encoding, tokenizer);
+  }
+  return tokenizer;
+}
+
+/**
+ * Resolve a mode to a ready tokenizer; 'estimate' needs no loading
+ */
+export async function getTokenizer(mode: TokenizerMode, options: { url?: string } = {}): Promise<Tokenizer> {
+  return mode === 'estimate' ? estimateTokenizer : await loadTokenizer(mode, options);
+}
@@ -0,0 +1,364 @@
+/**
+ * Vector Search Service
+ * Cosine-similarity retrieval over meeting chunk embeddings
+ * Features:
+ * - Decodes embeddings stored as base64 text, JSON arrays or raw BLOBs
+ * - Pluggable index (D1 scan, Cloudflare Vectorize, in-memory)
+ * - Project-scoped filtering
+ */
+
+export interface VectorMetadata {
+  meetingId?: string;
+  projectId?: string | null;
+  [key: string]: string | number | boolean | null | undefined;
+}
+
+export interface VectorRecord {
+  id: string;
+  values: number[] | Float32Array;
+  metadata?: VectorMetadata;
+}
+
+export interface VectorQueryOptions {
+  topK?: number;
+  minScore?: number;
+  filter?: {
+    projectId?: string;
+    meetingIds?: string[];
+  };
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  metadata?: VectorMetadata;
+}
+
+/**
+ * Minimal contract every vector store has to satisfy so search code
+ * does not care whether vectors live in D1, Vectorize or memory
+ */
+export interface VectorIndex {
+  query(vector: number[] | Float32Array, options?: VectorQueryOptions): Promise<VectorMatch[]>;
+  upsert(records: VectorRecord[]): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+}
+
+const DEFAULT_TOP_K = 10;
+// Largest topK Vectorize allows when it returns metadata
+const VECTORIZE_MAX_TOP_K = 50;
+// Rows (and decoded embeddings) held in memory per D1 page
+const DEFAULT_PAGE_SIZE = 500;
+
+/**
+ * Encode an embedding as base64 of its Float32 bytes (the format
+ * written to meeting_chunks.embedding by the API worker)
+ */
+export function encodeEmbedding(values: number[] | Float32Array): string {
+  const bytes = new Uint8Array(new Float32Array(values).buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode a stored embedding into a Float32Array.
+ * Accepts base64 text, JSON arrays, ArrayBuffers, typed arrays and the
+ * byte arrays D1 returns for BLOB columns. Returns null if unreadable.
+ */
+export function decodeEmbedding(value: unknown): Float32Array | null {
+  if (value === null || value === undefined) return null;
+
+  if (value instanceof Float32Array) return value;
+
+  if (value instanceof ArrayBuffer) {
+    return value.byteLength % 4 === 0 ? new Float32Array(value.slice(0)) : null;
+  }
+
+  if (ArrayBuffer.isView(value)) {
+    const bytes = new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+    return bytesToFloat32(bytes);
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return null;
+    // D1 hands BLOBs back as plain arrays of bytes; a real embedding is never all integers 0-255
+    const looksLikeBytes = value.length % 4 === 0 &&
+      value.every(v => Number.isInteger(v) && v >= 0 && v <= 255);
+    return looksLikeBytes
+      ? bytesToFloat32(Uint8Array.from(value as number[]))
+      : Float32Array.from(value as number[]);
+  }
+
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+
+    if (trimmed.startsWith('[')) {
+      try {
+        return decodeEmbedding(JSON.parse(trimmed));
+      } catch (error) {
+        return null;
+      }
+    }
+
+    try {
+      const binary = atob(trimmed);
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+      }
+      return bytesToFloat32(bytes);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+function bytesToFloat32(bytes: Uint8Array): Float32Array | null {
+  if (bytes.byteLength === 0 || bytes.byteLength % 4 !== 0) return null;
+  // Copy so the Float32Array is aligned regardless of the source offset
+  return new Float32Array(bytes.slice().buffer);
+}
+
+/**
+ * Cosine similarity between two vectors; 0 when dimensions differ or
+ * either vector has zero magnitude
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function rankBySimilarity(
+  query: ArrayLike<number>,
+  candidates: Array<{ id: string; values: ArrayLike<number>; metadata?: VectorMetadata }>,
+  options: VectorQueryOptions
+): VectorMatch[] {
+  const topK = options.topK ?? DEFAULT_TOP_K;
+  const minScore = options.minScore ?? -1;
+
+  return candidates
+    .map(candidate => ({
+      id: candidate.id,
+      score: cosineSimilarity(query, candidate.values),
+      metadata: candidate.metadata,
+    }))
+    .filter(match => match.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+/**
+ * In-memory index used for tests and local development in place of Vectorize
+ */
+export class InMemoryVectorIndex implements VectorIndex {
+  private records: Map<string, VectorRecord> = new Map();
+
+  constructor(records: VectorRecord[] = []) {
+    records.forEach(record => this.records.set(record.id, record));
+  }
+
+  async query(vector: number[] | Float32Array, options: VectorQueryOptions = {}): Promise<VectorMatch[]> {
+    const { filter } = options;
+    const candidates = Array.from(this.records.values()).filter(record => {
+      if (filter?.projectId && record.metadata?.projectId !== filter.projectId) return false;
+      if (filter?.meetingIds && !filter.meetingIds.includes(String(record.metadata?.meetingId))) return false;
+      return true;
+    });
+
+    return rankBySimilarity(vector, candidates, options);
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    records.forEach(record => this.records.set(record.id, record));
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    ids.forEach(id => this.records.delete(id));
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+}
+
+/**
+ * Brute-force index over meeting_chunks.embedding in D1.
+ * Every matching chunk is scored: rows are read in pages ordered by id,
+ * and only the best topK matches are kept between pages, so memory stays
+ * bounded however large the corpus. Query time still grows with it.
+ */
+export class D1VectorIndex implements VectorIndex {
+  constructor(
+    private db: D1Database,
+    private pageSize: number = DEFAULT_PAGE_SIZE
+  ) {}
+
+  async query(vector: number[] | Float32Array, options: VectorQueryOptions = {}): Promise<VectorMatch[]> {
+    const { filter } = options;
+    let sql = `
+      SELECT mc.id, mc.meeting_id, mc.embedding, m.project_id
+      FROM meeting_chunks mc
+      JOIN meetings m ON mc.meeting_id = m.id
+      WHERE mc.embedding IS NOT NULL
+    `;
+    const params: (string | number)[] = [];
+
+    if (filter?.projectId) {
+      sql += ` AND m.project_id = ?`;
+      params.push(filter.projectId);
+    }
+
+    if (filter?.meetingIds && filter.meetingIds.length > 0) {
+      sql += ` AND mc.meeting_id IN (${filter.meetingIds.map(() => '?').join(', ')})`;
+      params.push(...filter.meetingIds);
+    }
+
+    let top: VectorMatch[] = [];
+    let afterId: string | null = null;
+
+    // Keyset pagination: each page starts after the last id of the previous one
+    for (;;) {
+      const after: string = afterId === null ? '' : ' AND mc.id > ?';
+      const pageParams: (string | number)[] = afterId === null ? params : [...params, afterId];
+      const page: D1Result<Record<string, unknown>> = await this.db.prepare(`${sql}${after} ORDER BY mc.id LIMIT ?`)
+        .bind(...pageParams, this.pageSize)
+        .all();
+      const results = page.results;
+
+      const candidates: Array<{ id: string; values: Float32Array; metadata: VectorMetadata }> = [];
+      for (const row of results) {
+        const values = decodeEmbedding(row.embedding);
+        if (!values) continue;
+        candidates.push({
+          id: String(row.id),
+          values,
+          metadata: {
+            meetingId: String(row.meeting_id),
+            projectId: (row.project_id as string | null) ?? null,
+          },
+        });
+      }
+
+      // The page's best plus the running best is still the best overall
+      top = [...top, ...rankBySimilarity(vector, candidates, options)]
+        .sort((a, b) => b.score - a.score)
+        .slice(0, options.topK ?? DEFAULT_TOP_K);
+
+      if (results.length < this.pageSize) break;
+      afterId = String(results[results.length - 1].id);
+    }
+
+    return top;
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    for (const record of records) {
+      await this.db.prepare(
+        `UPDATE meeting_chunks SET embedding = ?, updated_at = datetime('now') WHERE id = ?`
+      ).bind(encodeEmbedding(record.values), record.id).run();
+    }
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      await this.db.prepare(
+        `UPDATE meeting_chunks SET embedding = NULL, updated_at = datetime('now') WHERE id = ?`
+      ).bind(id).run();
+    }
+  }
+}
+
+/**
+ * Adapter over a Cloudflare Vectorize binding.
+ * Vectors are expected to carry meeting_id / project_id metadata, with
+ * metadata indexes on both so they can be filtered on.
+ */
+export class CloudflareVectorizeIndex implements VectorIndex {
+  constructor(private index: VectorizeIndex) {}
+
+  async query(vector: number[] | Float32Array, options: VectorQueryOptions = {}): Promise<VectorMatch[]> {
+    const { filter } = options;
+    const vectorizeFilter: VectorizeVectorMetadataFilter = {};
+    if (filter?.projectId) {
+      vectorizeFilter.project_id = filter.projectId;
+    }
+
+    // Vectorize filters on one meeting id; for several, fetch as many
+    // matches as allowed and keep the topK from those meetings
+    const topK = options.topK ?? DEFAULT_TOP_K;
+    const meetingIds = filter?.meetingIds;
+    if (meetingIds?.length === 1) {
+      vectorizeFilter.meeting_id = meetingIds[0];
+    }
+
+    const result = await this.index.query(Array.from(vector), {
+      topK: meetingIds && meetingIds.length > 1 ? Math.max(topK, VECTORIZE_MAX_TOP_K) : topK,
+      returnMetadata: true,
+      filter: Object.keys(vectorizeFilter).length > 0 ? vectorizeFilter : undefined,
+    });
+
+    const minScore = options.minScore ?? -1;
+    return result.matches
+      .map(match => {
+        const metadata = (match.metadata || {}) as Record<string, unknown>;
+        return {
+          id: match.id,
+          score: match.score,
+          metadata: {
+            meetingId: metadata.meeting_id as string | undefined,
+            projectId: (metadata.project_id as string | undefined) ?? null,
+          },
+        };
+      })
+      .filter(match => match.score >= minScore)
+      .filter(match => !meetingIds || meetingIds.includes(String(match.metadata.meetingId)))
+      .slice(0, topK);
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.index.upsert(records.map(record => {
+      const metadata: Record<string, string> = {};
+      if (record.metadata?.meetingId) metadata.meeting_id = record.metadata.meetingId;
+      if (record.metadata?.projectId) metadata.project_id = record.metadata.projectId;
+      return {
+        id: record.id,
+        values: Array.from(record.values),
+        metadata,
+      };
+    }));
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.index.deleteByIds(ids);
+  }
+}
+
+/**
+ * Pick the best available index for a worker environment:
+ * Vectorize when bound, otherwise a D1 scan
+ */
+export function createVectorIndex(env: { DB: D1Database; VECTORIZE?: VectorizeIndex }): VectorIndex {
+  if (env.VECTORIZE) {
+    return new CloudflareVectorizeIndex(env.VECTORIZE);
+  }
+  return new D1VectorIndex(env.DB);
+}
@@ -0,0 +1,15 @@
+-- Migration: Agent task retries and dead letters
+-- Purpose: Keep the stack of the last failure on agent tasks and count
+-- replays of dead-lettered (failed) tasks
+
+-- 1. Failure details and replay tracking for processing_queue
+ALTER TABLE processing_queue ADD COLUMN error_stack TEXT; -- Stack trace of the last failed attempt
+ALTER TABLE processing_queue ADD COLUMN replay_count INTEGER DEFAULT 0; -- Times requeued from the dead-letter list
+
+-- 2. Create indexes for listing dead letters
+CREATE INDEX IF NOT EXISTS idx_processing_queue_failed ON processing_queue(status, completed_at);
+
+-- 3. Add migration tracking
+INSERT INTO system_metadata (key, value, updated_at)
+VALUES ('agent_dead_letters_migration', '1.0.0', CURRENT_TIMESTAMP)
+ON CONFLICT(key) DO UPDATE SET value = '1.0.0', updated_at = CURRENT_TIMESTAMP;
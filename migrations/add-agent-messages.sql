@@ -0,0 +1,27 @@
+-- Migration: Agent message bus
+-- Purpose: Log messages agents publish to each other and tag queued tasks
+-- with the correlation id of the chain they belong to
+
+-- 1. Messages published on the agent message bus
+CREATE TABLE IF NOT EXISTS agent_messages (
+  id TEXT PRIMARY KEY,
+  topic TEXT NOT NULL, -- e.g. 'meetings.synced', 'risk.critical'
+  from_agent TEXT NOT NULL,
+  payload JSON,
+  correlation_id TEXT NOT NULL,
+  causation_id TEXT, -- processing_queue.id of the task that published it
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 2. Chain tracking for agent tasks
+ALTER TABLE processing_queue ADD COLUMN correlation_id TEXT; -- Chain id; a task that starts a chain uses its own id
+ALTER TABLE processing_queue ADD COLUMN caused_by_message TEXT; -- agent_messages.id that queued the task
+
+-- 3. Create indexes for tracing
+CREATE INDEX IF NOT EXISTS idx_agent_messages_correlation ON agent_messages(correlation_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_processing_queue_correlation ON processing_queue(correlation_id);
+
+-- 4. Add migration tracking
+INSERT INTO system_metadata (key, value, updated_at)
+VALUES ('agent_messages_migration', '1.0.0', CURRENT_TIMESTAMP)
+ON CONFLICT(key) DO UPDATE SET value = '1.0.0', updated_at = CURRENT_TIMESTAMP;
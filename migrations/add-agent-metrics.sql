@@ -0,0 +1,30 @@
+-- Migration: Agent metrics and settings
+-- Purpose: Per-agent execution counters that survive between orchestrator
+-- invocations, and the enabled flag set from the agents admin page
+
+-- 1. Running totals per agent (one row per agent, updated after every attempt)
+CREATE TABLE IF NOT EXISTS agent_metrics (
+  agent_name TEXT PRIMARY KEY,
+  total_executions INTEGER DEFAULT 0,
+  successful_executions INTEGER DEFAULT 0,
+  failed_executions INTEGER DEFAULT 0,
+  total_execution_ms INTEGER DEFAULT 0, -- Divided by total_executions for the average
+  tokens_used INTEGER DEFAULT 0, -- From AgentResult.metadata.tokensUsed
+  cost REAL DEFAULT 0, -- From AgentResult.metadata.cost
+  last_error TEXT,
+  last_error_at DATETIME,
+  last_execution_at DATETIME,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 2. Overrides for agent settings declared in code
+CREATE TABLE IF NOT EXISTS agent_settings (
+  agent_name TEXT PRIMARY KEY,
+  enabled BOOLEAN NOT NULL,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 3. Add migration tracking
+INSERT INTO system_metadata (key, value, updated_at)
+VALUES ('agent_metrics_migration', '1.0.0', CURRENT_TIMESTAMP)
+ON CONFLICT(key) DO UPDATE SET value = '1.0.0', updated_at = CURRENT_TIMESTAMP;
@@ -0,0 +1,35 @@
+-- Migration: Durable agent tasks in processing_queue
+-- Purpose: Let the agent orchestrator persist its tasks in D1 and lease them
+-- so that only one worker runs a task at a time
+
+-- 1. Make sure the queue exists (columns used by the vectorization workers)
+CREATE TABLE IF NOT EXISTS processing_queue (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  task_type TEXT NOT NULL, -- 'vectorize_meeting', 'vectorize_document', 'agent:<agent-name>'
+  payload JSON,
+  priority INTEGER DEFAULT 5, -- Higher runs first
+  status TEXT DEFAULT 'pending', -- 'pending', 'running', 'completed', 'failed'
+  attempts INTEGER DEFAULT 0,
+  error_message TEXT,
+  scheduled_for DATETIME DEFAULT CURRENT_TIMESTAMP,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  completed_at DATETIME
+);
+
+-- 2. Leasing and result columns for agent tasks
+ALTER TABLE processing_queue ADD COLUMN lease_owner TEXT; -- Worker invocation holding the task
+ALTER TABLE processing_queue ADD COLUMN lease_expires_at DATETIME; -- Task becomes claimable again after this
+ALTER TABLE processing_queue ADD COLUMN max_attempts INTEGER DEFAULT 3;
+ALTER TABLE processing_queue ADD COLUMN started_at DATETIME;
+ALTER TABLE processing_queue ADD COLUMN result JSON;
+ALTER TABLE processing_queue ADD COLUMN dedupe_key TEXT; -- Prevents double-enqueueing scheduled runs
+
+-- 3. Create indexes for claiming and de-duplication
+CREATE INDEX IF NOT EXISTS idx_processing_queue_claim ON processing_queue(task_type, status, priority DESC, scheduled_for);
+CREATE INDEX IF NOT EXISTS idx_processing_queue_lease ON processing_queue(status, lease_expires_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_processing_queue_dedupe ON processing_queue(dedupe_key);
+
+-- 4. Add migration tracking
+INSERT INTO system_metadata (key, value, updated_at)
+VALUES ('agent_task_leasing_migration', '1.0.0', CURRENT_TIMESTAMP)
+ON CONFLICT(key) DO UPDATE SET value = '1.0.0', updated_at = CURRENT_TIMESTAMP;
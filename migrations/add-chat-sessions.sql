@@ -0,0 +1,38 @@
+-- Migration: Add persistent chat sessions
+-- Purpose: Store multi-turn conversations from /api/chat so they can be
+-- resumed and used as memory for follow-up questions
+
+-- 1. One row per conversation
+CREATE TABLE IF NOT EXISTS chat_sessions (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  title TEXT NOT NULL DEFAULT 'New conversation',
+  project_id TEXT, -- Set when the conversation is scoped to a project
+  message_count INTEGER DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE SET NULL
+);
+
+-- 2. Messages within a conversation
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  session_id TEXT NOT NULL,
+  role TEXT NOT NULL, -- 'user', 'assistant'
+  content TEXT NOT NULL,
+  rewritten_query TEXT, -- Standalone question used for retrieval (user turns)
+  citations JSON, -- ChatCitation[] (assistant turns)
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (session_id) REFERENCES chat_sessions(id) ON DELETE CASCADE
+);
+
+-- 3. Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_updated ON chat_sessions(updated_at);
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_project ON chat_sessions(project_id);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_session ON chat_messages(session_id, created_at);
+
+-- 4. Add migration tracking
+INSERT INTO system_metadata (key, value, updated_at)
+VALUES ('chat_sessions_migration', '1.0.0', CURRENT_TIMESTAMP)
+ON CONFLICT(key) DO UPDATE SET value = '1.0.0', updated_at = CURRENT_TIMESTAMP;
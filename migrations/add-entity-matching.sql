@@ -0,0 +1,44 @@
+-- Migration: Add entity matching
+-- Purpose: Extra names the project/client matcher can recognise, and a
+-- review queue for meetings and documents it couldn't assign confidently
+
+-- 1. Aliases, job numbers, addresses and email domains for projects and clients
+CREATE TABLE IF NOT EXISTS entity_aliases (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  entity_type TEXT NOT NULL, -- 'project', 'client'
+  entity_id TEXT NOT NULL,
+  alias TEXT NOT NULL,
+  alias_type TEXT NOT NULL DEFAULT 'name', -- 'name', 'job_number', 'address', 'email_domain'
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  UNIQUE(entity_type, entity_id, alias_type, alias)
+);
+
+-- 2. Low-confidence or ambiguous matches waiting for a person to decide
+CREATE TABLE IF NOT EXISTS entity_match_reviews (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  source_type TEXT NOT NULL, -- 'meeting', 'document'
+  source_id TEXT NOT NULL,
+  source_title TEXT,
+  entity_type TEXT NOT NULL, -- 'project', 'client'
+  candidates JSON, -- MatchCandidate[], best first
+  top_entity_id TEXT,
+  top_confidence REAL,
+  status TEXT DEFAULT 'pending', -- 'pending', 'accepted', 'rejected'
+  resolved_entity_id TEXT,
+  resolved_by TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  resolved_at DATETIME,
+
+  UNIQUE(source_type, source_id, entity_type)
+);
+
+-- 3. Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_entity_aliases_entity ON entity_aliases(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_entity_match_reviews_status ON entity_match_reviews(status, created_at);
+
+-- 4. Add migration tracking
+INSERT INTO system_metadata (key, value, updated_at)
+VALUES ('entity_matching_migration', '1.0.0', CURRENT_TIMESTAMP)
+ON CONFLICT(key) DO UPDATE SET value = '1.0.0', updated_at = CURRENT_TIMESTAMP;
@@ -0,0 +1,31 @@
+-- Migration: Add the canonical entity registry
+-- Purpose: Cluster extracted person, client, subcontractor and project
+-- mentions across meetings into canonical entities linked to D1 records
+
+-- 1. One row per real-world person, company or project
+CREATE TABLE IF NOT EXISTS entities (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  entity_type TEXT NOT NULL, -- 'person', 'client', 'subcontractor', 'project'
+  canonical_name TEXT NOT NULL,
+  aliases JSON, -- Other names it has been mentioned by
+  email TEXT,
+  linked_table TEXT, -- 'employees', 'clients', 'subcontractors', 'projects'; NULL when not on file
+  linked_id TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 2. Which entity each mention was resolved to, and how
+ALTER TABLE extracted_entities ADD COLUMN entity_id TEXT; -- entities.id
+ALTER TABLE extracted_entities ADD COLUMN resolution TEXT; -- 'auto', 'created', 'ambiguous', 'unresolved', 'manual'; NULL until a pass runs
+
+-- 3. Create indexes for seeding, listing and resolution passes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entities_link ON entities(linked_table, linked_id);
+CREATE INDEX IF NOT EXISTS idx_entities_type ON entities(entity_type, canonical_name);
+CREATE INDEX IF NOT EXISTS idx_extracted_entities_entity ON extracted_entities(entity_id);
+CREATE INDEX IF NOT EXISTS idx_extracted_entities_resolution ON extracted_entities(resolution, entity_type);
+
+-- 4. Add migration tracking
+INSERT INTO system_metadata (key, value, updated_at)
+VALUES ('entity_registry_migration', '1.0.0', CURRENT_TIMESTAMP)
+ON CONFLICT(key) DO UPDATE SET value = '1.0.0', updated_at = CURRENT_TIMESTAMP;
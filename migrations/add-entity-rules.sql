@@ -0,0 +1,17 @@
+-- Migration: Add entity rules
+-- Purpose: Per-tenant entity extraction rules for SmartChunkingService, as
+-- the same JSON config the harness and API accept
+
+-- 1. One rule set per tenant
+CREATE TABLE IF NOT EXISTS entity_rule_sets (
+  tenant_id TEXT PRIMARY KEY,
+  config JSON NOT NULL, -- EntityRuleConfig: { extendDefaults?, disable?, rules[] }
+  updated_by TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 2. Add migration tracking
+INSERT INTO system_metadata (key, value, updated_at)
+VALUES ('entity_rules_migration', '1.0.0', CURRENT_TIMESTAMP)
+ON CONFLICT(key) DO UPDATE SET value = '1.0.0', updated_at = CURRENT_TIMESTAMP;
@@ -0,0 +1,33 @@
+-- Migration: Add meeting insights
+-- Purpose: Keep what the meeting intelligence agent extracts from each
+-- transcript; one row per meeting and agent version so re-runs overwrite
+
+-- 1. Insights produced by MeetingIntelligenceAgent
+CREATE TABLE IF NOT EXISTS meeting_insights (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  meeting_id TEXT NOT NULL,
+  agent_version TEXT NOT NULL,
+  project_id TEXT, -- Project the agent associated the meeting with, if any
+  analysis_mode TEXT, -- 'single', 'map-reduce'
+  action_items JSON, -- ActionItem[]
+  decisions JSON, -- Decision[]
+  risks JSON, -- Risk[]
+  sentiment TEXT, -- 'positive', 'neutral', 'negative'
+  summary TEXT,
+  key_topics JSON, -- string[]
+  next_steps JSON, -- string[]
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (meeting_id) REFERENCES meetings(id) ON DELETE CASCADE,
+  UNIQUE(meeting_id, agent_version)
+);
+
+-- 2. Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_meeting_insights_meeting ON meeting_insights(meeting_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_meeting_insights_project ON meeting_insights(project_id);
+
+-- 3. Add migration tracking
+INSERT INTO system_metadata (key, value, updated_at)
+VALUES ('meeting_insights_migration', '1.0.0', CURRENT_TIMESTAMP)
+ON CONFLICT(key) DO UPDATE SET value = '1.0.0', updated_at = CURRENT_TIMESTAMP;
@@ -0,0 +1,64 @@
+-- Migration: Add notifications
+-- Purpose: Store notifications for employees, log each delivery attempt per
+-- channel, and keep per-employee channel preferences and quiet hours
+
+-- 1. One row per notification per recipient
+CREATE TABLE IF NOT EXISTS notifications (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  recipient_id TEXT NOT NULL, -- employees.id
+  type TEXT NOT NULL, -- 'critical-risk', 'project-health', ...
+  severity TEXT NOT NULL DEFAULT 'info' CHECK (severity IN ('info', 'warning', 'critical')),
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT, -- App path the notification points at
+  project_id TEXT,
+  meeting_id TEXT,
+  data JSON,
+  correlation_id TEXT, -- Agent chain that raised it, if any
+  in_app BOOLEAN DEFAULT FALSE, -- Delivered to the in-app inbox
+  read_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (recipient_id) REFERENCES employees(id) ON DELETE CASCADE,
+  FOREIGN KEY (project_id) REFERENCES projects(id),
+  FOREIGN KEY (meeting_id) REFERENCES meetings(id)
+);
+
+-- 2. Delivery attempts per channel; deferred rows wait out quiet hours
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  notification_id TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('in-app', 'email', 'webhook')),
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed', 'deferred', 'skipped')),
+  deliver_after DATETIME, -- When a deferred delivery may be sent
+  error_message TEXT,
+  attempted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (notification_id) REFERENCES notifications(id) ON DELETE CASCADE,
+  UNIQUE(notification_id, channel)
+);
+
+-- 3. Per-employee preferences; employees without a row get the defaults
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  employee_id TEXT PRIMARY KEY,
+  channels JSON NOT NULL DEFAULT '["in-app","email"]', -- Channels to deliver on
+  min_severity TEXT NOT NULL DEFAULT 'info' CHECK (min_severity IN ('info', 'warning', 'critical')), -- Below this only in-app
+  webhook_url TEXT, -- Slack-compatible incoming webhook
+  quiet_hours_start TEXT, -- 'HH:MM' local time
+  quiet_hours_end TEXT,
+  time_zone TEXT, -- IANA timezone for quiet hours
+  critical_bypasses_quiet_hours BOOLEAN DEFAULT TRUE,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (employee_id) REFERENCES employees(id) ON DELETE CASCADE
+);
+
+-- 4. Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_notifications_inbox ON notifications(recipient_id, in_app, read_at, created_at);
+CREATE INDEX IF NOT EXISTS idx_notifications_correlation ON notifications(correlation_id);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_deferred ON notification_deliveries(status, deliver_after);
+
+-- 5. Add migration tracking
+INSERT INTO system_metadata (key, value, updated_at)
+VALUES ('notifications_migration', '1.0.0', CURRENT_TIMESTAMP)
+ON CONFLICT(key) DO UPDATE SET value = '1.0.0', updated_at = CURRENT_TIMESTAMP;
@@ -0,0 +1,26 @@
+-- Migration: Add project health history
+-- Purpose: Keep every health score the project monitor agent computes, with
+-- the factors behind it, so trends can be charted and explained
+
+-- 1. One row per project per monitor run
+CREATE TABLE IF NOT EXISTS project_health_history (
+  id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+  project_id TEXT NOT NULL,
+  health_score INTEGER NOT NULL, -- 0-100
+  previous_score INTEGER, -- Score from the run before, if any
+  factors JSON NOT NULL, -- HealthFactor[]: per-factor score, weight and detail
+  changes JSON, -- FactorChange[]: how much each factor moved the score since the previous run
+  explanation TEXT,
+  computed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+-- 2. Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_project_health_project ON project_health_history(project_id, computed_at);
+CREATE INDEX IF NOT EXISTS idx_project_health_score ON project_health_history(health_score);
+
+-- 3. Add migration tracking
+INSERT INTO system_metadata (key, value, updated_at)
+VALUES ('project_health_migration', '1.0.0', CURRENT_TIMESTAMP)
+ON CONFLICT(key) DO UPDATE SET value = '1.0.0', updated_at = CURRENT_TIMESTAMP;
@@ -0,0 +1,29 @@
+-- Migration: Add generated reports
+-- Purpose: Index the reports the report generator agent writes to R2, so
+-- they can be listed and downloaded without listing the bucket
+
+-- 1. One row per generated report; the files live in R2 under reports/
+CREATE TABLE IF NOT EXISTS reports (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL CHECK (kind IN ('weekly', 'emergency', 'leadership')),
+  project_id TEXT, -- NULL for portfolio-wide reports
+  title TEXT NOT NULL,
+  summary TEXT,
+  period_start DATE,
+  period_end DATE,
+  r2_keys JSON NOT NULL, -- { md, html, pdf } object keys
+  correlation_id TEXT, -- Agent chain that produced it
+  generated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE SET NULL
+);
+
+-- 2. Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_reports_generated ON reports(generated_at);
+CREATE INDEX IF NOT EXISTS idx_reports_project ON reports(project_id, generated_at);
+CREATE INDEX IF NOT EXISTS idx_reports_kind ON reports(kind, generated_at);
+
+-- 3. Add migration tracking
+INSERT INTO system_metadata (key, value, updated_at)
+VALUES ('reports_migration', '1.0.0', CURRENT_TIMESTAMP)
+ON CONFLICT(key) DO UPDATE SET value = '1.0.0', updated_at = CURRENT_TIMESTAMP;
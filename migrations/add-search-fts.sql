@@ -0,0 +1,115 @@
+-- Migration: Add FTS5 keyword index for hybrid search
+-- Purpose: BM25 keyword retrieval over meetings, chunks, tasks and projects,
+-- fused with chunk embeddings in lib/services/hybrid-search.ts
+
+-- 1. Unified full-text index. Only title/body are tokenized, the rest is carried for filtering.
+CREATE VIRTUAL TABLE IF NOT EXISTS search_fts USING fts5(
+  title,
+  body,
+  source_type UNINDEXED, -- 'meeting', 'chunk', 'task', 'project'
+  source_id UNINDEXED,
+  meeting_id UNINDEXED, -- Set for meetings and chunks
+  project_id UNINDEXED,
+  date UNINDEXED, -- Meeting date, task due date or project start date
+  tokenize = 'porter unicode61'
+);
+
+-- 2. Backfill from existing data. Each source is cleared first so re-running
+-- the migration rebuilds its rows instead of duplicating them.
+DELETE FROM search_fts WHERE source_type = 'meeting';
+INSERT INTO search_fts (title, body, source_type, source_id, meeting_id, project_id, date)
+SELECT title, COALESCE(summary, '') || ' ' || COALESCE(searchable_text, ''), 'meeting', id, id, project_id, date
+FROM meetings;
+
+DELETE FROM search_fts WHERE source_type = 'chunk';
+INSERT INTO search_fts (title, body, source_type, source_id, meeting_id, project_id, date)
+SELECT COALESCE(mc.speaker, ''), mc.content, 'chunk', mc.id, mc.meeting_id, m.project_id, m.date
+FROM meeting_chunks mc
+LEFT JOIN meetings m ON mc.meeting_id = m.id;
+
+DELETE FROM search_fts WHERE source_type = 'task';
+INSERT INTO search_fts (title, body, source_type, source_id, meeting_id, project_id, date)
+SELECT title, COALESCE(description, ''), 'task', id, related_meeting_id, project_id, due_date
+FROM tasks;
+
+DELETE FROM search_fts WHERE source_type = 'project';
+INSERT INTO search_fts (title, body, source_type, source_id, meeting_id, project_id, date)
+SELECT title, COALESCE(description, ''), 'project', id, NULL, id, start_date
+FROM projects;
+
+-- 3. Keep the index in sync with source tables
+CREATE TRIGGER IF NOT EXISTS search_fts_meetings_insert AFTER INSERT ON meetings BEGIN
+  INSERT INTO search_fts (title, body, source_type, source_id, meeting_id, project_id, date)
+  VALUES (NEW.title, COALESCE(NEW.summary, '') || ' ' || COALESCE(NEW.searchable_text, ''), 'meeting', NEW.id, NEW.id, NEW.project_id, NEW.date);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_fts_meetings_update AFTER UPDATE ON meetings BEGIN
+  DELETE FROM search_fts WHERE source_type = 'meeting' AND source_id = OLD.id;
+  INSERT INTO search_fts (title, body, source_type, source_id, meeting_id, project_id, date)
+  VALUES (NEW.title, COALESCE(NEW.summary, '') || ' ' || COALESCE(NEW.searchable_text, ''), 'meeting', NEW.id, NEW.id, NEW.project_id, NEW.date);
+  -- Chunks inherit project and date from their meeting
+  UPDATE search_fts SET project_id = NEW.project_id, date = NEW.date
+  WHERE source_type = 'chunk' AND meeting_id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_fts_meetings_delete AFTER DELETE ON meetings BEGIN
+  DELETE FROM search_fts WHERE source_type = 'meeting' AND source_id = OLD.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_fts_chunks_insert AFTER INSERT ON meeting_chunks BEGIN
+  INSERT INTO search_fts (title, body, source_type, source_id, meeting_id, project_id, date)
+  VALUES (
+    COALESCE(NEW.speaker, ''), NEW.content, 'chunk', NEW.id, NEW.meeting_id,
+    (SELECT project_id FROM meetings WHERE id = NEW.meeting_id),
+    (SELECT date FROM meetings WHERE id = NEW.meeting_id)
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_fts_chunks_update AFTER UPDATE OF content, speaker ON meeting_chunks BEGIN
+  DELETE FROM search_fts WHERE source_type = 'chunk' AND source_id = OLD.id;
+  INSERT INTO search_fts (title, body, source_type, source_id, meeting_id, project_id, date)
+  VALUES (
+    COALESCE(NEW.speaker, ''), NEW.content, 'chunk', NEW.id, NEW.meeting_id,
+    (SELECT project_id FROM meetings WHERE id = NEW.meeting_id),
+    (SELECT date FROM meetings WHERE id = NEW.meeting_id)
+  );
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_fts_chunks_delete AFTER DELETE ON meeting_chunks BEGIN
+  DELETE FROM search_fts WHERE source_type = 'chunk' AND source_id = OLD.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_fts_tasks_insert AFTER INSERT ON tasks BEGIN
+  INSERT INTO search_fts (title, body, source_type, source_id, meeting_id, project_id, date)
+  VALUES (NEW.title, COALESCE(NEW.description, ''), 'task', NEW.id, NEW.related_meeting_id, NEW.project_id, NEW.due_date);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_fts_tasks_update AFTER UPDATE ON tasks BEGIN
+  DELETE FROM search_fts WHERE source_type = 'task' AND source_id = OLD.id;
+  INSERT INTO search_fts (title, body, source_type, source_id, meeting_id, project_id, date)
+  VALUES (NEW.title, COALESCE(NEW.description, ''), 'task', NEW.id, NEW.related_meeting_id, NEW.project_id, NEW.due_date);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_fts_tasks_delete AFTER DELETE ON tasks BEGIN
+  DELETE FROM search_fts WHERE source_type = 'task' AND source_id = OLD.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_fts_projects_insert AFTER INSERT ON projects BEGIN
+  INSERT INTO search_fts (title, body, source_type, source_id, meeting_id, project_id, date)
+  VALUES (NEW.title, COALESCE(NEW.description, ''), 'project', NEW.id, NULL, NEW.id, NEW.start_date);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_fts_projects_update AFTER UPDATE ON projects BEGIN
+  DELETE FROM search_fts WHERE source_type = 'project' AND source_id = OLD.id;
+  INSERT INTO search_fts (title, body, source_type, source_id, meeting_id, project_id, date)
+  VALUES (NEW.title, COALESCE(NEW.description, ''), 'project', NEW.id, NULL, NEW.id, NEW.start_date);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_fts_projects_delete AFTER DELETE ON projects BEGIN
+  DELETE FROM search_fts WHERE source_type = 'project' AND source_id = OLD.id;
+END;
+
+-- 4. Add migration tracking
+INSERT INTO system_metadata (key, value, updated_at)
+VALUES ('search_fts_migration', '1.0.0', CURRENT_TIMESTAMP)
+ON CONFLICT(key) DO UPDATE SET value = '1.0.0', updated_at = CURRENT_TIMESTAMP;
@@ -0,0 +1,133 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for the notification channels
+ * Accepts email over plain SMTP and webhook POSTs, prints them, and lists
+ * what it received, so notifications can be checked without a mail server
+ * or Slack workspace.
+ *
+ * Usage: node scripts/notification-sink.js [--smtp-port 2525] [--http-port 8025]
+ *
+ * Point the agent worker at it (e.g. in .dev.vars):
+ *   SMTP_HOST=localhost
+ *   SMTP_PORT=2525
+ *   SMTP_SECURITY=none
+ *   NOTIFY_WEBHOOK_URL=http://localhost:8025/webhook
+ *
+ * GET http://localhost:8025/ returns everything received, newest first.
+ */
+
+const net = require('net');
+const http = require('http');
+
+function option(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index > -1 ? parseInt(process.argv[index + 1]) : fallback;
+}
+
+const SMTP_PORT = option('smtp-port', 2525);
+const HTTP_PORT = option('http-port', 8025);
+const MAX_KEPT = 100;
+
+const received = [];
+
+function keep(entry) {
+  received.unshift({ ...entry, receivedAt: new Date().toISOString() });
+  received.length = Math.min(received.length, MAX_KEPT);
+}
+
+// Just enough SMTP for SmtpEmailChannel with SMTP_SECURITY=none
+const smtpServer = net.createServer(socket => {
+  let buffer = '';
+  let inData = false;
+  let envelope = { from: null, to: [] };
+  let data = [];
+
+  const reply = line => socket.write(`${line}\r\n`);
+  reply('220 notification-sink ESMTP ready');
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8');
+    let index;
+    while ((index = buffer.indexOf('\r\n')) > -1) {
+      const line = buffer.substring(0, index);
+      buffer = buffer.substring(index + 2);
+
+      if (inData) {
+        if (line === '.') {
+          inData = false;
+          const message = data.join('\n');
+          const subject = (message.match(/^Subject: (.*)$/m) || [])[1] || '(no subject)';
+          keep({ kind: 'email', from: envelope.from, to: envelope.to, subject, message });
+          console.log(`\n📧 Email to ${envelope.to.join(', ')}: ${subject}\n${message.split('\n\n').slice(1).join('\n\n')}`);
+          envelope = { from: null, to: [] };
+          data = [];
+          reply('250 OK: message accepted');
+        } else {
+          data.push(line.startsWith('..') ? line.substring(1) : line);
+        }
+        continue;
+      }
+
+      const command = line.substring(0, 4).toUpperCase();
+      if (command === 'EHLO' || command === 'HELO') {
+        socket.write('250-notification-sink\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n');
+      } else if (command === 'AUTH') {
+        reply('235 Authentication accepted');
+      } else if (command === 'MAIL') {
+        envelope.from = (line.match(/<(.*)>/) || [])[1] || null;
+        reply('250 OK');
+      } else if (command === 'RCPT') {
+        envelope.to.push((line.match(/<(.*)>/) || [])[1]);
+        reply('250 OK');
+      } else if (command === 'DATA') {
+        inData = true;
+        reply('354 End data with <CR><LF>.<CR><LF>');
+      } else if (command === 'RSET') {
+        envelope = { from: null, to: [] };
+        reply('250 OK');
+      } else if (command === 'NOOP') {
+        reply('250 OK');
+      } else if (command === 'QUIT') {
+        reply('221 Bye');
+        socket.end();
+      } else {
+        reply('502 Command not implemented');
+      }
+    }
+  });
+
+  socket.on('error', error => console.error('SMTP connection error:', error.message));
+});
+
+const httpServer = http.createServer((request, response) => {
+  if (request.method === 'GET' && request.url === '/') {
+    response.writeHead(200, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(received, null, 2));
+    return;
+  }
+
+  if (request.method === 'POST') {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => {
+      let payload;
+      try {
+        payload = JSON.parse(body);
+      } catch (error) {
+        payload = body;
+      }
+      keep({ kind: 'webhook', path: request.url, payload });
+      console.log(`\n🔔 Webhook ${request.url}: ${payload && payload.text ? payload.text : body}`);
+      response.writeHead(200, { 'Content-Type': 'text/plain' });
+      response.end('ok');
+    });
+    return;
+  }
+
+  response.writeHead(404);
+  response.end();
+});
+
+smtpServer.listen(SMTP_PORT, () => console.log(`SMTP sink listening on localhost:${SMTP_PORT}`));
+httpServer.listen(HTTP_PORT, () => console.log(`Webhook sink listening on http://localhost:${HTTP_PORT}/webhook`));
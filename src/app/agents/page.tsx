@@ -0,0 +1,327 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  RefreshCw,
+  Play,
+  Clock,
+  AlertCircle,
+  ChevronDown,
+  ChevronRight
+} from 'lucide-react';
+import AppLayout from '@/components/layout/AppLayout';
+
+interface AgentMetrics {
+  totalExecutions: number;
+  successfulExecutions: number;
+  failedExecutions: number;
+  averageExecutionTime: number;
+  tokensUsed: number;
+  cost: number;
+  lastError?: string;
+  lastErrorTime?: string;
+}
+
+interface AgentStatus {
+  name: string;
+  description: string;
+  schedule?: string;
+  timeZone?: string;
+  enabled: boolean;
+  status: 'idle' | 'running' | 'failed' | 'disabled';
+  lastRun?: string;
+  nextRun?: string;
+  queue: { pending: number; running: number; failed: number };
+  metrics: AgentMetrics;
+}
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  agents?: AgentStatus[];
+  agent?: AgentStatus;
+  history?: TaskHistoryEntry[];
+  taskId?: string;
+}
+
+interface TaskHistoryEntry {
+  id: string;
+  status: string;
+  attempts: number;
+  maxAttempts: number;
+  startedAt?: string;
+  completedAt?: string;
+  error?: string;
+}
+
+function formatDate(value?: string) {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function formatDuration(ms: number) {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${(ms / 60000).toFixed(1)}m`;
+}
+
+export default function AgentsPage() {
+  const [agents, setAgents] = useState<AgentStatus[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [history, setHistory] = useState<Record<string, TaskHistoryEntry[]>>({});
+
+  const fetchAgents = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/agents');
+      const data = await response.json() as ApiResponse;
+      if (!data.success) throw new Error(data.error || 'Failed to load agents');
+      setAgents(data.agents || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load agents');
+    }
+    setLoading(false);
+  };
+
+  const fetchHistory = async (name: string) => {
+    try {
+      const response = await fetch(`/api/agents/${encodeURIComponent(name)}?limit=10`);
+      const data = await response.json() as ApiResponse;
+      if (data.success) {
+        setHistory(prev => ({ ...prev, [name]: data.history || [] }));
+      }
+    } catch (err) {
+      console.error(`Error loading history for ${name}:`, err);
+    }
+  };
+
+  const toggleHistory = (name: string) => {
+    if (expanded === name) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(name);
+    fetchHistory(name);
+  };
+
+  const setEnabled = async (name: string, enabled: boolean) => {
+    setBusy(name);
+    try {
+      const response = await fetch(`/api/agents/${encodeURIComponent(name)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled })
+      });
+      const data = await response.json() as ApiResponse;
+      if (!data.success) throw new Error(data.error);
+      setAgents(prev => prev.map(agent => agent.name === name && data.agent ? data.agent : agent));
+    } catch (err) {
+      setMessage(`Could not ${enabled ? 'enable' : 'disable'} ${name}: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+    setBusy(null);
+  };
+
+  const runNow = async (name: string) => {
+    setBusy(name);
+    try {
+      const response = await fetch(`/api/agents/${encodeURIComponent(name)}/run`, { method: 'POST' });
+      const data = await response.json() as ApiResponse;
+      if (!data.success) throw new Error(data.error);
+      setMessage(`Queued ${name} (task ${data.taskId}); it runs on the next orchestrator cycle.`);
+      await fetchAgents();
+    } catch (err) {
+      setMessage(`Could not run ${name}: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+    setBusy(null);
+  };
+
+  useEffect(() => {
+    fetchAgents();
+  }, []);
+
+  const getStatusVariant = (status: AgentStatus['status']) => {
+    switch (status) {
+      case 'running': return 'default';
+      case 'failed': return 'destructive';
+      case 'disabled': return 'outline';
+      default: return 'secondary';
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="container mx-auto p-6">
+        <div className="mb-6 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Agents</h1>
+            <p className="text-gray-600">
+              Schedules, metrics and recent runs for the orchestrator&apos;s agents
+            </p>
+          </div>
+          <Button onClick={fetchAgents} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {error && (
+          <Alert className="mb-6">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {message && (
+          <Alert className="mb-6">
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading && agents.length === 0 ? (
+          <div className="text-center py-12">
+            <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4" />
+            <p>Loading agents...</p>
+          </div>
+        ) : (
+          <div className="grid gap-4">
+            {agents.map(agent => {
+              const { metrics } = agent;
+              const successRate = metrics.totalExecutions > 0
+                ? Math.round((metrics.successfulExecutions / metrics.totalExecutions) * 100)
+                : null;
+
+              return (
+                <Card key={agent.name}>
+                  <CardHeader>
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <CardTitle className="text-lg">{agent.name}</CardTitle>
+                          <Badge variant={getStatusVariant(agent.status)}>{agent.status}</Badge>
+                        </div>
+                        <CardDescription>{agent.description}</CardDescription>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <label className="flex items-center gap-2 text-sm">
+                          <Switch
+                            checked={agent.enabled}
+                            onCheckedChange={checked => setEnabled(agent.name, checked)}
+                            disabled={busy === agent.name}
+                          />
+                          {agent.enabled ? 'Enabled' : 'Disabled'}
+                        </label>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => runNow(agent.name)}
+                          disabled={!agent.enabled || busy === agent.name}
+                        >
+                          <Play className="h-3 w-3 mr-1" />
+                          Run now
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                      <div>
+                        <p className="text-gray-500">Schedule</p>
+                        <p className="font-mono">{agent.schedule || 'On demand'}</p>
+                        {agent.timeZone && <p className="text-xs text-gray-500">{agent.timeZone}</p>}
+                      </div>
+                      <div>
+                        <p className="text-gray-500 flex items-center gap-1"><Clock className="h-3 w-3" /> Next run</p>
+                        <p>{agent.enabled ? formatDate(agent.nextRun) : '—'}</p>
+                        <p className="text-xs text-gray-500">Last: {formatDate(agent.lastRun)}</p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Executions</p>
+                        <p>
+                          {metrics.totalExecutions}
+                          {successRate !== null && <span className="text-gray-500"> ({successRate}% ok)</span>}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          avg {formatDuration(metrics.averageExecutionTime)} · queue {agent.queue.pending + agent.queue.running}
+                          {agent.queue.failed > 0 && ` · ${agent.queue.failed} dead-lettered`}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Tokens / cost</p>
+                        <p>{metrics.tokensUsed.toLocaleString()}</p>
+                        <p className="text-xs text-gray-500">${metrics.cost.toFixed(4)}</p>
+                      </div>
+                    </div>
+
+                    {metrics.lastError && (
+                      <p className="mt-3 text-xs text-red-600">
+                        Last error ({formatDate(metrics.lastErrorTime)}): {metrics.lastError}
+                      </p>
+                    )}
+
+                    <button
+                      className="mt-4 flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+                      onClick={() => toggleHistory(agent.name)}
+                    >
+                      {expanded === agent.name ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      Recent tasks
+                    </button>
+
+                    {expanded === agent.name && (
+                      history[agent.name]?.length ? (
+                        <Table className="mt-2">
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Task</TableHead>
+                              <TableHead>Status</TableHead>
+                              <TableHead>Attempts</TableHead>
+                              <TableHead>Started</TableHead>
+                              <TableHead>Finished</TableHead>
+                              <TableHead>Error</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {history[agent.name].map(task => (
+                              <TableRow key={task.id}>
+                                <TableCell className="font-mono text-xs">{task.id.substring(0, 8)}</TableCell>
+                                <TableCell>
+                                  <Badge variant={task.status === 'failed' ? 'destructive' : 'secondary'}>{task.status}</Badge>
+                                </TableCell>
+                                <TableCell>{task.attempts}/{task.maxAttempts}</TableCell>
+                                <TableCell className="text-xs">{formatDate(task.startedAt)}</TableCell>
+                                <TableCell className="text-xs">{formatDate(task.completedAt)}</TableCell>
+                                <TableCell className="text-xs text-red-600 max-w-xs truncate">{task.error || ''}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      ) : (
+                        <p className="mt-2 text-sm text-gray-500">No finished tasks yet.</p>
+                      )
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
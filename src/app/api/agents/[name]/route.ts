@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { AgentOrchestrator } from '@/src/lib/agents/orchestrator';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+async function getOrchestrator() {
+  const context = await getCloudflareContext();
+  const db = context?.env?.DB;
+  return db ? new AgentOrchestrator(db, { timeZone: context.env.AGENT_TIMEZONE }) : null;
+}
+
+/**
+ * One agent's status plus its recent task history (?limit=, default 20)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const orchestrator = await getOrchestrator();
+    if (!orchestrator) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const { agents } = await orchestrator.getStatus();
+    const agent = agents.find(a => a.name === params.name);
+    if (!agent) {
+      return NextResponse.json({
+        success: false,
+        error: 'Agent not found'
+      }, { status: 404 });
+    }
+
+    const limit = Math.min(parseInt(request.nextUrl.searchParams.get('limit') || '20') || 20, 100);
+    const history = await orchestrator.getHistory(limit, params.name);
+
+    return NextResponse.json({
+      success: true,
+      agent,
+      history
+    });
+
+  } catch (error) {
+    console.error('Error fetching agent:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch agent'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Update agent settings: { enabled: boolean }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const orchestrator = await getOrchestrator();
+    if (!orchestrator) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const body = await request.json() as { enabled?: boolean };
+    if (typeof body.enabled !== 'boolean') {
+      return NextResponse.json({
+        success: false,
+        error: 'enabled must be true or false'
+      }, { status: 400 });
+    }
+
+    const { agents } = await orchestrator.getStatus();
+    if (!agents.some(a => a.name === params.name)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Agent not found'
+      }, { status: 404 });
+    }
+
+    await orchestrator.setAgentEnabled(params.name, body.enabled);
+    const { agents: updated } = await orchestrator.getStatus();
+
+    return NextResponse.json({
+      success: true,
+      agent: updated.find(a => a.name === params.name)
+    });
+
+  } catch (error) {
+    console.error('Error updating agent:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update agent'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { AgentOrchestrator } from '@/src/lib/agents/orchestrator';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+/**
+ * "Run now": queue a high-priority task for the agent. The orchestrator
+ * worker's next cron run (within a minute) picks it up.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const orchestrator = new AgentOrchestrator(db, { timeZone: context.env.AGENT_TIMEZONE });
+    const { agents } = await orchestrator.getStatus();
+    const agent = agents.find(a => a.name === params.name);
+
+    if (!agent) {
+      return NextResponse.json({
+        success: false,
+        error: 'Agent not found'
+      }, { status: 404 });
+    }
+    if (!agent.enabled) {
+      return NextResponse.json({
+        success: false,
+        error: 'Agent is disabled'
+      }, { status: 409 });
+    }
+
+    const body = await request.json().catch(() => ({})) as { data?: any };
+    const taskId = await orchestrator.queueTask(params.name, { ...body.data, manual: true }, 'high');
+
+    return NextResponse.json({
+      success: true,
+      taskId
+    }, { status: 202 });
+
+  } catch (error) {
+    console.error('Error queueing agent run:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to queue agent run'
+    }, { status: 500 });
+  }
+}
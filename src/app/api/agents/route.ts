@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { AgentOrchestrator } from '@/src/lib/agents/orchestrator';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+/**
+ * Every agent with its schedule, settings, queue counts and metrics
+ */
+export async function GET() {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const orchestrator = new AgentOrchestrator(db, { timeZone: context.env.AGENT_TIMEZONE });
+    const status = await orchestrator.getStatus();
+
+    return NextResponse.json({
+      success: true,
+      ...status
+    });
+
+  } catch (error) {
+    console.error('Error fetching agents:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch agents',
+      agents: []
+    }, { status: 500 });
+  }
+}
@@ -1,87 +1,426 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { OpenAI } from 'openai';
+import { expandChunkContext, ExpandedPassage } from '@/lib/services/context-expansion';
+import { ChatSession, ChatSessionStore, titleFromMessage } from '@/lib/services/chat-sessions';
+import {
+  ConversationTurn,
+  extractCitations,
+  generateGroundedAnswer,
+  GroundedAnswer,
+  PROJECT_NO_INFO_RESPONSE,
+  ProjectScope,
+  RetrievedSource,
+  rewriteFollowUpQuestion,
+  streamGroundedAnswer,
+  toCitation,
+} from '@/lib/services/grounded-chat';
+import { createOpenAIEmbedder, hybridSearch } from '@/lib/services/hybrid-search';
+import { formatProjectFacts, loadProjectFacts } from '@/lib/services/project-context';
+import { createVectorIndex } from '@/lib/services/vector-search';
 
 const RAG_WORKER_URL = process.env.NEXT_PUBLIC_RAG_WORKER_URL || 'https://fireflies-rag-worker.megan-d14.workers.dev';
+// Tokens of neighbouring chunks added around each hit; chunks themselves run to 1500
+const CONTEXT_TOKEN_BUDGET = 300;
+const MAX_SOURCES = 5;
+const HISTORY_MESSAGES = 8;
 
-export async function POST(request: NextRequest) {
+/**
+ * Cloudflare bindings, or an empty object when running outside Workers
+ */
+async function getEnv(): Promise<Record<string, any>> {
   try {
-    const body = await request.json() as { message: string; projectId?: number };
-    const { message, projectId } = body;
-    
-    // Use vector search for AI-powered responses
-    const searchResponse = await fetch(`${RAG_WORKER_URL}/vector-search`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ 
-        query: message, 
-        limit: 5 
-      }),
+    const context = await getCloudflareContext();
+    return context?.env || {};
+  } catch (error) {
+    console.error('Cloudflare context unavailable:', error);
+    return {};
+  }
+}
+
+/**
+ * Vector search on the RAG worker, falling back to its keyword search
+ */
+async function retrieveResults(message: string): Promise<any[] | null> {
+  const searchResponse = await fetch(`${RAG_WORKER_URL}/vector-search`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      query: message,
+      limit: MAX_SOURCES
+    }),
+  });
+
+  if (searchResponse.ok) {
+    const data = await searchResponse.json();
+    return data.results || [];
+  }
+
+  const errorData = await searchResponse.json().catch(() => ({ error: searchResponse.statusText }));
+  console.error('RAG worker error:', errorData);
+
+  // Fallback to regular search if vector search fails
+  const fallbackResponse = await fetch(`${RAG_WORKER_URL}/search`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      query: message,
+      limit: MAX_SOURCES
+    }),
+  });
+
+  if (!fallbackResponse.ok) {
+    return null;
+  }
+
+  const fallbackData = await fallbackResponse.json();
+  return fallbackData.results || [];
+}
+
+/**
+ * Retrieval restricted to chunks from meetings linked to one project.
+ * Runs against D1 directly so the project filter can't be bypassed, and
+ * re-checks the project on hydration. Results use the RAG worker's shape.
+ */
+async function retrieveProjectResults(
+  env: Record<string, any>,
+  query: string,
+  projectId: string
+): Promise<any[]> {
+  const apiKey = env.OPENAI_API_KEY || process.env.OPENAI_API_KEY;
+  const hits = await hybridSearch(env.DB, query, {
+    projectId,
+    sources: ['chunk'],
+    limit: MAX_SOURCES,
+    embedQuery: apiKey ? createOpenAIEmbedder(apiKey) : undefined,
+    vectorIndex: createVectorIndex({ DB: env.DB, VECTORIZE: env.VECTORIZE }),
+  });
+  if (hits.length === 0) return [];
+
+  const { results } = await env.DB.prepare(`
+    SELECT
+      mc.id,
+      mc.content,
+      mc.speaker,
+      mc.start_time,
+      m.id as meeting_id,
+      m.title as meeting_title,
+      m.date as meeting_date
+    FROM meeting_chunks mc
+    JOIN meetings m ON mc.meeting_id = m.id
+    WHERE mc.id IN (${hits.map(() => '?').join(', ')})
+      AND m.project_id = ?
+  `).bind(...hits.map(hit => hit.id), projectId).all();
+  const rowsById = new Map<string, any>(results.map((row: any) => [row.id as string, row]));
+
+  return hits
+    .filter(hit => rowsById.has(hit.id))
+    .map(hit => {
+      const row = rowsById.get(hit.id);
+      return {
+        meeting: { id: row.meeting_id, title: row.meeting_title, date: row.meeting_date },
+        chunk: { id: row.id, content: row.content, speaker: row.speaker, start_time: row.start_time },
+      };
     });
+}
 
-    if (!searchResponse.ok) {
-      const errorData = await searchResponse.json().catch(() => ({ error: searchResponse.statusText }));
-      console.error('RAG worker error:', errorData);
-      
-      // Fallback to regular search if vector search fails
-      const fallbackResponse = await fetch(`${RAG_WORKER_URL}/search`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ 
-          query: message, 
-          limit: 5 
-        }),
-      });
-      
-      if (!fallbackResponse.ok) {
+/**
+ * Expand each hit's chunk into a stitched passage so answers don't quote
+ * a chunk cut mid-sentence. Falls back to the raw chunks without D1.
+ */
+async function loadPassages(db: D1Database | undefined, results: any[]): Promise<Map<string, ExpandedPassage>> {
+  if (!db) return new Map();
+
+  try {
+    const chunkIds = results.map(r => r.chunk?.id).filter(Boolean);
+    return await expandChunkContext(db, chunkIds, { neighbourTokenBudget: CONTEXT_TOKEN_BUDGET });
+  } catch (error) {
+    console.error('Context expansion error:', error);
+    return new Map();
+  }
+}
+
+function toSources(results: any[], passages: Map<string, ExpandedPassage>): RetrievedSource[] {
+  return results
+    .filter(r => r.chunk?.id && r.meeting?.id)
+    .map(r => {
+      const passage = passages.get(r.chunk.id);
+      return {
+        meetingId: r.meeting.id,
+        title: r.meeting.title || 'Unknown Meeting',
+        date: r.meeting.date || undefined,
+        chunkId: r.chunk.id,
+        speaker: r.chunk.speaker || undefined,
+        timestamp: passage?.startTime ?? r.chunk.start_time ?? undefined,
+        content: passage?.content || r.chunk.content || '',
+      };
+    });
+}
+
+/**
+ * Extractive answer used when no model is available: quote the top sources
+ */
+function formatExtractiveAnswer(sources: RetrievedSource[]): string {
+  return `Here's what I found in the meeting transcripts:\n\n` +
+    sources.slice(0, 3).map((source, i) =>
+      `${i + 1}. From "${source.title}" (${source.date ? new Date(source.date).toLocaleDateString() : 'Date unknown'}): ${source.content.substring(0, 300)}... [${i + 1}]`
+    ).join('\n\n');
+}
+
+/**
+ * Stream the answer as server-sent events:
+ * - `session`: the chat session the turn belongs to
+ * - `sources`: every retrieved source, sent before generation starts
+ * - `token`: each chunk of answer text as it arrives
+ * - `done`: the final answer with the citations it actually used
+ * - `error`: generation failed part-way
+ * Generation stops when the client disconnects or cancels the stream;
+ * whatever was generated up to that point is still saved to the session.
+ */
+function streamAnswer(
+  openai: OpenAI,
+  message: string,
+  sources: RetrievedSource[],
+  requestSignal: AbortSignal,
+  options: {
+    session: ChatSession | null;
+    history: ConversationTurn[];
+    scope?: ProjectScope;
+    onComplete: (answer: GroundedAnswer) => Promise<void>;
+  }
+): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  requestSignal.addEventListener('abort', () => abortController.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (abortController.signal.aborted) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      if (options.session) {
+        send('session', { sessionId: options.session.id, title: options.session.title });
+      }
+      send('sources', { sources: sources.map((source, i) => toCitation(source, i + 1)) });
+
+      let answer = '';
+      try {
+        for await (const token of streamGroundedAnswer(openai, message, sources, {
+          signal: abortController.signal,
+          history: options.history,
+          scope: options.scope,
+        })) {
+          answer += token;
+          send('token', { text: token });
+        }
+        send('done', extractCitations(answer, sources));
+      } catch (error) {
+        if (!abortController.signal.aborted) {
+          console.error('Answer streaming error:', error);
+          send('error', { error: 'Failed to generate a response' });
+        }
+      } finally {
+        if (answer) {
+          await options.onComplete(extractCitations(answer, sources));
+        }
+        if (!abortController.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as {
+      message: string;
+      projectId?: string | number;
+      stream?: boolean;
+      sessionId?: string;
+    };
+    const { message, sessionId } = body;
+    const wantsStream = body.stream === true ||
+      (request.headers.get('accept') || '').includes('text/event-stream');
+
+    if (!message || message.trim().length === 0) {
+      return NextResponse.json(
+        { error: 'Message is required' },
+        { status: 400 }
+      );
+    }
+
+    const env = await getEnv();
+    const apiKey = env.OPENAI_API_KEY || process.env.OPENAI_API_KEY;
+    const openai = apiKey ? new OpenAI({ apiKey }) : null;
+    const store = env.DB ? new ChatSessionStore(env.DB) : null;
+
+    const requestedProjectId = body.projectId !== undefined && body.projectId !== null && body.projectId !== ''
+      ? String(body.projectId)
+      : undefined;
+
+    let session: ChatSession | null = null;
+    if (store && sessionId) {
+      session = await store.getSession(sessionId);
+      if (!session) {
+        return NextResponse.json(
+          { error: 'Chat session not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    // A session keeps the scope it started with; its history would
+    // otherwise leak into retrieval for a different project
+    if (session && requestedProjectId && requestedProjectId !== session.projectId) {
+      return NextResponse.json(
+        { error: session.projectId
+          ? 'Chat session belongs to a different project; start a new session'
+          : 'Chat session is not scoped to a project; start a new session' },
+        { status: 400 }
+      );
+    }
+
+    // Resumed project conversations stay scoped to their project
+    const projectId = requestedProjectId || session?.projectId;
+
+    // Project-scoped chat needs D1 to enforce the scope; never fall back
+    // to unscoped retrieval, which could surface other projects' data
+    let scope: ProjectScope | undefined;
+    if (projectId) {
+      if (!env.DB) {
+        return NextResponse.json({ response: PROJECT_NO_INFO_RESPONSE, citations: [] });
+      }
+      const facts = await loadProjectFacts(env.DB, projectId);
+      if (!facts) {
         return NextResponse.json(
-          { response: 'Sorry, I encountered an error searching the meeting database.' },
-          { status: 500 }
+          { error: 'Project not found' },
+          { status: 404 }
         );
       }
-      
-      const fallbackData = await fallbackResponse.json();
-      const fallbackResults = fallbackData.results || [];
-      
-      if (fallbackResults.length === 0) {
-        return NextResponse.json({
-          response: `I couldn't find any relevant information about "${message}" in the meeting transcripts.`
+      scope = { projectTitle: facts.title, facts: formatProjectFacts(facts) };
+    }
+
+    if (store && !session) {
+      try {
+        session = await store.createSession({ title: titleFromMessage(message), projectId });
+      } catch (error) {
+        console.error('Chat session error:', error);
+      }
+    }
+
+    // Earlier turns give the model memory and let us resolve follow-ups
+    const history: ConversationTurn[] = session && store
+      ? (await store.getMessages(session.id, HISTORY_MESSAGES)).map(m => ({ role: m.role, content: m.content }))
+      : [];
+    const retrievalQuery = openai
+      ? await rewriteFollowUpQuestion(openai, history, message)
+      : message;
+
+    if (session && store) {
+      await store.addMessage(session.id, {
+        role: 'user',
+        content: message,
+        rewrittenQuery: retrievalQuery !== message ? retrievalQuery : undefined,
+      });
+    }
+
+    // Persist the assistant turn and echo the session back to the client
+    const saveAnswer = async (answer: GroundedAnswer) => {
+      if (!session || !store) return;
+      try {
+        await store.addMessage(session.id, {
+          role: 'assistant',
+          content: answer.response,
+          citations: answer.citations,
         });
+      } catch (error) {
+        console.error('Error saving chat message:', error);
       }
-      
-      const response = `Based on the meeting transcripts, here's what I found about "${message}":\n\n` +
-        fallbackResults.slice(0, 3).map((r: any) => 
-          `• From "${r.meeting?.title || 'Unknown Meeting'}" (${new Date(r.meeting?.date).toLocaleDateString()}): ${r.chunk?.content?.substring(0, 200)}...`
-        ).join('\n\n');
-      
-      return NextResponse.json({ response });
+    };
+    const respond = async (answer: GroundedAnswer, status: number = 200) => {
+      await saveAnswer(answer);
+      return NextResponse.json({ ...answer, sessionId: session?.id }, { status });
+    };
+
+    const results = projectId
+      ? await retrieveProjectResults(env, retrievalQuery, projectId).catch(error => {
+          console.error('Project retrieval error:', error);
+          return [];
+        })
+      : await retrieveResults(retrievalQuery);
+
+    if (results === null) {
+      return respond(
+        { response: 'Sorry, I encountered an error searching the meeting database.', citations: [] },
+        500
+      );
     }
 
-    const data = await searchResponse.json();
-    const results = data.results || [];
-    
-    if (results.length === 0) {
-      return NextResponse.json({
-        response: `I couldn't find any relevant information about "${message}" in the meeting transcripts. The system has access to 827 meetings - try asking about specific projects, clients, or topics discussed in meetings.`
+    const topResults = results.slice(0, MAX_SOURCES);
+    const passages = await loadPassages(env.DB, topResults);
+    const sources = toSources(topResults, passages);
+
+    // With a project scope the facts alone may answer (budget, PM, tasks)
+    if (scope && sources.length === 0 && !openai) {
+      return respond({ response: PROJECT_NO_INFO_RESPONSE, citations: [] });
+    }
+
+    if (!scope && sources.length === 0) {
+      return respond({
+        response: `I couldn't find any relevant information about "${message}" in the meeting transcripts. Try asking about specific projects, clients, or topics discussed in meetings.`,
+        citations: []
+      });
+    }
+
+    // Without a model there is nothing to stream; the JSON answer below
+    // doubles as the fallback for streaming clients
+    if (openai && wantsStream) {
+      return streamAnswer(openai, message, sources, request.signal, {
+        session,
+        history,
+        scope,
+        onComplete: saveAnswer,
       });
     }
-    
-    // Format the response from search results
-    const response = `Based on AI analysis of the meeting transcripts, here's what I found:\n\n` +
-      results.slice(0, 3).map((r: any, i: number) => 
-        `${i + 1}. From "${r.meeting?.title || 'Unknown Meeting'}" (${r.meeting?.date ? new Date(r.meeting.date).toLocaleDateString() : 'Date unknown'}):\n   ${r.chunk?.content?.substring(0, 250) || 'No content available'}...`
-      ).join('\n\n') +
-      `\n\nFound ${results.length} relevant sections across the meeting database.`;
-    
-    return NextResponse.json({ response });
-    
+
+    if (openai) {
+      try {
+        const answer = await generateGroundedAnswer(openai, message, sources, { history, scope });
+        return respond(answer);
+      } catch (error) {
+        console.error('Answer generation error:', error);
+      }
+    }
+
+    if (sources.length === 0) {
+      return respond({ response: PROJECT_NO_INFO_RESPONSE, citations: [] });
+    }
+
+    return respond(extractCitations(formatExtractiveAnswer(sources), sources));
+
   } catch (error) {
     console.error('Chat API error:', error);
     return NextResponse.json(
-      { response: 'Sorry, I encountered an error processing your request. Please try again.' },
+      { response: 'Sorry, I encountered an error processing your request. Please try again.', citations: [] },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { ChatSessionStore } from '@/lib/services/chat-sessions';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+async function getStore(): Promise<ChatSessionStore | null> {
+  const context = await getCloudflareContext();
+  const db = context?.env?.DB;
+  return db ? new ChatSessionStore(db) : null;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const store = await getStore();
+    if (!store) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const session = await store.getSession(params.id);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: 'Chat session not found'
+      }, { status: 404 });
+    }
+
+    const messages = await store.getMessages(params.id);
+
+    return NextResponse.json({
+      success: true,
+      session,
+      messages
+    });
+
+  } catch (error) {
+    console.error('Error fetching chat session:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch chat session'
+    }, { status: 500 });
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const store = await getStore();
+    if (!store) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const body = await request.json() as { title?: string };
+    if (!body.title || !body.title.trim()) {
+      return NextResponse.json({
+        success: false,
+        error: 'Title is required'
+      }, { status: 400 });
+    }
+
+    const session = await store.renameSession(params.id, body.title);
+    if (!session) {
+      return NextResponse.json({
+        success: false,
+        error: 'Chat session not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      session
+    });
+
+  } catch (error) {
+    console.error('Error renaming chat session:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to rename chat session'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const store = await getStore();
+    if (!store) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const deleted = await store.deleteSession(params.id);
+    if (!deleted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Chat session not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error deleting chat session:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete chat session'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { ChatSessionStore } from '@/lib/services/chat-sessions';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '50');
+    const sessions = await new ChatSessionStore(db).listSessions(limit);
+
+    return NextResponse.json({
+      success: true,
+      sessions
+    });
+
+  } catch (error) {
+    console.error('Error listing chat sessions:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to list chat sessions'
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const body = await request.json().catch(() => ({})) as { title?: string; projectId?: string };
+    const session = await new ChatSessionStore(db).createSession(body);
+
+    return NextResponse.json({
+      success: true,
+      session
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating chat session:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create chat session'
+    }, { status: 500 });
+  }
+}
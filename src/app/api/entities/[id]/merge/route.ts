@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { EntityRegistry } from '@/lib/services/entity-registry';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+/**
+ * Merge into this entity: { entityIds?: string[], mentionIds?: string[] }.
+ * Merged entities are deleted and their mentions move here; mentionIds
+ * attach individual (e.g. ambiguous) mentions.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const { entityIds = [], mentionIds = [] } = await request.json() as {
+      entityIds?: string[];
+      mentionIds?: string[];
+    };
+    if (!Array.isArray(entityIds) || !Array.isArray(mentionIds) || entityIds.length + mentionIds.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'entityIds or mentionIds is required'
+      }, { status: 400 });
+    }
+
+    const registry = new EntityRegistry(db);
+    if (!(await registry.get(params.id))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Entity not found'
+      }, { status: 404 });
+    }
+
+    try {
+      return NextResponse.json({
+        success: true,
+        entity: await registry.merge(params.id, { entityIds, mentionIds })
+      });
+    } catch (error) {
+      // Unknown ids, mixed types or conflicting links
+      return NextResponse.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Entities cannot be merged'
+      }, { status: 409 });
+    }
+
+  } catch (error) {
+    console.error('Error merging entities:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to merge entities'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { EntityRegistry } from '@/lib/services/entity-registry';
+import { paginationMeta, parseListParams } from '@/lib/services/list-params';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+/**
+ * An entity with its mentions, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const registry = new EntityRegistry(db);
+    const entity = await registry.get(params.id);
+    if (!entity) {
+      return NextResponse.json({
+        success: false,
+        error: 'Entity not found'
+      }, { status: 404 });
+    }
+
+    const list = parseListParams(request.nextUrl.searchParams, {
+      sortFields: ['date'] as const,
+      defaultSort: 'date',
+    });
+    const { mentions, total } = await registry.listMentions({
+      entityId: entity.id,
+      limit: list.limit,
+      offset: list.offset
+    });
+
+    return NextResponse.json({
+      success: true,
+      entity,
+      mentions,
+      pagination: paginationMeta(list.page, list.limit, total)
+    });
+
+  } catch (error) {
+    console.error('Error fetching entity:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch entity'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { EntityRegistry } from '@/lib/services/entity-registry';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+/**
+ * Split mentions off into a new entity: { mentionIds: string[], name? }.
+ * The new entity is named after its most frequent mention unless named.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const { mentionIds, name } = await request.json() as { mentionIds?: string[]; name?: string };
+    if (!Array.isArray(mentionIds) || mentionIds.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'mentionIds is required'
+      }, { status: 400 });
+    }
+
+    const registry = new EntityRegistry(db);
+    const entity = await registry.get(params.id);
+    if (!entity) {
+      return NextResponse.json({
+        success: false,
+        error: 'Entity not found'
+      }, { status: 404 });
+    }
+    if (mentionIds.length >= entity.mentionCount) {
+      return NextResponse.json({
+        success: false,
+        error: 'Leave at least one mention on the entity; rename it instead'
+      }, { status: 400 });
+    }
+
+    try {
+      const created = await registry.split(entity.id, mentionIds, name);
+      return NextResponse.json({
+        success: true,
+        entity: await registry.get(entity.id),
+        created
+      });
+    } catch (error) {
+      // Mentions that belong to another entity
+      return NextResponse.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Mentions cannot be split off'
+      }, { status: 409 });
+    }
+
+  } catch (error) {
+    console.error('Error splitting entity:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to split entity'
+    }, { status: 500 });
+  }
+}
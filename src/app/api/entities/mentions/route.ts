@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { EntityRegistry, type MentionResolutionState } from '@/lib/services/entity-registry';
+import { paginationMeta, parseListParams } from '@/lib/services/list-params';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+const RESOLUTIONS: MentionResolutionState[] = ['auto', 'created', 'ambiguous', 'unresolved', 'manual'];
+
+/**
+ * Mentions by resolution state; defaults to the ambiguous ones waiting for
+ * a person to merge them into the right entity
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const resolution = (searchParams.get('resolution') || 'ambiguous') as MentionResolutionState;
+    if (!RESOLUTIONS.includes(resolution)) {
+      return NextResponse.json({
+        success: false,
+        error: `resolution must be one of ${RESOLUTIONS.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const list = parseListParams(searchParams, {
+      sortFields: ['date'] as const,
+      defaultSort: 'date',
+    });
+
+    const { mentions, total } = await new EntityRegistry(db).listMentions({
+      resolution,
+      limit: list.limit,
+      offset: list.offset
+    });
+
+    return NextResponse.json({
+      success: true,
+      mentions,
+      pagination: paginationMeta(list.page, list.limit, total)
+    });
+
+  } catch (error) {
+    console.error('Error fetching entity mentions:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch entity mentions',
+      mentions: []
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { EntityRegistry } from '@/lib/services/entity-registry';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+// Mentions per pass; run again for larger backlogs
+const MAX_LIMIT = 2000;
+
+/**
+ * Run a resolution pass: { meetingId?, limit? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const body = await request.json().catch(() => ({})) as { meetingId?: string; limit?: number };
+    const limit = Math.min(MAX_LIMIT, Math.max(1, Number(body.limit) || 500));
+
+    return NextResponse.json({
+      success: true,
+      summary: await new EntityRegistry(db).resolvePending({ meetingId: body.meetingId, limit })
+    });
+
+  } catch (error) {
+    console.error('Error resolving entities:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to resolve entities'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { EntityRegistry } from '@/lib/services/entity-registry';
+import { RESOLVABLE_ENTITY_TYPES, type ResolvableEntityType } from '@/lib/services/entity-resolution';
+import { paginationMeta, parseListParams } from '@/lib/services/list-params';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const type = searchParams.get('type') as ResolvableEntityType | null;
+    if (type && !RESOLVABLE_ENTITY_TYPES.includes(type)) {
+      return NextResponse.json({
+        success: false,
+        error: `type must be one of ${RESOLVABLE_ENTITY_TYPES.join(', ')}`
+      }, { status: 400 });
+    }
+
+    // Most mentioned first; only paging is configurable
+    const list = parseListParams(searchParams, {
+      sortFields: ['mentions'] as const,
+      defaultSort: 'mentions',
+    });
+
+    const { entities, total } = await new EntityRegistry(db).list({
+      type: type || undefined,
+      search: searchParams.get('q') || undefined,
+      limit: list.limit,
+      offset: list.offset
+    });
+
+    return NextResponse.json({
+      success: true,
+      entities,
+      pagination: paginationMeta(list.page, list.limit, total)
+    });
+
+  } catch (error) {
+    console.error('Error fetching entities:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch entities',
+      entities: []
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import {
+  DEFAULT_TENANT_ID,
+  ENTITY_TYPES,
+  EntityRuleStore,
+  validateEntityRuleConfig,
+  type EntityRuleConfig
+} from '@/lib/services/entity-rules';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const tenantId = request.nextUrl.searchParams.get('tenantId') || DEFAULT_TENANT_ID;
+
+    // ruleSet is null while the tenant runs on the default rules
+    return NextResponse.json({
+      success: true,
+      entityTypes: ENTITY_TYPES,
+      ruleSet: await new EntityRuleStore(db).get(tenantId)
+    });
+
+  } catch (error) {
+    console.error('Error fetching entity rules:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch entity rules'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Replace a tenant's rules: { tenantId?, updatedBy?, config: { extendDefaults?,
+ * disable?, rules: [{ type, pattern, flags?, confidence, group? }] } }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const { tenantId, updatedBy, config } = await request.json() as {
+      tenantId?: string;
+      updatedBy?: string;
+      config?: EntityRuleConfig;
+    };
+
+    const invalid = validateEntityRuleConfig(config);
+    if (invalid) {
+      return NextResponse.json({
+        success: false,
+        error: invalid
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      ruleSet: await new EntityRuleStore(db).save(tenantId || DEFAULT_TENANT_ID, config!, updatedBy)
+    });
+
+  } catch (error) {
+    console.error('Error updating entity rules:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update entity rules'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { MatchReviewQueue, type ReviewDecision } from '@/lib/services/match-review-queue';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+/**
+ * Resolve a review: { action: 'accept', entityId? } assigns the project or
+ * client to the meeting/document (default: the top candidate);
+ * { action: 'reject' } leaves the source unassigned
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const body = await request.json() as Partial<ReviewDecision>;
+    if (body.action !== 'accept' && body.action !== 'reject') {
+      return NextResponse.json({
+        success: false,
+        error: "action must be 'accept' or 'reject'"
+      }, { status: 400 });
+    }
+
+    const queue = new MatchReviewQueue(db);
+    const review = await queue.get(Number(params.id));
+    if (!review) {
+      return NextResponse.json({
+        success: false,
+        error: 'Review not found'
+      }, { status: 404 });
+    }
+    if (review.status !== 'pending') {
+      return NextResponse.json({
+        success: false,
+        error: `Review is already ${review.status}`
+      }, { status: 409 });
+    }
+    if (body.action === 'accept' && !body.entityId && !review.topEntityId) {
+      return NextResponse.json({
+        success: false,
+        error: 'entityId is required: the review has no candidates'
+      }, { status: 400 });
+    }
+
+    const resolved = await queue.resolve(review.id, {
+      action: body.action,
+      entityId: body.entityId,
+      resolvedBy: body.resolvedBy
+    });
+
+    return NextResponse.json({
+      success: true,
+      review: resolved
+    });
+
+  } catch (error) {
+    console.error('Error resolving match review:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to resolve match review'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { MatchReviewQueue, type ReviewSourceType, type ReviewStatus } from '@/lib/services/match-review-queue';
+import { paginationMeta, parseListParams } from '@/lib/services/list-params';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+const STATUSES: ReviewStatus[] = ['pending', 'accepted', 'rejected'];
+const SOURCE_TYPES: ReviewSourceType[] = ['meeting', 'document'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const status = (searchParams.get('status') || 'pending') as ReviewStatus;
+    const sourceType = searchParams.get('source') as ReviewSourceType | null;
+
+    if (!STATUSES.includes(status) || (sourceType && !SOURCE_TYPES.includes(sourceType))) {
+      return NextResponse.json({
+        success: false,
+        error: `status must be one of ${STATUSES.join(', ')}; source one of ${SOURCE_TYPES.join(', ')}`
+      }, { status: 400 });
+    }
+
+    // Newest first; only paging is configurable
+    const list = parseListParams(searchParams, {
+      sortFields: ['date'] as const,
+      defaultSort: 'date',
+    });
+
+    const { reviews, total } = await new MatchReviewQueue(db).list({
+      status,
+      sourceType: sourceType || undefined,
+      limit: list.limit,
+      offset: list.offset
+    });
+
+    return NextResponse.json({
+      success: true,
+      reviews,
+      pagination: paginationMeta(list.page, list.limit, total)
+    });
+
+  } catch (error) {
+    console.error('Error fetching match reviews:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch match reviews',
+      reviews: []
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { MeetingInsightsStore } from '@/src/lib/agents/insights-store';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const meetingId = params.id;
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const store = new MeetingInsightsStore(db);
+    const version = request.nextUrl.searchParams.get('version') || undefined;
+    const insights = await store.getForMeeting(meetingId, version);
+
+    if (!insights) {
+      return NextResponse.json({
+        success: false,
+        error: version
+          ? `No insights from agent version ${version} for this meeting`
+          : 'No insights for this meeting yet'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      insights,
+      versions: await store.listVersions(meetingId)
+    });
+
+  } catch (error) {
+    console.error('Error fetching meeting insights:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch meeting insights'
+    }, { status: 500 });
+  }
+}
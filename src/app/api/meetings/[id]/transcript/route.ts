@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const meetingId = params.id;
+    const context = await getCloudflareContext();
+    const env = context?.env;
+    const db = env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const meeting = await db.prepare(`
+      SELECT id, title, date, duration, participants, summary, project_id
+      FROM meetings
+      WHERE id = ?
+    `).bind(meetingId).first();
+
+    if (!meeting) {
+      return NextResponse.json({
+        success: false,
+        error: 'Meeting not found'
+      }, { status: 404 });
+    }
+
+    // Chunks in transcript order; citations link to individual chunk ids
+    const chunksQuery = await db.prepare(`
+      SELECT id, chunk_index, content, speaker, start_time, end_time
+      FROM meeting_chunks
+      WHERE meeting_id = ?
+      ORDER BY chunk_index ASC
+    `).bind(meetingId).all();
+
+    return NextResponse.json({
+      success: true,
+      meeting,
+      chunks: chunksQuery.results || []
+    });
+
+  } catch (error) {
+    console.error('Error fetching transcript:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch transcript'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { NotificationStore } from '@/lib/services/notifications';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+/**
+ * Mark one notification as read: { recipientId, read: true }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const body = await request.json() as { recipientId?: string; read?: boolean };
+    if (!body.recipientId || body.read !== true) {
+      return NextResponse.json({
+        success: false,
+        error: 'recipientId and read: true are required'
+      }, { status: 400 });
+    }
+
+    const store = new NotificationStore(db);
+    if (!(await store.markRead(params.id, body.recipientId, new Date()))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Notification not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      notification: await store.get(params.id)
+    });
+
+  } catch (error) {
+    console.error('Error updating notification:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update notification'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import {
+  NotificationStore,
+  validatePreferences,
+  type NotificationPreferences
+} from '@/lib/services/notifications';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const recipientId = request.nextUrl.searchParams.get('recipientId');
+    if (!recipientId) {
+      return NextResponse.json({
+        success: false,
+        error: 'recipientId is required'
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      preferences: await new NotificationStore(db).getPreferences(recipientId)
+    });
+
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch notification preferences'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Update preferences: { recipientId, channels?, minSeverity?, webhookUrl?,
+ * quietHours?: { start, end } | null, timeZone?, criticalBypassesQuietHours? }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const { recipientId, quietHours, ...rest } = await request.json() as Partial<NotificationPreferences> & {
+      recipientId?: string;
+      quietHours?: NotificationPreferences['quietHours'] | null;
+    };
+    if (!recipientId) {
+      return NextResponse.json({
+        success: false,
+        error: 'recipientId is required'
+      }, { status: 400 });
+    }
+
+    // null clears quiet hours; leaving the key out keeps them
+    const update: Partial<NotificationPreferences> = quietHours === undefined ? rest : { ...rest, quietHours: quietHours || undefined };
+    const invalid = validatePreferences(update);
+    if (invalid) {
+      return NextResponse.json({
+        success: false,
+        error: invalid
+      }, { status: 400 });
+    }
+
+    const store = new NotificationStore(db);
+    if (!(await store.getRecipient(recipientId))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Employee not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      preferences: await store.setPreferences(recipientId, update, new Date())
+    });
+
+  } catch (error) {
+    console.error('Error updating notification preferences:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update notification preferences'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { NotificationStore } from '@/lib/services/notifications';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+/**
+ * Mark every unread in-app notification of a recipient as read: { recipientId }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const body = await request.json().catch(() => ({})) as { recipientId?: string };
+    if (!body.recipientId) {
+      return NextResponse.json({
+        success: false,
+        error: 'recipientId is required'
+      }, { status: 400 });
+    }
+
+    const updated = await new NotificationStore(db).markAllRead(body.recipientId, new Date());
+
+    return NextResponse.json({
+      success: true,
+      updated
+    });
+
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to mark notifications read'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { NotificationStore } from '@/lib/services/notifications';
+import { paginationMeta } from '@/lib/services/list-params';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+/**
+ * A recipient's in-app notifications, newest first: ?recipientId=&unread=true&page=&limit=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const recipientId = searchParams.get('recipientId');
+    if (!recipientId) {
+      return NextResponse.json({
+        success: false,
+        error: 'recipientId is required'
+      }, { status: 400 });
+    }
+
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100);
+
+    const { notifications, total, unread } = await new NotificationStore(db).listForRecipient(recipientId, {
+      unreadOnly: searchParams.get('unread') === 'true',
+      limit,
+      offset: (page - 1) * limit
+    });
+
+    return NextResponse.json({
+      success: true,
+      notifications,
+      unread,
+      pagination: paginationMeta(page, limit, total)
+    });
+
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch notifications',
+      notifications: []
+    }, { status: 500 });
+  }
+}
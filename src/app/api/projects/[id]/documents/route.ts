@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { paginationMeta, parseListParams } from '@/lib/services/list-params';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+const SORT_COLUMNS = {
+  date: 'COALESCE(dm.modified_date, dm.created_date, dm.indexed_at)',
+  name: 'dm.title',
+  size: 'dm.file_size',
+  type: 'dm.document_type',
+} as const;
+
+type DocumentSort = keyof typeof SORT_COLUMNS;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const projectId = params.id;
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const list = parseListParams<DocumentSort>(searchParams, {
+      sortFields: Object.keys(SORT_COLUMNS) as DocumentSort[],
+      defaultSort: 'date',
+    });
+
+    let where = 'WHERE dm.project_id = ?';
+    const filterParams: string[] = [projectId];
+
+    if (list.dateFrom) {
+      where += ` AND date(${SORT_COLUMNS.date}) >= date(?)`;
+      filterParams.push(list.dateFrom);
+    }
+    if (list.dateTo) {
+      where += ` AND date(${SORT_COLUMNS.date}) <= date(?)`;
+      filterParams.push(list.dateTo);
+    }
+
+    const type = searchParams.get('type');
+    if (type) {
+      where += ' AND dm.document_type = ?';
+      filterParams.push(type);
+    }
+
+    const countQuery = await db.prepare(`
+      SELECT COUNT(*) as total FROM document_metadata dm ${where}
+    `).bind(...filterParams).first();
+    const total = Number(countQuery?.total || 0);
+
+    // Sort column comes from the whitelist above, never from the request
+    const documentsQuery = await db.prepare(`
+      SELECT
+        dm.id,
+        dm.title,
+        dm.filename,
+        dm.document_type,
+        dm.category,
+        dm.r2_key,
+        dm.file_size,
+        dm.mime_type,
+        dm.summary,
+        dm.created_date,
+        dm.modified_date,
+        dm.indexed_at
+      FROM document_metadata dm
+      ${where}
+      ORDER BY ${SORT_COLUMNS[list.sort]} ${list.order}, dm.id ASC
+      LIMIT ? OFFSET ?
+    `).bind(...filterParams, list.limit, list.offset).all();
+
+    const documents = (documentsQuery.results || []).map((row: any) => ({
+      id: row.id,
+      name: row.title || row.filename,
+      filename: row.filename,
+      type: row.document_type,
+      category: row.category,
+      r2_key: row.r2_key,
+      size: row.file_size || 0,
+      mime_type: row.mime_type,
+      summary: row.summary,
+      uploaded_at: row.modified_date || row.created_date || row.indexed_at
+    }));
+
+    return NextResponse.json({
+      success: true,
+      documents,
+      pagination: paginationMeta(list.page, list.limit, total)
+    });
+
+  } catch (error) {
+    console.error('Error fetching project documents:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch project documents',
+      documents: []
+    }, { status: 500 });
+  }
+}
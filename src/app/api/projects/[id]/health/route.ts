@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { ProjectHealthStore } from '@/src/lib/agents/project-health';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const projectId = params.id;
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '60') || 60, 1), 365);
+    const sinceParam = searchParams.get('since');
+    const since = sinceParam ? new Date(sinceParam) : undefined;
+
+    if (since && isNaN(since.getTime())) {
+      return NextResponse.json({
+        success: false,
+        error: 'since must be a date'
+      }, { status: 400 });
+    }
+
+    // Oldest first, ready to chart; the last entry is the current score
+    const history = await new ProjectHealthStore(db).getHistory(projectId, limit, since);
+
+    return NextResponse.json({
+      success: true,
+      current: history[history.length - 1] || null,
+      history
+    });
+
+  } catch (error) {
+    console.error('Error fetching project health:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch project health',
+      history: []
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { MeetingInsightsStore } from '@/src/lib/agents/insights-store';
+import { paginationMeta, parseListParams } from '@/lib/services/list-params';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const projectId = params.id;
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    // Insights are always ordered by meeting date; only the direction is configurable
+    const list = parseListParams(request.nextUrl.searchParams, {
+      sortFields: ['date'] as const,
+      defaultSort: 'date',
+    });
+
+    const { insights, total } = await new MeetingInsightsStore(db).listForProject(projectId, {
+      limit: list.limit,
+      offset: list.offset,
+      dateFrom: list.dateFrom,
+      dateTo: list.dateTo,
+      order: list.order
+    });
+
+    return NextResponse.json({
+      success: true,
+      insights,
+      pagination: paginationMeta(list.page, list.limit, total)
+    });
+
+  } catch (error) {
+    console.error('Error fetching project insights:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch project insights',
+      insights: []
+    }, { status: 500 });
+  }
+}
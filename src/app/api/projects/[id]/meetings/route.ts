@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { paginationMeta, parseListColumn, parseListParams } from '@/lib/services/list-params';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+const SORT_COLUMNS = {
+  date: 'm.date',
+  title: 'm.title',
+  duration: 'm.duration',
+} as const;
+
+type MeetingSort = keyof typeof SORT_COLUMNS;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const projectId = params.id;
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const list = parseListParams<MeetingSort>(request.nextUrl.searchParams, {
+      sortFields: Object.keys(SORT_COLUMNS) as MeetingSort[],
+      defaultSort: 'date',
+    });
+
+    let where = 'WHERE m.project_id = ?';
+    const filterParams: string[] = [projectId];
+
+    if (list.dateFrom) {
+      where += ' AND date(m.date) >= date(?)';
+      filterParams.push(list.dateFrom);
+    }
+    if (list.dateTo) {
+      where += ' AND date(m.date) <= date(?)';
+      filterParams.push(list.dateTo);
+    }
+
+    const countQuery = await db.prepare(`
+      SELECT COUNT(*) as total FROM meetings m ${where}
+    `).bind(...filterParams).first();
+    const total = Number(countQuery?.total || 0);
+
+    // Sort column comes from the whitelist above, never from the request
+    const meetingsQuery = await db.prepare(`
+      SELECT
+        m.id,
+        m.title,
+        m.date,
+        m.duration,
+        m.participants,
+        m.summary,
+        m.action_items,
+        m.decisions,
+        m.meeting_type,
+        m.status
+      FROM meetings m
+      ${where}
+      ORDER BY ${SORT_COLUMNS[list.sort]} ${list.order}, m.id ASC
+      LIMIT ? OFFSET ?
+    `).bind(...filterParams, list.limit, list.offset).all();
+
+    const meetings = (meetingsQuery.results || []).map((row: any) => {
+      const actionItems = parseListColumn(row.action_items);
+      return {
+        id: row.id,
+        title: row.title,
+        date: row.date,
+        duration: row.duration,
+        meeting_type: row.meeting_type,
+        status: row.status,
+        summary: row.summary,
+        participants: parseListColumn(row.participants),
+        action_items: actionItems,
+        action_item_count: actionItems.length,
+        decision_count: parseListColumn(row.decisions).length
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      meetings,
+      pagination: paginationMeta(list.page, list.limit, total)
+    });
+
+  } catch (error) {
+    console.error('Error fetching project meetings:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch project meetings',
+      meetings: []
+    }, { status: 500 });
+  }
+}
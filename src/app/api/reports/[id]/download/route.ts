@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { REPORT_CONTENT_TYPES, REPORT_FORMATS, ReportStore, type ReportFormat } from '@/src/lib/agents/report-generator';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+/**
+ * A generated report file from R2: ?format=md|html|pdf (default pdf)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+    const bucket = context?.env?.R2_BUCKET;
+
+    if (!db || !bucket) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database or storage not configured'
+      }, { status: 500 });
+    }
+
+    const format = (request.nextUrl.searchParams.get('format') || 'pdf') as ReportFormat;
+    if (!REPORT_FORMATS.includes(format)) {
+      return NextResponse.json({
+        success: false,
+        error: `format must be one of ${REPORT_FORMATS.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const report = await new ReportStore(db).get(params.id);
+    const key = report?.r2Keys[format];
+    if (!report || !key) {
+      return NextResponse.json({
+        success: false,
+        error: 'Report not found'
+      }, { status: 404 });
+    }
+
+    const object = await bucket.get(key);
+    if (!object) {
+      return NextResponse.json({
+        success: false,
+        error: 'Report file not found in storage'
+      }, { status: 404 });
+    }
+
+    const filename = key.substring(key.lastIndexOf('/') + 1);
+    return new NextResponse(object.body as ReadableStream, {
+      headers: {
+        'Content-Type': REPORT_CONTENT_TYPES[format],
+        // HTML opens in the browser for printing; the others download
+        'Content-Disposition': `${format === 'html' ? 'inline' : 'attachment'}; filename="${filename}"`,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error downloading report:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to download report'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { ReportStore, type ReportKind } from '@/src/lib/agents/report-generator';
+import { paginationMeta } from '@/lib/services/list-params';
+
+// export const runtime = 'edge'; // Handled by Cloudflare Workers deployment
+
+const KINDS: ReportKind[] = ['weekly', 'emergency', 'leadership'];
+
+/**
+ * Generated reports, newest first: ?kind=&projectId=&page=&limit=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getCloudflareContext();
+    const db = context?.env?.DB;
+
+    if (!db) {
+      return NextResponse.json({
+        success: false,
+        error: 'Database not configured'
+      }, { status: 500 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const kind = searchParams.get('kind') || undefined;
+    if (kind && !KINDS.includes(kind as ReportKind)) {
+      return NextResponse.json({
+        success: false,
+        error: `kind must be one of ${KINDS.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100);
+
+    const { reports, total } = await new ReportStore(db).list({
+      kind: kind as ReportKind | undefined,
+      projectId: searchParams.get('projectId') || undefined,
+      limit,
+      offset: (page - 1) * limit
+    });
+
+    return NextResponse.json({
+      success: true,
+      reports,
+      pagination: paginationMeta(page, limit, total)
+    });
+
+  } catch (error) {
+    console.error('Error fetching reports:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch reports',
+      reports: []
+    }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCloudflareContext } from '@opennextjs/cloudflare';
 import { SmartChunkingService } from '@/lib/services/smart-chunking';
+import { EntityRuleStore, DEFAULT_TENANT_ID } from '@/lib/services/entity-rules';
 import type { SmartChunk, ExtractedEntity, ChunkRelationship } from '@/lib/services/smart-chunking';
 
 interface MeetingMetadata {
@@ -18,15 +19,18 @@ export async function POST(request: NextRequest) {
     // Get Cloudflare context
     const { env } = await getCloudflareContext({ async: true });
     
-    // Initialize the smart chunking service
+    // Initialize the smart chunking service with this tenant's entity rules
+    const entityRules = await new EntityRuleStore(env.DB).load(env.TENANT_ID || DEFAULT_TENANT_ID);
     const chunkingService = new SmartChunkingService(
       {
         maxTokens: 1500,
         minTokens: 100,
         overlapTokens: 200,
         targetTokens: 1000,
+        rankTableUrl: env.TOKENIZER_RANKS_URL,
       },
-      env.OPENAI_API_KEY // Optional: for AI-enhanced entity extraction
+      env.OPENAI_API_KEY, // Optional: for AI-enhanced entity extraction
+      { entityRules }
     );
     
     // 1. Fetch meetings from Fireflies API
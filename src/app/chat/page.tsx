@@ -1,5 +1,29 @@
+'use client';
+
+import { useState } from 'react';
 import ChatInterface from '@/components/chat/ChatInterface';
+import ChatSessionsSidebar from '@/components/chat/ChatSessionsSidebar';
 
 export default function ChatPage() {
-  return <ChatInterface />;
-}
\ No newline at end of file
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const handleSessionChange = (id: string) => {
+    setSessionId(id);
+    // A new conversation was created on the server; show it in the list
+    setRefreshKey(key => key + 1);
+  };
+
+  return (
+    <div className="flex h-screen">
+      <ChatSessionsSidebar
+        activeSessionId={sessionId}
+        onSelectSession={setSessionId}
+        refreshKey={refreshKey}
+      />
+      <div className="flex-1 min-w-0">
+        <ChatInterface sessionId={sessionId} onSessionChange={handleSessionChange} />
+      </div>
+    </div>
+  );
+}
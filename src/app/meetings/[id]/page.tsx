@@ -0,0 +1,153 @@
+'use client';
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { formatTimestamp } from '@/lib/utils';
+
+interface TranscriptMeeting {
+  id: string;
+  title: string;
+  date: string;
+  duration?: number;
+  participants?: string;
+  summary?: string;
+}
+
+interface TranscriptChunk {
+  id: string;
+  chunk_index: number;
+  content: string;
+  speaker?: string;
+  start_time?: number;
+  end_time?: number;
+}
+
+function TranscriptView() {
+  const params = useParams();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const meetingId = params.id as string;
+  const citedChunkId = searchParams.get('chunk');
+  const citedTime = searchParams.get('t');
+
+  const [meeting, setMeeting] = useState<TranscriptMeeting | null>(null);
+  const [chunks, setChunks] = useState<TranscriptChunk[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const fetchTranscript = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/meetings/${meetingId}/transcript`);
+        const data = await response.json() as {
+          success: boolean;
+          error?: string;
+          meeting: TranscriptMeeting;
+          chunks: TranscriptChunk[];
+        };
+
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Failed to load transcript');
+        }
+
+        setMeeting(data.meeting);
+        setChunks(data.chunks);
+      } catch (err) {
+        console.error('Error fetching transcript:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load transcript');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTranscript();
+  }, [meetingId]);
+
+  // Prefer the cited chunk; otherwise the chunk covering the cited time
+  const highlightedId = citedChunkId || (citedTime !== null
+    ? chunks.find(chunk =>
+        chunk.start_time !== undefined && chunk.start_time !== null &&
+        chunk.start_time <= Number(citedTime) &&
+        (chunk.end_time === undefined || chunk.end_time === null || chunk.end_time >= Number(citedTime))
+      )?.id
+    : undefined);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightedId, chunks]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (error || !meeting) {
+    return (
+      <div className="p-6">
+        <p className="text-red-600">{error || 'Meeting not found'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto space-y-4">
+      <Button variant="ghost" onClick={() => router.back()} className="flex items-center gap-2">
+        <ArrowLeft className="h-4 w-4" />
+        Back
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{meeting.title}</CardTitle>
+          <CardDescription>
+            {meeting.date ? format(new Date(meeting.date), 'PPP') : 'Date unknown'}
+            {meeting.participants ? ` · ${meeting.participants}` : ''}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {chunks.length === 0 && (
+            <p className="text-gray-500">No transcript is available for this meeting.</p>
+          )}
+          {chunks.map(chunk => {
+            const isHighlighted = chunk.id === highlightedId;
+            return (
+              <div
+                key={chunk.id}
+                id={`chunk-${chunk.id}`}
+                ref={isHighlighted ? highlightRef : undefined}
+                className={`rounded-md p-3 text-sm leading-relaxed ${
+                  isHighlighted ? 'bg-yellow-50 border border-yellow-300' : ''
+                }`}
+              >
+                {(chunk.speaker || chunk.start_time !== undefined && chunk.start_time !== null) && (
+                  <div className="text-xs text-gray-500 mb-1">
+                    {chunk.speaker}
+                    {chunk.start_time !== undefined && chunk.start_time !== null && ` · ${formatTimestamp(chunk.start_time)}`}
+                  </div>
+                )}
+                <p className="whitespace-pre-wrap m-0">{chunk.content}</p>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function MeetingTranscriptPage() {
+  return (
+    <Suspense fallback={null}>
+      <TranscriptView />
+    </Suspense>
+  );
+}
@@ -17,6 +17,8 @@ import {
 } from 'lucide-react';
 import { formatDistanceToNow, format } from 'date-fns';
 import { useRouter } from 'next/navigation';
+import MessageContent from '@/components/chat/MessageContent';
+import type { ChatCitation } from '@/lib/services/grounded-chat';
 
 interface ProjectDetail {
   id: string;
@@ -76,6 +78,7 @@ interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: string;
+  citations?: ChatCitation[];
 }
 
 export default function ProjectDetailPage() {
@@ -91,6 +94,7 @@ export default function ProjectDetailPage() {
   const [meetings, setMeetings] = useState<Meeting[]>([]);
   const [documents, setDocuments] = useState<Document[]>([]);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [chatSessionId, setChatSessionId] = useState<string | null>(null);
   const [chatInput, setChatInput] = useState('');
   const [chatLoading, setChatLoading] = useState(false);
 
@@ -222,28 +226,35 @@ export default function ProjectDetailPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           message: chatInput,
-          context: `Project: ${project?.title}`,
-          projectId: projectId
+          projectId: projectId,
+          sessionId: chatSessionId
         })
       });
       
-      if (response.ok) {
-        const data = await response.json();
-        const assistantMessage: ChatMessage = {
-          id: `msg-${Date.now()}-ai`,
-          role: 'assistant',
-          content: data.response,
-          timestamp: new Date().toISOString()
-        };
-        setChatMessages(prev => [...prev, assistantMessage]);
+      const data = await response.json() as {
+        response?: string;
+        error?: string;
+        citations?: ChatCitation[];
+        sessionId?: string;
+      };
+      if (data.sessionId) {
+        setChatSessionId(data.sessionId);
       }
+      
+      const assistantMessage: ChatMessage = {
+        id: `msg-${Date.now()}-ai`,
+        role: 'assistant',
+        content: data.response || data.error || 'Sorry, I encountered an error. Please try again.',
+        timestamp: new Date().toISOString(),
+        citations: data.citations || []
+      };
+      setChatMessages(prev => [...prev, assistantMessage]);
     } catch (error) {
       console.error('Chat error:', error);
-      // Mock response
       const assistantMessage: ChatMessage = {
         id: `msg-${Date.now()}-ai`,
         role: 'assistant',
-        content: `Based on the project data, ${project?.title} is currently ${project?.health_score}% healthy. The main risk is equipment lead time, which should be addressed by ordering HVAC units this week. Would you like more specific information about any aspect of the project?`,
+        content: 'Sorry, I encountered an error. Please try again.',
         timestamp: new Date().toISOString()
       };
       setChatMessages(prev => [...prev, assistantMessage]);
@@ -626,7 +637,15 @@ export default function ProjectDetailPage() {
                           : 'bg-gray-100 text-gray-800'
                       }`}
                     >
-                      <p className="text-sm">{message.content}</p>
+                      {message.role === 'assistant' ? (
+                        <MessageContent
+                          content={message.content}
+                          role="assistant"
+                          citations={message.citations}
+                        />
+                      ) : (
+                        <p className="text-sm">{message.content}</p>
+                      )}
                       <p className="text-xs opacity-70 mt-1">
                         {formatDistanceToNow(new Date(message.timestamp), { addSuffix: true })}
                       </p>
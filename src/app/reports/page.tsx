@@ -0,0 +1,241 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RefreshCw, FileText, AlertCircle, Download } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import AppLayout from '@/components/layout/AppLayout';
+
+type ReportKind = 'weekly' | 'emergency' | 'leadership';
+
+interface Report {
+  id: string;
+  kind: ReportKind;
+  projectId?: string;
+  projectTitle?: string;
+  title: string;
+  summary: string;
+  periodStart: string;
+  periodEnd: string;
+  r2Keys: Partial<Record<'md' | 'html' | 'pdf', string>>;
+  generatedAt: string;
+}
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  reports?: Report[];
+  pagination?: { page: number; totalPages: number; total: number };
+  taskId?: string;
+}
+
+const KIND_FILTERS: Array<{ value: ReportKind | 'all'; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'emergency', label: 'Emergency' },
+  { value: 'leadership', label: 'Leadership' },
+];
+
+const FORMAT_LABELS = { pdf: 'PDF', md: 'Markdown', html: 'HTML' } as const;
+
+export default function ReportsPage() {
+  const [reports, setReports] = useState<Report[]>([]);
+  const [kind, setKind] = useState<ReportKind | 'all'>('all');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [queueing, setQueueing] = useState(false);
+
+  const fetchReports = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: '20' });
+      if (kind !== 'all') params.set('kind', kind);
+      const response = await fetch(`/api/reports?${params}`);
+      const data = await response.json() as ApiResponse;
+      if (!data.success) throw new Error(data.error || 'Failed to load reports');
+      setReports(data.reports || []);
+      setTotalPages(data.pagination?.totalPages || 1);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load reports');
+    }
+    setLoading(false);
+  }, [kind, page]);
+
+  const generateLeadershipReport = async () => {
+    setQueueing(true);
+    try {
+      const response = await fetch('/api/agents/report-generator-agent/run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ data: { type: 'leadership' } })
+      });
+      const data = await response.json() as ApiResponse;
+      if (!data.success) throw new Error(data.error);
+      setMessage('Leadership report queued; it appears here once the orchestrator has run (usually within a minute).');
+    } catch (err) {
+      setMessage(`Could not queue the report: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+    setQueueing(false);
+  };
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const getKindVariant = (value: ReportKind) => {
+    switch (value) {
+      case 'emergency': return 'destructive';
+      case 'leadership': return 'default';
+      default: return 'secondary';
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="container mx-auto p-6">
+        <div className="mb-6 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Reports</h1>
+            <p className="text-gray-600">
+              Weekly project digests, emergency reports and the leadership report
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={generateLeadershipReport} disabled={queueing}>
+              <FileText className="h-4 w-4 mr-2" />
+              Generate leadership report
+            </Button>
+            <Button onClick={fetchReports} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <Alert className="mb-6">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {message && (
+          <Alert className="mb-6">
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle className="text-lg">Generated reports</CardTitle>
+                <CardDescription>
+                  Project digests are generated every Monday; an emergency report follows when a project&apos;s health drops below 50
+                </CardDescription>
+              </div>
+              <div className="flex gap-1">
+                {KIND_FILTERS.map(filter => (
+                  <Button
+                    key={filter.value}
+                    size="sm"
+                    variant={kind === filter.value ? 'default' : 'outline'}
+                    onClick={() => { setKind(filter.value); setPage(1); }}
+                  >
+                    {filter.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading && reports.length === 0 ? (
+              <div className="text-center py-12">
+                <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4" />
+                <p>Loading reports...</p>
+              </div>
+            ) : reports.length === 0 ? (
+              <p className="py-8 text-center text-sm text-gray-500">No reports generated yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Report</TableHead>
+                    <TableHead>Kind</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Generated</TableHead>
+                    <TableHead>Download</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reports.map(report => (
+                    <TableRow key={report.id}>
+                      <TableCell>
+                        <p className="font-medium">{report.title}</p>
+                        <p className="text-xs text-gray-500">{report.summary}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={getKindVariant(report.kind)}>{report.kind}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs whitespace-nowrap">
+                        {report.periodStart} – {report.periodEnd}
+                      </TableCell>
+                      <TableCell className="text-xs whitespace-nowrap">
+                        {formatDistanceToNow(new Date(report.generatedAt), { addSuffix: true })}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          {(Object.keys(FORMAT_LABELS) as Array<keyof typeof FORMAT_LABELS>)
+                            .filter(format => report.r2Keys[format])
+                            .map(format => (
+                              <a
+                                key={format}
+                                href={`/api/reports/${report.id}/download?format=${format}`}
+                                className="flex items-center gap-1 text-sm text-blue-600 hover:underline"
+                                target={format === 'html' ? '_blank' : undefined}
+                                rel="noreferrer"
+                              >
+                                <Download className="h-3 w-3" />
+                                {FORMAT_LABELS[format]}
+                              </a>
+                            ))}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {totalPages > 1 && (
+              <div className="mt-4 flex items-center justify-end gap-2 text-sm">
+                <Button size="sm" variant="outline" onClick={() => setPage(page - 1)} disabled={page <= 1 || loading}>
+                  Previous
+                </Button>
+                <span className="text-gray-600">Page {page} of {totalPages}</span>
+                <Button size="sm" variant="outline" onClick={() => setPage(page + 1)} disabled={page >= totalPages || loading}>
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * Agent State Store
+ *
+ * D1 persistence for per-agent metrics (agent_metrics) and settings
+ * overrides (agent_settings). The orchestrator is rebuilt on every worker
+ * invocation, so anything that should outlive one run lives here.
+ */
+
+import { fromSqlTimestamp, toSqlTimestamp } from './task-store';
+import type { AgentMetrics } from './types';
+
+export interface ExecutionRecord {
+  success: boolean;
+  durationMs: number;
+  tokensUsed?: number;
+  cost?: number;
+  error?: string;
+}
+
+export function emptyMetrics(): AgentMetrics {
+  return {
+    totalExecutions: 0,
+    successfulExecutions: 0,
+    failedExecutions: 0,
+    averageExecutionTime: 0,
+    tokensUsed: 0,
+    cost: 0,
+  };
+}
+
+function toMetrics(row: Record<string, unknown>): AgentMetrics {
+  const total = Number(row.total_executions || 0);
+  return {
+    totalExecutions: total,
+    successfulExecutions: Number(row.successful_executions || 0),
+    failedExecutions: Number(row.failed_executions || 0),
+    averageExecutionTime: total > 0 ? Math.round(Number(row.total_execution_ms || 0) / total) : 0,
+    tokensUsed: Number(row.tokens_used || 0),
+    cost: Number(row.cost || 0),
+    lastError: (row.last_error as string) || undefined,
+    lastErrorTime: fromSqlTimestamp(row.last_error_at),
+    lastExecution: fromSqlTimestamp(row.last_execution_at),
+  };
+}
+
+export class AgentStateStore {
+  constructor(private db: D1Database) {}
+
+  /**
+   * Add one attempt to an agent's running totals
+   */
+  async recordExecution(agentName: string, record: ExecutionRecord, now: Date): Promise<void> {
+    const nowSql = toSqlTimestamp(now);
+    await this.db.prepare(`
+      INSERT INTO agent_metrics (
+        agent_name, total_executions, successful_executions, failed_executions,
+        total_execution_ms, tokens_used, cost, last_error, last_error_at, last_execution_at, updated_at
+      ) VALUES (?, 1, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(agent_name) DO UPDATE SET
+        total_executions = total_executions + 1,
+        successful_executions = successful_executions + excluded.successful_executions,
+        failed_executions = failed_executions + excluded.failed_executions,
+        total_execution_ms = total_execution_ms + excluded.total_execution_ms,
+        tokens_used = tokens_used + excluded.tokens_used,
+        cost = cost + excluded.cost,
+        last_error = COALESCE(excluded.last_error, last_error),
+        last_error_at = COALESCE(excluded.last_error_at, last_error_at),
+        last_execution_at = excluded.last_execution_at,
+        updated_at = excluded.updated_at
+    `).bind(
+      agentName,
+      record.success ? 1 : 0,
+      record.success ? 0 : 1,
+      Math.round(record.durationMs),
+      record.tokensUsed || 0,
+      record.cost || 0,
+      record.success ? null : record.error || 'Unknown error',
+      record.success ? null : nowSql,
+      nowSql,
+      nowSql
+    ).run();
+  }
+
+  async getMetrics(): Promise<Map<string, AgentMetrics>> {
+    const { results } = await this.db.prepare(`SELECT * FROM agent_metrics`).all();
+    return new Map(results.map(row => [String(row.agent_name), toMetrics(row)]));
+  }
+
+  /**
+   * Enabled flags set at runtime; agents without a row keep their coded default
+   */
+  async getEnabledOverrides(): Promise<Map<string, boolean>> {
+    const { results } = await this.db.prepare(`SELECT agent_name, enabled FROM agent_settings`).all();
+    return new Map(results.map(row => [String(row.agent_name), Boolean(Number(row.enabled))]));
+  }
+
+  async setEnabled(agentName: string, enabled: boolean, now: Date): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO agent_settings (agent_name, enabled, updated_at)
+      VALUES (?, ?, ?)
+      ON CONFLICT(agent_name) DO UPDATE SET
+        enabled = excluded.enabled,
+        updated_at = excluded.updated_at
+    `).bind(agentName, enabled ? 1 : 0, toSqlTimestamp(now)).run();
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Clocks for the agent system
+ *
+ * The orchestrator reads time only through a Clock so schedules and leases
+ * can be exercised deterministically with TestClock
+ */
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date()
+};
+
+/**
+ * Manually driven clock; time only moves when set() or advance() is called
+ */
+export class TestClock implements Clock {
+  private current: number;
+
+  constructor(start: Date | string = '2024-01-01T00:00:00Z') {
+    this.current = new Date(start).getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  set(date: Date | string) {
+    this.current = new Date(date).getTime();
+  }
+
+  advance(by: number | { days?: number; hours?: number; minutes?: number; seconds?: number }) {
+    const ms = typeof by === 'number'
+      ? by
+      : ((by.days || 0) * 24 * 60 * 60 + (by.hours || 0) * 60 * 60 + (by.minutes || 0) * 60 + (by.seconds || 0)) * 1000;
+    this.current += ms;
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Cron Schedules
+ *
+ * Five-field cron expressions (minute hour day-of-month month day-of-week)
+ * evaluated in an IANA timezone
+ * Supports lists (1,15), ranges (1-5), steps (*\/15, 9-17/2), month and
+ * weekday names (JAN, MON), 7 as Sunday and the @hourly/@daily/@weekly/
+ * @monthly/@yearly shorthands. As in Vixie cron, when both day-of-month and
+ * day-of-week are restricted a day matching either one fires.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+interface ZonedParts {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  weekday: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+  { name: 'day-of-week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+const SHORTHANDS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MINUTE_MS = 60 * 1000;
+
+// Give up looking for a next run after this long (e.g. "0 0 30 2 *" never fires)
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * MINUTE_MS;
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function parseValue(value: string, spec: FieldSpec, expression: string): number {
+  const named = spec.names?.indexOf(value.toUpperCase()) ?? -1;
+  const parsed = named >= 0 ? named + (spec.name === 'month' ? 1 : 0) : Number(value);
+
+  if (!/^\w+$/.test(value) || !Number.isInteger(parsed) || parsed < spec.min || parsed > spec.max) {
+    throw new Error(`Invalid ${spec.name} value "${value}" in cron expression "${expression}"`);
+  }
+  return parsed;
+}
+
+function parseField(field: string, spec: FieldSpec, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined || !range) {
+      throw new Error(`Invalid ${spec.name} field "${field}" in cron expression "${expression}"`);
+    }
+
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" in cron expression "${expression}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.name === 'day-of-week' ? 6 : spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec, expression);
+      end = parseValue(to, spec, expression);
+      if (start > end) {
+        throw new Error(`Invalid range "${range}" in cron expression "${expression}"`);
+      }
+    } else {
+      start = parseValue(range, spec, expression);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(spec.name === 'day-of-week' && value === 7 ? 0 : value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression; throws on anything malformed
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = SHORTHANDS[expression.trim().toLowerCase()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields, got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELDS[i], expression)
+  );
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*',
+  };
+}
+
+/**
+ * Wall-clock fields of an instant in a timezone
+ */
+function zonedParts(date: Date, timeZone: string): ZonedParts {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      minute: 'numeric',
+      hour: 'numeric',
+      day: 'numeric',
+      month: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    minute: Number(parts.minute),
+    hour: Number(parts.hour),
+    day: Number(parts.day),
+    month: Number(parts.month),
+    weekday: WEEKDAYS[parts.weekday],
+  };
+}
+
+function matchesDay(schedule: CronSchedule, parts: ZonedParts): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(parts.day);
+  const dayOfWeek = schedule.daysOfWeek.has(parts.weekday);
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Whether the schedule fires in the minute containing `date`
+ */
+export function matchesCron(schedule: CronSchedule | string, date: Date, timeZone: string = 'UTC'): boolean {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const parts = zonedParts(date, timeZone);
+
+  return cron.months.has(parts.month)
+    && matchesDay(cron, parts)
+    && cron.hours.has(parts.hour)
+    && cron.minutes.has(parts.minute);
+}
+
+/**
+ * First time strictly after `after` that the schedule fires, or null if it
+ * never does. Wall-clock times skipped by a DST change don't fire.
+ */
+export function nextCronRun(schedule: CronSchedule | string, after: Date, timeZone: string = 'UTC'): Date | null {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const limit = after.getTime() + MAX_SEARCH_MS;
+
+  // Start at the next whole minute
+  let time = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+
+  while (time <= limit) {
+    const parts = zonedParts(new Date(time), timeZone);
+
+    if (!cron.months.has(parts.month) || !matchesDay(cron, parts) || !cron.hours.has(parts.hour)) {
+      // Skip to the top of the next wall-clock hour; stepping by at most an
+      // hour keeps DST transitions from jumping over a match
+      time += (60 - parts.minute) * MINUTE_MS;
+      continue;
+    }
+
+    if (cron.minutes.has(parts.minute)) {
+      return new Date(time);
+    }
+
+    let nextMinute = parts.minute + 1;
+    while (nextMinute < 60 && !cron.minutes.has(nextMinute)) nextMinute++;
+    time += (nextMinute - parts.minute) * MINUTE_MS;
+  }
+
+  return null;
+}
+
+/**
+ * Most recent time at or before `now` (and after `since`) that the schedule
+ * fired, or null if it didn't fire in that window
+ */
+export function lastCronRun(
+  schedule: CronSchedule | string,
+  since: Date,
+  now: Date,
+  timeZone: string = 'UTC'
+): Date | null {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  let latest: Date | null = null;
+  let next = nextCronRun(cron, since, timeZone);
+
+  while (next && next.getTime() <= now.getTime()) {
+    latest = next;
+    next = nextCronRun(cron, next, timeZone);
+  }
+
+  return latest;
+}
+
+/**
+ * Throws if the timezone isn't a valid IANA name
+ */
+export function assertTimeZone(timeZone: string): void {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch (error) {
+    throw new Error(`Invalid timezone "${timeZone}"`);
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Meeting Insights Store
+ *
+ * D1 persistence for MeetingIntelligenceAgent output (meeting_insights)
+ * Rows are keyed by meeting and agent version: re-running the same version
+ * overwrites its row, a new version adds one alongside it
+ */
+
+import type { MeetingInsights } from './meeting-intelligence-agent';
+
+export interface StoredMeetingInsights extends MeetingInsights {
+  agentVersion: string;
+  createdAt: string;
+  updatedAt: string;
+  meetingTitle?: string;
+  meetingDate?: string;
+}
+
+export interface ProjectInsightsQuery {
+  limit: number;
+  offset: number;
+  dateFrom?: string;
+  dateTo?: string;
+  order?: 'ASC' | 'DESC';
+}
+
+function parseJsonArray(value: unknown): any[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(String(value));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Error parsing meeting insights column:', error);
+    return [];
+  }
+}
+
+function toInsights(row: Record<string, unknown>): StoredMeetingInsights {
+  return {
+    meetingId: String(row.meeting_id),
+    projectId: (row.project_id as string) || undefined,
+    actionItems: parseJsonArray(row.action_items),
+    decisions: parseJsonArray(row.decisions),
+    risks: parseJsonArray(row.risks),
+    sentiment: (row.sentiment as MeetingInsights['sentiment']) || 'neutral',
+    summary: (row.summary as string) || '',
+    keyTopics: parseJsonArray(row.key_topics),
+    nextSteps: parseJsonArray(row.next_steps),
+    analysisMode: (row.analysis_mode as MeetingInsights['analysisMode']) || undefined,
+    agentVersion: String(row.agent_version),
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+    meetingTitle: (row.meeting_title as string) || undefined,
+    meetingDate: (row.meeting_date as string) || undefined,
+  };
+}
+
+// Most recent row per meeting, whichever agent version wrote it
+const LATEST_PER_MEETING = `
+  SELECT *, ROW_NUMBER() OVER (PARTITION BY meeting_id ORDER BY updated_at DESC, agent_version DESC) as version_rank
+  FROM meeting_insights
+`;
+
+export class MeetingInsightsStore {
+  constructor(private db: D1Database) {}
+
+  /**
+   * Insert or replace the insights for (meeting, agent version)
+   */
+  async upsert(insights: MeetingInsights, agentVersion: string): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO meeting_insights (
+        meeting_id, agent_version, project_id, analysis_mode,
+        action_items, decisions, risks, sentiment, summary, key_topics, next_steps,
+        created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
+      ON CONFLICT(meeting_id, agent_version) DO UPDATE SET
+        project_id = excluded.project_id,
+        analysis_mode = excluded.analysis_mode,
+        action_items = excluded.action_items,
+        decisions = excluded.decisions,
+        risks = excluded.risks,
+        sentiment = excluded.sentiment,
+        summary = excluded.summary,
+        key_topics = excluded.key_topics,
+        next_steps = excluded.next_steps,
+        updated_at = datetime('now')
+    `).bind(
+      insights.meetingId,
+      agentVersion,
+      insights.projectId || null,
+      insights.analysisMode || null,
+      JSON.stringify(insights.actionItems),
+      JSON.stringify(insights.decisions),
+      JSON.stringify(insights.risks),
+      insights.sentiment,
+      insights.summary,
+      JSON.stringify(insights.keyTopics),
+      JSON.stringify(insights.nextSteps)
+    ).run();
+  }
+
+  /**
+   * Insights for a meeting: a specific agent version, or the latest one
+   */
+  async getForMeeting(meetingId: string, agentVersion?: string): Promise<StoredMeetingInsights | null> {
+    const row = agentVersion
+      ? await this.db.prepare(`
+          SELECT * FROM meeting_insights WHERE meeting_id = ? AND agent_version = ?
+        `).bind(meetingId, agentVersion).first()
+      : await this.db.prepare(`
+          SELECT * FROM meeting_insights WHERE meeting_id = ?
+          ORDER BY updated_at DESC, agent_version DESC
+          LIMIT 1
+        `).bind(meetingId).first();
+
+    return row ? toInsights(row) : null;
+  }
+
+  /**
+   * Agent versions that have analysed a meeting, newest first
+   */
+  async listVersions(meetingId: string): Promise<string[]> {
+    const { results } = await this.db.prepare(`
+      SELECT agent_version FROM meeting_insights
+      WHERE meeting_id = ?
+      ORDER BY updated_at DESC, agent_version DESC
+    `).bind(meetingId).all();
+
+    return results.map(row => String(row.agent_version));
+  }
+
+  /**
+   * Latest insights for each meeting in a project, by meeting date. A
+   * meeting belongs to the project through meetings.project_id or the
+   * project the agent associated it with.
+   */
+  async listForProject(
+    projectId: string,
+    query: ProjectInsightsQuery
+  ): Promise<{ insights: StoredMeetingInsights[]; total: number }> {
+    let where = 'WHERE mi.version_rank = 1 AND (m.project_id = ? OR mi.project_id = ?)';
+    const params: string[] = [projectId, projectId];
+
+    if (query.dateFrom) {
+      where += ' AND date(m.date) >= date(?)';
+      params.push(query.dateFrom);
+    }
+    if (query.dateTo) {
+      where += ' AND date(m.date) <= date(?)';
+      params.push(query.dateTo);
+    }
+
+    const from = `FROM (${LATEST_PER_MEETING}) mi JOIN meetings m ON m.id = mi.meeting_id`;
+
+    const count = await this.db.prepare(`SELECT COUNT(*) as total ${from} ${where}`)
+      .bind(...params).first();
+
+    const { results } = await this.db.prepare(`
+      SELECT mi.*, m.title as meeting_title, m.date as meeting_date
+      ${from}
+      ${where}
+      ORDER BY m.date ${query.order === 'ASC' ? 'ASC' : 'DESC'}, mi.meeting_id ASC
+      LIMIT ? OFFSET ?
+    `).bind(...params, query.limit, query.offset).all();
+
+    return {
+      insights: results.map(toInsights),
+      total: Number(count?.total || 0),
+    };
+  }
+
+  /**
+   * Latest insights for every meeting held on or after `dateFrom`, across
+   * all projects, newest meeting first
+   */
+  async listRecent(dateFrom: string, limit = 200): Promise<StoredMeetingInsights[]> {
+    const { results } = await this.db.prepare(`
+      SELECT mi.*, m.title as meeting_title, m.date as meeting_date
+      FROM (${LATEST_PER_MEETING}) mi
+      JOIN meetings m ON m.id = mi.meeting_id
+      WHERE mi.version_rank = 1 AND date(m.date) >= date(?)
+      ORDER BY m.date DESC, mi.meeting_id ASC
+      LIMIT ?
+    `).bind(dateFrom, limit).all();
+
+    return results.map(toInsights);
+  }
+}
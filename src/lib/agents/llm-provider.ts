@@ -0,0 +1,180 @@
+/**
+ * LLM Providers for the agent system
+ *
+ * Agents call models through the LLMProvider interface so the same agent
+ * code runs on Workers AI, OpenAI, or a deterministic fake in tests
+ */
+
+import { OpenAI } from 'openai';
+import { estimateCost } from '@/lib/services/chunk-analysis';
+import { estimateTokenizer } from '@/lib/services/tokenizer';
+
+export interface LLMRequest {
+  system?: string;
+  prompt: string;
+  json?: boolean; // Ask the model for a single JSON object
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cost?: number; // USD, where the provider bills per token
+}
+
+export interface LLMCompletion {
+  text: string;
+  usage: LLMUsage;
+}
+
+export interface LLMProvider {
+  name: string;
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+}
+
+export interface LLMEnv {
+  AI?: Ai;
+  OPENAI_API_KEY?: string;
+}
+
+// Workers AI models that take chat messages and reply with text
+export type WorkersAITextModel = {
+  [Model in keyof AiModels]: AiModels[Model] extends BaseAiTextGeneration ? Model : never
+}[keyof AiModels];
+
+export const DEFAULT_WORKERS_AI_MODEL: WorkersAITextModel = '@cf/meta/llama-3-8b-instruct';
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+function toMessages(request: LLMRequest) {
+  return [
+    ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+    { role: 'user' as const, content: request.prompt },
+  ];
+}
+
+/**
+ * Usage estimated from the text, for replies that don't report it
+ */
+export function estimateUsage(request: LLMRequest, text: string): LLMUsage {
+  return {
+    promptTokens: estimateTokenizer.count(`${request.system || ''}\n${request.prompt}`),
+    completionTokens: estimateTokenizer.count(text),
+  };
+}
+
+/**
+ * Add `usage` into `total`; cost stays unset until some call reports one
+ */
+export function addUsage(total: LLMUsage, usage: LLMUsage): LLMUsage {
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+  if (usage.cost !== undefined) total.cost = (total.cost || 0) + usage.cost;
+  return total;
+}
+
+/**
+ * Workers AI text generation through the AI binding
+ */
+export class WorkersAIProvider implements LLMProvider {
+  name: string;
+
+  constructor(private ai: Ai, private model: WorkersAITextModel = DEFAULT_WORKERS_AI_MODEL) {
+    this.name = `workers-ai:${model}`;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const response = await this.ai.run(this.model, {
+      messages: toMessages(request),
+      max_tokens: request.maxTokens ?? 1024,
+      temperature: request.temperature ?? 0.1,
+    });
+
+    // Most text models report usage, though the binding's types leave it out.
+    // Workers AI bills in neurons, so there's no per-token cost here.
+    const text = response?.response || '';
+    const usage = (response as { usage?: { prompt_tokens?: number; completion_tokens?: number } } | undefined)?.usage;
+    return {
+      text,
+      usage: usage?.prompt_tokens !== undefined
+        ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens || 0 }
+        : estimateUsage(request, text),
+    };
+  }
+}
+
+/**
+ * OpenAI chat completions; JSON requests use JSON mode
+ */
+export class OpenAIProvider implements LLMProvider {
+  name: string;
+  private openai: OpenAI;
+
+  constructor(apiKey: string, private model: string = DEFAULT_OPENAI_MODEL) {
+    this.openai = new OpenAI({ apiKey });
+    this.name = `openai:${model}`;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const completion = await this.openai.chat.completions.create({
+      model: this.model,
+      messages: toMessages(request),
+      max_tokens: request.maxTokens ?? 1024,
+      temperature: request.temperature ?? 0.1,
+      ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+    });
+
+    const text = completion.choices[0]?.message?.content || '';
+    const usage = completion.usage
+      ? { promptTokens: completion.usage.prompt_tokens, completionTokens: completion.usage.completion_tokens }
+      : estimateUsage(request, text);
+    return { text, usage: { ...usage, cost: estimateCost(this.model, usage.promptTokens, usage.completionTokens) } };
+  }
+}
+
+type FakeResponse = string | ((request: LLMRequest) => string);
+
+/**
+ * Deterministic provider for tests. Each rule matches on the prompt and
+ * replies with its responses in order, repeating the last one; calls are
+ * recorded so tests can assert on prompts and retry counts.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  name = 'fake';
+  calls: LLMRequest[] = [];
+  private rules: Array<{ match: string | RegExp; responses: FakeResponse[]; used: number }> = [];
+
+  constructor(private fallback: FakeResponse = '{}') {}
+
+  /**
+   * Reply with `responses` (in order) to prompts containing or matching `match`
+   */
+  on(match: string | RegExp, ...responses: FakeResponse[]): this {
+    this.rules.push({ match, responses, used: 0 });
+    return this;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    this.calls.push(request);
+
+    const rule = this.rules.find(r =>
+      typeof r.match === 'string' ? request.prompt.includes(r.match) : r.match.test(request.prompt)
+    );
+    const response = rule
+      ? rule.responses[Math.min(rule.used++, rule.responses.length - 1)]
+      : this.fallback;
+
+    const text = typeof response === 'function' ? response(request) : response;
+    return { text, usage: estimateUsage(request, text) };
+  }
+}
+
+/**
+ * Provider from worker bindings: Workers AI when the AI binding is present,
+ * otherwise OpenAI; null when neither is configured
+ */
+export function createLLMProvider(env: LLMEnv, workersAiModel: WorkersAITextModel = DEFAULT_WORKERS_AI_MODEL): LLMProvider | null {
+  if (env.AI) return new WorkersAIProvider(env.AI, workersAiModel);
+  if (env.OPENAI_API_KEY) return new OpenAIProvider(env.OPENAI_API_KEY);
+  return null;
+}
@@ -9,7 +9,27 @@
  * - Participant sentiment
  */
 
-import { Task } from '@/lib/agents/types';
+import { z } from 'zod';
+import { AgentResult, Task } from './types';
+import { addUsage, createLLMProvider, DEFAULT_WORKERS_AI_MODEL, type LLMEnv, type LLMProvider, type LLMUsage, type WorkersAITextModel } from './llm-provider';
+import { generateStructured } from './structured-output';
+import { MeetingInsightsStore } from './insights-store';
+import { MeetingTranscriptStore } from './meeting-transcripts';
+import type { AgentContext } from './message-bus';
+import { EntityMatcher } from '@/lib/services/entity-matcher';
+import { MatchReviewQueue } from '@/lib/services/match-review-queue';
+import {
+  buildAnalysisWindows,
+  mapWithConcurrency,
+  mergeActionItems,
+  mergeDecisions,
+  mergeRisks,
+  resolveSource,
+  windowTimeRange,
+  type AnalysisWindow,
+  type InsightSource,
+  type TranscriptChunk
+} from './transcript-map-reduce';
 
 export interface MeetingInsights {
   meetingId: string;
@@ -21,6 +41,30 @@ export interface MeetingInsights {
   summary: string;
   keyTopics: string[];
   nextSteps: string[];
+  analysisMode?: 'single' | 'map-reduce';
+}
+
+export interface MeetingInput {
+  meetingId: string;
+  transcript: string;
+  title: string;
+  date?: string;
+  participants?: string[];
+  chunks?: TranscriptChunk[]; // Stored meeting_chunks rows; sources then point at them
+}
+
+// Result of a task that names meetings (or finds them) instead of carrying a transcript
+export interface MeetingBatchResult {
+  analysed: Array<{
+    meetingId: string;
+    projectId?: string;
+    actionItems: number;
+    decisions: number;
+    risks: number;
+  }>;
+  missing: string[]; // No such meeting, or nothing to analyse
+  failed: Array<{ meetingId: string; error: string }>;
+  deferred: string[]; // Over the per-task limit; left for the scheduled sweep
 }
 
 export interface ActionItem {
@@ -30,6 +74,7 @@ export interface ActionItem {
   dueDate?: string;
   priority: 'high' | 'medium' | 'low';
   status: 'pending' | 'in-progress' | 'completed';
+  sources?: InsightSource[]; // Transcript chunks it was found in (map-reduce mode)
 }
 
 export interface Decision {
@@ -37,6 +82,7 @@ export interface Decision {
   description: string;
   impact: 'high' | 'medium' | 'low';
   stakeholders: string[];
+  sources?: InsightSource[];
 }
 
 export interface Risk {
@@ -45,47 +91,254 @@ export interface Risk {
   severity: 'critical' | 'high' | 'medium' | 'low';
   mitigation?: string;
   owner?: string;
+  sources?: InsightSource[];
+}
+
+export interface MeetingIntelligenceOptions {
+  provider?: LLMProvider; // Explicit provider, e.g. FakeLLMProvider in tests
+  env?: LLMEnv; // Bindings to build a provider from when none is given
+  aiModel?: WorkersAITextModel; // Workers AI model used with the AI binding
+  mode?: 'auto' | 'single' | 'map-reduce'; // auto: map-reduce once a transcript exceeds one prompt
+  windowTokens?: number; // Transcript tokens per map-step prompt
+  mapConcurrency?: number; // Map-step prompts in flight at once
+  db?: D1Database; // Insights storage and project matching; without it insights are only returned
 }
 
+// Model output is validated against these; ids and status are filled in here
+const priorityField = z.preprocess(
+  value => typeof value === 'string' ? value.toLowerCase() : value,
+  z.enum(['high', 'medium', 'low']).catch('medium')
+);
+
+const optionalText = z.string().nullish().transform(value => value?.trim() || undefined);
+
+const actionItemSchema = z.object({
+  description: z.string().min(1),
+  owner: optionalText,
+  dueDate: optionalText,
+  priority: priorityField,
+});
+
+const decisionSchema = z.object({
+  description: z.string().min(1),
+  impact: priorityField,
+  stakeholders: z.array(z.string()).catch([]),
+});
+
+const riskSchema = z.object({
+  description: z.string().min(1),
+  severity: z.preprocess(
+    value => typeof value === 'string' ? value.toLowerCase() : value,
+    z.enum(['critical', 'high', 'medium', 'low'])
+  ),
+  mitigation: optionalText,
+  owner: optionalText,
+});
+
+const actionItemsSchema = z.object({ actionItems: z.array(actionItemSchema) });
+const decisionsSchema = z.object({ decisions: z.array(decisionSchema) });
+const risksSchema = z.object({ risks: z.array(riskSchema) });
+
+// Map step: everything from one window, each item tagged with its chunk number
+const chunkField = z.preprocess(
+  value => value == null || value === '' ? undefined : Number(value),
+  z.number().int().optional()
+).catch(undefined);
+
+const windowSchema = z.object({
+  actionItems: z.array(actionItemSchema.extend({ chunk: chunkField })).default([]),
+  decisions: z.array(decisionSchema.extend({ chunk: chunkField })).default([]),
+  risks: z.array(riskSchema.extend({ chunk: chunkField })).default([]),
+  notes: z.string().default(''),
+});
+
+const sentimentSchema = z.object({
+  sentiment: z.preprocess(
+    value => typeof value === 'string' ? value.toLowerCase() : value,
+    z.enum(['positive', 'neutral', 'negative'])
+  ),
+});
+
+const summarySchema = z.object({ summary: z.string().min(1) });
+const topicsSchema = z.object({ topics: z.array(z.string().min(1)) });
+const nextStepsSchema = z.object({ nextSteps: z.array(z.string().min(1)) });
+
+// Limit for context window
+const TRANSCRIPT_LIMIT = 5000;
+// Meetings analysed per task; each takes several model calls
+const MEETINGS_PER_TASK = 5;
+// Cap on the section notes handed to the reduce-step prompts
+const NOTES_LIMIT = 12000;
+
 export class MeetingIntelligenceAgent {
+  // Bump when prompts or output shape change; stored insights are keyed by it
+  static readonly version = '2.0.0';
+
   private name = 'meeting-intelligence-agent';
-  private aiModel: string;
+  private aiModel: WorkersAITextModel;
+  private provider: LLMProvider | null;
+  private usage: LLMUsage = { promptTokens: 0, completionTokens: 0 }; // Every model call made by this agent
+  private mode: NonNullable<MeetingIntelligenceOptions['mode']>;
+  private windowTokens: number;
+  private mapConcurrency: number;
+  private insightsStore: MeetingInsightsStore | null;
+  private transcripts: MeetingTranscriptStore | null;
+  private matcher: EntityMatcher | null;
+  private reviewQueue: MatchReviewQueue | null;
   
-  constructor(aiModel: string = '@cf/meta/llama-3-8b-instruct') {
-    this.aiModel = aiModel;
+  constructor(options: MeetingIntelligenceOptions = {}) {
+    this.aiModel = options.aiModel || DEFAULT_WORKERS_AI_MODEL;
+    this.mode = options.mode || 'auto';
+    this.windowTokens = options.windowTokens ?? 2500;
+    this.mapConcurrency = options.mapConcurrency ?? 3;
+    this.insightsStore = options.db ? new MeetingInsightsStore(options.db) : null;
+    this.transcripts = options.db ? new MeetingTranscriptStore(options.db) : null;
+    this.matcher = options.db ? new EntityMatcher(options.db) : null;
+    this.reviewQueue = options.db ? new MatchReviewQueue(options.db) : null;
+    const provider = options.provider || (options.env ? createLLMProvider(options.env, this.aiModel) : null);
+    this.provider = provider ? this.metered(provider) : null;
+  }
+
+  /**
+   * `provider` with each call's token usage added to the agent's total
+   */
+  private metered(provider: LLMProvider): LLMProvider {
+    return {
+      name: provider.name,
+      complete: async request => {
+        const completion = await provider.complete(request);
+        addUsage(this.usage, completion.usage);
+        return completion;
+      }
+    };
+  }
+
+  private get llm(): LLMProvider {
+    if (!this.provider) {
+      throw new Error(`[${this.name}] No LLM provider configured (needs an AI binding or OPENAI_API_KEY)`);
+    }
+    return this.provider;
   }
 
   /**
-   * Main task execution - analyzes a meeting transcript
+   * Main task execution. A task carrying a transcript is analysed as is;
+   * `{ meetingIds }` (from meetings.synced) loads each meeting from D1, and
+   * a scheduled or manual run picks up meetings never analysed. Under the
+   * orchestrator, `context` publishes follow-up messages in the task's chain.
    */
-  async execute(task: Task): Promise<MeetingInsights> {
-    const { meetingId, transcript, participants, title, date } = task.data;
+  async execute(
+    task: Task,
+    context?: AgentContext
+  ): Promise<(MeetingInsights | MeetingBatchResult) & Pick<AgentResult, 'metadata'>> {
+    const startedAt = Date.now();
+    const usageBefore = { ...this.usage };
+    // Token usage and cost of this run, for the orchestrator's metrics
+    const metadata = (): AgentResult['metadata'] => ({
+      executionTime: Date.now() - startedAt,
+      tokensUsed: this.usage.promptTokens + this.usage.completionTokens - usageBefore.promptTokens - usageBefore.completionTokens,
+      cost: this.usage.cost !== undefined ? this.usage.cost - (usageBefore.cost || 0) : undefined
+    });
+
+    const data = task.data || {};
+    if (typeof data.transcript === 'string') {
+      const insights = await this.analyzeMeeting(data as MeetingInput, context);
+      return { ...insights, metadata: metadata() };
+    }
+
+    if (!this.transcripts) {
+      throw new Error(`[${this.name}] Loading meetings needs a database`);
+    }
+
+    const meetingIds: string[] = Array.isArray(data.meetingIds)
+      ? Array.from(new Set(data.meetingIds.map(String)))
+      : await this.transcripts.listUnanalysed(MEETINGS_PER_TASK);
+
+    const result: MeetingBatchResult = {
+      analysed: [],
+      missing: [],
+      failed: [],
+      deferred: meetingIds.slice(MEETINGS_PER_TASK)
+    };
+
+    for (const meetingId of meetingIds.slice(0, MEETINGS_PER_TASK)) {
+      const meeting = await this.transcripts.load(meetingId);
+      if (!meeting) {
+        console.warn(`[${this.name}] Meeting ${meetingId} not found or has no transcript`);
+        result.missing.push(meetingId);
+        continue;
+      }
+
+      try {
+        const insights = await this.analyzeMeeting(meeting, context);
+        result.analysed.push({
+          meetingId,
+          projectId: insights.projectId,
+          actionItems: insights.actionItems.length,
+          decisions: insights.decisions.length,
+          risks: insights.risks.length
+        });
+      } catch (error) {
+        // Left without insights, so the scheduled sweep tries it again
+        console.error(`[${this.name}] Error analyzing meeting ${meetingId}:`, error);
+        result.failed.push({ meetingId, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    // Nothing got through: fail the task so the orchestrator retries it
+    if (result.failed.length > 0 && result.analysed.length === 0) {
+      throw new Error(`[${this.name}] Analysis failed for every meeting: ${result.failed[0].error}`);
+    }
+
+    return { ...result, metadata: metadata() };
+  }
+
+  /**
+   * Analyze one meeting transcript and store the insights
+   */
+  async analyzeMeeting(meeting: MeetingInput, context?: AgentContext): Promise<MeetingInsights> {
+    const { meetingId, transcript, participants = [], title, chunks } = meeting;
     
     console.log(`[${this.name}] Analyzing meeting: ${title}`);
     
-    // Step 1: Extract action items
-    const actionItems = await this.extractActionItems(transcript, participants);
-    
-    // Step 2: Identify decisions
-    const decisions = await this.extractDecisions(transcript);
-    
-    // Step 3: Detect risks and blockers
-    const risks = await this.detectRisks(transcript);
+    const useMapReduce = this.mode === 'map-reduce'
+      || (this.mode === 'auto' && transcript.length > TRANSCRIPT_LIMIT);
+
+    let actionItems: ActionItem[];
+    let decisions: Decision[];
+    let risks: Risk[];
+    // What the summary-level steps read: the transcript itself, or notes covering all of it
+    let material: string;
+
+    if (useMapReduce) {
+      // Steps 1-3: Extract per window, then merge across the whole meeting
+      ({ actionItems, decisions, risks, material } = await this.analyzeInWindows(meetingId, transcript, participants, chunks));
+    } else {
+      material = `Transcript:\n${transcript.substring(0, TRANSCRIPT_LIMIT)}`;
+
+      // Step 1: Extract action items
+      actionItems = await this.extractActionItems(material, participants);
+      
+      // Step 2: Identify decisions
+      decisions = await this.extractDecisions(material);
+      
+      // Step 3: Detect risks and blockers
+      risks = await this.detectRisks(material);
+    }
     
     // Step 4: Determine project association
-    const projectId = await this.identifyProject(title, transcript);
+    const projectId = await this.identifyProject(meetingId, title, transcript, participants);
     
     // Step 5: Analyze sentiment
-    const sentiment = await this.analyzeSentiment(transcript);
+    const sentiment = await this.analyzeSentiment(material);
     
     // Step 6: Generate summary
-    const summary = await this.generateSummary(transcript, actionItems, decisions);
+    const summary = await this.generateSummary(material, actionItems, decisions);
     
     // Step 7: Extract key topics
-    const keyTopics = await this.extractKeyTopics(transcript);
+    const keyTopics = await this.extractKeyTopics(material);
     
     // Step 8: Identify next steps
-    const nextSteps = await this.identifyNextSteps(transcript, actionItems);
+    const nextSteps = await this.identifyNextSteps(material, actionItems);
     
     const insights: MeetingInsights = {
       meetingId,
@@ -96,11 +349,12 @@ export class MeetingIntelligenceAgent {
       sentiment,
       summary,
       keyTopics,
-      nextSteps
+      nextSteps,
+      analysisMode: useMapReduce ? 'map-reduce' : 'single'
     };
     
     // Step 9: Trigger notifications for critical items
-    await this.handleCriticalItems(insights);
+    this.handleCriticalItems(insights, context);
     
     // Step 10: Store insights
     await this.storeInsights(insights);
@@ -110,142 +364,228 @@ export class MeetingIntelligenceAgent {
     return insights;
   }
 
+  /**
+   * Map-reduce analysis of a long transcript: extract action items,
+   * decisions and risks from each window of chunks, merge duplicates across
+   * windows, and collect per-window notes for the summary-level steps
+   */
+  private async analyzeInWindows(
+    meetingId: string,
+    transcript: string,
+    participants: string[],
+    storedChunks?: TranscriptChunk[]
+  ): Promise<{
+    actionItems: ActionItem[];
+    decisions: Decision[];
+    risks: Risk[];
+    material: string;
+  }> {
+    const windows = await buildAnalysisWindows(transcript, this.windowTokens, { meetingId, storedChunks });
+    console.log(`[${this.name}] Map-reduce over ${windows.length} windows`);
+
+    const results = await mapWithConcurrency(windows, this.mapConcurrency, window =>
+      this.analyzeWindow(window, windows.length, participants)
+    );
+
+    const actionItems = mergeActionItems(results.flatMap(r => r.actionItems));
+    const decisions = mergeDecisions(results.flatMap(r => r.decisions));
+    const risks = mergeRisks(results.flatMap(r => r.risks));
+
+    const notes = windows
+      .map((window, i) => {
+        const range = windowTimeRange(window);
+        return results[i].notes ? `[${range || `part ${i + 1}`}] ${results[i].notes}` : '';
+      })
+      .filter(Boolean)
+      .join('\n');
+
+    return {
+      actionItems,
+      decisions,
+      risks,
+      material: `Notes covering the whole meeting, section by section:\n${notes.substring(0, NOTES_LIMIT)}`
+    };
+  }
+
+  /**
+   * Map step for one window
+   */
+  private async analyzeWindow(window: AnalysisWindow, windowCount: number, participants: string[]) {
+    const prompt = `
+      This is part ${window.index + 1} of ${windowCount} of a meeting transcript.
+      Each section starts with a label like [chunk 12 | 5:30 | Speaker].
+      
+      Extract from this part only:
+      - Action items: task, owner${participants.length > 0 ? ` (one of: ${participants.join(', ')})` : ''}, due date (YYYY-MM-DD) if mentioned, priority (high/medium/low)
+      - Decisions made, with impact (high/medium/low) and affected stakeholders
+      - Risks, concerns or blockers, with severity (critical/high/medium/low) and mitigation if discussed
+      - Notes: 2-3 sentences on what was discussed in this part
+      
+      For every item, set "chunk" to the number of the chunk it came from.
+      
+      Transcript part:
+      ${window.text}
+    `;
+
+    const result = await generateStructured(this.llm, {
+      prompt,
+      schema: windowSchema,
+      shape: '{"actionItems": [{"description": "string", "owner": "string or null", "dueDate": "YYYY-MM-DD or null", "priority": "high|medium|low", "chunk": 0}], "decisions": [{"description": "string", "impact": "high|medium|low", "stakeholders": ["string"], "chunk": 0}], "risks": [{"description": "string", "severity": "critical|high|medium|low", "mitigation": "string or null", "owner": "string or null", "chunk": 0}], "notes": "string"}',
+      maxTokens: 1500,
+    });
+
+    return {
+      actionItems: result.actionItems.map(({ chunk, ...item }): ActionItem => ({
+        id: crypto.randomUUID(),
+        ...item,
+        owner: this.matchParticipant(item.owner, participants),
+        status: 'pending',
+        sources: [resolveSource(window, chunk)]
+      })),
+      decisions: result.decisions.map(({ chunk, ...decision }): Decision => ({
+        id: crypto.randomUUID(),
+        ...decision,
+        sources: [resolveSource(window, chunk)]
+      })),
+      risks: result.risks.map(({ chunk, ...risk }): Risk => ({
+        id: crypto.randomUUID(),
+        ...risk,
+        sources: [resolveSource(window, chunk)]
+      })),
+      notes: result.notes.trim()
+    };
+  }
+
   /**
    * Extract action items from transcript
    */
-  private async extractActionItems(transcript: string, participants: string[]): Promise<ActionItem[]> {
+  private async extractActionItems(material: string, participants: string[]): Promise<ActionItem[]> {
     const prompt = `
       Analyze this meeting transcript and extract all action items.
       For each action item, identify:
       1. Clear description of the task
-      2. Who is responsible (must be one of: ${participants.join(', ')})
-      3. Due date if mentioned
+      2. Who is responsible${participants.length > 0 ? ` (must be one of: ${participants.join(', ')})` : ''}
+      3. Due date if mentioned (YYYY-MM-DD)
       4. Priority level (high/medium/low)
       
-      Transcript:
-      ${transcript.substring(0, 5000)} // Limit for context window
-      
-      Return as JSON array of action items.
+      ${material}
     `;
     
-    // This would call your AI model
-    // const response = await callAI(prompt);
-    
-    // Mock response for example
-    return [
-      {
-        id: crypto.randomUUID(),
-        description: "Review and update project timeline",
-        owner: participants[0],
-        dueDate: "2024-01-15",
-        priority: 'high',
-        status: 'pending'
-      },
-      {
-        id: crypto.randomUUID(),
-        description: "Send follow-up email to client",
-        owner: participants[1],
-        priority: 'medium',
-        status: 'pending'
-      }
-    ];
+    const { actionItems } = await generateStructured(this.llm, {
+      prompt,
+      schema: actionItemsSchema,
+      shape: '{"actionItems": [{"description": "string", "owner": "string or null", "dueDate": "YYYY-MM-DD or null", "priority": "high|medium|low"}]}',
+    });
+
+    return actionItems.map(item => ({
+      id: crypto.randomUUID(),
+      description: item.description,
+      owner: this.matchParticipant(item.owner, participants),
+      dueDate: item.dueDate,
+      priority: item.priority,
+      status: 'pending'
+    }));
   }
 
   /**
    * Extract key decisions from transcript
    */
-  private async extractDecisions(transcript: string): Promise<Decision[]> {
+  private async extractDecisions(material: string): Promise<Decision[]> {
     const prompt = `
       Identify key decisions made in this meeting.
       Look for phrases like "we decided", "we'll go with", "the decision is", etc.
+      Rate each decision's impact as high, medium, or low and list the affected stakeholders.
       
-      Transcript:
-      ${transcript.substring(0, 5000)}
-      
-      Return as JSON array of decisions with impact level.
+      ${material}
     `;
     
-    // Mock response
-    return [
-      {
-        id: crypto.randomUUID(),
-        description: "Proceed with Option B for the new feature implementation",
-        impact: 'high',
-        stakeholders: ['Engineering', 'Product']
-      }
-    ];
+    const { decisions } = await generateStructured(this.llm, {
+      prompt,
+      schema: decisionsSchema,
+      shape: '{"decisions": [{"description": "string", "impact": "high|medium|low", "stakeholders": ["string"]}]}',
+    });
+
+    return decisions.map(decision => ({
+      id: crypto.randomUUID(),
+      ...decision
+    }));
   }
 
   /**
    * Detect risks and blockers mentioned in the meeting
    */
-  private async detectRisks(transcript: string): Promise<Risk[]> {
+  private async detectRisks(material: string): Promise<Risk[]> {
     const prompt = `
       Identify any risks, concerns, or blockers mentioned in this meeting.
       Look for words like "risk", "concern", "blocker", "issue", "problem", "challenge".
       
-      Transcript:
-      ${transcript.substring(0, 5000)}
+      ${material}
       
       Rate severity as: critical, high, medium, or low.
       Include mitigation strategies if discussed.
     `;
     
-    // Mock response
-    return [
-      {
-        id: crypto.randomUUID(),
-        description: "Third-party API integration may delay launch by 2 weeks",
-        severity: 'high',
-        mitigation: "Start integration work in parallel with development",
-        owner: "Tech Lead"
-      }
-    ];
+    const { risks } = await generateStructured(this.llm, {
+      prompt,
+      schema: risksSchema,
+      shape: '{"risks": [{"description": "string", "severity": "critical|high|medium|low", "mitigation": "string or null", "owner": "string or null"}]}',
+    });
+
+    return risks.map(risk => ({
+      id: crypto.randomUUID(),
+      ...risk
+    }));
   }
 
   /**
-   * Identify which project this meeting relates to
+   * Identify which project this meeting relates to. Uncertain matches are
+   * left unassigned and queued for review.
    */
-  private async identifyProject(title: string, transcript: string): Promise<string | undefined> {
-    // Simple pattern matching for project names
-    const projectPatterns = [
-      { pattern: /alleato/i, id: 'alleato-main' },
-      { pattern: /asrs|fire\s*protection/i, id: 'asrs-fire-protection' },
-      { pattern: /client\s*portal/i, id: 'client-portal' },
-    ];
-    
-    for (const { pattern, id } of projectPatterns) {
-      if (pattern.test(title) || pattern.test(transcript.substring(0, 1000))) {
-        return id;
+  private async identifyProject(
+    meetingId: string,
+    title: string,
+    transcript: string,
+    participants: string[]
+  ): Promise<string | undefined> {
+    if (!this.matcher) return undefined;
+
+    try {
+      const match = await this.matcher.match({ title, content: transcript, participants });
+      if (match.reviewFor.length > 0) {
+        await this.reviewQueue?.queueFromMatch({ type: 'meeting', id: meetingId, title }, match);
       }
+      return match.project?.id;
+    } catch (error) {
+      console.error(`[${this.name}] Error matching project:`, error);
+      return undefined;
     }
-    
-    return undefined;
   }
 
   /**
    * Analyze overall sentiment of the meeting
    */
-  private async analyzeSentiment(transcript: string): Promise<'positive' | 'neutral' | 'negative'> {
+  private async analyzeSentiment(material: string): Promise<'positive' | 'neutral' | 'negative'> {
     const prompt = `
       Analyze the overall sentiment of this meeting.
       Consider: tone, language used, resolution of issues, team morale.
       
-      Transcript:
-      ${transcript.substring(0, 5000)}
-      
-      Return: positive, neutral, or negative
+      ${material}
     `;
     
-    // Mock response
-    return 'positive';
+    const { sentiment } = await generateStructured(this.llm, {
+      prompt,
+      schema: sentimentSchema,
+      shape: '{"sentiment": "positive|neutral|negative"}',
+    });
+
+    return sentiment;
   }
 
   /**
    * Generate executive summary
    */
   private async generateSummary(
-    transcript: string, 
+    material: string, 
     actionItems: ActionItem[], 
     decisions: Decision[]
   ): Promise<string> {
@@ -255,54 +595,82 @@ export class MeetingIntelligenceAgent {
       
       Meeting had ${actionItems.length} action items and ${decisions.length} decisions.
       
-      Transcript excerpt:
-      ${transcript.substring(0, 3000)}
+      ${material}
     `;
     
-    // Mock response
-    return "The team discussed the Q1 roadmap and agreed on prioritizing the client portal enhancement. " +
-           "Key decision was made to proceed with Option B for implementation, which will require additional resources. " +
-           "Three action items were assigned with a focus on timeline review and stakeholder communication.";
+    const { summary } = await generateStructured(this.llm, {
+      prompt,
+      schema: summarySchema,
+      shape: '{"summary": "string"}',
+    });
+
+    return summary;
   }
 
   /**
    * Extract key topics discussed
    */
-  private async extractKeyTopics(transcript: string): Promise<string[]> {
-    // Mock response
-    return [
-      "Q1 Roadmap Planning",
-      "Client Portal Enhancement",
-      "Resource Allocation",
-      "Timeline Review"
-    ];
+  private async extractKeyTopics(material: string): Promise<string[]> {
+    const prompt = `
+      List the 3-6 key topics discussed in this meeting as short titles.
+      
+      ${material}
+    `;
+
+    const { topics } = await generateStructured(this.llm, {
+      prompt,
+      schema: topicsSchema,
+      shape: '{"topics": ["string"]}',
+    });
+
+    return topics;
   }
 
   /**
    * Identify next steps beyond action items
    */
-  private async identifyNextSteps(transcript: string, actionItems: ActionItem[]): Promise<string[]> {
-    // Mock response
-    return [
-      "Schedule follow-up meeting for January 20th",
-      "Prepare budget proposal for additional resources",
-      "Review and approve technical specifications"
-    ];
+  private async identifyNextSteps(material: string, actionItems: ActionItem[]): Promise<string[]> {
+    const prompt = `
+      Identify the next steps agreed in this meeting that are not already covered by these action items:
+      ${actionItems.map(item => `- ${item.description}`).join('\n') || '- (none)'}
+      
+      ${material}
+    `;
+
+    const { nextSteps } = await generateStructured(this.llm, {
+      prompt,
+      schema: nextStepsSchema,
+      shape: '{"nextSteps": ["string"]}',
+    });
+
+    return nextSteps;
+  }
+
+  /**
+   * Map a model-supplied owner onto the participant list, keeping it
+   * as-is when it doesn't match anyone
+   */
+  private matchParticipant(owner: string | undefined, participants: string[]): string | undefined {
+    if (!owner) return undefined;
+    const normalized = owner.toLowerCase();
+    return participants.find(p => p.toLowerCase() === normalized)
+      || participants.find(p => p.toLowerCase().split(/\s+/)[0] === normalized.split(/\s+/)[0])
+      || owner;
   }
 
   /**
    * Handle critical items that need immediate attention
    */
-  private async handleCriticalItems(insights: MeetingInsights): Promise<void> {
+  private handleCriticalItems(insights: MeetingInsights, context?: AgentContext): void {
     // Check for critical risks
     const criticalRisks = insights.risks.filter(r => r.severity === 'critical');
     if (criticalRisks.length > 0) {
       console.log(`[${this.name}] ALERT: ${criticalRisks.length} critical risks detected!`);
-      // Trigger notification agent
-      await this.triggerAgent('notification-agent', {
-        type: 'critical-risk',
-        data: criticalRisks,
-        meetingId: insights.meetingId
+      // Subscribers (the notification agent) pick this up once the task completes
+      context?.publish('risk.critical', {
+        meetingId: insights.meetingId,
+        projectId: insights.projectId,
+        risks: criticalRisks
       });
     }
     
@@ -321,36 +689,16 @@ export class MeetingIntelligenceAgent {
   }
 
   /**
-   * Store insights in database
+   * Store insights in database (one row per meeting and agent version)
    */
   private async storeInsights(insights: MeetingInsights): Promise<void> {
-    // This would store in your D1 database
-    console.log(`[${this.name}] Storing insights for meeting ${insights.meetingId}`);
-    
-    // Example D1 query:
-    // await db.prepare(`
-    //   INSERT INTO meeting_insights 
-    //   (meeting_id, action_items, decisions, risks, sentiment, summary, key_topics, next_steps, created_at)
-    //   VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-    // `).bind(
-    //   insights.meetingId,
-    //   JSON.stringify(insights.actionItems),
-    //   JSON.stringify(insights.decisions),
-    //   JSON.stringify(insights.risks),
-    //   insights.sentiment,
-    //   insights.summary,
-    //   JSON.stringify(insights.keyTopics),
-    //   JSON.stringify(insights.nextSteps),
-    //   new Date().toISOString()
-    // ).run();
-  }
+    if (!this.insightsStore) {
+      console.log(`[${this.name}] No database configured; insights for meeting ${insights.meetingId} not stored`);
+      return;
+    }
 
-  /**
-   * Trigger another agent
-   */
-  private async triggerAgent(agentName: string, data: any): Promise<void> {
-    console.log(`[${this.name}] Triggering agent: ${agentName}`, data);
-    // This would use the Task tool to trigger another agent
+    console.log(`[${this.name}] Storing insights for meeting ${insights.meetingId}`);
+    await this.insightsStore.upsert(insights, MeetingIntelligenceAgent.version);
   }
 
   /**
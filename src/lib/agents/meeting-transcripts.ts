@@ -0,0 +1,150 @@
+/**
+ * Meeting Transcripts
+ *
+ * Reads what the meeting intelligence agent analyses from D1: a meeting's
+ * title, date and participants from `meetings`, and its transcript
+ * rebuilt from the stored meeting_chunks rows. Also finds the meetings the
+ * pipeline should pick up: newly ingested ones, and ones never analysed.
+ */
+
+import type { TranscriptChunk } from './transcript-map-reduce';
+
+export interface StoredMeeting {
+  meetingId: string;
+  title: string;
+  date?: string;
+  participants: string[];
+  transcript: string;
+  chunks: TranscriptChunk[]; // meeting_chunks rows in transcript order; empty for unchunked meetings
+}
+
+// Where the data sync agent has announced meetings up to
+const SYNC_WATERMARK_KEY = 'data_sync_watermark';
+
+function parseList(value: unknown): string[] {
+  if (!value) return [];
+  if (Array.isArray(value)) return value.map(String);
+  const text = String(value).trim();
+  if (text.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(text);
+      return Array.isArray(parsed) ? parsed.map(item => String(item)).filter(Boolean) : [];
+    } catch (error) {
+      // Not JSON after all; treat as a comma-separated list
+    }
+  }
+  return text.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Join chunk contents into one transcript. Speaker-aware chunks repeat the
+ * last lines of the previous chunk for context; those are dropped.
+ */
+export function joinChunks(chunks: Array<{ content: string }>): string {
+  const lines: string[] = [];
+
+  for (const chunk of chunks) {
+    const chunkLines = chunk.content.split('\n');
+    let overlap = Math.min(chunkLines.length, lines.length);
+    while (overlap > 0 && lines.slice(-overlap).join('\n') !== chunkLines.slice(0, overlap).join('\n')) {
+      overlap--;
+    }
+    lines.push(...chunkLines.slice(overlap));
+  }
+
+  return lines.join('\n');
+}
+
+export class MeetingTranscriptStore {
+  constructor(private db: D1Database) {}
+
+  /**
+   * A meeting with its transcript; null if the meeting doesn't exist or
+   * has no text to analyse
+   */
+  async load(meetingId: string): Promise<StoredMeeting | null> {
+    // SELECT *: participant columns differ between schema versions
+    const meeting = await this.db.prepare(`SELECT * FROM meetings WHERE id = ?`).bind(meetingId).first();
+    if (!meeting) return null;
+
+    const { results } = await this.db.prepare(`
+      SELECT id, chunk_index, content, speaker, start_time, token_count
+      FROM meeting_chunks
+      WHERE meeting_id = ?
+      ORDER BY chunk_index ASC
+    `).bind(meetingId).all();
+
+    const chunks: TranscriptChunk[] = results.map((row, i) => ({
+      id: String(row.id),
+      position: row.chunk_index != null ? Number(row.chunk_index) : i,
+      content: String(row.content || ''),
+      speaker: (row.speaker as string) || undefined,
+      startTime: row.start_time != null ? Number(row.start_time) : undefined,
+      tokenCount: row.token_count != null ? Number(row.token_count) : undefined,
+    }));
+
+    // Unchunked meetings fall back to the text kept for search
+    const transcript = chunks.length > 0 ? joinChunks(chunks) : String(meeting.searchable_text || '');
+    if (!transcript.trim()) return null;
+
+    const participants = parseList(meeting.participants);
+    return {
+      meetingId,
+      title: String(meeting.title || 'Untitled Meeting'),
+      date: (meeting.date as string) || undefined,
+      participants: participants.length > 0 ? participants : parseList(meeting.speakers),
+      transcript,
+      chunks,
+    };
+  }
+
+  /**
+   * Meetings with text that no agent version has analysed, newest first
+   */
+  async listUnanalysed(limit: number): Promise<string[]> {
+    const { results } = await this.db.prepare(`
+      SELECT m.id
+      FROM meetings m
+      WHERE NOT EXISTS (SELECT 1 FROM meeting_insights mi WHERE mi.meeting_id = m.id)
+        AND (
+          EXISTS (SELECT 1 FROM meeting_chunks mc WHERE mc.meeting_id = m.id)
+          OR COALESCE(m.searchable_text, '') != ''
+        )
+      ORDER BY m.date DESC, m.id ASC
+      LIMIT ?
+    `).bind(limit).all();
+
+    return results.map(row => String(row.id));
+  }
+
+  /**
+   * Chunked meetings created since the last call, oldest first, and move
+   * the watermark past them. A meeting whose chunks land after the
+   * watermark has moved on is not announced; the intelligence agent's
+   * scheduled sweep still picks it up.
+   */
+  async takeNewlyIngested(limit: number): Promise<string[]> {
+    const watermark = await this.db.prepare(`SELECT value FROM system_metadata WHERE key = ?`)
+      .bind(SYNC_WATERMARK_KEY)
+      .first();
+
+    const { results } = await this.db.prepare(`
+      SELECT m.id, m.created_at
+      FROM meetings m
+      WHERE m.created_at > ?
+        AND EXISTS (SELECT 1 FROM meeting_chunks mc WHERE mc.meeting_id = m.id)
+      ORDER BY m.created_at ASC, m.id ASC
+      LIMIT ?
+    `).bind(String(watermark?.value || ''), limit).all();
+
+    if (results.length > 0) {
+      await this.db.prepare(`
+        INSERT INTO system_metadata (key, value, updated_at)
+        VALUES (?, ?, CURRENT_TIMESTAMP)
+        ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP
+      `).bind(SYNC_WATERMARK_KEY, String(results[results.length - 1].created_at)).run();
+    }
+
+    return results.map(row => String(row.id));
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Agent Message Bus
+ *
+ * Typed publish/subscribe between agents. Every topic has a payload type in
+ * AgentMessageTypes; agents declare the topics they emit and consume, and
+ * the orchestrator turns consumed messages into queued tasks. Messages carry
+ * the correlation id of the chain that produced them, and are logged in D1
+ * (agent_messages) so a chain can be traced end to end.
+ */
+
+import { fromSqlTimestamp, toSqlTimestamp } from './task-store';
+import type { AgentMessage } from './types';
+import type { Risk } from './meeting-intelligence-agent';
+
+export interface AgentMessageTypes {
+  'meetings.synced': { meetingIds: string[]; newMeetings: number };
+  'risk.critical': { meetingId?: string; projectId?: string; risks: Risk[] };
+  'project.health-low': { projectId: string; healthScore: number };
+}
+
+export type MessageTopic = keyof AgentMessageTypes;
+
+export type TypedMessage<T extends MessageTopic> = AgentMessage<AgentMessageTypes[T]> & { topic: T };
+
+export type MessageHandler<T extends MessageTopic> = (message: TypedMessage<T>) => Promise<void> | void;
+
+/**
+ * What an agent sees while executing a task
+ */
+export interface AgentContext {
+  correlationId: string;
+  publish<T extends MessageTopic>(topic: T, payload: AgentMessageTypes[T]): void;
+}
+
+export interface PublishOptions {
+  from: string;
+  correlationId: string;
+  causationId?: string;
+}
+
+function parseJson(value: unknown): any {
+  if (value == null) return undefined;
+  try {
+    return JSON.parse(String(value));
+  } catch (error) {
+    return value;
+  }
+}
+
+function toMessage(row: Record<string, unknown>): AgentMessage {
+  return {
+    id: String(row.id),
+    from: String(row.from_agent),
+    type: 'notification',
+    topic: String(row.topic),
+    payload: parseJson(row.payload),
+    timestamp: fromSqlTimestamp(row.created_at)!,
+    correlationId: String(row.correlation_id),
+    causationId: (row.causation_id as string) || undefined,
+  };
+}
+
+/**
+ * Published messages in D1, for tracing chains
+ */
+export class D1MessageLog {
+  constructor(private db: D1Database) {}
+
+  async record(message: AgentMessage): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO agent_messages (id, topic, from_agent, payload, correlation_id, causation_id, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      message.id,
+      message.topic,
+      message.from,
+      JSON.stringify(message.payload ?? null),
+      message.correlationId,
+      message.causationId || null,
+      toSqlTimestamp(message.timestamp)
+    ).run();
+  }
+
+  async getByCorrelation(correlationId: string): Promise<AgentMessage[]> {
+    const { results } = await this.db.prepare(`
+      SELECT * FROM agent_messages
+      WHERE correlation_id = ?
+      ORDER BY created_at ASC
+    `).bind(correlationId).all();
+
+    return results.map(toMessage);
+  }
+}
+
+export class MessageBus {
+  private handlers: Map<MessageTopic, Array<MessageHandler<any>>> = new Map();
+
+  constructor(private log?: D1MessageLog, private now: () => Date = () => new Date()) {}
+
+  /**
+   * Handle every message on `topic`; returns a function that unsubscribes
+   */
+  subscribe<T extends MessageTopic>(topic: T, handler: MessageHandler<T>): () => void {
+    const handlers = this.handlers.get(topic) || [];
+    handlers.push(handler);
+    this.handlers.set(topic, handlers);
+
+    return () => {
+      this.handlers.set(topic, (this.handlers.get(topic) || []).filter(h => h !== handler));
+    };
+  }
+
+  /**
+   * Log a message and deliver it to each subscriber in turn. A failing
+   * subscriber is logged and doesn't stop delivery to the others.
+   */
+  async publish<T extends MessageTopic>(
+    topic: T,
+    payload: AgentMessageTypes[T],
+    options: PublishOptions
+  ): Promise<TypedMessage<T>> {
+    const message: TypedMessage<T> = {
+      id: crypto.randomUUID(),
+      from: options.from,
+      type: 'notification',
+      topic,
+      payload,
+      timestamp: this.now(),
+      correlationId: options.correlationId,
+      causationId: options.causationId,
+    };
+
+    if (this.log) {
+      try {
+        await this.log.record(message);
+      } catch (error) {
+        console.error(`[MessageBus] Error logging ${topic} message:`, error);
+      }
+    }
+
+    const handlers = this.handlers.get(topic) || [];
+    if (handlers.length === 0) {
+      console.warn(`[MessageBus] No subscribers for ${topic} (from ${options.from})`);
+    }
+
+    for (const handler of handlers) {
+      try {
+        await handler(message);
+      } catch (error) {
+        console.error(`[MessageBus] Subscriber for ${topic} failed:`, error);
+      }
+    }
+
+    return message;
+  }
+}
@@ -3,40 +3,152 @@
  * 
  * Central controller that manages and coordinates all sub-agents
  * Handles agent lifecycle, scheduling, and inter-agent communication
+ * 
+ * Tasks are persisted in D1 (processing_queue) and leased to one worker at
+ * a time, so a restart loses nothing. There are no timers: a Cloudflare cron
+ * trigger calls runScheduled(), which enqueues due agents and drains the queue.
+ *
+ * Failed tasks are retried with exponential backoff per the agent's
+ * RetryPolicy; once retries run out they are dead-lettered and can be
+ * replayed with replayTask().
+ *
+ * Every attempt is added to the agent's metrics (agent_metrics); enabling
+ * or disabling an agent at runtime is stored in agent_settings and
+ * overrides the default set in initializeAgents().
+ *
+ * Agents chain work through the message bus: each agent declares the
+ * topics it emits and consumes, and a consumed message becomes a queued
+ * task in the same correlation chain as the task that published it.
  */
 
 import { MeetingIntelligenceAgent } from './meeting-intelligence-agent';
+import { MeetingTranscriptStore } from './meeting-transcripts';
+import { D1TaskStore, type StoredTask, type TaskPriority } from './task-store';
+import { AgentStateStore, emptyMetrics, type ExecutionRecord } from './agent-state-store';
+import { LOW_HEALTH_THRESHOLD, ProjectHealthStore } from './project-health';
+import { D1MessageLog, MessageBus, type AgentContext, type AgentMessageTypes, type MessageTopic } from './message-bus';
+import { assertTimeZone, lastCronRun, nextCronRun, parseCron, type CronSchedule } from './cron';
+import { systemClock, type Clock } from './clock';
+import type { LLMProvider } from './llm-provider';
+import { ReportGenerator } from './report-generator';
+import { InAppChannel, NotificationDispatcher, type NotificationChannel } from '@/lib/services/notifications';
+import type { AgentResult, RetryPolicy } from './types';
 
 export interface Agent {
   name: string;
   description: string;
-  schedule?: string;
+  schedule?: string; // Five-field cron expression
+  timeZone?: string; // IANA timezone for the schedule; defaults to the orchestrator's
   enabled: boolean;
   lastRun?: Date;
   nextRun?: Date;
   status: 'idle' | 'running' | 'failed' | 'disabled';
-  execute: (task: any) => Promise<any>;
+  timeout?: number; // Milliseconds per attempt; must be shorter than the lease
+  retryPolicy?: RetryPolicy;
+  emits?: MessageTopic[]; // Topics the agent may publish
+  consumes?: MessageSubscription[]; // Topics that queue a task for the agent
+  execute: (task: any, context: AgentContext) => Promise<any>;
+}
+
+export interface TopicSubscription<T extends MessageTopic> {
+  topic: T;
+  priority?: TaskPriority; // Default 'medium'
+  toTask?: (payload: AgentMessageTypes[T]) => any; // Task data; defaults to the payload
+}
+
+export type MessageSubscription = { [T in MessageTopic]: TopicSubscription<T> }[MessageTopic];
+
+export type AgentTask = StoredTask;
+
+export interface OrchestratorOptions {
+  workerId?: string; // Lease owner; defaults to a random id per instance
+  leaseSeconds?: number; // Visibility timeout before another worker may reclaim a task
+  maxTasksPerRun?: number;
+  maxRunMs?: number; // Stop claiming new tasks after this long in one invocation
+  timeZone?: string; // Default timezone for agent schedules
+  clock?: Clock;
+  llm?: LLMProvider; // Model used by LLM-backed agents
+  notificationChannels?: NotificationChannel[]; // Defaults to the in-app inbox only
+  reportBucket?: R2Bucket; // Where generated reports are written; report-generator-agent fails without it
+}
+
+export interface RunSummary {
+  scheduled: string[];
+  executed: number;
+  succeeded: number;
+  failed: number;
+  abandoned: number;
 }
 
-export interface AgentTask {
-  id: string;
-  agentName: string;
-  priority: 'critical' | 'high' | 'medium' | 'low';
-  data: any;
-  createdAt: Date;
-  scheduledFor?: Date;
-  status: 'pending' | 'running' | 'completed' | 'failed';
-  result?: any;
-  error?: string;
+// How far back a scheduled agent catches up on missed slots
+const MAX_CATCH_UP_MS = 7 * 24 * 60 * 60 * 1000;
+// Window checked for an agent that has never been scheduled
+const NEW_AGENT_WINDOW_MS = 5 * 60 * 1000;
+// Meetings announced per data sync run; the rest go out on the next run
+const MAX_SYNCED_MEETINGS = 100;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  backoffMultiplier: 2,
+  initialDelay: 30 * 1000,
+  maxDelay: 15 * 60 * 1000
+};
+export const DEFAULT_TASK_TIMEOUT_MS = 2 * 60 * 1000;
+
+/**
+ * Delay before retry number `retry` (1-based): initialDelay growing by
+ * backoffMultiplier each time, capped at maxDelay
+ */
+export function retryDelay(policy: RetryPolicy, retry: number): number {
+  return Math.min(policy.initialDelay * Math.pow(policy.backoffMultiplier, retry - 1), policy.maxDelay);
+}
+
+/**
+ * Reject if `promise` hasn't settled within `ms`. The agent's work isn't
+ * cancelled, but its result is no longer recorded.
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
 }
 
 export class AgentOrchestrator {
   private agents: Map<string, Agent> = new Map();
-  private taskQueue: AgentTask[] = [];
-  private running: boolean = false;
-  private executionHistory: AgentTask[] = [];
-
-  constructor() {
+  private schedules: Map<string, CronSchedule> = new Map();
+  private store: D1TaskStore;
+  private stateStore: AgentStateStore;
+  private settingsLoaded?: Promise<void>;
+  private bus: MessageBus;
+  private messageLog: D1MessageLog;
+  private subscriptions: Map<string, Array<() => void>> = new Map();
+  private workerId: string;
+  private leaseSeconds: number;
+  private maxTasksPerRun: number;
+  private maxRunMs: number;
+  private timeZone: string;
+  private clock: Clock;
+  private llm?: LLMProvider;
+  private notificationChannels: NotificationChannel[];
+  private reportBucket?: R2Bucket;
+
+  constructor(private db: D1Database, options: OrchestratorOptions = {}) {
+    this.store = new D1TaskStore(db);
+    this.stateStore = new AgentStateStore(db);
+    this.messageLog = new D1MessageLog(db);
+    this.workerId = options.workerId || crypto.randomUUID();
+    this.leaseSeconds = options.leaseSeconds ?? 300;
+    this.maxTasksPerRun = options.maxTasksPerRun ?? 25;
+    this.maxRunMs = options.maxRunMs ?? 25000;
+    this.timeZone = options.timeZone || 'UTC';
+    this.clock = options.clock || systemClock;
+    this.llm = options.llm;
+    this.notificationChannels = options.notificationChannels || [new InAppChannel(db)];
+    this.reportBucket = options.reportBucket;
+    this.bus = new MessageBus(this.messageLog, () => this.clock.now());
+    assertTimeZone(this.timeZone);
     this.initializeAgents();
   }
 
@@ -51,6 +163,7 @@ export class AgentOrchestrator {
       schedule: '0 */1 * * *', // Every hour
       enabled: true,
       status: 'idle',
+      emits: ['meetings.synced'],
       execute: this.dataSyncAgent.bind(this)
     });
 
@@ -60,9 +173,14 @@ export class AgentOrchestrator {
       schedule: '0 */2 * * *', // Every 2 hours
       enabled: true,
       status: 'idle',
-      execute: async (task) => {
-        const agent = new MeetingIntelligenceAgent();
-        return await agent.execute(task);
+      timeout: 4 * 60 * 1000, // Long transcripts take several model calls
+      consumes: [
+        { topic: 'meetings.synced', priority: 'high', toTask: ({ meetingIds }) => ({ meetingIds }) }
+      ],
+      emits: ['risk.critical'],
+      execute: async (task, context) => {
+        const agent = new MeetingIntelligenceAgent({ provider: this.llm, db: this.db });
+        return await agent.execute(task, context);
       }
     });
 
@@ -72,14 +190,23 @@ export class AgentOrchestrator {
       schedule: '0 9,15 * * *', // 9 AM and 3 PM daily
       enabled: true,
       status: 'idle',
+      emits: ['project.health-low'],
       execute: this.projectMonitorAgent.bind(this)
     });
 
     this.registerAgent({
       name: 'notification-agent',
       description: 'Sends intelligent notifications',
+      schedule: '*/15 * * * *', // Sends deliveries held back by quiet hours
       enabled: true,
       status: 'idle',
+      consumes: [
+        {
+          topic: 'risk.critical',
+          priority: 'critical',
+          toTask: ({ risks, meetingId, projectId }) => ({ type: 'critical-risk', data: risks, meetingId, projectId })
+        }
+      ],
       execute: this.notificationAgent.bind(this)
     });
 
@@ -89,332 +216,582 @@ export class AgentOrchestrator {
       schedule: '0 8 * * 1', // Every Monday at 8 AM
       enabled: true,
       status: 'idle',
+      timeout: 4 * 60 * 1000, // The weekly run writes a report per project
+      consumes: [
+        { topic: 'project.health-low', priority: 'high', toTask: ({ projectId }) => ({ type: 'emergency', projectId }) }
+      ],
       execute: this.reportGeneratorAgent.bind(this)
     });
   }
 
   /**
-   * Register a new agent
+   * Register a new agent; throws if its schedule, timezone or timeout is invalid
    */
   registerAgent(agent: Agent) {
+    if (this.agentTimeout(agent) >= this.leaseSeconds * 1000) {
+      throw new Error(`Agent ${agent.name} timeout must be shorter than the ${this.leaseSeconds}s lease`);
+    }
+    if (agent.schedule) {
+      if (agent.timeZone) assertTimeZone(agent.timeZone);
+      const schedule = parseCron(agent.schedule);
+      this.schedules.set(agent.name, schedule);
+      agent.nextRun = nextCronRun(schedule, this.clock.now(), this.agentTimeZone(agent)) || undefined;
+    } else {
+      this.schedules.delete(agent.name);
+      agent.nextRun = undefined;
+    }
+
+    // Re-registering replaces the agent's subscriptions
+    (this.subscriptions.get(agent.name) || []).forEach(unsubscribe => unsubscribe());
+    this.subscriptions.set(agent.name, (agent.consumes || []).map(subscription =>
+      this.bus.subscribe(subscription.topic, message => this.queueFromMessage(agent.name, subscription, message))
+    ));
+
     this.agents.set(agent.name, agent);
     console.log(`[Orchestrator] Registered agent: ${agent.name}`);
   }
 
   /**
-   * Queue a task for an agent
+   * Queue a task for an agent. Without a correlation id the task starts a
+   * new chain.
    */
   async queueTask(
     agentName: string, 
     data: any, 
-    priority: 'critical' | 'high' | 'medium' | 'low' = 'medium',
-    scheduledFor?: Date
+    priority: TaskPriority = 'medium',
+    scheduledFor?: Date,
+    chain: { correlationId?: string; causedByMessage?: string } = {}
   ): Promise<string> {
     const agent = this.agents.get(agentName);
     if (!agent) {
       throw new Error(`Agent not found: ${agentName}`);
     }
 
-    const task: AgentTask = {
-      id: crypto.randomUUID(),
-      agentName,
+    const taskId = (await this.store.enqueue(agentName, data, this.clock.now(), {
       priority,
-      data,
-      createdAt: new Date(),
       scheduledFor,
-      status: 'pending'
-    };
+      maxAttempts: this.retryPolicy(agent).maxRetries + 1,
+      correlationId: chain.correlationId,
+      causedByMessage: chain.causedByMessage
+    }))!;
+
+    console.log(`[Orchestrator] Queued task ${taskId} for ${agentName}`);
+
+    // If critical, execute immediately (unless another worker got to it first)
+    if (priority === 'critical' && !scheduledFor) {
+      const task = await this.store.claim(this.workerId, this.clock.now(), this.leaseSeconds, taskId);
+      if (task) {
+        await this.executeTask(task);
+      }
+    }
 
-    this.taskQueue.push(task);
-    this.sortTaskQueue();
+    return taskId;
+  }
 
-    console.log(`[Orchestrator] Queued task ${task.id} for ${agentName}`);
+  /**
+   * Entry point for the cron trigger: enqueue agents whose schedule is due,
+   * then work through the queue until it's empty or the run budget is spent
+   */
+  async runScheduled(): Promise<RunSummary> {
+    await this.loadSettings();
+    const scheduled = await this.enqueueScheduledAgents();
+    const abandoned = await this.store.failAbandoned(this.clock.now());
+    const summary = await this.processQueue();
 
-    // If critical, execute immediately
-    if (priority === 'critical') {
-      await this.executeTask(task);
-    }
+    console.log(`[Orchestrator] Run complete: ${scheduled.length} scheduled, ${summary.executed} executed, ${summary.failed} failed`);
 
-    return task.id;
+    return { scheduled, abandoned, ...summary };
   }
 
   /**
-   * Sort task queue by priority and scheduled time
+   * Claim and execute tasks one at a time within the run budget
    */
-  private sortTaskQueue() {
-    const priorityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
-    
-    this.taskQueue.sort((a, b) => {
-      // First sort by priority
-      const priorityDiff = priorityOrder[a.priority] - priorityOrder[b.priority];
-      if (priorityDiff !== 0) return priorityDiff;
-      
-      // Then by scheduled time
-      const aTime = a.scheduledFor?.getTime() || a.createdAt.getTime();
-      const bTime = b.scheduledFor?.getTime() || b.createdAt.getTime();
-      return aTime - bTime;
-    });
+  async processQueue(): Promise<Pick<RunSummary, 'executed' | 'succeeded' | 'failed'>> {
+    const deadline = Date.now() + this.maxRunMs;
+    let executed = 0;
+    let succeeded = 0;
+
+    while (executed < this.maxTasksPerRun && Date.now() < deadline) {
+      const task = await this.store.claim(this.workerId, this.clock.now(), this.leaseSeconds);
+      if (!task) break;
+
+      executed++;
+      if (await this.executeTask(task)) succeeded++;
+    }
+
+    return { executed, succeeded, failed: executed - succeeded };
   }
 
   /**
-   * Execute a specific task
+   * Execute a leased task and record the outcome
    */
-  private async executeTask(task: AgentTask): Promise<void> {
+  private async executeTask(task: AgentTask): Promise<boolean> {
     const agent = this.agents.get(task.agentName);
     if (!agent || !agent.enabled) {
-      task.status = 'failed';
-      task.error = 'Agent not available or disabled';
-      return;
+      // Retrying won't help; dead-letter straight away
+      await this.store.fail(task.id, this.workerId, { error: 'Agent not available or disabled' }, this.clock.now());
+      return false;
     }
 
+    const startedAt = Date.now();
+    const context = this.createContext(agent, task);
+
     try {
-      console.log(`[Orchestrator] Executing task ${task.id} with agent ${task.agentName}`);
+      console.log(`[Orchestrator] Executing task ${task.id} with agent ${task.agentName} (attempt ${task.attempts}/${task.maxAttempts})`);
       
-      task.status = 'running';
       agent.status = 'running';
-      agent.lastRun = new Date();
-      
-      const result = await agent.execute(task);
+      agent.lastRun = this.clock.now();
       
-      task.status = 'completed';
-      task.result = result;
+      const result = await withTimeout(agent.execute(task, context), this.agentTimeout(agent), `Task ${task.id}`);
       agent.status = 'idle';
+
+      const recorded = await this.store.complete(task.id, this.workerId, result, this.clock.now());
+      if (!recorded) {
+        // Lease expired mid-run and the task was reclaimed; that run owns the result
+        console.warn(`[Orchestrator] Lost lease on task ${task.id}; result discarded`);
+        return false;
+      }
+
+      // Counted as a success only once the result is stored; a complete()
+      // that throws is counted once, as a failure, below
+      const usage = (result as AgentResult | undefined)?.metadata;
+      await this.recordExecution(agent.name, {
+        success: true,
+        durationMs: Date.now() - startedAt,
+        tokensUsed: usage?.tokensUsed,
+        cost: usage?.cost
+      });
       
       console.log(`[Orchestrator] Task ${task.id} completed successfully`);
       
-      // Move to history
-      this.executionHistory.push(task);
-      this.taskQueue = this.taskQueue.filter(t => t.id !== task.id);
-      
-      // Handle task results
-      await this.handleTaskResult(task, result);
+      // Only a completed attempt publishes, so retries can't duplicate messages
+      await this.publishOutbox(agent, task, context.outbox);
+      return true;
       
     } catch (error) {
       console.error(`[Orchestrator] Task ${task.id} failed:`, error);
-      task.status = 'failed';
-      task.error = error instanceof Error ? error.message : 'Unknown error';
-      agent.status = 'failed';
+
+      await this.recordExecution(agent.name, {
+        success: false,
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      const now = this.clock.now();
+      const retryAt = task.attempts < task.maxAttempts
+        ? new Date(now.getTime() + retryDelay(this.retryPolicy(agent), task.attempts))
+        : undefined;
+
+      // Only an exhausted task marks the agent failed; its next success clears it
+      agent.status = retryAt ? 'idle' : 'failed';
+
+      await this.store.fail(task.id, this.workerId, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+        retryAt
+      }, now);
+
+      if (retryAt) {
+        console.log(`[Orchestrator] Retrying task ${task.id} at ${retryAt.toISOString()}`);
+      } else {
+        console.warn(`[Orchestrator] Task ${task.id} dead-lettered after ${task.attempts} attempts`);
+      }
+      return false;
     }
   }
 
   /**
-   * Handle task results and trigger dependent tasks
+   * Context for one attempt: publishes are checked against the agent's
+   * declared topics and held until the task completes
    */
-  private async handleTaskResult(task: AgentTask, result: any) {
-    // Handle agent-specific results
-    switch (task.agentName) {
-      case 'data-sync-agent':
-        if (result.newMeetings > 0) {
-          // Trigger meeting intelligence for new meetings
-          await this.queueTask('meeting-intelligence-agent', {
-            meetingIds: result.meetingIds
-          }, 'high');
-        }
-        break;
-        
-      case 'meeting-intelligence-agent':
-        if (result.risks?.some((r: any) => r.severity === 'critical')) {
-          // Trigger immediate notification
-          await this.queueTask('notification-agent', {
-            type: 'critical-risk',
-            data: result.risks
-          }, 'critical');
-        }
-        break;
-        
-      case 'project-monitor-agent':
-        if (result.healthScore < 50) {
-          // Generate emergency report
-          await this.queueTask('report-generator-agent', {
-            type: 'emergency',
-            projectId: result.projectId
-          }, 'high');
+  private createContext(agent: Agent, task: AgentTask): AgentContext & { outbox: Array<[MessageTopic, any]> } {
+    const outbox: Array<[MessageTopic, any]> = [];
+    return {
+      correlationId: task.correlationId,
+      outbox,
+      publish: (topic, payload) => {
+        if (!agent.emits?.includes(topic)) {
+          throw new Error(`Agent ${agent.name} does not declare that it emits ${topic}`);
         }
-        break;
+        outbox.push([topic, payload]);
+      }
+    };
+  }
+
+  private async publishOutbox(agent: Agent, task: AgentTask, outbox: Array<[MessageTopic, any]>) {
+    for (const [topic, payload] of outbox) {
+      await this.bus.publish(topic, payload, {
+        from: agent.name,
+        correlationId: task.correlationId,
+        causationId: task.id
+      });
     }
   }
 
   /**
-   * Start the orchestrator
+   * Subscriber side of the bus: queue a task for the consuming agent in the
+   * message's chain
    */
-  async start() {
-    if (this.running) {
-      console.log('[Orchestrator] Already running');
-      return;
-    }
+  private async queueFromMessage(agentName: string, subscription: MessageSubscription, message: { id: string; correlationId: string; payload: any }) {
+    const toTask = subscription.toTask as ((payload: any) => any) | undefined;
+    await this.queueTask(
+      agentName,
+      toTask ? toTask(message.payload) : message.payload,
+      subscription.priority || 'medium',
+      undefined,
+      { correlationId: message.correlationId, causedByMessage: message.id }
+    );
+  }
 
-    this.running = true;
-    console.log('[Orchestrator] Started');
+  /**
+   * Enqueue a run for every scheduled agent that is due. A run is due when
+   * the schedule fired since the agent was last enqueued; missed slots are
+   * caught up with a single run. The dedupe key (agent + slot) keeps
+   * overlapping cron invocations from double-queueing.
+   */
+  private async enqueueScheduledAgents(): Promise<string[]> {
+    const now = this.clock.now();
+    const queued: string[] = [];
+
+    for (const agent of this.agents.values()) {
+      const schedule = this.schedules.get(agent.name);
+      if (!schedule || !agent.enabled) continue;
+
+      const lastRun = await this.store.getLastScheduledRun(agent.name);
+      const slot = this.dueSlot(schedule, this.agentTimeZone(agent), now, lastRun);
+      agent.nextRun = nextCronRun(schedule, now, this.agentTimeZone(agent)) || undefined;
+      if (!slot) continue;
+
+      const dedupeKey = `${agent.name}:${slot.toISOString()}`;
+      const taskId = await this.store.enqueue(agent.name, { scheduled: true, slot: slot.toISOString() }, now, {
+        dedupeKey,
+        maxAttempts: this.retryPolicy(agent).maxRetries + 1
+      });
+      if (taskId) {
+        console.log(`[Orchestrator] Scheduled ${agent.name} for ${slot.toISOString()} (task ${taskId})`);
+        queued.push(agent.name);
+      }
+    }
 
-    // Start processing queue
-    this.processQueue();
-    
-    // Start scheduled tasks
-    this.startScheduler();
+    return queued;
   }
 
   /**
-   * Process task queue continuously
+   * The most recent slot the agent should have run for, if it hasn't yet.
+   * Without history only the last few minutes count, so a fresh deploy
+   * doesn't fire every agent at once.
    */
-  private async processQueue() {
-    while (this.running) {
-      const now = new Date();
-      
-      // Get next pending task that's ready to run
-      const nextTask = this.taskQueue.find(t => 
-        t.status === 'pending' && 
-        (!t.scheduledFor || t.scheduledFor <= now)
-      );
-
-      if (nextTask) {
-        await this.executeTask(nextTask);
-      }
+  private dueSlot(schedule: CronSchedule, timeZone: string, now: Date, lastRun?: Date): Date | null {
+    const earliest = new Date(now.getTime() - (lastRun ? MAX_CATCH_UP_MS : NEW_AGENT_WINDOW_MS));
+    const since = lastRun && lastRun > earliest ? lastRun : earliest;
+    return lastCronRun(schedule, since, now, timeZone);
+  }
 
-      // Wait before checking again
-      await new Promise(resolve => setTimeout(resolve, 5000)); // Check every 5 seconds
-    }
+  private agentTimeZone(agent: Agent): string {
+    return agent.timeZone || this.timeZone;
+  }
+
+  private agentTimeout(agent: Agent): number {
+    return agent.timeout ?? DEFAULT_TASK_TIMEOUT_MS;
+  }
+
+  private retryPolicy(agent: Agent): RetryPolicy {
+    return agent.retryPolicy || DEFAULT_RETRY_POLICY;
   }
 
   /**
-   * Start scheduler for periodic tasks
+   * Metrics are bookkeeping: a failure to record them never fails the task
    */
-  private startScheduler() {
-    // This would use cron or similar scheduling
-    // For now, simplified example
-    setInterval(() => {
-      const now = new Date();
-      
-      this.agents.forEach(agent => {
-        if (agent.schedule && agent.enabled) {
-          // Check if it's time to run based on schedule
-          // This is simplified - would use proper cron parsing
-          if (this.shouldRunNow(agent.schedule, agent.lastRun)) {
-            this.queueTask(agent.name, { scheduled: true }, 'medium');
-          }
-        }
-      });
-    }, 60000); // Check every minute
+  private async recordExecution(agentName: string, record: ExecutionRecord) {
+    try {
+      await this.stateStore.recordExecution(agentName, record, this.clock.now());
+    } catch (error) {
+      console.error(`[Orchestrator] Error recording metrics for ${agentName}:`, error);
+    }
   }
 
   /**
-   * Check if agent should run based on schedule
+   * Apply enabled flags saved from the admin page, once per instance
    */
-  private shouldRunNow(schedule: string, lastRun?: Date): boolean {
-    // Simplified - would use proper cron parsing library
-    const now = new Date();
-    if (!lastRun) return true;
-    
-    const hoursSinceLastRun = (now.getTime() - lastRun.getTime()) / (1000 * 60 * 60);
-    
-    // Parse schedule (simplified)
-    if (schedule.includes('*/1 * * *')) return hoursSinceLastRun >= 1;
-    if (schedule.includes('*/2 * * *')) return hoursSinceLastRun >= 2;
-    if (schedule.includes('0 8 * * 1')) return now.getDay() === 1 && now.getHours() === 8;
-    
-    return false;
+  private loadSettings(): Promise<void> {
+    if (!this.settingsLoaded) {
+      this.settingsLoaded = this.stateStore.getEnabledOverrides()
+        .then(overrides => {
+          overrides.forEach((enabled, name) => {
+            const agent = this.agents.get(name);
+            if (agent) this.applyEnabled(agent, enabled);
+          });
+        })
+        .catch(error => {
+          // Without the settings table agents keep their coded defaults
+          console.error('[Orchestrator] Error loading agent settings:', error);
+        });
+    }
+    return this.settingsLoaded;
+  }
+
+  private applyEnabled(agent: Agent, enabled: boolean) {
+    agent.enabled = enabled;
+    if (!enabled) {
+      agent.status = 'disabled';
+    } else if (agent.status === 'disabled') {
+      agent.status = 'idle';
+    }
   }
 
   /**
-   * Stop the orchestrator
+   * Enable or disable an agent for every worker; disabled agents aren't
+   * scheduled and their queued tasks are dead-lettered when claimed
    */
-  stop() {
-    this.running = false;
-    console.log('[Orchestrator] Stopped');
+  async setAgentEnabled(agentName: string, enabled: boolean): Promise<void> {
+    const agent = this.agents.get(agentName);
+    if (!agent) {
+      throw new Error(`Agent not found: ${agentName}`);
+    }
+
+    await this.loadSettings();
+    await this.stateStore.setEnabled(agentName, enabled, this.clock.now());
+    this.applyEnabled(agent, enabled);
+    console.log(`[Orchestrator] ${enabled ? 'Enabled' : 'Disabled'} agent: ${agentName}`);
   }
 
   /**
    * Get status of all agents
    */
-  getStatus() {
+  async getStatus() {
+    await this.loadSettings();
+    const counts = await this.store.getTaskCounts();
+    const countsByAgent = new Map(counts.map(c => [c.agentName, c]));
+    const metrics = await this.stateStore.getMetrics().catch(error => {
+      console.error('[Orchestrator] Error loading agent metrics:', error);
+      return new Map();
+    });
+
     const agents = Array.from(this.agents.values()).map(agent => ({
       name: agent.name,
       description: agent.description,
-      status: agent.status,
+      schedule: agent.schedule,
+      timeZone: agent.schedule ? this.agentTimeZone(agent) : undefined,
       enabled: agent.enabled,
-      lastRun: agent.lastRun,
-      nextRun: agent.nextRun
+      status: countsByAgent.get(agent.name)?.running ? 'running' : agent.status,
+      lastRun: countsByAgent.get(agent.name)?.lastRun,
+      nextRun: this.getNextRun(agent.name),
+      timeout: this.agentTimeout(agent),
+      emits: agent.emits || [],
+      consumes: (agent.consumes || []).map(subscription => subscription.topic),
+      retryPolicy: this.retryPolicy(agent),
+      queue: {
+        pending: countsByAgent.get(agent.name)?.pending || 0,
+        running: countsByAgent.get(agent.name)?.running || 0,
+        failed: countsByAgent.get(agent.name)?.failed || 0
+      },
+      metrics: metrics.get(agent.name) || emptyMetrics()
     }));
 
+    const total = (key: 'pending' | 'running' | 'completed' | 'failed') =>
+      counts.reduce((sum, c) => sum + c[key], 0);
+
     return {
-      running: this.running,
+      workerId: this.workerId,
       agents,
-      queueLength: this.taskQueue.length,
-      pendingTasks: this.taskQueue.filter(t => t.status === 'pending').length,
-      runningTasks: this.taskQueue.filter(t => t.status === 'running').length,
-      completedTasks: this.executionHistory.filter(t => t.status === 'completed').length,
-      failedTasks: this.executionHistory.filter(t => t.status === 'failed').length
+      queueLength: total('pending') + total('running'),
+      pendingTasks: total('pending'),
+      runningTasks: total('running'),
+      completedTasks: total('completed'),
+      failedTasks: total('failed')
     };
   }
 
+  /**
+   * Next time an agent's schedule fires, from the orchestrator's clock
+   */
+  getNextRun(agentName: string): Date | undefined {
+    const agent = this.agents.get(agentName);
+    const schedule = this.schedules.get(agentName);
+    if (!agent || !schedule || !agent.enabled) return undefined;
+
+    agent.nextRun = nextCronRun(schedule, this.clock.now(), this.agentTimeZone(agent)) || undefined;
+    return agent.nextRun;
+  }
+
   /**
    * Get task history
    */
-  getHistory(limit: number = 100) {
-    return this.executionHistory.slice(-limit);
+  async getHistory(limit: number = 100, agentName?: string) {
+    return this.store.getHistory(limit, agentName);
   }
 
-  // Agent Implementations (simplified examples)
+  /**
+   * Tasks that exhausted their retries, with the last error and stack
+   */
+  async getDeadLetters(limit: number = 100, agentName?: string) {
+    return this.store.getDeadLetters(limit, agentName);
+  }
 
-  private async dataSyncAgent(task: any) {
+  /**
+   * Requeue a dead-lettered task with a full set of attempts; null if the
+   * task isn't dead-lettered
+   */
+  async replayTask(taskId: string): Promise<AgentTask | null> {
+    const task = await this.store.replay(taskId, this.clock.now());
+    if (task) {
+      const agent = this.agents.get(task.agentName);
+      if (agent?.status === 'failed') agent.status = 'idle';
+      console.log(`[Orchestrator] Replaying task ${taskId} for ${task.agentName} (replay ${task.replayCount})`);
+    }
+    return task;
+  }
+
+  /**
+   * Every task and message in a chain, oldest first
+   */
+  async getTrace(correlationId: string) {
+    const [tasks, messages] = await Promise.all([
+      this.store.getByCorrelation(correlationId),
+      this.messageLog.getByCorrelation(correlationId)
+    ]);
+    return { correlationId, tasks, messages };
+  }
+
+  // Agent Implementations
+
+  /**
+   * Announce meetings ingested (and chunked) since the last run, so the
+   * meeting intelligence agent analyses them
+   */
+  private async dataSyncAgent(task: any, context: AgentContext) {
     console.log('[DataSyncAgent] Starting sync...');
-    
-    // Check for new meetings from Fireflies
-    // Sync to R2
-    // Update D1
-    
-    return {
-      newMeetings: 3,
-      meetingIds: ['meeting-1', 'meeting-2', 'meeting-3'],
-      syncedAt: new Date()
+
+    const meetingIds = await new MeetingTranscriptStore(this.db).takeNewlyIngested(MAX_SYNCED_MEETINGS);
+    const result = {
+      newMeetings: meetingIds.length,
+      meetingIds,
+      syncedAt: this.clock.now()
     };
+
+    if (result.newMeetings > 0) {
+      context.publish('meetings.synced', { meetingIds: result.meetingIds, newMeetings: result.newMeetings });
+    }
+
+    return result;
   }
 
-  private async projectMonitorAgent(task: any) {
+  /**
+   * Score every monitored project (or just `task.data.projectId`) and keep
+   * the scores in the health history
+   */
+  private async projectMonitorAgent(task: any, context: AgentContext) {
     console.log('[ProjectMonitorAgent] Monitoring projects...');
-    
-    // Analyze project health
-    // Check for risks
-    // Calculate metrics
-    
-    return {
-      projectId: 'project-1',
-      healthScore: 75,
-      risks: [],
-      metrics: {
-        velocity: 8,
-        burnRate: 1.2,
-        timeline: 'on-track'
+
+    const store = new ProjectHealthStore(this.db);
+    const projectId: string | undefined = task.data?.projectId;
+    const projectIds = projectId ? [projectId] : await store.listMonitoredProjectIds();
+    const now = this.clock.now();
+    const projects = [];
+
+    for (const id of projectIds) {
+      const assessment = await store.assess(id, now);
+      if (!assessment) {
+        if (projectId) throw new Error(`Project ${projectId} not found`);
+        continue;
       }
+
+      projects.push({
+        projectId: id,
+        healthScore: assessment.score,
+        previousScore: assessment.previousScore,
+        explanation: assessment.explanation
+      });
+
+      // Only when a project drops below the threshold, not on every run it stays there
+      const wasLow = assessment.previousScore !== undefined && assessment.previousScore < LOW_HEALTH_THRESHOLD;
+      if (assessment.score < LOW_HEALTH_THRESHOLD && !wasLow) {
+        context.publish('project.health-low', { projectId: id, healthScore: assessment.score });
+      }
+    }
+
+    return {
+      projects,
+      lowHealth: projects.filter(p => p.healthScore < LOW_HEALTH_THRESHOLD).map(p => p.projectId)
     };
   }
 
-  private async notificationAgent(task: any) {
-    console.log('[NotificationAgent] Sending notification...', task.data);
-    
-    // Send to appropriate channels
-    // Log notification
-    
+  /**
+   * Route critical risks to the project's PM, send a notification given
+   * explicit recipients, or (on schedule) deliver what quiet hours held back
+   */
+  private async notificationAgent(task: AgentTask) {
+    const dispatcher = new NotificationDispatcher(this.db, this.notificationChannels, { defaultTimeZone: this.timeZone });
+    const now = this.clock.now();
+    const data = task.data || {};
+    let deliveries;
+
+    if (data.type === 'critical-risk') {
+      console.log(`[NotificationAgent] Routing ${data.data?.length || 0} critical risks`);
+      deliveries = await dispatcher.notifyCriticalRisks({
+        meetingId: data.meetingId,
+        projectId: data.projectId,
+        risks: data.data || [],
+        correlationId: task.correlationId
+      }, now);
+    } else if (Array.isArray(data.recipientIds) && data.notification) {
+      deliveries = await dispatcher.notifyEmployees(data.recipientIds, { ...data.notification, correlationId: task.correlationId }, now);
+    } else {
+      deliveries = await dispatcher.deliverDeferred(now);
+    }
+
+    const count = (status: string) => deliveries.filter(d => d.status === status).length;
     return {
-      sent: true,
-      channels: ['email', 'slack'],
-      timestamp: new Date()
+      notifications: new Set(deliveries.map(d => d.notificationId)).size,
+      sent: count('sent'),
+      deferred: count('deferred'),
+      skipped: count('skipped'),
+      failed: count('failed'),
+      channels: Array.from(new Set(deliveries.filter(d => d.status === 'sent').map(d => d.channel)))
     };
   }
 
-  private async reportGeneratorAgent(task: any) {
-    console.log('[ReportGeneratorAgent] Generating report...');
-    
-    // Gather data
-    // Generate report
-    // Store/send report
-    
+  /**
+   * Write a report to R2: an emergency or weekly digest for
+   * `task.data.projectId`, the leadership report for `type: 'leadership'`,
+   * or (on schedule) a weekly digest per monitored project plus the
+   * leadership report
+   */
+  private async reportGeneratorAgent(task: AgentTask) {
+    if (!this.reportBucket) {
+      throw new Error('No report bucket configured');
+    }
+
+    const generator = new ReportGenerator(this.db, this.reportBucket);
+    const now = this.clock.now();
+    const data = task.data || {};
+    const reports = [];
+
+    if (data.projectId) {
+      const kind = data.type === 'emergency' ? 'emergency' : 'weekly';
+      console.log(`[ReportGeneratorAgent] Generating ${kind} report for ${data.projectId}`);
+      const report = await generator.generateProjectReport(data.projectId, kind, now, task.correlationId);
+      if (!report) throw new Error(`Project ${data.projectId} not found`);
+      reports.push(report);
+    } else {
+      if (data.type !== 'leadership') {
+        const projectIds = await new ProjectHealthStore(this.db).listMonitoredProjectIds();
+        console.log(`[ReportGeneratorAgent] Generating weekly reports for ${projectIds.length} projects`);
+        for (const projectId of projectIds) {
+          const report = await generator.generateProjectReport(projectId, 'weekly', now, task.correlationId);
+          if (report) reports.push(report);
+        }
+      }
+      reports.push(await generator.generateLeadershipReport(now, task.correlationId));
+    }
+
     return {
-      reportId: 'report-' + Date.now(),
-      type: task.data?.type || 'weekly',
-      generated: true
+      reports: reports.map(report => ({
+        reportId: report.id,
+        kind: report.kind,
+        projectId: report.projectId,
+        summary: report.summary
+      }))
     };
   }
 }
-
-// Singleton instance
-export const orchestrator = new AgentOrchestrator();
\ No newline at end of file
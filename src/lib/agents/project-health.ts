@@ -0,0 +1,436 @@
+/**
+ * Project Health
+ *
+ * Scores a project 0-100 from what D1 knows about it: open and overdue
+ * tasks, spend against budget, time to estimated completion, how recently
+ * the team met, and the sentiment and risks in recent meeting insights.
+ * Each factor is scored on its own and weighted; factors without data are
+ * left out and the remaining weights rescaled. Every score is kept in
+ * project_health_history together with its factors, so a run can explain
+ * which factors moved the score since the one before.
+ */
+
+import { fromSqlTimestamp, toSqlTimestamp } from './task-store';
+import { MeetingInsightsStore } from './insights-store';
+
+export const LOW_HEALTH_THRESHOLD = 50;
+
+// Meetings, sentiment and risks older than this don't count
+const RECENT_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type HealthFactorKey = 'tasks' | 'budget' | 'schedule' | 'meetings' | 'sentiment' | 'risks';
+
+const FACTOR_WEIGHTS: Record<HealthFactorKey, { label: string; weight: number }> = {
+  tasks: { label: 'Tasks', weight: 0.25 },
+  budget: { label: 'Budget', weight: 0.25 },
+  schedule: { label: 'Schedule', weight: 0.2 },
+  meetings: { label: 'Meeting cadence', weight: 0.1 },
+  sentiment: { label: 'Sentiment', weight: 0.1 },
+  risks: { label: 'Critical risks', weight: 0.1 },
+};
+
+export interface ProjectHealthSignals {
+  projectId: string;
+  openTasks: number;
+  overdueTasks: number;
+  blockedTasks: number;
+  budget?: number;
+  actualCost?: number;
+  startDate?: Date;
+  estimatedCompletion?: Date;
+  actualCompletion?: Date;
+  lastMeetingDate?: Date;
+  recentMeetings: number; // Analysed meetings in the last RECENT_DAYS
+  negativeMeetings: number;
+  criticalRisks: number;
+  highRisks: number;
+}
+
+export interface HealthFactor {
+  key: HealthFactorKey;
+  label: string;
+  score: number; // 0-100 for this factor alone
+  weight: number; // Share of the overall score, after rescaling
+  detail: string;
+}
+
+export interface FactorChange {
+  key: HealthFactorKey;
+  label: string;
+  delta: number; // Points of the overall score gained or lost since the previous run
+  detail: string;
+}
+
+export interface ProjectHealthAssessment {
+  projectId: string;
+  score: number;
+  previousScore?: number;
+  factors: HealthFactor[];
+  changes: FactorChange[];
+  explanation: string;
+  computedAt: Date;
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.floor((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+function parseDate(value: unknown): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(`${String(value).substring(0, 10)}T00:00:00Z`);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function scoreTasks(s: ProjectHealthSignals): Omit<HealthFactor, 'key' | 'label' | 'weight'> {
+  if (s.openTasks === 0) {
+    return { score: 100, detail: 'No open tasks' };
+  }
+  const overdueShare = s.overdueTasks / s.openTasks;
+  const blocked = s.blockedTasks > 0 ? `, ${s.blockedTasks} blocked` : '';
+  return {
+    score: clamp(100 - overdueShare * 120 - s.blockedTasks * 5),
+    detail: `${s.overdueTasks} of ${plural(s.openTasks, 'open task')} overdue${blocked}`,
+  };
+}
+
+function scheduleProgress(s: ProjectHealthSignals, now: Date): number | undefined {
+  if (!s.startDate || !s.estimatedCompletion) return undefined;
+  const total = s.estimatedCompletion.getTime() - s.startDate.getTime();
+  if (total <= 0) return undefined;
+  return Math.max(0, Math.min(1, (now.getTime() - s.startDate.getTime()) / total));
+}
+
+function scoreBudget(s: ProjectHealthSignals, now: Date): Omit<HealthFactor, 'key' | 'label' | 'weight'> | null {
+  if (!s.budget || s.budget <= 0 || s.actualCost == null) return null;
+
+  const spent = s.actualCost / s.budget;
+  const spentPct = Math.round(spent * 100);
+  if (spent > 1) {
+    return { score: clamp(70 - (spent - 1) * 280), detail: `${spentPct}% of budget spent` };
+  }
+
+  // Spending well ahead of the schedule is an early warning of an overrun
+  const progress = scheduleProgress(s, now);
+  if (progress !== undefined && spent > progress + 0.1) {
+    return {
+      score: clamp(100 - (spent - progress - 0.1) * 150),
+      detail: `${spentPct}% of budget spent at ${Math.round(progress * 100)}% of schedule`,
+    };
+  }
+
+  return { score: 100, detail: `${spentPct}% of budget spent` };
+}
+
+function scoreSchedule(s: ProjectHealthSignals, now: Date): Omit<HealthFactor, 'key' | 'label' | 'weight'> | null {
+  if (s.actualCompletion) {
+    return { score: 100, detail: 'Completed' };
+  }
+  if (!s.estimatedCompletion) return null;
+
+  const daysLeft = daysBetween(now, s.estimatedCompletion);
+  if (daysLeft < 0) {
+    return { score: clamp(60 - 2 * -daysLeft), detail: `${plural(-daysLeft, 'day')} past estimated completion` };
+  }
+  if (daysLeft <= 14 && s.openTasks > 0) {
+    return {
+      score: Math.max(50, clamp(100 - 4 * s.openTasks)),
+      detail: `${plural(daysLeft, 'day')} to estimated completion with ${plural(s.openTasks, 'open task')}`,
+    };
+  }
+  return { score: 100, detail: `${plural(daysLeft, 'day')} to estimated completion` };
+}
+
+function scoreMeetings(s: ProjectHealthSignals, now: Date): Omit<HealthFactor, 'key' | 'label' | 'weight'> {
+  if (!s.lastMeetingDate) {
+    return { score: 40, detail: 'No meetings recorded' };
+  }
+  const days = Math.max(0, daysBetween(s.lastMeetingDate, now));
+  return {
+    score: days <= 14 ? 100 : Math.max(20, clamp(100 - (days - 14) * 80 / 31)),
+    detail: `Last meeting ${plural(days, 'day')} ago`,
+  };
+}
+
+function scoreSentiment(s: ProjectHealthSignals): Omit<HealthFactor, 'key' | 'label' | 'weight'> | null {
+  if (s.recentMeetings === 0) return null;
+  return {
+    score: clamp(100 - (s.negativeMeetings / s.recentMeetings) * 100),
+    detail: `${s.negativeMeetings} of ${plural(s.recentMeetings, 'recent meeting')} negative`,
+  };
+}
+
+function scoreRisks(s: ProjectHealthSignals): Omit<HealthFactor, 'key' | 'label' | 'weight'> | null {
+  if (s.recentMeetings === 0) return null;
+  return {
+    score: clamp(100 - 30 * s.criticalRisks - 8 * s.highRisks),
+    detail: `${s.criticalRisks} critical and ${s.highRisks} high risks raised in recent meetings`,
+  };
+}
+
+/**
+ * Overall score and the weighted factors behind it
+ */
+export function scoreProjectHealth(signals: ProjectHealthSignals, now: Date): { score: number; factors: HealthFactor[] } {
+  const scored: Record<HealthFactorKey, Omit<HealthFactor, 'key' | 'label' | 'weight'> | null> = {
+    tasks: scoreTasks(signals),
+    budget: scoreBudget(signals, now),
+    schedule: scoreSchedule(signals, now),
+    meetings: scoreMeetings(signals, now),
+    sentiment: scoreSentiment(signals),
+    risks: scoreRisks(signals),
+  };
+
+  const available = (Object.keys(scored) as HealthFactorKey[]).filter(key => scored[key]);
+  const totalWeight = available.reduce((sum, key) => sum + FACTOR_WEIGHTS[key].weight, 0);
+
+  const factors = available.map(key => ({
+    key,
+    label: FACTOR_WEIGHTS[key].label,
+    weight: FACTOR_WEIGHTS[key].weight / totalWeight,
+    ...scored[key]!,
+  }));
+
+  return {
+    score: clamp(factors.reduce((sum, factor) => sum + factor.score * factor.weight, 0)),
+    factors,
+  };
+}
+
+/**
+ * Which factors moved the score since the previous assessment, largest
+ * first, and a sentence saying so. Without a previous assessment the
+ * explanation names the factors holding the score down instead.
+ */
+export function explainHealth(
+  score: number,
+  factors: HealthFactor[],
+  previous?: { score: number; factors: HealthFactor[] }
+): { changes: FactorChange[]; explanation: string } {
+  if (!previous) {
+    const weakest = factors
+      .filter(factor => factor.score < 80)
+      .sort((a, b) => b.weight * (100 - b.score) - a.weight * (100 - a.score));
+    const heldBack = weakest.length > 0
+      ? `held back by ${weakest.map(f => `${f.label.toLowerCase()} (${f.detail})`).join(', ')}`
+      : 'no factor below 80';
+    return { changes: [], explanation: `Baseline score ${score}; ${heldBack}` };
+  }
+
+  const contribution = (list: HealthFactor[], key: HealthFactorKey) => {
+    const factor = list.find(f => f.key === key);
+    return factor ? factor.score * factor.weight : 0;
+  };
+
+  const keys = Array.from(new Set([...factors, ...previous.factors].map(f => f.key)));
+  const changes = keys
+    .map(key => {
+      const factor = factors.find(f => f.key === key) || previous.factors.find(f => f.key === key)!;
+      return {
+        key,
+        label: factor.label,
+        delta: Math.round(contribution(factors, key) - contribution(previous.factors, key)),
+        detail: factors.some(f => f.key === key) ? factor.detail : 'No longer measured',
+      };
+    })
+    .filter(change => change.delta !== 0)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+  const diff = score - previous.score;
+  const headline = diff === 0
+    ? `Score unchanged at ${score}`
+    : `Score ${diff > 0 ? 'up' : 'down'} ${Math.abs(diff)} from ${previous.score} to ${score}`;
+  const moved = changes.length > 0
+    ? changes.map(c => `${c.label.toLowerCase()} ${c.delta > 0 ? '+' : ''}${c.delta} (${c.detail})`).join(', ')
+    : 'no factor moved by a full point';
+
+  return { changes, explanation: `${headline}; ${moved}` };
+}
+
+function parseJsonArray(value: unknown): any[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(String(value));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Error parsing project health column:', error);
+    return [];
+  }
+}
+
+function toAssessment(row: Record<string, unknown>): ProjectHealthAssessment {
+  return {
+    projectId: String(row.project_id),
+    score: Number(row.health_score),
+    previousScore: row.previous_score == null ? undefined : Number(row.previous_score),
+    factors: parseJsonArray(row.factors),
+    changes: parseJsonArray(row.changes),
+    explanation: (row.explanation as string) || '',
+    computedAt: fromSqlTimestamp(row.computed_at)!,
+  };
+}
+
+export class ProjectHealthStore {
+  constructor(private db: D1Database) {}
+
+  /**
+   * Projects the monitor scores on each run
+   */
+  async listMonitoredProjectIds(): Promise<string[]> {
+    const { results } = await this.db.prepare(`
+      SELECT id FROM projects
+      WHERE status IN ('planning', 'active', 'on-hold')
+      ORDER BY id
+    `).all();
+    return results.map(row => String(row.id));
+  }
+
+  async loadSignals(projectId: string, now: Date): Promise<ProjectHealthSignals | null> {
+    const project = await this.db.prepare(`
+      SELECT p.budget, p.actual_cost, p.start_date, p.estimated_completion, p.actual_completion,
+             MAX(COALESCE(p.last_meeting_date, ''), COALESCE((SELECT MAX(date) FROM meetings WHERE project_id = p.id), '')) as last_meeting
+      FROM projects p
+      WHERE p.id = ?
+    `).bind(projectId).first();
+
+    if (!project) return null;
+
+    const tasks = await this.db.prepare(`
+      SELECT
+        COUNT(*) as open_tasks,
+        SUM(CASE WHEN due_date IS NOT NULL AND date(due_date) < date(?) THEN 1 ELSE 0 END) as overdue_tasks,
+        SUM(CASE WHEN status = 'blocked' THEN 1 ELSE 0 END) as blocked_tasks
+      FROM tasks
+      WHERE project_id = ? AND (status IS NULL OR status != 'completed')
+    `).bind(toDateString(now), projectId).first();
+
+    const { insights } = await new MeetingInsightsStore(this.db).listForProject(projectId, {
+      limit: 100,
+      offset: 0,
+      dateFrom: toDateString(new Date(now.getTime() - RECENT_DAYS * DAY_MS)),
+    });
+    const risks = insights.flatMap(insight => insight.risks);
+
+    return {
+      projectId,
+      openTasks: Number(tasks?.open_tasks || 0),
+      overdueTasks: Number(tasks?.overdue_tasks || 0),
+      blockedTasks: Number(tasks?.blocked_tasks || 0),
+      budget: project.budget == null ? undefined : Number(project.budget),
+      actualCost: project.actual_cost == null ? undefined : Number(project.actual_cost),
+      startDate: parseDate(project.start_date),
+      estimatedCompletion: parseDate(project.estimated_completion),
+      actualCompletion: parseDate(project.actual_completion),
+      lastMeetingDate: parseDate(project.last_meeting),
+      recentMeetings: insights.length,
+      negativeMeetings: insights.filter(insight => insight.sentiment === 'negative').length,
+      criticalRisks: risks.filter(risk => risk.severity === 'critical').length,
+      highRisks: risks.filter(risk => risk.severity === 'high').length,
+    };
+  }
+
+  /**
+   * Score a project, explain the change from its last score and keep both
+   * in the history. Returns null for an unknown project.
+   */
+  async assess(projectId: string, now: Date): Promise<ProjectHealthAssessment | null> {
+    const signals = await this.loadSignals(projectId, now);
+    if (!signals) return null;
+
+    const { score, factors } = scoreProjectHealth(signals, now);
+    const previous = await this.getLatest(projectId);
+    const { changes, explanation } = explainHealth(score, factors, previous || undefined);
+
+    const assessment: ProjectHealthAssessment = {
+      projectId,
+      score,
+      previousScore: previous?.score,
+      factors,
+      changes,
+      explanation,
+      computedAt: now,
+    };
+    await this.record(assessment);
+    return assessment;
+  }
+
+  async record(assessment: ProjectHealthAssessment): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO project_health_history (
+        id, project_id, health_score, previous_score, factors, changes, explanation, computed_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      crypto.randomUUID(),
+      assessment.projectId,
+      assessment.score,
+      assessment.previousScore ?? null,
+      JSON.stringify(assessment.factors),
+      JSON.stringify(assessment.changes),
+      assessment.explanation,
+      toSqlTimestamp(assessment.computedAt)
+    ).run();
+  }
+
+  async getLatest(projectId: string): Promise<ProjectHealthAssessment | null> {
+    const row = await this.db.prepare(`
+      SELECT * FROM project_health_history
+      WHERE project_id = ?
+      ORDER BY computed_at DESC
+      LIMIT 1
+    `).bind(projectId).first();
+    return row ? toAssessment(row) : null;
+  }
+
+  /**
+   * Each project's most recent score, lowest first
+   */
+  async listLatest(limit = 50): Promise<Array<ProjectHealthAssessment & { projectTitle?: string }>> {
+    const { results } = await this.db.prepare(`
+      SELECT h.*, p.title as project_title
+      FROM (
+        SELECT *, ROW_NUMBER() OVER (PARTITION BY project_id ORDER BY computed_at DESC) as score_rank
+        FROM project_health_history
+      ) h
+      LEFT JOIN projects p ON p.id = h.project_id
+      WHERE h.score_rank = 1
+      ORDER BY h.health_score ASC
+      LIMIT ?
+    `).bind(limit).all();
+
+    return results.map(row => ({ ...toAssessment(row), projectTitle: (row.project_title as string) || undefined }));
+  }
+
+  /**
+   * The most recent `limit` scores, oldest first for charting
+   */
+  async getHistory(projectId: string, limit = 60, since?: Date): Promise<ProjectHealthAssessment[]> {
+    let where = 'WHERE project_id = ?';
+    const params: (string | number)[] = [projectId];
+    if (since) {
+      where += ' AND computed_at >= ?';
+      params.push(toSqlTimestamp(since));
+    }
+
+    const { results } = await this.db.prepare(`
+      SELECT * FROM project_health_history
+      ${where}
+      ORDER BY computed_at DESC
+      LIMIT ?
+    `).bind(...params, limit).all();
+
+    return results.map(toAssessment).reverse();
+  }
+}
@@ -0,0 +1,481 @@
+/**
+ * Report Generator
+ *
+ * Builds project digests (weekly, or emergency when a project's health drops
+ * below the threshold) and the portfolio leadership report from D1: the
+ * leadership dashboard metrics, health scores, overdue tasks and the
+ * decisions and risks in recent meeting insights. Each report is rendered to
+ * Markdown, HTML and PDF, written to R2 under reports/ and indexed in the
+ * reports table for listing and download.
+ */
+
+import { fromSqlTimestamp, toSqlTimestamp } from './task-store';
+import { MeetingInsightsStore, type StoredMeetingInsights } from './insights-store';
+import { ProjectHealthStore } from './project-health';
+import { renderHtml, renderMarkdown, renderPdf, type ReportDocument, type ReportSection } from './report-renderers';
+import { getPortfolioMetrics, getProjectsNeedingAttention, getRecentActivity, type ActivityItem } from '@/lib/services/leadership-metrics';
+
+export type ReportKind = 'weekly' | 'emergency' | 'leadership';
+export type ReportFormat = 'md' | 'html' | 'pdf';
+
+export const REPORT_FORMATS: ReportFormat[] = ['md', 'html', 'pdf'];
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+export interface StoredReport {
+  id: string;
+  kind: ReportKind;
+  projectId?: string;
+  projectTitle?: string;
+  title: string;
+  summary: string;
+  periodStart: string;
+  periodEnd: string;
+  r2Keys: Partial<Record<ReportFormat, string>>;
+  correlationId?: string;
+  generatedAt: Date;
+}
+
+export interface ReportQuery {
+  kind?: ReportKind;
+  projectId?: string;
+  limit: number;
+  offset: number;
+}
+
+// Days each kind of report looks back over
+const PERIOD_DAYS: Record<ReportKind, number> = {
+  weekly: 7,
+  emergency: 14,
+  leadership: 7,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SEVERITY_ORDER = ['critical', 'high', 'medium', 'low'];
+
+function toDateString(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+function formatMoney(value: unknown): string {
+  return value == null ? 'n/a' : `$${Math.round(Number(value)).toLocaleString('en-US')}`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function parseKeys(value: unknown): Partial<Record<ReportFormat, string>> {
+  if (!value) return {};
+  try {
+    return JSON.parse(String(value));
+  } catch (error) {
+    console.error('Error parsing report keys:', error);
+    return {};
+  }
+}
+
+function toReport(row: Record<string, unknown>): StoredReport {
+  return {
+    id: String(row.id),
+    kind: row.kind as ReportKind,
+    projectId: (row.project_id as string) || undefined,
+    projectTitle: (row.project_title as string) || undefined,
+    title: String(row.title),
+    summary: (row.summary as string) || '',
+    periodStart: String(row.period_start),
+    periodEnd: String(row.period_end),
+    r2Keys: parseKeys(row.r2_keys),
+    correlationId: (row.correlation_id as string) || undefined,
+    generatedAt: fromSqlTimestamp(row.generated_at)!,
+  };
+}
+
+function activityBullets(activity: ActivityItem[], withProject = false): string[] {
+  return activity.map(item => {
+    const what = item.activity_type === 'meeting' ? 'Meeting' : 'Task completed';
+    const project = withProject && item.project_id ? ` [${item.project_id}]` : '';
+    return `${String(item.activity_date).substring(0, 10)}: ${what}: ${item.title}${project}`;
+  });
+}
+
+function meetingLabel(insight: StoredMeetingInsights): string {
+  const date = insight.meetingDate ? ` (${insight.meetingDate.substring(0, 10)})` : '';
+  return `${insight.meetingTitle || insight.meetingId}${date}`;
+}
+
+function decisionBullets(insights: StoredMeetingInsights[], impacts: string[], limit: number): string[] {
+  return insights
+    .flatMap(insight => insight.decisions
+      .filter(decision => impacts.includes(decision.impact))
+      .map(decision => `${decision.description} (${decision.impact} impact; ${meetingLabel(insight)})`))
+    .slice(0, limit);
+}
+
+function riskRows(insights: StoredMeetingInsights[], severities: string[], limit: number): string[][] {
+  return insights
+    .flatMap(insight => insight.risks
+      .filter(risk => severities.includes(risk.severity))
+      .map(risk => ({ risk, insight })))
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.risk.severity) - SEVERITY_ORDER.indexOf(b.risk.severity))
+    .slice(0, limit)
+    .map(({ risk, insight }) => [
+      risk.severity,
+      risk.description,
+      risk.owner || '',
+      risk.mitigation || '',
+      meetingLabel(insight),
+    ]);
+}
+
+export class ReportStore {
+  constructor(private db: D1Database) {}
+
+  async record(report: StoredReport): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO reports (
+        id, kind, project_id, title, summary, period_start, period_end,
+        r2_keys, correlation_id, generated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      report.id,
+      report.kind,
+      report.projectId || null,
+      report.title,
+      report.summary,
+      report.periodStart,
+      report.periodEnd,
+      JSON.stringify(report.r2Keys),
+      report.correlationId || null,
+      toSqlTimestamp(report.generatedAt)
+    ).run();
+  }
+
+  async get(id: string): Promise<StoredReport | null> {
+    const row = await this.db.prepare(`
+      SELECT r.*, p.title as project_title
+      FROM reports r
+      LEFT JOIN projects p ON p.id = r.project_id
+      WHERE r.id = ?
+    `).bind(id).first();
+
+    return row ? toReport(row) : null;
+  }
+
+  /**
+   * Reports newest first, optionally of one kind or for one project
+   */
+  async list(query: ReportQuery): Promise<{ reports: StoredReport[]; total: number }> {
+    let where = 'WHERE 1 = 1';
+    const params: string[] = [];
+
+    if (query.kind) {
+      where += ' AND r.kind = ?';
+      params.push(query.kind);
+    }
+    if (query.projectId) {
+      where += ' AND r.project_id = ?';
+      params.push(query.projectId);
+    }
+
+    const count = await this.db.prepare(`SELECT COUNT(*) as total FROM reports r ${where}`)
+      .bind(...params).first();
+
+    const { results } = await this.db.prepare(`
+      SELECT r.*, p.title as project_title
+      FROM reports r
+      LEFT JOIN projects p ON p.id = r.project_id
+      ${where}
+      ORDER BY r.generated_at DESC
+      LIMIT ? OFFSET ?
+    `).bind(...params, query.limit, query.offset).all();
+
+    return {
+      reports: results.map(toReport),
+      total: Number(count?.total || 0),
+    };
+  }
+}
+
+export class ReportGenerator {
+  private store: ReportStore;
+  private health: ProjectHealthStore;
+  private insights: MeetingInsightsStore;
+
+  constructor(private db: D1Database, private bucket: R2Bucket) {
+    this.store = new ReportStore(db);
+    this.health = new ProjectHealthStore(db);
+    this.insights = new MeetingInsightsStore(db);
+  }
+
+  /**
+   * Weekly or emergency digest for one project. Returns null for an unknown
+   * project.
+   */
+  async generateProjectReport(
+    projectId: string,
+    kind: 'weekly' | 'emergency',
+    now: Date,
+    correlationId?: string
+  ): Promise<StoredReport | null> {
+    const project = await this.db.prepare(`
+      SELECT p.*, c.company_name as client_name,
+             e.first_name || ' ' || e.last_name as manager_name
+      FROM projects p
+      LEFT JOIN clients c ON c.id = p.client_id
+      LEFT JOIN employees e ON e.id = p.project_manager_id
+      WHERE p.id = ?
+    `).bind(projectId).first();
+
+    if (!project) return null;
+
+    const periodStart = new Date(now.getTime() - PERIOD_DAYS[kind] * DAY_MS);
+    const latest = await this.health.getLatest(projectId);
+    const history = await this.health.getHistory(projectId, 60, periodStart);
+    const activity = await getRecentActivity(this.db, { asOf: now, days: PERIOD_DAYS[kind], limit: 20, projectId });
+    const { insights } = await this.insights.listForProject(projectId, {
+      limit: 50,
+      offset: 0,
+      dateFrom: toDateString(periodStart),
+    });
+
+    const { results: overdue } = await this.db.prepare(`
+      SELECT t.title, t.due_date, t.priority, t.status,
+             e.first_name || ' ' || e.last_name as assignee
+      FROM tasks t
+      LEFT JOIN employees e ON e.id = t.assigned_to
+      WHERE t.project_id = ? AND (t.status IS NULL OR t.status != 'completed')
+        AND t.due_date IS NOT NULL AND date(t.due_date) < date(?)
+      ORDER BY t.due_date ASC
+      LIMIT 20
+    `).bind(projectId, toDateString(now)).all();
+
+    const risks = riskRows(insights, SEVERITY_ORDER, 20);
+    const criticalRisks = risks.filter(row => row[0] === 'critical').length;
+
+    const overview = [
+      `Status: ${project.status || 'unknown'}; priority: ${project.priority || 'unset'}`,
+      `Client: ${project.client_name || 'n/a'}; project manager: ${project.manager_name || 'unassigned'}`,
+      `Budget: ${formatMoney(project.budget)}; spent: ${formatMoney(project.actual_cost)}; estimated completion: ${project.estimated_completion || 'n/a'}`,
+    ];
+
+    const healthSection: ReportSection = { heading: 'Health', empty: 'Not scored yet.' };
+    if (latest) {
+      healthSection.paragraphs = [`Score ${latest.score}/100. ${latest.explanation}.`];
+      if (history.length > 1) {
+        healthSection.paragraphs.push(
+          `Over the period: ${history.map(point => point.score).join(' → ')}`
+        );
+      }
+      healthSection.table = {
+        columns: ['Factor', 'Score', 'Weight', 'Detail'],
+        rows: latest.factors.map(factor => [
+          factor.label,
+          String(factor.score),
+          `${Math.round(factor.weight * 100)}%`,
+          factor.detail,
+        ]),
+      };
+    }
+
+    const summary = [
+      latest ? `Health ${latest.score}` : 'Not scored',
+      plural(overdue.length, 'overdue task'),
+      plural(criticalRisks, 'critical risk'),
+      plural(insights.length, 'meeting'),
+    ].join('; ');
+
+    const title = kind === 'emergency'
+      ? `Emergency report: ${project.title}`
+      : `Weekly digest: ${project.title}`;
+
+    const sections: ReportSection[] = [
+      { heading: 'Overview', bullets: overview },
+      healthSection,
+      {
+        heading: 'Overdue tasks',
+        table: {
+          columns: ['Task', 'Due', 'Priority', 'Status', 'Assignee'],
+          rows: overdue.map(task => [
+            String(task.title),
+            String(task.due_date),
+            String(task.priority || ''),
+            String(task.status || ''),
+            String(task.assignee || ''),
+          ]),
+        },
+        empty: 'No overdue tasks.',
+      },
+      { heading: 'Recent activity', bullets: activityBullets(activity), empty: 'No meetings or completed tasks in the period.' },
+      { heading: 'Decisions', bullets: decisionBullets(insights, ['high', 'medium', 'low'], 20), empty: 'No decisions recorded.' },
+      {
+        heading: 'Risks',
+        table: { columns: ['Severity', 'Risk', 'Owner', 'Mitigation', 'Meeting'], rows: risks },
+        empty: 'No risks raised in the period.',
+      },
+    ];
+
+    if (kind === 'emergency') {
+      sections.unshift({
+        heading: 'Why this report',
+        paragraphs: [
+          `Project health dropped below the alert threshold${latest ? ` to ${latest.score}` : ''}. ` +
+          'This report covers the last two weeks so the cause can be traced.',
+        ],
+      });
+    }
+
+    return await this.publish({
+      kind,
+      projectId,
+      title,
+      summary,
+      document: { title, subtitle: this.period(periodStart, now), generatedAt: now, sections },
+      periodStart,
+      now,
+      correlationId,
+    });
+  }
+
+  /**
+   * Portfolio report for leadership: the dashboard metrics, projects that
+   * need attention, lowest health scores and the week's key decisions and
+   * serious risks across all projects
+   */
+  async generateLeadershipReport(now: Date, correlationId?: string): Promise<StoredReport> {
+    const periodStart = new Date(now.getTime() - PERIOD_DAYS.leadership * DAY_MS);
+    const metrics = await getPortfolioMetrics(this.db);
+    const attention = await getProjectsNeedingAttention(this.db, { asOf: now, limit: 15 });
+    const activity = await getRecentActivity(this.db, { asOf: now, days: PERIOD_DAYS.leadership, limit: 20 });
+    const scores = await this.health.listLatest(10);
+    const insights = await this.insights.listRecent(toDateString(periodStart));
+
+    const risks = riskRows(insights, ['critical', 'high'], 25);
+    const criticalRisks = risks.filter(row => row[0] === 'critical').length;
+
+    const summary = [
+      plural(metrics.active_projects, 'active project'),
+      `${plural(attention.length, 'project')} needing attention`,
+      plural(criticalRisks, 'critical risk'),
+    ].join('; ');
+
+    const sections: ReportSection[] = [
+      {
+        heading: 'Portfolio',
+        table: {
+          columns: ['Metric', 'Value'],
+          rows: [
+            ['Active projects', String(metrics.active_projects)],
+            ['Completed projects', String(metrics.completed_projects)],
+            ['Active pipeline value', formatMoney(metrics.active_project_value)],
+            ['Critical priority projects', String(metrics.critical_projects)],
+            ['High priority projects', String(metrics.high_priority_projects)],
+          ],
+        },
+      },
+      {
+        heading: 'Projects needing attention',
+        table: {
+          columns: ['Project', 'Client', 'Priority', 'Open tasks', 'Overdue', 'Est. completion'],
+          rows: attention.map(project => [
+            project.title,
+            project.client_name || '',
+            project.priority || '',
+            String(project.open_tasks_count),
+            String(project.overdue_tasks_count),
+            project.estimated_completion || '',
+          ]),
+        },
+        empty: 'No projects need attention.',
+      },
+      {
+        heading: 'Lowest health scores',
+        table: {
+          columns: ['Project', 'Score', 'Scored', 'Explanation'],
+          rows: scores.map(score => [
+            score.projectTitle || score.projectId,
+            String(score.score),
+            toDateString(score.computedAt),
+            score.explanation,
+          ]),
+        },
+        empty: 'No projects have been scored yet.',
+      },
+      {
+        heading: 'Critical and high risks',
+        table: { columns: ['Severity', 'Risk', 'Owner', 'Mitigation', 'Meeting'], rows: risks },
+        empty: 'No critical or high risks raised this week.',
+      },
+      { heading: 'Key decisions', bullets: decisionBullets(insights, ['high'], 15), empty: 'No high-impact decisions recorded.' },
+      { heading: 'Recent activity', bullets: activityBullets(activity, true), empty: 'No meetings or completed tasks this week.' },
+    ];
+
+    const title = 'Leadership report';
+    return await this.publish({
+      kind: 'leadership',
+      title,
+      summary,
+      document: { title, subtitle: this.period(periodStart, now), generatedAt: now, sections },
+      periodStart,
+      now,
+      correlationId,
+    });
+  }
+
+  private period(start: Date, end: Date): string {
+    return `${toDateString(start)} to ${toDateString(end)}`;
+  }
+
+  /**
+   * Render the document in every format, write each to R2 and index the report
+   */
+  private async publish(options: {
+    kind: ReportKind;
+    projectId?: string;
+    title: string;
+    summary: string;
+    document: ReportDocument;
+    periodStart: Date;
+    now: Date;
+    correlationId?: string;
+  }): Promise<StoredReport> {
+    const id = crypto.randomUUID();
+    const prefix = `reports/${options.kind}/${toDateString(options.now)}/${options.projectId || 'portfolio'}-${id.substring(0, 8)}`;
+    const bodies: Record<ReportFormat, string | Uint8Array> = {
+      md: renderMarkdown(options.document),
+      html: renderHtml(options.document),
+      pdf: renderPdf(options.document),
+    };
+
+    const r2Keys: Partial<Record<ReportFormat, string>> = {};
+    for (const format of REPORT_FORMATS) {
+      const key = `${prefix}.${format}`;
+      await this.bucket.put(key, bodies[format], {
+        httpMetadata: { contentType: REPORT_CONTENT_TYPES[format] },
+        customMetadata: { reportId: id, kind: options.kind },
+      });
+      r2Keys[format] = key;
+    }
+
+    const report: StoredReport = {
+      id,
+      kind: options.kind,
+      projectId: options.projectId,
+      title: options.title,
+      summary: options.summary,
+      periodStart: toDateString(options.periodStart),
+      periodEnd: toDateString(options.now),
+      r2Keys,
+      correlationId: options.correlationId,
+      generatedAt: options.now,
+    };
+    await this.store.record(report);
+
+    return report;
+  }
+}
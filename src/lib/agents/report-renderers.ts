@@ -0,0 +1,339 @@
+/**
+ * Report Renderers
+ *
+ * Reports are built once as a ReportDocument (title plus sections of
+ * paragraphs, bullets and tables) and rendered from it to Markdown, HTML and
+ * PDF. The PDF writer is deliberately small: standard Helvetica fonts,
+ * WinAnsi text, word-wrapped paragraphs and truncating table cells, which is
+ * all a text report needs and runs in Workers without a browser.
+ */
+
+export interface ReportTable {
+  columns: string[];
+  rows: string[][];
+}
+
+export interface ReportSection {
+  heading: string;
+  paragraphs?: string[];
+  bullets?: string[];
+  table?: ReportTable;
+  empty?: string; // Shown when the section has nothing else
+}
+
+export interface ReportDocument {
+  title: string;
+  subtitle?: string;
+  generatedAt: Date;
+  sections: ReportSection[];
+}
+
+function isEmpty(section: ReportSection): boolean {
+  return !section.paragraphs?.length && !section.bullets?.length && !section.table?.rows.length;
+}
+
+function formatGeneratedAt(date: Date): string {
+  return `${date.toISOString().substring(0, 16).replace('T', ' ')} UTC`;
+}
+
+// Markdown
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+export function renderMarkdown(doc: ReportDocument): string {
+  const lines: string[] = [`# ${doc.title}`, ''];
+  if (doc.subtitle) lines.push(`_${doc.subtitle}_`, '');
+  lines.push(`Generated ${formatGeneratedAt(doc.generatedAt)}`, '');
+
+  for (const section of doc.sections) {
+    lines.push(`## ${section.heading}`, '');
+
+    if (isEmpty(section)) {
+      lines.push(section.empty || 'Nothing to report.', '');
+      continue;
+    }
+
+    for (const paragraph of section.paragraphs || []) {
+      lines.push(paragraph, '');
+    }
+    if (section.bullets?.length) {
+      lines.push(...section.bullets.map(bullet => `- ${bullet.replace(/\n/g, ' ')}`), '');
+    }
+    if (section.table?.rows.length) {
+      const { columns, rows } = section.table;
+      lines.push(
+        `| ${columns.map(markdownCell).join(' | ')} |`,
+        `| ${columns.map(() => '---').join(' | ')} |`,
+        ...rows.map(row => `| ${row.map(markdownCell).join(' | ')} |`),
+        ''
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// HTML
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; color: #1f2937; max-width: 860px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { font-size: 1.75rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.2rem; margin-top: 2rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; }
+  .subtitle, .generated, .empty { color: #6b7280; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  th, td { text-align: left; padding: 0.4rem 0.5rem; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  th { background: #f9fafb; }
+  @page { margin: 2cm; }
+  @media print { body { margin: 0; max-width: none; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+`;
+
+export function renderHtml(doc: ReportDocument): string {
+  const body: string[] = [`<h1>${escapeHtml(doc.title)}</h1>`];
+  if (doc.subtitle) body.push(`<p class="subtitle">${escapeHtml(doc.subtitle)}</p>`);
+  body.push(`<p class="generated">Generated ${escapeHtml(formatGeneratedAt(doc.generatedAt))}</p>`);
+
+  for (const section of doc.sections) {
+    body.push(`<h2>${escapeHtml(section.heading)}</h2>`);
+
+    if (isEmpty(section)) {
+      body.push(`<p class="empty">${escapeHtml(section.empty || 'Nothing to report.')}</p>`);
+      continue;
+    }
+
+    for (const paragraph of section.paragraphs || []) {
+      body.push(`<p>${escapeHtml(paragraph)}</p>`);
+    }
+    if (section.bullets?.length) {
+      body.push(`<ul>${section.bullets.map(bullet => `<li>${escapeHtml(bullet)}</li>`).join('')}</ul>`);
+    }
+    if (section.table?.rows.length) {
+      const { columns, rows } = section.table;
+      body.push(
+        '<table>',
+        `<thead><tr>${columns.map(column => `<th>${escapeHtml(column)}</th>`).join('')}</tr></thead>`,
+        `<tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody>`,
+        '</table>'
+      );
+    }
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(doc.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+// PDF
+
+const PAGE_WIDTH = 612; // US Letter, points
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+// Helvetica averages about half an em per character; a little more keeps
+// wrapped lines inside the margin for text heavy in capitals
+const CHAR_WIDTH_EM = 0.55;
+
+const PDF_REPLACEMENTS: Record<string, string> = {
+  '–': '-', '—': '-', '‘': "'", '’': "'", '“': '"', '”': '"',
+  '•': '-', '…': '...', '→': '->',
+};
+
+// Standard fonts only cover WinAnsi; anything outside Latin-1 becomes '?'
+function pdfText(value: string): string {
+  return value
+    .replace(/[–—‘’“”•…→]/g, char => PDF_REPLACEMENTS[char])
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+function maxChars(width: number, size: number): number {
+  return Math.max(1, Math.floor(width / (size * CHAR_WIDTH_EM)));
+}
+
+function wrap(text: string, width: number, size: number): string[] {
+  const limit = maxChars(width, size);
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      // Break words longer than a whole line
+      for (let start = 0; start < word.length; start += limit) {
+        const piece = word.substring(start, start + limit);
+        if (!line) {
+          line = piece;
+        } else if (line.length + 1 + piece.length <= limit) {
+          line += ` ${piece}`;
+        } else {
+          lines.push(line);
+          line = piece;
+        }
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+function truncate(text: string, width: number, size: number): string {
+  const limit = maxChars(width, size);
+  const flat = text.replace(/\s+/g, ' ');
+  return flat.length <= limit ? flat : `${flat.substring(0, Math.max(1, limit - 3))}...`;
+}
+
+class PdfLayout {
+  pages: string[][] = [[]];
+  private y = PAGE_HEIGHT - MARGIN;
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private ensure(height: number) {
+    if (this.y - height < MARGIN + 20) {
+      this.pages.push([]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  space(height: number) {
+    this.y -= height;
+  }
+
+  text(value: string, options: { size?: number; bold?: boolean; x?: number; color?: string } = {}) {
+    const size = options.size ?? 10;
+    const leading = size * 1.35;
+    this.ensure(leading);
+    const op = `BT /${options.bold ? 'F2' : 'F1'} ${size} Tf ${(options.x ?? MARGIN).toFixed(2)} ${(this.y - size).toFixed(2)} Td (${pdfText(value)}) Tj ET`;
+    // Fill colour is graphics state, so scope it to this text
+    this.ops.push(options.color ? `q ${options.color} rg ${op} Q` : op);
+    this.y -= leading;
+  }
+
+  paragraph(value: string, options: { size?: number; bold?: boolean; indent?: number; prefix?: string; color?: string } = {}) {
+    const size = options.size ?? 10;
+    const indent = options.indent ?? 0;
+    wrap(value, CONTENT_WIDTH - indent, size).forEach((line, index) => {
+      const text = options.prefix ? `${index === 0 ? options.prefix : ' '.repeat(options.prefix.length)}${line}` : line;
+      this.text(text, { size, bold: options.bold, x: MARGIN + indent, color: options.color });
+    });
+  }
+
+  rule() {
+    this.ensure(6);
+    this.ops.push(`0.85 G 0.5 w ${MARGIN} ${this.y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${this.y.toFixed(2)} l S 0 G`);
+    this.y -= 6;
+  }
+
+  table(table: ReportTable) {
+    const size = 9;
+    const width = CONTENT_WIDTH / table.columns.length;
+    const row = (cells: string[], bold: boolean) => {
+      this.ensure(size * 1.4);
+      cells.forEach((cell, index) => {
+        this.ops.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${(MARGIN + index * width).toFixed(2)} ${(this.y - size).toFixed(2)} Td (${pdfText(truncate(cell, width - 6, size))}) Tj ET`);
+      });
+      this.y -= size * 1.4;
+    };
+
+    row(table.columns, true);
+    this.rule();
+    table.rows.forEach(cells => row(cells, false));
+  }
+}
+
+function pdfBytes(text: string): Uint8Array {
+  // Every character is below 0x100 after pdfText(), so one byte each
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function renderPdf(doc: ReportDocument): Uint8Array {
+  const layout = new PdfLayout();
+
+  layout.paragraph(doc.title, { size: 18, bold: true });
+  if (doc.subtitle) layout.paragraph(doc.subtitle, { size: 11, color: '0.4 0.4 0.4' });
+  layout.text(`Generated ${formatGeneratedAt(doc.generatedAt)}`, { size: 9, color: '0.4 0.4 0.4' });
+
+  for (const section of doc.sections) {
+    layout.space(10);
+    layout.paragraph(section.heading, { size: 13, bold: true });
+    layout.rule();
+
+    if (isEmpty(section)) {
+      layout.paragraph(section.empty || 'Nothing to report.', { color: '0.4 0.4 0.4' });
+      continue;
+    }
+
+    for (const paragraph of section.paragraphs || []) {
+      layout.paragraph(paragraph);
+      layout.space(4);
+    }
+    for (const bullet of section.bullets || []) {
+      layout.paragraph(bullet, { prefix: '- ', indent: 8 });
+    }
+    if (section.table?.rows.length) {
+      layout.space(4);
+      layout.table(section.table);
+    }
+  }
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page and its content stream per page
+  const pageCount = layout.pages.length;
+  const objects: string[] = [];
+  const pageRefs = layout.pages.map((_, index) => `${5 + index * 2} 0 R`);
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pageCount} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  layout.pages.forEach((ops, index) => {
+    const footer = `BT /F1 8 Tf ${MARGIN} ${MARGIN - 20} Td (${pdfText(`${doc.title} - page ${index + 1} of ${pageCount}`)}) Tj ET`;
+    const stream = [...ops, footer].join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`
+    );
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return pdfBytes(output);
+}
@@ -0,0 +1,94 @@
+/**
+ * Structured LLM Output
+ *
+ * Gets JSON from a model and validates it against a zod schema
+ * Common formatting slips (code fences, prose around the JSON, trailing
+ * commas) are repaired locally; anything else is sent back to the model
+ * with the validation errors so it can correct itself.
+ */
+
+import { z } from 'zod';
+import type { LLMProvider, LLMRequest } from './llm-provider';
+
+export interface StructuredRequest<T extends z.ZodTypeAny> extends Omit<LLMRequest, 'json'> {
+  schema: T;
+  shape: string; // Example of the expected JSON, shown to the model
+  maxRepairs?: number; // Extra model calls allowed after the first, default 2
+}
+
+const SYSTEM_PROMPT = 'You extract structured information from construction project meeting transcripts. Reply with a single JSON object and nothing else.';
+
+/**
+ * Pull a JSON value out of a model reply
+ */
+export function parseJsonReply(text: string): unknown {
+  const trimmed = text.trim();
+
+  try {
+    return JSON.parse(trimmed);
+  } catch (error) {
+    // Fall through to repairs
+  }
+
+  let candidate = trimmed.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  // Prose before/after the JSON: keep the outermost object or array
+  const start = candidate.search(/[[{]/);
+  const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+  if (start >= 0 && end > start) {
+    candidate = candidate.substring(start, end + 1);
+  }
+
+  candidate = candidate.replace(/,\s*([}\]])/g, '$1');
+
+  return JSON.parse(candidate);
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 10)
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+/**
+ * Ask for JSON matching `schema`; repairs and retries, then throws with
+ * the last error if the model never produces valid output
+ */
+export async function generateStructured<T extends z.ZodTypeAny>(
+  provider: LLMProvider,
+  request: StructuredRequest<T>
+): Promise<z.infer<T>> {
+  const { schema, shape, maxRepairs = 2, ...llmRequest } = request;
+  const basePrompt = `${llmRequest.prompt}\n\nRespond with JSON in exactly this shape:\n${shape}`;
+  let prompt = basePrompt;
+  let lastError = '';
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const { text: reply } = await provider.complete({
+      ...llmRequest,
+      system: llmRequest.system || SYSTEM_PROMPT,
+      prompt,
+      json: true,
+    });
+
+    let parsed: unknown;
+    try {
+      parsed = parseJsonReply(reply);
+    } catch (error) {
+      lastError = `Reply was not valid JSON (${error instanceof Error ? error.message : 'parse error'})`;
+    }
+
+    if (parsed !== undefined) {
+      const result = schema.safeParse(parsed);
+      if (result.success) return result.data;
+      lastError = `Reply did not match the schema: ${formatIssues(result.error)}`;
+    }
+
+    console.warn(`[StructuredOutput] ${provider.name} attempt ${attempt + 1} failed: ${lastError}`);
+
+    prompt = `${basePrompt}\n\nYour previous reply could not be used. ${lastError}\n\nPrevious reply:\n${reply.substring(0, 2000)}\n\nReply again with only the corrected JSON.`;
+  }
+
+  throw new Error(`${provider.name} did not return valid JSON after ${maxRepairs + 1} attempts: ${lastError}`);
+}
@@ -0,0 +1,372 @@
+/**
+ * Agent Task Store
+ *
+ * Persists orchestrator tasks in the D1 processing_queue table
+ * Tasks are leased to a single worker invocation at a time; a lease that
+ * isn't completed before it expires makes the task claimable again.
+ * Tasks that fail for good stay 'failed' and form the dead-letter list,
+ * from which they can be replayed.
+ */
+
+export type TaskPriority = 'critical' | 'high' | 'medium' | 'low';
+export type TaskStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface StoredTask {
+  id: string;
+  agentName: string;
+  priority: TaskPriority;
+  data: any;
+  status: TaskStatus;
+  attempts: number;
+  maxAttempts: number;
+  createdAt: Date;
+  scheduledFor?: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  leaseOwner?: string;
+  leaseExpiresAt?: Date;
+  result?: any;
+  error?: string;
+  errorStack?: string;
+  replayCount: number;
+  correlationId: string;
+  causedByMessage?: string;
+}
+
+export interface EnqueueOptions {
+  priority?: TaskPriority;
+  scheduledFor?: Date;
+  maxAttempts?: number;
+  dedupeKey?: string; // Enqueue is a no-op if a task with this key already exists
+  correlationId?: string; // Chain to join; defaults to the new task's own id
+  causedByMessage?: string;
+}
+
+export interface TaskFailure {
+  error: string;
+  stack?: string;
+  retryAt?: Date; // Back to pending until then; without it the task is dead-lettered
+}
+
+export interface AgentTaskCounts {
+  agentName: string;
+  pending: number;
+  running: number;
+  completed: number;
+  failed: number;
+  lastRun?: Date;
+}
+
+// Agent tasks share processing_queue with the vectorization workers
+const TASK_TYPE_PREFIX = 'agent:';
+
+// processing_queue.priority is an integer where higher runs first
+const PRIORITY_VALUES: Record<TaskPriority, number> = {
+  critical: 10,
+  high: 8,
+  medium: 5,
+  low: 2
+};
+
+/**
+ * Format a date the way SQLite's datetime('now') does so comparisons work
+ * against rows written by other workers
+ */
+export function toSqlTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').substring(0, 19);
+}
+
+export function fromSqlTimestamp(value: unknown): Date | undefined {
+  if (!value) return undefined;
+  const text = String(value);
+  return new Date(text.includes('T') ? text : `${text.replace(' ', 'T')}Z`);
+}
+
+function toPriority(value: unknown): TaskPriority {
+  const numeric = Number(value ?? PRIORITY_VALUES.medium);
+  if (numeric >= PRIORITY_VALUES.critical) return 'critical';
+  if (numeric >= PRIORITY_VALUES.high) return 'high';
+  if (numeric >= PRIORITY_VALUES.medium) return 'medium';
+  return 'low';
+}
+
+function parseJson(value: unknown): any {
+  if (value == null) return undefined;
+  try {
+    return JSON.parse(String(value));
+  } catch (error) {
+    return value;
+  }
+}
+
+function toTask(row: Record<string, unknown>): StoredTask {
+  return {
+    id: String(row.id),
+    agentName: String(row.task_type).substring(TASK_TYPE_PREFIX.length),
+    priority: toPriority(row.priority),
+    data: parseJson(row.payload),
+    status: row.status as TaskStatus,
+    attempts: Number(row.attempts || 0),
+    maxAttempts: Number(row.max_attempts || 3),
+    createdAt: fromSqlTimestamp(row.created_at)!,
+    scheduledFor: fromSqlTimestamp(row.scheduled_for),
+    startedAt: fromSqlTimestamp(row.started_at),
+    completedAt: fromSqlTimestamp(row.completed_at),
+    leaseOwner: (row.lease_owner as string) || undefined,
+    leaseExpiresAt: fromSqlTimestamp(row.lease_expires_at),
+    result: parseJson(row.result),
+    error: (row.error_message as string) || undefined,
+    errorStack: (row.error_stack as string) || undefined,
+    replayCount: Number(row.replay_count || 0),
+    correlationId: String(row.correlation_id || row.id),
+    causedByMessage: (row.caused_by_message as string) || undefined,
+  };
+}
+
+export class D1TaskStore {
+  constructor(private db: D1Database) {}
+
+  /**
+   * Insert a pending task; returns null when the dedupe key is already taken
+   */
+  async enqueue(agentName: string, data: any, now: Date, options: EnqueueOptions = {}): Promise<string | null> {
+    const id = crypto.randomUUID();
+    const result = await this.db.prepare(`
+      INSERT OR IGNORE INTO processing_queue (
+        id, task_type, payload, priority, status, attempts, max_attempts,
+        scheduled_for, created_at, dedupe_key, correlation_id, caused_by_message
+      ) VALUES (?, ?, ?, ?, 'pending', 0, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      id,
+      TASK_TYPE_PREFIX + agentName,
+      JSON.stringify(data ?? null),
+      PRIORITY_VALUES[options.priority || 'medium'],
+      options.maxAttempts || 3,
+      toSqlTimestamp(options.scheduledFor || now),
+      toSqlTimestamp(now),
+      options.dedupeKey || null,
+      options.correlationId || id,
+      options.causedByMessage || null
+    ).run();
+
+    return (result.meta?.changes || 0) > 0 ? id : null;
+  }
+
+  /**
+   * Atomically lease the next runnable task (or a specific one).
+   * Pending tasks that are due and running tasks whose lease has expired
+   * are both claimable; the single UPDATE keeps two workers from
+   * claiming the same row.
+   */
+  async claim(owner: string, now: Date, leaseSeconds: number, taskId?: string): Promise<StoredTask | null> {
+    const nowSql = toSqlTimestamp(now);
+    const leaseExpiresAt = toSqlTimestamp(new Date(now.getTime() + leaseSeconds * 1000));
+    const claimable = `
+      task_type LIKE '${TASK_TYPE_PREFIX}%'
+      AND attempts < COALESCE(max_attempts, 3)
+      AND (
+        (status = 'pending' AND (scheduled_for IS NULL OR scheduled_for <= ?))
+        OR (status = 'running' AND lease_expires_at <= ?)
+      )
+    `;
+
+    const row = await this.db.prepare(`
+      UPDATE processing_queue
+      SET status = 'running',
+          lease_owner = ?,
+          lease_expires_at = ?,
+          started_at = ?,
+          attempts = attempts + 1
+      WHERE id = (
+        SELECT id FROM processing_queue
+        WHERE ${claimable} ${taskId ? 'AND id = ?' : ''}
+        ORDER BY priority DESC, scheduled_for ASC, created_at ASC
+        LIMIT 1
+      )
+      AND ${claimable}
+      RETURNING *
+    `).bind(
+      owner,
+      leaseExpiresAt,
+      nowSql,
+      nowSql,
+      nowSql,
+      ...(taskId ? [taskId] : []),
+      nowSql,
+      nowSql
+    ).first();
+
+    return row ? toTask(row) : null;
+  }
+
+  /**
+   * Mark a leased task completed. Returns false if the lease was lost,
+   * e.g. because it expired and another worker reclaimed the task.
+   */
+  async complete(taskId: string, owner: string, result: any, now: Date): Promise<boolean> {
+    const update = await this.db.prepare(`
+      UPDATE processing_queue
+      SET status = 'completed',
+          result = ?,
+          error_message = NULL,
+          error_stack = NULL,
+          completed_at = ?,
+          lease_owner = NULL,
+          lease_expires_at = NULL
+      WHERE id = ? AND lease_owner = ? AND status = 'running'
+    `).bind(JSON.stringify(result ?? null), toSqlTimestamp(now), taskId, owner).run();
+
+    return (update.meta?.changes || 0) > 0;
+  }
+
+  /**
+   * Release a leased task after a failure: pending again from `retryAt`,
+   * or failed (dead-lettered) when no retry is given
+   */
+  async fail(taskId: string, owner: string, failure: TaskFailure, now: Date): Promise<boolean> {
+    const update = failure.retryAt
+      ? await this.db.prepare(`
+          UPDATE processing_queue
+          SET status = 'pending',
+              scheduled_for = ?,
+              error_message = ?,
+              error_stack = ?,
+              lease_owner = NULL,
+              lease_expires_at = NULL
+          WHERE id = ? AND lease_owner = ? AND status = 'running'
+        `).bind(toSqlTimestamp(failure.retryAt), failure.error, failure.stack || null, taskId, owner).run()
+      : await this.db.prepare(`
+          UPDATE processing_queue
+          SET status = 'failed',
+              error_message = ?,
+              error_stack = ?,
+              completed_at = ?,
+              lease_owner = NULL,
+              lease_expires_at = NULL
+          WHERE id = ? AND lease_owner = ? AND status = 'running'
+        `).bind(failure.error, failure.stack || null, toSqlTimestamp(now), taskId, owner).run();
+
+    return (update.meta?.changes || 0) > 0;
+  }
+
+  /**
+   * Fail tasks whose lease expired on their last allowed attempt;
+   * these can no longer be claimed so nothing else would finish them
+   */
+  async failAbandoned(now: Date): Promise<number> {
+    const nowSql = toSqlTimestamp(now);
+    const update = await this.db.prepare(`
+      UPDATE processing_queue
+      SET status = 'failed',
+          error_message = 'Lease expired on final attempt',
+          completed_at = ?,
+          lease_owner = NULL,
+          lease_expires_at = NULL
+      WHERE task_type LIKE '${TASK_TYPE_PREFIX}%'
+        AND status = 'running'
+        AND lease_expires_at <= ?
+        AND attempts >= COALESCE(max_attempts, 3)
+    `).bind(nowSql, nowSql).run();
+
+    return update.meta?.changes || 0;
+  }
+
+  /**
+   * When an agent's last scheduled run was enqueued
+   */
+  async getLastScheduledRun(agentName: string): Promise<Date | undefined> {
+    const row = await this.db.prepare(`
+      SELECT MAX(created_at) as last_run
+      FROM processing_queue
+      WHERE task_type = ? AND dedupe_key IS NOT NULL
+    `).bind(TASK_TYPE_PREFIX + agentName).first();
+
+    return fromSqlTimestamp(row?.last_run);
+  }
+
+  async getTaskCounts(): Promise<AgentTaskCounts[]> {
+    const { results } = await this.db.prepare(`
+      SELECT
+        task_type,
+        SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END) as pending,
+        SUM(CASE WHEN status = 'running' THEN 1 ELSE 0 END) as running,
+        SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed,
+        SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed,
+        MAX(started_at) as last_run
+      FROM processing_queue
+      WHERE task_type LIKE '${TASK_TYPE_PREFIX}%'
+      GROUP BY task_type
+    `).all();
+
+    return results.map(row => ({
+      agentName: String(row.task_type).substring(TASK_TYPE_PREFIX.length),
+      pending: Number(row.pending || 0),
+      running: Number(row.running || 0),
+      completed: Number(row.completed || 0),
+      failed: Number(row.failed || 0),
+      lastRun: fromSqlTimestamp(row.last_run),
+    }));
+  }
+
+  /**
+   * Finished tasks, most recent first, for all agents or one
+   */
+  async getHistory(limit: number = 100, agentName?: string): Promise<StoredTask[]> {
+    const { results } = await this.db.prepare(`
+      SELECT * FROM processing_queue
+      WHERE ${agentName ? 'task_type = ?' : `task_type LIKE '${TASK_TYPE_PREFIX}%'`}
+        AND status IN ('completed', 'failed')
+      ORDER BY completed_at DESC
+      LIMIT ?
+    `).bind(...(agentName ? [TASK_TYPE_PREFIX + agentName] : []), limit).all();
+
+    return results.map(toTask);
+  }
+
+  /**
+   * Dead-lettered tasks (failed for good), most recent first
+   */
+  async getDeadLetters(limit: number = 100, agentName?: string): Promise<StoredTask[]> {
+    const { results } = await this.db.prepare(`
+      SELECT * FROM processing_queue
+      WHERE ${agentName ? 'task_type = ?' : `task_type LIKE '${TASK_TYPE_PREFIX}%'`}
+        AND status = 'failed'
+      ORDER BY completed_at DESC
+      LIMIT ?
+    `).bind(...(agentName ? [TASK_TYPE_PREFIX + agentName] : []), limit).all();
+
+    return results.map(toTask);
+  }
+
+  /**
+   * Requeue a dead-lettered task with a fresh set of attempts. The last
+   * error is kept until the task next completes or fails.
+   */
+  async replay(taskId: string, now: Date): Promise<StoredTask | null> {
+    const row = await this.db.prepare(`
+      UPDATE processing_queue
+      SET status = 'pending',
+          attempts = 0,
+          scheduled_for = ?,
+          completed_at = NULL,
+          replay_count = COALESCE(replay_count, 0) + 1
+      WHERE id = ? AND task_type LIKE '${TASK_TYPE_PREFIX}%' AND status = 'failed'
+      RETURNING *
+    `).bind(toSqlTimestamp(now), taskId).first();
+
+    return row ? toTask(row) : null;
+  }
+
+  /**
+   * Every task in a chain, oldest first
+   */
+  async getByCorrelation(correlationId: string): Promise<StoredTask[]> {
+    const { results } = await this.db.prepare(`
+      SELECT * FROM processing_queue
+      WHERE correlation_id = ? AND task_type LIKE '${TASK_TYPE_PREFIX}%'
+      ORDER BY created_at ASC
+    `).bind(correlationId).all();
+
+    return results.map(toTask);
+  }
+}
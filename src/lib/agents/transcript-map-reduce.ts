@@ -0,0 +1,242 @@
+/**
+ * Transcript Map-Reduce
+ *
+ * Helpers for analysing transcripts too long for one prompt
+ * - Map: transcript chunks are packed into prompt-sized windows, each chunk
+ *   labelled so the model can say where an item came from. Stored
+ *   meeting_chunks rows are used as they are; otherwise the transcript is
+ *   chunked here under stable `${meetingId}:${position}` ids
+
+ * - Reduce: items found in several windows are merged and deduplicated,
+ *   keeping every source chunk and timestamp
+ */
+
+import { SmartChunkingService } from '@/lib/services/smart-chunking';
+import { estimateTokenizer } from '@/lib/services/tokenizer';
+import { formatTimestamp } from '@/lib/utils';
+import type { ActionItem, Decision, Risk } from './meeting-intelligence-agent';
+
+export interface InsightSource {
+  chunkId: string; // meeting_chunks.id, or `${meetingId}:${position}` for unstored chunks
+  position: number; // Chunk order within the transcript
+  startTime?: number; // Seconds from the start of the meeting
+  speaker?: string;
+}
+
+export interface TranscriptChunk {
+  id: string;
+  position: number;
+  content: string;
+  speaker?: string;
+  startTime?: number;
+  tokenCount?: number; // Estimated when missing
+}
+
+export interface AnalysisWindow {
+  index: number;
+  chunks: TranscriptChunk[];
+  text: string; // Chunks with [chunk N | m:ss | Speaker] labels
+  tokenCount: number;
+}
+
+const LEVEL_ORDER = ['low', 'medium', 'high', 'critical'];
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'to', 'of', 'for', 'and', 'or', 'on', 'in', 'at', 'by', 'with', 'from',
+  'is', 'are', 'be', 'will', 'should', 'need', 'needs', 'we', 'our', 'this', 'that', 'it'
+]);
+
+// Items whose word sets overlap at least this much are treated as duplicates
+const DUPLICATE_THRESHOLD = 0.6;
+
+/**
+ * Pack consecutive chunks into windows of at most `tokenBudget` tokens.
+ * `storedChunks` (the meeting's meeting_chunks rows, in order) are used
+ * when given, so sources point at rows that exist; otherwise the
+ * transcript is chunked here.
+ */
+export async function buildAnalysisWindows(
+  transcript: string,
+  tokenBudget: number,
+  options: { meetingId?: string; storedChunks?: TranscriptChunk[] } = {}
+): Promise<AnalysisWindow[]> {
+  let chunks: TranscriptChunk[];
+  if (options.storedChunks && options.storedChunks.length > 0) {
+    chunks = options.storedChunks;
+  } else {
+    // No OpenAI key: the map step does the analysis, chunking only needs structure
+    const chunker = new SmartChunkingService({ targetTokens: Math.min(1000, tokenBudget), maxTokens: tokenBudget });
+    const result = await chunker.processContent(transcript, 'meeting');
+    // The chunker's ids are random per run; position is stable for the same transcript
+    chunks = result.chunks.map(chunk => ({
+      id: `${options.meetingId || 'transcript'}:${chunk.position}`,
+      position: chunk.position,
+      content: chunk.content,
+      speaker: chunk.speaker,
+      startTime: chunk.startTime,
+      tokenCount: chunk.tokenCount,
+    }));
+  }
+
+  const windows: AnalysisWindow[] = [];
+  let current: TranscriptChunk[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    windows.push({
+      index: windows.length,
+      chunks: current,
+      text: current.map(chunk => `${chunkLabel(chunk)}\n${chunk.content}`).join('\n\n'),
+      tokenCount: currentTokens,
+    });
+    current = [];
+    currentTokens = 0;
+  };
+
+  for (const chunk of chunks) {
+    const tokens = chunk.tokenCount ?? estimateTokenizer.count(chunk.content);
+    if (currentTokens + tokens > tokenBudget) flush();
+    current.push(chunk);
+    currentTokens += tokens;
+  }
+  flush();
+
+  return windows;
+}
+
+function chunkLabel(chunk: TranscriptChunk): string {
+  const parts = [`chunk ${chunk.position}`];
+  if (chunk.startTime !== undefined) parts.push(formatTimestamp(chunk.startTime));
+  if (chunk.speaker) parts.push(chunk.speaker);
+  return `[${parts.join(' | ')}]`;
+}
+
+/**
+ * Resolve the chunk number a model cited to a source; unknown numbers fall
+ * back to the window's first chunk
+ */
+export function resolveSource(window: AnalysisWindow, chunkNumber?: number | null): InsightSource {
+  const chunk = window.chunks.find(c => c.position === chunkNumber) || window.chunks[0];
+  return {
+    chunkId: chunk.id,
+    position: chunk.position,
+    startTime: chunk.startTime,
+    speaker: chunk.speaker,
+  };
+}
+
+/**
+ * Time range label for a window, e.g. "12:30-18:05"
+ */
+export function windowTimeRange(window: AnalysisWindow): string | undefined {
+  const times = window.chunks.map(c => c.startTime).filter((t): t is number => t !== undefined);
+  if (times.length === 0) return undefined;
+  return `${formatTimestamp(Math.min(...times))}-${formatTimestamp(Math.max(...times))}`;
+}
+
+/**
+ * Run `fn` over items with at most `concurrency` calls in flight
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(
+    text.toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 1 && !STOPWORDS.has(word))
+  );
+}
+
+function isDuplicate(a: string, b: string): boolean {
+  const wordsA = wordSet(a);
+  const wordsB = wordSet(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return a.trim().toLowerCase() === b.trim().toLowerCase();
+
+  let shared = 0;
+  wordsA.forEach(word => { if (wordsB.has(word)) shared++; });
+  return shared / (wordsA.size + wordsB.size - shared) >= DUPLICATE_THRESHOLD;
+}
+
+function higherLevel<T extends string>(a: T, b: T): T {
+  return LEVEL_ORDER.indexOf(b) > LEVEL_ORDER.indexOf(a) ? b : a;
+}
+
+function mergeSources(a: InsightSource[] = [], b: InsightSource[] = []): InsightSource[] {
+  const byChunk = new Map<string, InsightSource>();
+  [...a, ...b].forEach(source => byChunk.set(source.chunkId, source));
+  return Array.from(byChunk.values()).sort((x, y) => x.position - y.position);
+}
+
+/**
+ * Merge items that describe the same thing. Items are processed in
+ * transcript order, so the first mention leads the merged sources.
+ */
+function dedupe<T extends { description: string; sources?: InsightSource[] }>(
+  items: T[],
+  merge: (kept: T, duplicate: T) => T
+): T[] {
+  const merged: T[] = [];
+
+  for (const item of items) {
+    const index = merged.findIndex(existing => isDuplicate(existing.description, item.description));
+    if (index === -1) {
+      merged.push(item);
+      continue;
+    }
+
+    const kept = merged[index];
+    merged[index] = {
+      ...merge(kept, item),
+      // Keep the more detailed wording
+      description: item.description.length > kept.description.length ? item.description : kept.description,
+      sources: mergeSources(kept.sources, item.sources),
+    };
+  }
+
+  return merged;
+}
+
+export function mergeActionItems(items: ActionItem[]): ActionItem[] {
+  return dedupe(items, (kept, duplicate) => ({
+    ...kept,
+    owner: kept.owner || duplicate.owner,
+    dueDate: kept.dueDate || duplicate.dueDate,
+    priority: higherLevel(kept.priority, duplicate.priority),
+  }));
+}
+
+export function mergeDecisions(decisions: Decision[]): Decision[] {
+  return dedupe(decisions, (kept, duplicate) => ({
+    ...kept,
+    impact: higherLevel(kept.impact, duplicate.impact),
+    stakeholders: Array.from(new Set([...kept.stakeholders, ...duplicate.stakeholders])),
+  }));
+}
+
+export function mergeRisks(risks: Risk[]): Risk[] {
+  return dedupe(risks, (kept, duplicate) => ({
+    ...kept,
+    severity: higherLevel(kept.severity, duplicate.severity),
+    mitigation: kept.mitigation || duplicate.mitigation,
+    owner: kept.owner || duplicate.owner,
+  }));
+}
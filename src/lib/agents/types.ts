@@ -46,13 +46,16 @@ export interface AgentResult<T = any> {
   };
 }
 
-export interface AgentMessage {
+export interface AgentMessage<TPayload = any> {
+  id: string;
   from: string;
-  to: string;
+  to?: string; // Unset for messages published to every subscriber
   type: 'request' | 'response' | 'notification' | 'error';
-  payload: any;
+  topic: string;
+  payload: TPayload;
   timestamp: Date;
-  correlationId?: string;
+  correlationId: string; // Shared by every task and message in one chain
+  causationId?: string; // Task that published the message
 }
 
 export interface AgentState {
@@ -68,7 +71,10 @@ export interface AgentMetrics {
   totalExecutions: number;
   successfulExecutions: number;
   failedExecutions: number;
-  averageExecutionTime: number;
+  averageExecutionTime: number; // Milliseconds
+  tokensUsed: number;
+  cost: number;
   lastError?: string;
   lastErrorTime?: Date;
+  lastExecution?: Date;
 }
\ No newline at end of file
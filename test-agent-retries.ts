@@ -0,0 +1,135 @@
+import { TestClock } from './src/lib/agents/clock';
+import { AgentOrchestrator, type Agent } from './src/lib/agents/orchestrator';
+import { D1TaskStore } from './src/lib/agents/task-store';
+import { sqliteD1 } from './test-fixtures/sqlite-d1';
+import { check, finish } from './test-fixtures/check';
+
+// Usage: npx tsx test-agent-retries.ts (Node 22+, for node:sqlite)
+// Retries, dead-lettering, replay and lease expiry of agent tasks in
+// processing_queue, driven by a TestClock
+
+const { db, sqlite, migrate } = sqliteD1();
+sqlite.exec(`CREATE TABLE system_metadata (key TEXT PRIMARY KEY, value TEXT, updated_at DATETIME DEFAULT CURRENT_TIMESTAMP)`);
+for (const migration of ['add-agent-task-leasing', 'add-agent-messages', 'add-agent-metrics', 'add-agent-dead-letters']) {
+  migrate(`migrations/${migration}.sql`);
+}
+
+const taskRow = (id: string) => sqlite.prepare(`SELECT status, attempts, scheduled_for, error_message, lease_owner, result FROM processing_queue WHERE id = ?`).get(id) as {
+  status: string; attempts: number; scheduled_for: string; error_message: string | null; lease_owner: string | null; result: string | null;
+};
+
+async function main() {
+  const clock = new TestClock('2024-03-12T09:00:00Z');
+
+  // Fails until the feed comes back: retried after 30s, then 60s, then dead-lettered
+  let feedDown = true;
+  const flaky: Agent = {
+    name: 'flaky-agent',
+    description: 'Reads a site feed that is sometimes down',
+    enabled: true,
+    status: 'idle',
+    timeout: 1000,
+    retryPolicy: { maxRetries: 2, backoffMultiplier: 2, initialDelay: 30 * 1000, maxDelay: 60 * 1000 },
+    execute: async () => {
+      if (feedDown) throw new Error('Site feed unavailable');
+      return { read: true };
+    },
+  };
+
+  const orchestrator = new AgentOrchestrator(db, { clock, workerId: 'worker-a' });
+  orchestrator.registerAgent(flaky);
+  const taskId = await orchestrator.queueTask('flaky-agent', {});
+
+  await orchestrator.processQueue();
+  check('first failure is retried after initialDelay', [taskRow(taskId).status, taskRow(taskId).attempts, taskRow(taskId).scheduled_for, taskRow(taskId).error_message], [
+    'pending', 1, '2024-03-12 09:00:30', 'Site feed unavailable',
+  ]);
+
+  clock.advance({ seconds: 29 });
+  check('not claimed before its retry time', (await orchestrator.processQueue()).executed, 0);
+
+  clock.advance({ seconds: 1 });
+  await orchestrator.processQueue();
+  check('second failure backs off by the multiplier', [taskRow(taskId).status, taskRow(taskId).attempts, taskRow(taskId).scheduled_for], [
+    'pending', 2, '2024-03-12 09:01:30',
+  ]);
+
+  clock.advance({ minutes: 1 });
+  await orchestrator.processQueue();
+  const deadLetters = await orchestrator.getDeadLetters();
+  check('dead-lettered after maxRetries + 1 attempts', [taskRow(taskId).status, deadLetters.map(task => [task.id, task.attempts, task.error])], [
+    'failed', [[taskId, 3, 'Site feed unavailable']],
+  ]);
+  check('an exhausted task marks the agent failed', flaky.status, 'failed');
+
+  clock.advance({ hours: 1 });
+  check('a dead-lettered task is not claimed again', (await orchestrator.processQueue()).executed, 0);
+
+  // Replay requeues it with a full set of attempts
+  feedDown = false;
+  const replayed = await orchestrator.replayTask(taskId);
+  check('replay requeues the task', [replayed?.status, replayed?.attempts, replayed?.replayCount], ['pending', 0, 1]);
+  check('replaying clears the failed status', flaky.status, 'idle');
+  await orchestrator.processQueue();
+  check('replayed task completes', [taskRow(taskId).status, taskRow(taskId).attempts, JSON.parse(taskRow(taskId).result || 'null')], ['completed', 1, { read: true }]);
+  check('only failed tasks can be replayed', await orchestrator.replayTask(taskId), null);
+
+  // A run that outlives its lease: another worker reclaims the task and
+  // the stale worker's result is discarded
+  let runs = 0;
+  let otherWorker: AgentOrchestrator;
+  const slow: Agent = {
+    name: 'slow-agent',
+    description: 'Outlives its lease on the first run',
+    enabled: true,
+    status: 'idle',
+    timeout: 1000,
+    execute: async () => {
+      runs++;
+      if (runs === 1) {
+        // Past the default 300s lease
+        clock.advance({ seconds: 301 });
+        await otherWorker.processQueue();
+        return { run: 'stale' };
+      }
+      return { run: 'reclaimed' };
+    },
+  };
+  otherWorker = new AgentOrchestrator(db, { clock, workerId: 'worker-b' });
+  otherWorker.registerAgent(slow);
+  orchestrator.registerAgent(slow);
+
+  const slowId = await orchestrator.queueTask('slow-agent', {});
+  const staleRun = await orchestrator.processQueue();
+  check('expired lease is reclaimed by another worker', [runs, taskRow(slowId).attempts], [2, 2]);
+  check('stale worker reports the task as not succeeded', [staleRun.executed, staleRun.succeeded], [1, 0]);
+  check('the reclaiming run owns the result', [taskRow(slowId).status, JSON.parse(taskRow(slowId).result || 'null')], ['completed', { run: 'reclaimed' }]);
+  check('only the stored result is counted in the metrics', sqlite.prepare(`SELECT total_executions, successful_executions, failed_executions FROM agent_metrics WHERE agent_name = 'slow-agent'`).get(), {
+    total_executions: 1, successful_executions: 1, failed_executions: 0,
+  });
+
+  // The same, at the store: complete() only succeeds for the lease owner
+  const store = new D1TaskStore(db);
+  const leasedId = (await store.enqueue('slow-agent', {}, clock.now()))!;
+  await store.claim('worker-a', clock.now(), 60, leasedId);
+  clock.advance({ seconds: 30 });
+  check('a live lease cannot be claimed', await store.claim('worker-b', clock.now(), 60, leasedId), null);
+  clock.advance({ seconds: 31 });
+  const reclaimed = await store.claim('worker-b', clock.now(), 60, leasedId);
+  check('an expired lease can be claimed', [reclaimed?.leaseOwner, reclaimed?.attempts], ['worker-b', 2]);
+  check("stale worker's complete() returns false", await store.complete(leasedId, 'worker-a', { run: 'stale' }, clock.now()), false);
+  check("new owner's complete() returns true", await store.complete(leasedId, 'worker-b', { run: 'reclaimed' }, clock.now()), true);
+
+  // A lease that expires on the final attempt is dead-lettered by the sweep
+  const lastAttemptId = (await store.enqueue('slow-agent', {}, clock.now(), { maxAttempts: 1 }))!;
+  await store.claim('worker-a', clock.now(), 60, lastAttemptId);
+  clock.advance({ seconds: 61 });
+  check('lease expired on the final attempt cannot be reclaimed', await store.claim('worker-b', clock.now(), 60, lastAttemptId), null);
+  check('abandoned task is dead-lettered', [await store.failAbandoned(clock.now()), taskRow(lastAttemptId).status, taskRow(lastAttemptId).error_message], [
+    1, 'failed', 'Lease expired on final attempt',
+  ]);
+
+  finish('agent retry');
+}
+
+main();
@@ -0,0 +1,119 @@
+import {
+  analyzeChunks,
+  CHUNK_ANALYSIS_SCHEMA,
+  type ChunkAnalysisClient,
+  type ChunkAnalysisRequest,
+} from './lib/services/chunk-analysis';
+import { SmartChunkingService } from './lib/services/smart-chunking';
+import { check, finish } from './test-fixtures/check';
+
+// Usage: npx tsx test-chunk-analysis.ts
+// Runs chunk analysis against a fake model client that answers from the
+// chunk ids in each prompt, so batching, caps and merging are deterministic
+
+/**
+ * Replies to every <chunk id="..."> in the prompt. `reply` can override the
+ * analysis per chunk, or return a raw string for the whole response.
+ */
+function fakeClient(reply: (id: string, text: string, call: number) => object | string | null = () => null) {
+  const calls: ChunkAnalysisRequest[] = [];
+  const client: ChunkAnalysisClient = async request => {
+    calls.push(request);
+    const chunks = Array.from(request.prompt.matchAll(/<chunk id="([^"]+)">\n([\s\S]*?)\n<\/chunk>/g));
+    const results: object[] = [];
+    for (const [, id, text] of chunks) {
+      const custom = reply(id, text, calls.length);
+      if (typeof custom === 'string') return { content: custom, usage: { promptTokens: 500, completionTokens: 50 } };
+      results.push({ id, summary: `Summary of ${id}`, topics: ['Site work'], sentiment: 'neutral', entities: [], ...custom });
+    }
+    return {
+      content: JSON.stringify({ chunks: results }),
+      usage: { promptTokens: 500, completionTokens: 100 * chunks.length },
+    };
+  };
+  return { client, calls };
+}
+
+const countTokens = (text: string) => Math.ceil(text.length / 4);
+
+const chunks = Array.from({ length: 10 }, (_, i) => ({
+  id: `c${i}`,
+  content: `Chunk ${i}: Keystone Concrete poured the level ${i} slab; the owner approved it.`,
+  importance: i < 9 ? 0.9 - i * 0.01 : 0.4,
+}));
+
+async function main() {
+  // Batching: important chunks only, most important first, several per request
+  const batched = fakeClient();
+  const { analyses, usage } = await analyzeChunks(chunks, batched.client, countTokens, { maxChunksPerRequest: 4 });
+  check('only chunks at or above minImportance are analysed', analyses.size, 9);
+  check('chunks are batched into requests', batched.calls.map(call => (call.prompt.match(/<chunk id=/g) || []).length), [4, 4, 1]);
+  check('requests carry the JSON schema', batched.calls[0].schema, CHUNK_ANALYSIS_SCHEMA);
+  check('completion budget scales with the batch', batched.calls.map(call => call.maxTokens), [1000, 1000, 250]);
+  check('usage is summed over requests', [usage.requests, usage.promptTokens, usage.completionTokens, usage.capped], [3, 1500, 900, false]);
+  check('cost uses gpt-4o-mini pricing', usage.cost.toFixed(6), ((1500 * 0.15 + 900 * 0.6) / 1e6).toFixed(6));
+
+  // Token cap: stop before a request that could exceed it
+  const tokenCapped = fakeClient();
+  const tokenCap = await analyzeChunks(chunks, tokenCapped.client, countTokens, { maxChunksPerRequest: 4, maxTokensPerDocument: 2000 });
+  check('token cap stops further requests', [tokenCapped.calls.length, tokenCap.usage.capped, tokenCap.usage.chunksSkipped], [1, true, 5]);
+
+  // Cost cap: an expensive model runs out sooner than gpt-4o-mini would
+  const costCapped = fakeClient();
+  const costCap = await analyzeChunks(chunks, costCapped.client, countTokens, { model: 'gpt-4o', maxChunksPerRequest: 4, maxCostPerDocument: 0.012 });
+  check('cost cap stops further requests', [costCapped.calls.length, costCap.usage.capped], [1, true]);
+
+  // One bad reply doesn't sink the rest
+  const flaky = fakeClient((id, text, call) => (call === 1 ? 'Sorry, here is a summary instead of JSON' : null));
+  const partial = await analyzeChunks(chunks, flaky.client, countTokens, { maxChunksPerRequest: 4 });
+  check('a malformed batch is skipped, the others kept', [partial.usage.chunksAnalyzed, partial.usage.chunksSkipped], [5, 4]);
+
+  const failing: ChunkAnalysisClient = async () => {
+    throw new Error('rate limited');
+  };
+  const none = await analyzeChunks(chunks, failing, countTokens);
+  check('failed requests leave chunks unanalysed', [none.analyses.size, none.usage.requests], [0, 0]);
+
+  // Merged into SmartChunk by processContent
+  const transcript = [
+    '[0:00] John Smith: We decided Keystone Concrete will pour the level two slab Tuesday.',
+    '[0:30] Sarah Johnson: The risk is the pump; if it fails the pour slips a week.',
+  ].join('\n');
+  const merging = fakeClient(id => ({
+    summary: 'Slab pour on Tuesday, pump is the risk',
+    topics: ['Slab pour', 'Concrete pump'],
+    sentiment: 'mixed',
+    entities: [
+      { type: 'subcontractor', value: 'Keystone Concrete', confidence: 0.95 },
+      { type: 'subcontractor', value: 'Acme Pumping', confidence: 0.9 }, // Not in the text
+      { type: 'invoice', value: 'Tuesday', confidence: 0.9 }, // Not an entity type
+      { type: 'risk', value: 'level two slab', confidence: 7 },
+    ],
+  }));
+  const service = new SmartChunkingService({ encoding: 'estimate' }, undefined, {
+    analysisClient: merging.client,
+    analysis: { minImportance: 0 },
+  });
+  const result = await service.processContent(transcript, 'meeting');
+  const chunk = result.chunks[0];
+
+  check('summary is merged', chunk.summary, 'Slab pour on Tuesday, pump is the risk');
+  check('model topics lead the keyword topics', chunk.topics.slice(0, 2), ['Slab pour', 'Concrete pump']);
+  check('model sentiment is used', chunk.sentiment, 'mixed');
+  const modelEntities = chunk.entities.filter(entity => ['Keystone Concrete', 'Acme Pumping', 'Tuesday', 'level two slab'].includes(entity.value));
+  check(
+    'entities not in the text or of unknown types are dropped',
+    modelEntities.map(entity => `${entity.type}:${entity.value}:${entity.confidence}`).sort(),
+    ['risk:level two slab:1', 'subcontractor:Keystone Concrete:0.95']
+  );
+  check('model entities reach the document entities', result.metadata.extractedEntities.get('subcontractor')?.some(e => e.value === 'Keystone Concrete'), true);
+  check('usage is reported in the metadata', result.metadata.aiAnalysis?.requests, 1);
+
+  // Without a client or key, chunking is untouched
+  const plain = await new SmartChunkingService({ encoding: 'estimate' }).processContent(transcript, 'meeting');
+  check('no client, no analysis', [plain.chunks[0].summary, plain.metadata.aiAnalysis], [undefined, undefined]);
+
+  finish('chunk analysis');
+}
+
+main();
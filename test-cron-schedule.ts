@@ -0,0 +1,105 @@
+import { TestClock } from './src/lib/agents/clock';
+import { matchesCron, nextCronRun, parseCron } from './src/lib/agents/cron';
+
+// Each case: schedule, timezone, start time, expected next runs (UTC ISO)
+const cases: Array<{ schedule: string; timeZone?: string; from: string; expected: string[] }> = [
+  {
+    schedule: '0 */1 * * *',
+    from: '2024-03-15T10:20:00Z',
+    expected: ['2024-03-15T11:00:00.000Z', '2024-03-15T12:00:00.000Z'],
+  },
+  {
+    schedule: '0 9,15 * * *',
+    from: '2024-03-15T10:00:00Z',
+    expected: ['2024-03-15T15:00:00.000Z', '2024-03-16T09:00:00.000Z', '2024-03-16T15:00:00.000Z'],
+  },
+  {
+    schedule: '0 8 * * 1',
+    from: '2024-03-15T10:00:00Z', // Friday
+    expected: ['2024-03-18T08:00:00.000Z', '2024-03-25T08:00:00.000Z'],
+  },
+  {
+    schedule: '*/20 9-10 * * MON-FRI',
+    from: '2024-03-15T10:30:00Z',
+    expected: ['2024-03-15T10:40:00.000Z', '2024-03-18T09:00:00.000Z', '2024-03-18T09:20:00.000Z'],
+  },
+  {
+    // Day-of-month OR day-of-week when both are restricted
+    schedule: '0 0 1 * 5',
+    from: '2024-03-28T00:00:00Z',
+    expected: ['2024-03-29T00:00:00.000Z', '2024-04-01T00:00:00.000Z', '2024-04-05T00:00:00.000Z'],
+  },
+  {
+    // 9 AM in Chicago is 15:00 UTC before the DST change and 14:00 after
+    schedule: '0 9 * * *',
+    timeZone: 'America/Chicago',
+    from: '2024-03-09T12:00:00Z',
+    expected: ['2024-03-09T15:00:00.000Z', '2024-03-10T14:00:00.000Z'],
+  },
+  {
+    // 2:30 AM doesn't exist in Chicago on 2024-03-10
+    schedule: '30 2 * * *',
+    timeZone: 'America/Chicago',
+    from: '2024-03-09T12:00:00Z',
+    expected: ['2024-03-11T07:30:00.000Z'],
+  },
+  {
+    schedule: '@monthly',
+    from: '2024-01-31T12:00:00Z',
+    expected: ['2024-02-01T00:00:00.000Z', '2024-03-01T00:00:00.000Z'],
+  },
+];
+
+let failures = 0;
+
+for (const testCase of cases) {
+  const clock = new TestClock(testCase.from);
+  const actual: string[] = [];
+
+  for (let i = 0; i < testCase.expected.length; i++) {
+    const next = nextCronRun(testCase.schedule, clock.now(), testCase.timeZone);
+    if (!next) break;
+    actual.push(next.toISOString());
+    clock.set(next);
+  }
+
+  const passed = actual.join() === testCase.expected.join();
+  if (!passed) failures++;
+  console.log(`${passed ? 'PASS' : 'FAIL'} ${testCase.schedule}${testCase.timeZone ? ` (${testCase.timeZone})` : ''}`);
+  if (!passed) {
+    console.log(`  expected ${testCase.expected.join(', ')}`);
+    console.log(`  actual   ${actual.join(', ')}`);
+  }
+}
+
+// Clock-driven matching: advance a minute at a time across one hour
+const clock = new TestClock('2024-03-15T09:00:00Z');
+const quarterHourly = parseCron('*/15 * * * *');
+let matches = 0;
+for (let i = 0; i < 60; i++) {
+  if (matchesCron(quarterHourly, clock.now())) matches++;
+  clock.advance({ minutes: 1 });
+}
+console.log(`${matches === 4 ? 'PASS' : 'FAIL'} */15 matches 4 times an hour (got ${matches})`);
+if (matches !== 4) failures++;
+
+// Malformed expressions are rejected
+for (const invalid of ['0 9 * *', '60 * * * *', '0 9-5 * * *', '*/0 * * * *', '0 9 * * FUNDAY']) {
+  let threw = false;
+  try {
+    parseCron(invalid);
+  } catch (error) {
+    threw = true;
+  }
+  console.log(`${threw ? 'PASS' : 'FAIL'} rejects "${invalid}"`);
+  if (!threw) failures++;
+}
+
+if (nextCronRun('0 0 30 2 *', new Date('2024-01-01T00:00:00Z')) !== null) {
+  console.log('FAIL "0 0 30 2 *" should never fire');
+  failures++;
+} else {
+  console.log('PASS "0 0 30 2 *" never fires');
+}
+
+console.log(failures === 0 ? '\nAll cron schedule checks passed' : `\n${failures} cron schedule check(s) failed`);
@@ -0,0 +1,96 @@
+import {
+  EntityResolver,
+  type CanonicalEntity,
+  type EntityMention,
+  type MeetingContext,
+} from './lib/services/entity-resolution';
+import { check, finish } from './test-fixtures/check';
+
+// Usage: npx tsx test-entity-resolution.ts
+// Resolves mentions from a handful of meetings against a small catalog and
+// checks which ones link, which are left for review and which start new
+// entities.
+
+const catalog: CanonicalEntity[] = [
+  { id: 'emp-michael-johnson', type: 'person', name: 'Michael Johnson', aliases: [], email: 'mjohnson@alleato.com', linkedTable: 'employees', linkedId: 'e1', projectIds: ['harbor-view'] },
+  { id: 'emp-michael-chen', type: 'person', name: 'Michael Chen', aliases: [], email: 'mchen@alleato.com', linkedTable: 'employees', linkedId: 'e2', projectIds: [] },
+  { id: 'emp-sarah-lee', type: 'person', name: 'Sarah Lee', aliases: [], email: 'slee@alleato.com', linkedTable: 'employees', linkedId: 'e3', projectIds: [] },
+  { id: 'sub-delta', type: 'subcontractor', name: 'Delta Mechanical Inc.', aliases: [], linkedTable: 'subcontractors', linkedId: 's1', projectIds: ['harbor-view'] },
+  { id: 'client-harbor', type: 'client', name: 'Harbor Holdings LLC', aliases: [], linkedTable: 'clients', linkedId: 'c1', projectIds: [] },
+];
+
+const contexts = new Map<string, MeetingContext>([
+  ['oac-14', { participants: ['Michael Johnson <mjohnson@alleato.com>', 'Sarah Lee'], projectId: 'harbor-view' }],
+  ['two-mikes', { participants: ['mjohnson@alleato.com', 'mchen@alleato.com'] }],
+  ['site-walk', { participants: ['Sarah Lee'] }],
+]);
+
+function resolve(mentions: Omit<EntityMention, 'id'>[]) {
+  let next = 0;
+  const withIds = mentions.map((mention, i) => ({ ...mention, id: `m${i}` }));
+  const result = new EntityResolver(catalog).resolve(withIds, contexts, () => `new-${++next}`);
+  const byValue = (value: string, meetingId?: string) => {
+    const index = withIds.findIndex(mention => mention.value === value && (!meetingId || mention.meetingId === meetingId));
+    return result.resolutions[index];
+  };
+  return { result, byValue };
+}
+
+// Spellings of an attending employee all land on the employee record
+const people = resolve([
+  { meetingId: 'oac-14', type: 'person', value: 'Mike' },
+  { meetingId: 'oac-14', type: 'person', value: 'Mike Johnson' },
+  { meetingId: 'oac-14', type: 'person', value: 'M. Johnson' },
+  { meetingId: 'oac-14', type: 'person', value: 'Michael Jonson' },
+  { meetingId: 'two-mikes', type: 'person', value: 'Mike' },
+  { meetingId: 'site-walk', type: 'person', value: 'Dave' },
+  { meetingId: 'site-walk', type: 'person', value: 'Priya Natarajan' },
+]);
+
+for (const value of ['Mike', 'Mike Johnson', 'M. Johnson', 'Michael Jonson']) {
+  const resolution = people.byValue(value, 'oac-14');
+  check(`"${value}" links to Michael Johnson`, [resolution.status, resolution.entityId], ['linked', 'emp-michael-johnson']);
+}
+
+// Two Mikes in the room: a person has to pick
+const twoMikes = people.byValue('Mike', 'two-mikes');
+check('"Mike" with two Michaels attending is ambiguous', twoMikes.status, 'ambiguous');
+check('both Michaels are offered', twoMikes.candidates.map(c => c.entityId).sort(), ['emp-michael-chen', 'emp-michael-johnson']);
+
+// A lone first name with nobody to match stays unresolved rather than becoming an entity
+check('"Dave" with no candidates is unresolved', people.byValue('Dave').status, 'unresolved');
+
+// A full name not on file starts a new entity
+const priya = people.byValue('Priya Natarajan');
+check('an unknown full name creates an entity', [priya.status, priya.entityId], ['created', 'new-1']);
+check('only the unknown full name was created', people.result.created.map(entity => entity.name), ['Priya Natarajan']);
+check(
+  'linked spellings become aliases',
+  people.result.updated.find(entity => entity.id === 'emp-michael-johnson')?.aliases.sort(),
+  ['M. Johnson', 'Michael Jonson', 'Mike Johnson']
+);
+
+// Companies match without legal suffixes and through small typos
+const companies = resolve([
+  { meetingId: 'oac-14', type: 'subcontractor', value: 'Delta Mechanical' },
+  { meetingId: 'site-walk', type: 'subcontractor', value: 'Delta Mechanicl Inc' },
+  { meetingId: 'oac-14', type: 'client', value: 'Harbor Holdings' },
+  { meetingId: 'site-walk', type: 'subcontractor', value: 'Delta Electric' },
+  { meetingId: 'site-walk', type: 'client', value: 'Delta Mechanical' },
+]);
+
+check('suffix dropped: "Delta Mechanical" links', companies.byValue('Delta Mechanical', 'oac-14').entityId, 'sub-delta');
+check('typo: "Delta Mechanicl Inc" links', companies.byValue('Delta Mechanicl Inc').entityId, 'sub-delta');
+check('"Harbor Holdings" links to the LLC', companies.byValue('Harbor Holdings').entityId, 'client-harbor');
+check('a different company is a new entity', companies.byValue('Delta Electric').status, 'created');
+check('types never cross: a client named like a sub is new', companies.byValue('Delta Mechanical', 'site-walk').status, 'created');
+
+// The same unknown name twice in a batch is one entity
+const repeated = resolve([
+  { meetingId: 'site-walk', type: 'person', value: 'Priya Natarajan' },
+  { meetingId: 'oac-14', type: 'person', value: 'Priya Natarajan' },
+]);
+check('a repeated new name is created once', repeated.result.created.length, 1);
+check('the repeat links to it', repeated.result.resolutions.map(r => r.entityId), ['new-1', 'new-1']);
+
+finish('entity resolution');
@@ -0,0 +1,151 @@
+import { readFileSync } from 'fs';
+import {
+  DEFAULT_ENTITY_RULES,
+  IDENTIFIER_ENTITY_TYPES,
+  compileEntityRules,
+  findBacktrackingRisk,
+  identifierKey,
+  validateEntityRuleConfig,
+  type EntityRuleConfig,
+  type EntityRuleSet,
+  type EntityType,
+} from './lib/services/entity-rules';
+import { SmartChunkingService } from './lib/services/smart-chunking';
+import {
+  CONSTRUCTION_ENTITY_CORPUS,
+  CONSTRUCTION_ENTITY_TYPES,
+  HELD_OUT_ENTITY_CORPUS,
+  type LabelledDocument,
+} from './test-fixtures/construction-entity-corpus';
+import { check, fail, finish } from './test-fixtures/check';
+
+// Usage: npx tsx test-entity-rules.ts [path/to/tenant-rules.json]
+// Scores the default rules, or a tenant's rule config, against the labelled
+// construction corpus and fails below the precision/recall floors. Scores
+// on the held-out corpus, which was never used to tune the rules, are only
+// reported: they estimate how the rules do on new meetings.
+
+const MIN_PRECISION = 0.9;
+const MIN_RECALL = 0.9;
+
+function entityKey(type: EntityType, value: string): string {
+  return IDENTIFIER_ENTITY_TYPES.has(type) ? identifierKey(value) : value.toLowerCase().trim();
+}
+
+function extract(rules: EntityRuleSet, text: string): Map<string, { value: string }[]> {
+  return new SmartChunkingService({ encoding: 'estimate' }, undefined, { entityRules: rules }).extractEntities(text);
+}
+
+/**
+ * Per-type true positives, false positives and false negatives over a corpus
+ */
+function score(rules: EntityRuleSet, corpus: LabelledDocument[]) {
+  const results = new Map<EntityType, { tp: number; fp: string[]; fn: string[] }>(
+    CONSTRUCTION_ENTITY_TYPES.map(type => [type, { tp: 0, fp: [], fn: [] }])
+  );
+
+  for (const document of corpus) {
+    const extracted = extract(rules, document.text);
+
+    for (const type of CONSTRUCTION_ENTITY_TYPES) {
+      const result = results.get(type)!;
+      const expected = new Map(document.entities
+        .filter(entity => entity.type === type)
+        .map(entity => [entityKey(type, entity.value), entity.value]));
+      const predicted = new Map((extracted.get(type) || [])
+        .map(entity => [entityKey(type, entity.value), entity.value]));
+
+      for (const [key, value] of predicted) {
+        if (expected.has(key)) result.tp++;
+        else result.fp.push(`${document.id}: ${value}`);
+      }
+      for (const [key, value] of expected) {
+        if (!predicted.has(key)) result.fn.push(`${document.id}: ${value}`);
+      }
+    }
+  }
+  return results;
+}
+
+const configPath = process.argv[2];
+let rules = DEFAULT_ENTITY_RULES;
+if (configPath) {
+  const config = JSON.parse(readFileSync(configPath, 'utf8')) as EntityRuleConfig;
+  const invalid = validateEntityRuleConfig(config);
+  if (invalid) throw new Error(invalid);
+  rules = compileEntityRules(config);
+}
+
+/**
+ * Print the per-type scores; with floors, counts a failure for each type below them
+ */
+function report(label: string, corpus: LabelledDocument[], floors?: { precision: number; recall: number }) {
+  console.log(`Scoring ${configPath || 'default rules'} against ${corpus.length} ${label} documents\n`);
+  console.log('type           precision  recall   tp  fp  fn');
+
+  for (const [type, { tp, fp, fn }] of score(rules, corpus)) {
+    const precision = tp + fp.length > 0 ? tp / (tp + fp.length) : 1;
+    const recall = tp + fn.length > 0 ? tp / (tp + fn.length) : 1;
+    console.log(`${type.padEnd(14)} ${precision.toFixed(2).padStart(9)} ${recall.toFixed(2).padStart(7)} ${String(tp).padStart(4)} ${String(fp.length).padStart(3)} ${String(fn.length).padStart(3)}`);
+    fp.forEach(value => console.log(`    false positive  ${value}`));
+    fn.forEach(value => console.log(`    missed          ${value}`));
+    if (floors && (precision < floors.precision || recall < floors.recall)) fail();
+  }
+  console.log('');
+}
+
+report('labelled', CONSTRUCTION_ENTITY_CORPUS, { precision: MIN_PRECISION, recall: MIN_RECALL });
+report('held-out', HELD_OUT_ENTITY_CORPUS);
+
+// Config validation lists every problem
+check('rejects an invalid config', validateEntityRuleConfig({ rules: [{ type: 'invoice', pattern: '(', confidence: 2 }] })?.split('; ').length, 3);
+check('accepts a valid config', validateEntityRuleConfig({ rules: [{ type: 'rfi', pattern: 'RFI (\\d+)', confidence: 0.9 }] }), null);
+check('checks patterns with their own flags', validateEntityRuleConfig({ rules: [{ type: 'rfi', pattern: '\\-(\\w+)', flags: 'u', confidence: 0.9 }] })?.includes('invalid pattern'), true);
+check('rejects repeated flags', validateEntityRuleConfig({ rules: [{ type: 'rfi', pattern: 'RFI (\\d+)', flags: 'ii', confidence: 0.9 }] }), 'rules[0]: flags may not repeat');
+check('accepts flags that already include g', validateEntityRuleConfig({ rules: [{ type: 'rfi', pattern: 'RFI (\\d+)', flags: 'gi', confidence: 0.9 }] }), null);
+
+// Patterns that could hang extraction on a long transcript are refused
+const risky = ['(a+)+$', '^(\\w+\\s?)*$', '(a|ab)*c', '(x{2,})+', '(\\w)\\1', 'a'.repeat(501)];
+check(
+  'rejects patterns that can backtrack catastrophically',
+  risky.map(pattern => validateEntityRuleConfig({ rules: [{ type: 'rfi', pattern, confidence: 0.9 }] })?.includes('backtrack catastrophically') || false),
+  risky.map(() => true)
+);
+check('accepts bounded and optional groups', findBacktrackingRisk('\\b(ASI\\s*(?:#|No\\.)?\\s*\\d{1,3}(?:[-.]\\d+)?)\\b'), null);
+check('a character class is not a group', findBacktrackingRisk('([(|+]\\d)+'), null);
+
+// Tenant rules extend the defaults; disabled types are dropped
+const tenantRules = compileEntityRules({
+  disable: ['client'],
+  rules: [{ type: 'change_order', pattern: '\\b(ASI\\s*#?\\s*\\d{1,3})\\b', flags: 'i', confidence: 0.9 }],
+});
+const tenantEntities = extract(tenantRules, 'ASI #4 revises the lobby ceiling; Change Order 9 covers it for client Harbor Holdings.');
+check('tenant rule adds to the defaults', (tenantEntities.get('change_order') || []).map(entity => entity.value).sort(), ['ASI #4', 'Change Order 9']);
+check('disabled types are not extracted', tenantEntities.has('client'), false);
+
+const onlyTenant = compileEntityRules({
+  extendDefaults: false,
+  rules: [{ type: 'rfi', pattern: 'RFI (\\d+)', confidence: 1, group: 0 }],
+});
+check('extendDefaults: false uses only the tenant rules', Object.keys(onlyTenant), ['rfi']);
+
+// Capitalised times, places and big-name companies next to a trade or suffix
+check(
+  'no subcontractors in ordinary speech',
+  extract(DEFAULT_ENTITY_RULES, 'Tomorrow Concrete pour. Friday Steel delivery. North Wing Drywall is hung. Log in with Google Inc. accounts. Apple Services sent tablets. The Company Group met.').get('subcontractor') || [],
+  []
+);
+check(
+  'compass words still start a name',
+  (extract(DEFAULT_ENTITY_RULES, 'North Star Electric pulled wire on Monday. Harbor Group priced the scope at cost.').get('subcontractor') || []).map(entity => entity.value),
+  ['North Star Electric', 'Harbor Group']
+);
+
+// Identifiers one digit apart are different entities
+check(
+  'RFI 23 and RFI 24 are not merged',
+  (extract(DEFAULT_ENTITY_RULES, 'RFI 23 and RFI 24 are open; RFI #23 is urgent.').get('rfi') || []).map(entity => entity.value),
+  ['RFI 23', 'RFI 24']
+);
+
+finish('entity rule');
@@ -0,0 +1,22 @@
+// Assertions shared by the root test scripts: each check prints PASS or
+// FAIL, and finish() prints the tally and sets the exit code
+
+let failures = 0;
+
+export function check(name: string, actual: unknown, expected: unknown) {
+  const ok = JSON.stringify(actual) === JSON.stringify(expected);
+  console.log(`${ok ? 'PASS' : 'FAIL'} ${name}${ok ? '' : ` (expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)})`}`);
+  if (!ok) failures++;
+}
+
+/**
+ * Count a failure found outside check(), e.g. a score below its floor
+ */
+export function fail() {
+  failures++;
+}
+
+export function finish(label: string) {
+  console.log(failures === 0 ? `\nAll ${label} checks passed` : `\n${failures} ${label} check(s) failed`);
+  process.exitCode = failures === 0 ? 0 : 1;
+}
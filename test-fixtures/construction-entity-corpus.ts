@@ -0,0 +1,205 @@
+import type { EntityType } from '../lib/services/entity-rules';
+
+// Meeting excerpts labelled with every construction entity a person would
+// pull out of them. Values are the exact text a rule should capture; for
+// permits that is the permit number alone.
+
+export interface LabelledEntity {
+  type: EntityType;
+  value: string;
+}
+
+export interface LabelledDocument {
+  id: string;
+  text: string;
+  entities: LabelledEntity[];
+}
+
+export const CONSTRUCTION_ENTITY_TYPES: EntityType[] = [
+  'rfi', 'submittal', 'change_order', 'permit', 'spec_section', 'amount', 'subcontractor',
+];
+
+export const CONSTRUCTION_ENTITY_CORPUS: LabelledDocument[] = [
+  {
+    id: 'oac-weekly-14',
+    text: `[0:00] John Smith: Let's start with the RFI log. RFI #23 on the canopy steel connections is still open with the structural engineer.
+[0:40] Sarah Johnson: RFI 24 came back this morning, the answer moves the roof drain. That will turn into a change order.
+[1:15] John Smith: How much?
+[1:20] Sarah Johnson: Delta Mechanical Inc. priced it at $18,450 including the extra cleanouts.
+[2:05] Mike Chen: Submittal 14 for the storefront is approved as noted. Submittal 15 for the hardware sets is in review.`,
+    entities: [
+      { type: 'rfi', value: 'RFI #23' },
+      { type: 'rfi', value: 'RFI 24' },
+      { type: 'amount', value: '$18,450' },
+      { type: 'subcontractor', value: 'Delta Mechanical Inc.' },
+      { type: 'submittal', value: 'Submittal 14' },
+      { type: 'submittal', value: 'Submittal 15' },
+    ],
+  },
+  {
+    id: 'permit-coordination',
+    text: `[0:00] Mike Chen: The electrical permit is still pending. Permit #E24-5567 needs revised panel schedules before the city signs off.
+[0:30] Sarah Johnson: The building permit BLD-2024-01234 was issued Friday, so framing inspections can be booked.
+[1:10] Mike Chen: Bright Line Electric will resubmit the drawings Monday.
+[1:40] John Smith: Keep the permit set and the RFI responses in the same folder please.`,
+    entities: [
+      { type: 'permit', value: 'E24-5567' },
+      { type: 'permit', value: 'BLD-2024-01234' },
+      { type: 'subcontractor', value: 'Bright Line Electric' },
+    ],
+  },
+  {
+    id: 'spec-review',
+    text: `[0:00] Sarah Johnson: The architect flagged the gypsum board assemblies, Section 09 21 16, against the acoustic requirements.
+[0:45] John Smith: And the sealants in 07 92 00 need the low VOC product.
+[1:20] Mike Chen: Our drywall sub, Summit Interiors, wants to substitute the board. That goes in as submittal 09 21 16-3.
+[2:00] Sarah Johnson: Spec 033000 for the slab allows the substitution of the curing compound, no submittal needed there.`,
+    entities: [
+      { type: 'spec_section', value: '09 21 16' },
+      { type: 'spec_section', value: '07 92 00' },
+      { type: 'subcontractor', value: 'Summit Interiors' },
+      { type: 'submittal', value: 'submittal 09 21 16-3' },
+      { type: 'spec_section', value: '033000' },
+    ],
+  },
+  {
+    id: 'budget-review',
+    text: `[0:00] John Smith: Change Order 7 for the lobby finishes came in at $42,300. The owner approved CO #6 last week.
+[0:50] Sarah Johnson: PCO-4 for the added site lighting is about $12.5k, still waiting on pricing from the electrician.
+[1:30] John Smith: Contingency is down to 96,000 dollars after those.
+[2:10] Sarah Johnson: We also carry an allowance of $1.2M for the tenant fit-out.
+[2:40] Mike Chen: Monitoring on level two shows CO2 within limits, so the temporary ventilation can come down.`,
+    entities: [
+      { type: 'change_order', value: 'Change Order 7' },
+      { type: 'amount', value: '$42,300' },
+      { type: 'change_order', value: 'CO #6' },
+      { type: 'change_order', value: 'PCO-4' },
+      { type: 'amount', value: '$12.5k' },
+      { type: 'amount', value: '96,000 dollars' },
+      { type: 'amount', value: '$1.2M' },
+    ],
+  },
+  {
+    id: 'site-logistics',
+    text: `[0:00] Mike Chen: The concrete pour for the level two slab is booked for Tuesday at 6:30.
+[0:20] John Smith: Who is the concrete sub?
+[0:25] Mike Chen: Keystone Concrete, and Apex Steel Contractors have the rebar.
+[1:00] Sarah Johnson: The crane is on site until the 14th. Nothing else to report on logistics, and no open RFIs for this area.`,
+    entities: [
+      { type: 'subcontractor', value: 'Keystone Concrete' },
+      { type: 'subcontractor', value: 'Apex Steel Contractors' },
+    ],
+  },
+  {
+    id: 'closeout',
+    text: `[0:00] Sarah Johnson: For closeout we still need O&M manuals from Northside Plumbing and Vega Fire Protection.
+[0:40] John Smith: RFI No. 31 about the fire damper access panels is the last open RFI.
+[1:10] Sarah Johnson: Retention is $215,000 and releases when the punch list is done.
+[1:45] Mike Chen: The final change order, COR 12, reconciles the allowances.`,
+    entities: [
+      { type: 'subcontractor', value: 'Northside Plumbing' },
+      { type: 'subcontractor', value: 'Vega Fire Protection' },
+      { type: 'rfi', value: 'RFI No. 31' },
+      { type: 'amount', value: '$215,000' },
+      { type: 'change_order', value: 'COR 12' },
+    ],
+  },
+  {
+    id: 'owner-meeting',
+    text: `[0:00] John Smith: The Harbor View Project is tracking two weeks behind on the envelope.
+[0:30] Sarah Johnson: The glazing delay is the storefront submittal. Clearview Glazing resubmitted it as Submittal #22.1 yesterday.
+[1:00] John Smith: The owner asked about the remaining budget for the plaza. We have $380k left there.
+[1:30] Sarah Johnson: And permit number GRD-22-889 for the plaza grading is approved.`,
+    entities: [
+      { type: 'subcontractor', value: 'Clearview Glazing' },
+      { type: 'submittal', value: 'Submittal #22.1' },
+      { type: 'amount', value: '$380k' },
+      { type: 'permit', value: 'GRD-22-889' },
+    ],
+  },
+  {
+    id: 'preconstruction',
+    text: `[0:00] Sarah Johnson: Bids for the roofing package are due March 3rd. Summit Roofing and Peak Roofing Company are both bidding.
+[0:45] John Smith: The roofing spec, section 07 54 23, calls for a 20 year warranty.
+[1:20] Mike Chen: Our estimate for roofing is 410,000 dollars. The Allied Mechanical Group number came in high on HVAC.`,
+    entities: [
+      { type: 'subcontractor', value: 'Summit Roofing' },
+      { type: 'subcontractor', value: 'Peak Roofing Company' },
+      { type: 'spec_section', value: '07 54 23' },
+      { type: 'amount', value: '410,000 dollars' },
+      { type: 'subcontractor', value: 'Allied Mechanical Group' },
+    ],
+  },
+  // Capitalised words next to a trade or company suffix that aren't subs
+  {
+    id: 'schedule-negatives',
+    text: `[0:00] Mike Chen: Tomorrow Concrete pour is weather dependent, so keep the pump on standby.
+[0:30] Sarah Johnson: Friday Steel delivery moves to Monday because of the road closure.
+[1:00] John Smith: North Wing Drywall is ninety percent hung; taping starts next week.
+[1:30] Mike Chen: Level Three Electrical rough-in passed inspection this morning.`,
+    entities: [],
+  },
+  {
+    id: 'vendor-negatives',
+    text: `[0:00] Sarah Johnson: The owner's IT team wants the access control tied to their Google Inc. accounts, not ours.
+[0:40] John Smith: Apple Services handles the tablets for the field team.
+[1:10] Mike Chen: The Company Group meeting with the owner moved to Thursday.
+[1:40] Sarah Johnson: Building Services will need a set of keys before turnover.`,
+    entities: [],
+  },
+];
+
+// Written without looking at rule output and never used to tune the rules;
+// scores here estimate how the rules do on new meetings
+export const HELD_OUT_ENTITY_CORPUS: LabelledDocument[] = [
+  {
+    id: 'held-out-coordination',
+    text: `[0:00] Priya Patel: Ironwood Framing starts the second floor walls Monday.
+[0:30] Tom Reyes: Next Monday Steel inspection is with the city, so keep the east side clear.
+[0:50] Priya Patel: Cascade Electrical Services sent the lighting quote this morning, $64,200 with fixtures.
+[1:20] Tom Reyes: South Tower Glazing mockup is up; the architect visits Thursday about RFI 88.`,
+    entities: [
+      { type: 'subcontractor', value: 'Ironwood Framing' },
+      { type: 'subcontractor', value: 'Cascade Electrical Services' },
+      { type: 'amount', value: '$64,200' },
+      { type: 'rfi', value: 'RFI 88' },
+    ],
+  },
+  {
+    id: 'held-out-bids',
+    text: `[0:00] Dana Lee: We got three bids for the masonry package: Redstone Masonry, Oakline Builders LLC and Hanson Brothers Inc.
+[0:45] Tom Reyes: Hanson is cheapest but their crew is thin.
+[1:10] Dana Lee: Microsoft Teams links for the bid review went out yesterday.
+[1:40] Tom Reyes: The Owner Group asked for the bid tabulation by Friday.`,
+    entities: [
+      { type: 'subcontractor', value: 'Redstone Masonry' },
+      { type: 'subcontractor', value: 'Oakline Builders LLC' },
+      { type: 'subcontractor', value: 'Hanson Brothers Inc.' },
+    ],
+  },
+  {
+    id: 'held-out-closeout',
+    text: `[0:00] Priya Patel: Punch walk for the East Wing Flooring is Wednesday afternoon.
+[0:30] Dana Lee: Bluewater Plumbing & Heating still owes the warranty letter for submittal 22 05 00-1.
+[1:00] Priya Patel: Retainage for Granite State Concrete Co. releases after their punch list.
+[1:30] Dana Lee: Afternoon Roofing inspection got cancelled because of rain.`,
+    entities: [
+      { type: 'subcontractor', value: 'Bluewater Plumbing & Heating' },
+      { type: 'submittal', value: 'submittal 22 05 00-1' },
+      { type: 'subcontractor', value: 'Granite State Concrete Co.' },
+    ],
+  },
+  {
+    id: 'held-out-mixed',
+    text: `[0:00] Tom Reyes: Our electrical sub, Voltline, is short two journeymen this week.
+[0:40] Dana Lee: Metro Fire Protection finished the sprinkler rough-in on four under permit #FP-2291.
+[1:10] Tom Reyes: Tuesday Excavation work was pushed by the utility locate.
+[1:40] Dana Lee: Amazon Services delivered the site trailer furniture; change order 19 covers it.`,
+    entities: [
+      { type: 'subcontractor', value: 'Voltline' },
+      { type: 'subcontractor', value: 'Metro Fire Protection' },
+      { type: 'permit', value: 'FP-2291' },
+      { type: 'change_order', value: 'change order 19' },
+    ],
+  },
+];
@@ -0,0 +1,53 @@
+import { readFileSync } from 'node:fs';
+
+// A D1Database over an in-memory node:sqlite database (Node 22+), enough
+// for the prepare/bind/first/all/run/batch calls the stores make
+
+type Param = string | number | bigint | null | Uint8Array;
+
+// The parts of node:sqlite used here; @types/node 20 doesn't describe it
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): {
+    get(...params: Param[]): unknown;
+    all(...params: Param[]): unknown[];
+    run(...params: Param[]): { changes: number | bigint; lastInsertRowid: number | bigint };
+  };
+}
+
+function toParam(value: unknown): Param {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.toISOString();
+  return value as Param;
+}
+
+export function sqliteD1(): { db: D1Database; sqlite: SqliteDatabase; migrate: (file: string) => void } {
+  const { DatabaseSync } = require('node:sqlite');
+  const sqlite: SqliteDatabase = new DatabaseSync(':memory:');
+
+  const statement = (sql: string, params: Param[] = []) => ({
+    bind: (...values: unknown[]) => statement(sql, values.map(toParam)),
+    first: async (column?: string) => {
+      const row = sqlite.prepare(sql).get(...params) as Record<string, unknown> | undefined;
+      if (!row) return null;
+      return column ? row[column] : row;
+    },
+    all: async () => ({ results: sqlite.prepare(sql).all(...params), success: true, meta: {} }),
+    run: async () => {
+      const info = sqlite.prepare(sql).run(...params);
+      return { results: [], success: true, meta: { changes: Number(info.changes), last_row_id: Number(info.lastInsertRowid) } };
+    },
+  });
+
+  const db = {
+    prepare: (sql: string) => statement(sql),
+    batch: async (statements: Array<ReturnType<typeof statement>>) => Promise.all(statements.map(s => s.run())),
+    exec: async (sql: string) => {
+      sqlite.exec(sql);
+      return { count: 0, duration: 0 };
+    },
+  } as unknown as D1Database;
+
+  return { db, sqlite, migrate: (file: string) => sqlite.exec(readFileSync(file, 'utf8')) };
+}
@@ -0,0 +1,164 @@
+import { FakeLLMProvider, type LLMProvider } from './src/lib/agents/llm-provider';
+import { MeetingIntelligenceAgent } from './src/lib/agents/meeting-intelligence-agent';
+import type { AgentContext } from './src/lib/agents/message-bus';
+import { buildAnalysisWindows } from './src/lib/agents/transcript-map-reduce';
+import { check, finish } from './test-fixtures/check';
+
+// Usage: npx tsx test-meeting-intelligence.ts
+// Drives MeetingIntelligenceAgent through FakeLLMProvider: every extractor
+// gets a canned reply, including ones that need repairing or a retry
+
+const transcript = `[0:00] Sarah Johnson: We decided to go with the precast panels for the east elevation.
+[0:40] Mike Chen: I'll send the revised panel drawings to the architect by Friday.
+[1:10] Sarah Johnson: The crane permit is still not issued. If it slips we lose the pour window.`;
+
+function fakeProvider() {
+  return new FakeLLMProvider()
+    // Not JSON at all: the model is asked again with the error
+    .on('extract all action items',
+      'Sure! Mike is sending the drawings on Friday.',
+      // Fenced, with a trailing comma and a lower-case first name: repaired locally
+      '```json\n{"actionItems": [{"description": "Send revised panel drawings to the architect", "owner": "mike", "dueDate": "2024-03-15", "priority": "HIGH"},]}\n```'
+    )
+    .on('Identify key decisions',
+      '{"decisions": [{"description": "Use precast panels on the east elevation", "impact": "high", "stakeholders": ["Sarah Johnson"]}]}'
+    )
+    // Schema mismatch first (unknown severity), then a valid reply
+    .on('Identify any risks',
+      '{"risks": [{"description": "Crane permit not issued", "severity": "urgent"}]}',
+      '{"risks": [{"description": "Crane permit not issued; pour window at risk", "severity": "critical", "mitigation": null, "owner": "Sarah Johnson"}]}'
+    )
+    .on('overall sentiment', '{"sentiment": "Neutral"}')
+    .on('executive summary', 'The summary: {"summary": "Precast panels chosen; crane permit is the main risk."}')
+    .on('key topics', '{"topics": ["Precast panels", "Crane permit"]}')
+    .on('next steps agreed', '{"nextSteps": ["Follow up with the city on the crane permit"]}');
+}
+
+async function main() {
+  const provider = fakeProvider();
+  const published: Array<[string, any]> = [];
+  const context: AgentContext = {
+    correlationId: 'test-chain',
+    publish: (topic, payload) => { published.push([topic, payload]); },
+  };
+
+  const agent = new MeetingIntelligenceAgent({ provider, mode: 'single' });
+  const insights = await agent.analyzeMeeting({
+    meetingId: 'meeting-1',
+    transcript,
+    title: 'OAC Meeting 14',
+    participants: ['Sarah Johnson', 'Mike Chen'],
+  }, context);
+
+  check('action item parsed after a retry and local repair', insights.actionItems.map(item => [item.description, item.priority, item.dueDate]), [
+    ['Send revised panel drawings to the architect', 'high', '2024-03-15'],
+  ]);
+  check('owner matched to a participant', insights.actionItems[0]?.owner, 'Mike Chen');
+  check('decision extracted', insights.decisions.map(decision => [decision.description, decision.impact]), [
+    ['Use precast panels on the east elevation', 'high'],
+  ]);
+  check('risk accepted once it matches the schema', insights.risks.map(risk => [risk.severity, risk.owner, risk.mitigation]), [
+    ['critical', 'Sarah Johnson', undefined],
+  ]);
+  check('sentiment normalised', insights.sentiment, 'neutral');
+  check('summary pulled out of surrounding prose', insights.summary, 'Precast panels chosen; crane permit is the main risk.');
+  check('topics and next steps', [insights.keyTopics, insights.nextSteps], [
+    ['Precast panels', 'Crane permit'],
+    ['Follow up with the city on the crane permit'],
+  ]);
+  check('analysed in a single pass', insights.analysisMode, 'single');
+
+  // Retries: the bad action-item and risk replies each cost one extra call
+  const prompts = provider.calls.map(call => call.prompt);
+  const actionCalls = prompts.filter(prompt => prompt.includes('extract all action items'));
+  const riskCalls = prompts.filter(prompt => prompt.includes('Identify any risks'));
+  check('one retry for the non-JSON reply', actionCalls.length, 2);
+  check('the retry quotes the error', actionCalls[1]?.includes('Reply was not valid JSON'), true);
+  check('one retry for the schema mismatch', riskCalls.length, 2);
+  check('the retry names the bad field', riskCalls[1]?.includes('risks.0.severity'), true);
+  check('every request asks for JSON', provider.calls.every(call => call.json === true), true);
+  check('seven extractors, two retries', provider.calls.length, 9);
+
+  check('critical risks are published', published.map(([topic, payload]) => [topic, payload.meetingId, payload.risks.length]), [
+    ['risk.critical', 'meeting-1', 1],
+  ]);
+
+  // A model that never produces usable JSON fails the task
+  const broken = new FakeLLMProvider('I cannot help with that.');
+  let error = '';
+  try {
+    await new MeetingIntelligenceAgent({ provider: broken, mode: 'single' }).execute({
+      id: 'task-2',
+      type: 'analyze',
+      data: { meetingId: 'meeting-2', transcript, title: 'Broken' },
+    });
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+  check('gives up after the repair attempts', [broken.calls.length, error.includes('after 3 attempts')], [3, true]);
+
+  // Usage: every call's tokens and cost end up in the result metadata
+  const replies = fakeProvider();
+  const billed: LLMProvider = {
+    name: 'billed',
+    complete: async request => ({
+      text: (await replies.complete(request)).text,
+      usage: { promptTokens: 100, completionTokens: 20, cost: 0.001 },
+    }),
+  };
+  const run = await new MeetingIntelligenceAgent({ provider: billed, mode: 'single' }).execute({
+    id: 'task-usage',
+    type: 'analyze',
+    data: { meetingId: 'meeting-5', transcript, title: 'Billed' },
+  });
+  check('tokens summed across calls and retries', run.metadata?.tokensUsed, replies.calls.length * 120);
+  check('cost summed across calls', run.metadata?.cost?.toFixed(4), (replies.calls.length * 0.001).toFixed(4));
+  const estimated = await new MeetingIntelligenceAgent({ provider: fakeProvider(), mode: 'single' }).execute({
+    id: 'task-estimated',
+    type: 'analyze',
+    data: { meetingId: 'meeting-6', transcript, title: 'Estimated' },
+  });
+  check('usage estimated when not reported, without a cost', [(estimated.metadata?.tokensUsed || 0) > 0, estimated.metadata?.cost], [true, undefined]);
+
+  // Map-reduce: sources point at chunks by a key that survives re-runs
+  const longTranscript = Array.from({ length: 24 }, (_, i) =>
+    `[${i}:00] ${i % 2 ? 'Sarah Johnson' : 'Mike Chen'}: Update ${i} on the level ${i} slab pour and the crane permit.`
+  ).join('\n');
+  const windowReply = (request: { prompt: string }) => {
+    const chunk = Number(request.prompt.match(/\[chunk (\d+)/)?.[1]);
+    return JSON.stringify({
+      actionItems: [],
+      decisions: [],
+      risks: [{ description: 'Crane permit not issued', severity: 'high', chunk }],
+      notes: `Part starting at chunk ${chunk}`,
+    });
+  };
+  const runMapReduce = async () => {
+    const mapProvider = fakeProvider().on('This is part', windowReply);
+    return new MeetingIntelligenceAgent({ provider: mapProvider, mode: 'map-reduce', windowTokens: 200 }).analyzeMeeting({
+      meetingId: 'meeting-3',
+      transcript: longTranscript,
+      title: 'Long meeting',
+    });
+  };
+  const first = await runMapReduce();
+  const second = await runMapReduce();
+  const sourceIds = (insights: typeof first) => insights.risks.flatMap(risk => (risk.sources || []).map(source => source.chunkId));
+  check('duplicate risks merged across windows', first.risks.length, 1);
+  check('sources use meeting and position', sourceIds(first).every(id => /^meeting-3:\d+$/.test(id)) && sourceIds(first).length > 1, true);
+  check('source ids are the same on a re-run', sourceIds(second), sourceIds(first));
+
+  // Stored meeting_chunks rows keep their own ids
+  const stored = await buildAnalysisWindows('', 200, {
+    meetingId: 'meeting-4',
+    storedChunks: [
+      { id: 'row-a', position: 0, content: 'Mike Chen: The slab pour is Tuesday.', speaker: 'Mike Chen', startTime: 0 },
+      { id: 'row-b', position: 1, content: 'Sarah Johnson: The crane permit is late.', speaker: 'Sarah Johnson', startTime: 30 },
+    ],
+  });
+  check('stored chunk ids are kept', stored.flatMap(window => window.chunks.map(chunk => chunk.id)), ['row-a', 'row-b']);
+
+  finish('meeting intelligence');
+}
+
+main();
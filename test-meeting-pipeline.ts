@@ -0,0 +1,117 @@
+import { FakeLLMProvider } from './src/lib/agents/llm-provider';
+import { AgentOrchestrator } from './src/lib/agents/orchestrator';
+import { sqliteD1 } from './test-fixtures/sqlite-d1';
+import { check, finish } from './test-fixtures/check';
+
+// Usage: npx tsx test-meeting-pipeline.ts (Node 22+, for node:sqlite)
+// Runs the data sync and meeting intelligence agents through the
+// orchestrator against SQLite: synced meeting ids are loaded from D1,
+// analysed and stored in meeting_insights
+
+const { db, sqlite, migrate } = sqliteD1();
+
+// Columns written by the ingestion workers
+sqlite.exec(`
+  CREATE TABLE system_metadata (key TEXT PRIMARY KEY, value TEXT, updated_at DATETIME DEFAULT CURRENT_TIMESTAMP);
+  CREATE TABLE meetings (
+    id TEXT PRIMARY KEY, title TEXT NOT NULL, date TEXT, participants TEXT, speakers TEXT,
+    searchable_text TEXT, created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE TABLE meeting_chunks (
+    id TEXT PRIMARY KEY, meeting_id TEXT NOT NULL, chunk_index INTEGER NOT NULL, content TEXT NOT NULL,
+    speaker TEXT, start_time INTEGER, token_count INTEGER
+  );
+`);
+for (const migration of ['add-agent-task-leasing', 'add-agent-messages', 'add-agent-metrics', 'add-agent-dead-letters', 'add-meeting-insights', 'add-notifications']) {
+  migrate(`migrations/${migration}.sql`);
+}
+
+const insertMeeting = sqlite.prepare(`INSERT INTO meetings (id, title, date, participants, speakers, searchable_text, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)`);
+const insertChunk = sqlite.prepare(`INSERT INTO meeting_chunks (id, meeting_id, chunk_index, content, speaker, start_time) VALUES (?, ?, ?, ?, ?, ?)`);
+
+// Already announced by an earlier sync
+sqlite.exec(`INSERT INTO system_metadata (key, value) VALUES ('data_sync_watermark', '2024-03-01 00:00:00')`);
+insertMeeting.run('old-meeting', 'February OAC', '2024-02-20', null, null, 'Mike Chen: Old business.', '2024-02-20 10:00:00');
+insertChunk.run('old-chunk', 'old-meeting', 0, 'Mike Chen: Old business.', 'Mike Chen', 0);
+
+// Ingested since: chunked, with an overlap line repeated in the second chunk
+insertMeeting.run('oac-14', 'OAC Meeting 14', '2024-03-12', '["Sarah Johnson", "Mike Chen"]', null, null, '2024-03-12 16:00:00');
+insertChunk.run('chunk-b', 'oac-14', 1, 'Mike Chen: I will send the panel drawings by Friday.\nSarah Johnson: The crane permit is still not issued.', 'Sarah Johnson', 40);
+insertChunk.run('chunk-a', 'oac-14', 0, 'Sarah Johnson: We are going with precast panels.\nMike Chen: I will send the panel drawings by Friday.', 'Sarah Johnson', 0);
+
+// Never chunked; only the scheduled sweep picks it up, from searchable_text
+insertMeeting.run('site-walk', 'Site walk', '2024-03-10', null, '["Dana Lee"]', 'Dana Lee: Guardrails are missing on level three.', '2024-03-10 09:00:00');
+
+const provider = new FakeLLMProvider()
+  .on('extract all action items', request => JSON.stringify({
+    actionItems: request.prompt.includes('panel drawings')
+      ? [{ description: 'Send panel drawings', owner: 'Mike Chen', priority: 'high' }]
+      : [{ description: 'Install guardrails on level three', owner: 'Dana Lee', priority: 'high' }],
+  }))
+  .on('Identify key decisions', '{"decisions": [{"description": "Use precast panels", "impact": "high", "stakeholders": []}]}')
+  .on('Identify any risks', '{"risks": [{"description": "Crane permit not issued", "severity": "high"}]}')
+  .on('overall sentiment', '{"sentiment": "neutral"}')
+  .on('executive summary', '{"summary": "Progress meeting."}')
+  .on('key topics', '{"topics": ["Panels"]}')
+  .on('next steps agreed', '{"nextSteps": []}');
+
+const insightRows = () => sqlite.prepare(`SELECT meeting_id, action_items FROM meeting_insights ORDER BY meeting_id`).all() as Array<{ meeting_id: string; action_items: string }>;
+const taskRows = (taskType: string) => sqlite.prepare(`SELECT status, result FROM processing_queue WHERE task_type = ? ORDER BY created_at, rowid`).all(taskType) as Array<{ status: string; result: string }>;
+
+async function main() {
+  const orchestrator = new AgentOrchestrator(db, { llm: provider });
+
+  // Sync announces the new meeting; the intelligence agent is chained off it
+  await orchestrator.queueTask('data-sync-agent', {});
+  await orchestrator.processQueue();
+
+  const sync = taskRows('agent:data-sync-agent');
+  check('sync announces only meetings past the watermark', sync.map(row => [row.status, JSON.parse(row.result).meetingIds]), [
+    ['completed', ['oac-14']],
+  ]);
+  check('watermark moved to the newest meeting',
+    (sqlite.prepare(`SELECT value FROM system_metadata WHERE key = 'data_sync_watermark'`).get() as { value: string }).value,
+    '2024-03-12 16:00:00');
+
+  const chained = taskRows('agent:meeting-intelligence-agent');
+  check('chained { meetingIds } task completes', chained.map(row => row.status), ['completed']);
+  check('chained task reports the analysed meeting', JSON.parse(chained[0]?.result || '{}').analysed?.map((meeting: any) => meeting.meetingId), ['oac-14']);
+  check('insights stored for the synced meeting', insightRows().map(row => row.meeting_id), ['oac-14']);
+  check('action items extracted from the stored chunks', JSON.parse(insightRows()[0]?.action_items || '[]').map((item: any) => [item.description, item.owner]), [
+    ['Send panel drawings', 'Mike Chen'],
+  ]);
+  const firstPrompt = provider.calls.find(call => call.prompt.includes('extract all action items'))?.prompt || '';
+  check('transcript rebuilt in chunk order without the overlap', [
+    firstPrompt.indexOf('precast panels') < firstPrompt.indexOf('crane permit'),
+    firstPrompt.split('panel drawings by Friday').length - 1,
+  ], [true, 1]);
+
+  const metrics = sqlite.prepare(`SELECT tokens_used FROM agent_metrics WHERE agent_name = 'meeting-intelligence-agent'`).get() as { tokens_used: number } | undefined;
+  check('token usage recorded in the agent metrics', (metrics?.tokens_used || 0) > 0, true);
+
+  // A second sync has nothing new to announce
+  await orchestrator.queueTask('data-sync-agent', {});
+  await orchestrator.processQueue();
+  check('nothing new on the next sync', JSON.parse(taskRows('agent:data-sync-agent')[1]?.result || '{}').meetingIds, []);
+  check('no task chained from an empty sync', taskRows('agent:meeting-intelligence-agent').length, 1);
+
+  // A manual run sweeps up meetings with no insights yet
+  await orchestrator.queueTask('meeting-intelligence-agent', { manual: true });
+  await orchestrator.processQueue();
+  const manual = taskRows('agent:meeting-intelligence-agent')[1];
+  check('manual run completes', manual?.status, 'completed');
+  check('manual run analyses the unanalysed meetings', JSON.parse(manual?.result || '{}').analysed?.map((meeting: any) => meeting.meetingId), ['site-walk', 'old-meeting']);
+  check('insights stored for every meeting', insightRows().map(row => row.meeting_id), ['oac-14', 'old-meeting', 'site-walk']);
+  const siteWalk = insightRows().find(row => row.meeting_id === 'site-walk');
+  check('unchunked meeting analysed from searchable_text with speakers as participants', JSON.parse(siteWalk?.action_items || '[]').map((item: any) => item.owner), ['Dana Lee']);
+
+  // Unknown ids are reported, not retried
+  await orchestrator.queueTask('meeting-intelligence-agent', { meetingIds: ['no-such-meeting'] });
+  await orchestrator.processQueue();
+  const unknown = taskRows('agent:meeting-intelligence-agent')[2];
+  check('unknown meeting ids are reported as missing', [unknown?.status, JSON.parse(unknown?.result || '{}').missing], ['completed', ['no-such-meeting']]);
+
+  finish('meeting pipeline');
+}
+
+main();
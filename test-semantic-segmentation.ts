@@ -0,0 +1,74 @@
+import { findTopicBoundaries, topicKeywords } from './lib/services/semantic-segmentation';
+import { SmartChunkingService } from './lib/services/smart-chunking';
+import { check, finish } from './test-fixtures/check';
+
+// Usage: npx tsx test-semantic-segmentation.ts
+// Uses a bag-of-words embedder so boundaries are deterministic
+
+const DIMENSIONS = 256;
+
+async function bagOfWordsEmbedder(texts: string[]): Promise<number[][]> {
+  return texts.map(text => {
+    const vector = new Array(DIMENSIONS).fill(0);
+    for (const word of text.toLowerCase().match(/[a-z]{4,}/g) || []) {
+      let hash = 0;
+      for (let i = 0; i < word.length; i++) hash = (hash * 31 + word.charCodeAt(i)) % DIMENSIONS;
+      vector[hash] += 1;
+    }
+    return vector;
+  });
+}
+
+// Three topics, six turns each, no headers
+const turns = [
+  'John Smith: The concrete pour for the level two slab is booked for Tuesday morning.',
+  'Sarah Johnson: Concrete trucks need the east gate open, the pump arrives at six.',
+  'John Smith: Slab rebar inspection passed, so the pour can go ahead Tuesday.',
+  'Mike Chen: Weather looks dry, the concrete cure should be fine for the slab.',
+  'Sarah Johnson: We ordered extra concrete in case the slab edge forms move.',
+  'John Smith: Pump operator confirmed, pour starts at seven after the slab walk.',
+  'Mike Chen: Next item, the electrical permit for the panel upgrade is still pending.',
+  'Sarah Johnson: The city inspector wants revised electrical drawings for the permit.',
+  'Mike Chen: Our electrician can resubmit the panel drawings to the inspector Friday.',
+  'John Smith: Without the electrical permit the panel work slips a full week.',
+  'Sarah Johnson: I will call the inspector about the permit review queue.',
+  'Mike Chen: The electrician also needs the conduit layout approved with the permit.',
+  'John Smith: Last topic, the budget and the owner change orders.',
+  'Sarah Johnson: Change order seven adds cost for the lobby finishes, the budget is tight.',
+  'Mike Chen: The owner approved change order six but questioned the budget contingency.',
+  'John Smith: We should present the budget forecast with every change order to the owner.',
+  'Sarah Johnson: Contingency is down to four percent after the change orders.',
+  'Mike Chen: I will update the budget forecast before the owner meeting.',
+];
+
+(async () => {
+  const embeddings = await bagOfWordsEmbedder(turns);
+  check('boundaries where the topic changes', findTopicBoundaries(embeddings), [6, 12]);
+  check('fewer than three units have no boundaries', findTopicBoundaries(embeddings.slice(0, 2)), []);
+
+  const labels = topicKeywords([turns.slice(0, 6).join(' '), turns.slice(6, 12).join(' '), turns.slice(12).join(' ')], 2);
+  check('keywords distinctive to each segment', labels, [['slab', 'concrete'], ['permit', 'electrical'], ['budget', 'change']]);
+
+  const transcript = turns.map((turn, i) => `[${i}:00] ${turn}`).join('\n');
+  const config = { maxTokens: 400, minTokens: 20, targetTokens: 200, overlapTokens: 20, encoding: 'estimate' as const };
+
+  const semantic = new SmartChunkingService({ ...config, segmentation: 'semantic' }, undefined, { embedder: bagOfWordsEmbedder });
+  const { chunks } = await semantic.processContent(transcript, 'meeting');
+  check('semantic mode: one topic_segment per topic', chunks.map(chunk => chunk.type), ['topic_segment', 'topic_segment', 'topic_segment']);
+  check('semantic mode: segments start at the first turn of each topic', chunks.map(chunk => chunk.startTime), [0, 360, 720]);
+  check('semantic mode: labels', chunks.map(chunk => chunk.topicLabel), ['Slab, concrete, pour', 'Permit, electrical, inspector', 'Budget, change, owner']);
+
+  // maxTokens still caps segments
+  const capped = new SmartChunkingService({ ...config, maxTokens: 60, segmentation: 'semantic' }, undefined, { embedder: bagOfWordsEmbedder });
+  const cappedChunks = (await capped.processContent(transcript, 'meeting')).chunks;
+  check('semantic mode: segments within maxTokens', cappedChunks.every(chunk => chunk.tokenCount <= 60), true);
+
+  // Without an embedder, or when it fails, chunking falls back to speaker turns
+  const failing = new SmartChunkingService({ ...config, segmentation: 'semantic' }, undefined, {
+    embedder: async () => { throw new Error('embedding service down'); },
+  });
+  const fallback = (await failing.processContent(transcript, 'meeting')).chunks;
+  check('falls back to speaker turns when embedding fails', fallback.every(chunk => chunk.type === 'speaker_turn'), true);
+
+  finish('semantic segmentation');
+})();
@@ -0,0 +1,86 @@
+import { readFileSync } from 'fs';
+import { BpeTokenizer, estimateTokenizer, parseTiktokenRanks } from './lib/services/tokenizer';
+import { SmartChunkingService } from './lib/services/smart-chunking';
+import { check, finish } from './test-fixtures/check';
+
+// Usage: npx tsx test-tokenizer.ts [path/to/cl100k_base.tiktoken]
+// Without a rank file only the synthetic-table checks run.
+
+// Every single byte is a token (rank = byte value), plus a few merges and
+// whole pieces, in the same shape as a real rank table
+const ranks = new Map<string, number>();
+for (let byte = 0; byte < 256; byte++) ranks.set(String.fromCharCode(byte), byte);
+[['he', 256], ['ll', 257], ['hell', 258], ['Hello', 300], [' world', 301], ["'s", 302], ['123', 303], ['45', 304], [" world's", 305]]
+  .forEach(([bytes, rank]) => ranks.set(bytes as string, rank as number));
+
+for (const encoding of ['cl100k_base', 'o200k_base'] as const) {
+  const tokenizer = new BpeTokenizer(encoding, ranks);
+
+  // Lowest rank merges first: he, then ll, then he+ll
+  check(`${encoding}: merge order`, tokenizer.encode('hello'), [258, 111]);
+
+  // Pre-tokenization: words keep their leading space, digits go in threes;
+  // o200k keeps contractions on the word, cl100k splits them off
+  check(
+    `${encoding}: pre-tokenization`,
+    tokenizer.encode("Hello world's 12345"),
+    encoding === 'cl100k_base' ? [300, 301, 302, 32, 303, 304] : [300, 305, 32, 303, 304]
+  );
+
+  const text = 'Café ⌀ 2½" conduit 🚧';
+  check(`${encoding}: UTF-8 round trip`, tokenizer.decode(tokenizer.encode(text)), text);
+  check(`${encoding}: count matches encode`, tokenizer.count(text), tokenizer.encode(text).length);
+}
+
+// A .tiktoken file is base64 bytes and a rank per line
+check('parses .tiktoken lines', Array.from(parseTiktokenRanks('aGVsbG8= 0\nIHdvcmxk 1\n')), [['hello', 0], [' world', 1]]);
+
+// Chunks stay within maxTokens, including a line far longer than the budget
+const transcript = [
+  '[0:00] John Smith: ' + 'The W14x22 beam at grid line C-4 needs a 3/4" shim plate. '.repeat(80),
+  ...Array.from({ length: 40 }, (_, i) => `[${i + 1}:00] Sarah Johnson: Pour ${i + 1} scheduled for level ${i % 5}, 4000 psi mix.`),
+].join('\n');
+
+(async () => {
+  const chunker = new SmartChunkingService({ maxTokens: 300, targetTokens: 200, overlapTokens: 40, encoding: 'estimate' });
+  const { chunks, metadata } = await chunker.processContent(transcript, 'meeting');
+  const largest = Math.max(...chunks.map(chunk => chunk.tokenCount));
+  check(`${chunks.length} chunks, largest ${largest} tokens, within maxTokens`, largest <= 300, true);
+  check('chunk token counts use the configured tokenizer', metadata.tokenizer, 'estimate');
+  check('estimate mode counts 1 token per 4 characters', estimateTokenizer.count('12345678'), 2);
+
+  // Without a rank table source nothing is fetched; with one, that copy is loaded
+  const fetched: string[] = [];
+  const realFetch = globalThis.fetch;
+  const rankTable = Array.from(ranks, ([bytes, rank]) => `${Buffer.from(bytes, 'latin1').toString('base64')} ${rank}`).join('\n');
+  globalThis.fetch = (async (url: string) => {
+    fetched.push(String(url));
+    return new Response(rankTable);
+  }) as typeof fetch;
+  try {
+    const unconfigured = await new SmartChunkingService({ maxTokens: 300, targetTokens: 200, overlapTokens: 40 }).processContent(transcript, 'meeting');
+    check('no rank table configured: estimated, nothing fetched', [unconfigured.metadata.tokenizer, fetched], ['estimate', []]);
+
+    const configured = new SmartChunkingService({ maxTokens: 300, targetTokens: 200, overlapTokens: 40, rankTableUrl: 'https://ranks.example.com/cl100k_base.tiktoken' });
+    const loaded = await configured.processContent(transcript, 'meeting');
+    check('rank table URL configured: cl100k_base loaded from it', [loaded.metadata.tokenizer, fetched], ['cl100k_base', ['https://ranks.example.com/cl100k_base.tiktoken']]);
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+
+  const rankFile = process.argv[2];
+  if (rankFile) {
+    // Reference ids from tiktoken
+    const cl100k = new BpeTokenizer('cl100k_base', parseTiktokenRanks(readFileSync(rankFile, 'utf8')));
+    check('cl100k_base: "hello world"', cl100k.encode('hello world'), [15339, 1917]);
+    check('cl100k_base: "tiktoken is great!"', cl100k.encode('tiktoken is great!'), [83, 1609, 5963, 374, 2294, 0]);
+
+    const withBpe = new SmartChunkingService({ maxTokens: 300, targetTokens: 200, overlapTokens: 40 }, undefined, { tokenizer: cl100k });
+    const result = await withBpe.processContent(transcript, 'meeting');
+    check('cl100k_base: chunks within maxTokens', result.chunks.every(chunk => cl100k.count(chunk.content) <= 300), true);
+  } else {
+    console.log('SKIP cl100k_base reference ids (pass a cl100k_base.tiktoken path to run them)');
+  }
+
+  finish('tokenizer');
+})();
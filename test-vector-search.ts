@@ -0,0 +1,147 @@
+import { hybridSearch, reciprocalRankFusion } from './lib/services/hybrid-search';
+import {
+  CloudflareVectorizeIndex,
+  D1VectorIndex,
+  InMemoryVectorIndex,
+  cosineSimilarity,
+  decodeEmbedding,
+  encodeEmbedding,
+  type VectorRecord,
+} from './lib/services/vector-search';
+import { check, finish } from './test-fixtures/check';
+import { sqliteD1 } from './test-fixtures/sqlite-d1';
+
+// Usage: npx tsx test-vector-search.ts (Node 22+, for node:sqlite)
+// Vector retrieval through InMemoryVectorIndex, D1VectorIndex over SQLite
+// and a fake Vectorize binding, and keyword + vector fusion in hybridSearch
+
+const round = (score: number) => Math.round(score * 1000) / 1000;
+
+const records: VectorRecord[] = [
+  { id: 'crane-1', values: [1, 0, 0], metadata: { meetingId: 'oac-14', projectId: 'harbor' } },
+  { id: 'crane-2', values: [0.8, 0.6, 0], metadata: { meetingId: 'oac-15', projectId: 'harbor' } },
+  { id: 'pour-1', values: [0, 1, 0], metadata: { meetingId: 'oac-14', projectId: 'harbor' } },
+  { id: 'school-1', values: [0.6, 0.8, 0], metadata: { meetingId: 'school-3', projectId: 'school' } },
+  { id: 'budget-1', values: [0, 0, 1], metadata: { meetingId: 'school-3', projectId: 'school' } },
+];
+const craneQuery = [1, 0, 0];
+
+async function main() {
+  // Cosine similarity and the stored embedding format
+  check('cosine of parallel, orthogonal and mismatched vectors', [cosineSimilarity([2, 0], [1, 0]), cosineSimilarity([1, 0], [0, 1]), cosineSimilarity([1, 0], [1, 0, 0])], [1, 0, 0]);
+  check('base64 embeddings round-trip', Array.from(decodeEmbedding(encodeEmbedding([0.5, -0.25, 1])) || []), [0.5, -0.25, 1]);
+  check('JSON embeddings decode', Array.from(decodeEmbedding('[0.5, 0.25]') || []), [0.5, 0.25]);
+
+  // In-memory index: ranking, scores and filters
+  const memory = new InMemoryVectorIndex(records);
+  const ranked = await memory.query(craneQuery, { topK: 3 });
+  check('ranked by cosine similarity', ranked.map(match => [match.id, round(match.score)]), [
+    ['crane-1', 1],
+    ['crane-2', 0.8],
+    ['school-1', 0.6],
+  ]);
+  check('minScore drops weak matches', (await memory.query(craneQuery, { minScore: 0.7 })).map(match => match.id), ['crane-1', 'crane-2']);
+  check('project filter', (await memory.query(craneQuery, { filter: { projectId: 'school' } })).map(match => match.id), ['school-1', 'budget-1']);
+  check('meeting filter', (await memory.query(craneQuery, { filter: { meetingIds: ['oac-15', 'school-3'] } })).map(match => match.id), ['crane-2', 'school-1', 'budget-1']);
+  check('matches carry their metadata', ranked[0].metadata, { meetingId: 'oac-14', projectId: 'harbor' });
+
+  await memory.delete(['crane-1']);
+  check('deleted vectors are not returned', [(await memory.query(craneQuery, { topK: 1 }))[0]?.id, memory.size], ['crane-2', 4]);
+
+  // D1 scan: same results as the in-memory index, across pages
+  const { db, sqlite, migrate } = sqliteD1();
+  sqlite.exec(`
+    CREATE TABLE system_metadata (key TEXT PRIMARY KEY, value TEXT, updated_at DATETIME DEFAULT CURRENT_TIMESTAMP);
+    CREATE TABLE meetings (id TEXT PRIMARY KEY, title TEXT, date TEXT, project_id TEXT, summary TEXT, searchable_text TEXT);
+    CREATE TABLE meeting_chunks (
+      id TEXT PRIMARY KEY, meeting_id TEXT NOT NULL, chunk_index INTEGER, content TEXT NOT NULL,
+      speaker TEXT, embedding TEXT, updated_at TEXT
+    );
+    CREATE TABLE tasks (id TEXT PRIMARY KEY, title TEXT, description TEXT, related_meeting_id TEXT, project_id TEXT, due_date TEXT);
+    CREATE TABLE projects (id TEXT PRIMARY KEY, title TEXT, description TEXT, start_date TEXT);
+  `);
+  migrate('migrations/add-search-fts.sql');
+
+  const insertMeeting = sqlite.prepare(`INSERT INTO meetings (id, title, date, project_id) VALUES (?, ?, ?, ?)`);
+  insertMeeting.run('oac-14', 'OAC Meeting 14', '2024-03-12', 'harbor');
+  insertMeeting.run('oac-15', 'OAC Meeting 15', '2024-03-19', 'harbor');
+  insertMeeting.run('school-3', 'School design review', '2024-03-14', 'school');
+
+  const contents: Record<string, string> = {
+    'crane-1': 'Crane permit: the tower crane permit is still not issued.',
+    'crane-2': 'Crane erection slips a week while the permit is pending.',
+    'pour-1': 'The level two slab pour is booked for Tuesday.',
+    'school-1': 'Lifting plan for the gym trusses uses a mobile lift.',
+    'budget-1': 'Contingency is down to 96,000 dollars.',
+  };
+  const insertChunk = sqlite.prepare(`INSERT INTO meeting_chunks (id, meeting_id, chunk_index, content, embedding) VALUES (?, ?, ?, ?, ?)`);
+  records.forEach((record, i) => insertChunk.run(record.id, record.metadata!.meetingId as string, i, contents[record.id], encodeEmbedding(record.values)));
+
+  const d1 = new D1VectorIndex(db, 2);
+  const allInMemory = await new InMemoryVectorIndex(records).query(craneQuery, { topK: 5 });
+  const allInD1 = await d1.query(craneQuery, { topK: 5 });
+  check('D1 scan ranks like the in-memory index across pages', allInD1.slice(0, 3).map(match => [match.id, round(match.score)]), allInMemory.slice(0, 3).map(match => [match.id, round(match.score)]));
+  check('D1 scan returns every chunk', allInD1.map(match => match.id).sort(), records.map(record => record.id).sort());
+  check('D1 project filter', (await d1.query(craneQuery, { filter: { projectId: 'school' } })).map(match => match.id), ['school-1', 'budget-1']);
+
+  // Vectorize: filters go to the binding; several meeting ids over-fetch first
+  const vectorizeCalls: any[] = [];
+  const binding = {
+    query: async (vector: number[], options: any) => {
+      vectorizeCalls.push(options);
+      return {
+        count: 3,
+        matches: [
+          { id: 'school-1', score: 0.9, metadata: { meeting_id: 'school-3', project_id: 'school' } },
+          { id: 'crane-2', score: 0.8, metadata: { meeting_id: 'oac-15', project_id: 'harbor' } },
+          { id: 'crane-1', score: 0.7, metadata: { meeting_id: 'oac-14', project_id: 'harbor' } },
+        ],
+      };
+    },
+  } as unknown as VectorizeIndex;
+  const vectorize = new CloudflareVectorizeIndex(binding);
+
+  await vectorize.query(craneQuery, { topK: 5, filter: { projectId: 'harbor', meetingIds: ['oac-14'] } });
+  check('one meeting id is filtered by Vectorize', [vectorizeCalls[0].topK, vectorizeCalls[0].filter], [5, { project_id: 'harbor', meeting_id: 'oac-14' }]);
+  const scoped = await vectorize.query(craneQuery, { topK: 1, filter: { meetingIds: ['oac-14', 'oac-15'] } });
+  check('several meeting ids over-fetch, then keep topK from those meetings', [vectorizeCalls[1].topK, vectorizeCalls[1].filter, scoped.map(match => match.id)], [50, undefined, ['crane-2']]);
+
+  // Rank fusion: weight / (k + rank) from each list
+  const fused = reciprocalRankFusion([
+    { items: [{ key: 'a' }, { key: 'b' }] },
+    { items: [{ key: 'b' }, { key: 'c' }], weight: 2 },
+  ], 60);
+  check('reciprocal rank fusion', ['a', 'b', 'c'].map(key => round((fused.get(key) || 0) * 1000)), [
+    round(1000 / 61),
+    round(1000 / 62 + 2000 / 61),
+    round(2000 / 62),
+  ]);
+
+  // Hybrid: a chunk found by both retrievers outranks one found by either
+  const results = await hybridSearch(db, 'crane permit', {
+    sources: ['chunk'],
+    embedQuery: async () => craneQuery,
+    vectorIndex: new InMemoryVectorIndex(records),
+    limit: 5,
+  });
+  check('hybrid results fuse both retrievers', results.map(result => [result.id, result.matchedBy.slice().sort()]).slice(0, 2), [
+    ['crane-1', ['keyword', 'vector']],
+    ['crane-2', ['keyword', 'vector']],
+  ]);
+  check('vector-only hits are included', results.some(result => result.id === 'school-1' && result.matchedBy.join() === 'vector'), true);
+  check('fused score is the sum of both ranks', round(results[0].score * 1000), round(1000 / 61 + 1000 / 61));
+  check('second hit fuses keyword rank 2 and vector rank 2', round(results[1].score * 1000), round(1000 / 62 + 1000 / 62));
+  check('similarity comes through from the vector side', results.map(result => round(result.similarity || 0)).slice(0, 2), [1, 0.8]);
+
+  const scopedHybrid = await hybridSearch(db, 'crane permit', {
+    sources: ['chunk'],
+    projectId: 'school',
+    embedQuery: async () => craneQuery,
+    vectorIndex: new InMemoryVectorIndex(records),
+  });
+  check('project scope applies to both retrievers', scopedHybrid.map(result => result.id), ['school-1']);
+
+  finish('vector search');
+}
+
+main();
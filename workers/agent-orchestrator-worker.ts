@@ -0,0 +1,108 @@
+/**
+ * Agent Orchestrator Worker
+ * Runs the agent orchestrator from a cron trigger instead of long-lived timers
+ * Tasks live in D1 (processing_queue), so any invocation can pick up where
+ * the last one stopped
+ */
+
+import { AgentOrchestrator } from '../src/lib/agents/orchestrator';
+import { createLLMProvider } from '../src/lib/agents/llm-provider';
+import { createNotificationChannels, type NotificationEnv } from '../lib/services/notification-channels';
+
+export interface Env extends NotificationEnv {
+  DB: D1Database;
+  AGENT_TIMEZONE?: string; // IANA timezone for agent schedules, defaults to UTC
+  AI?: Ai;
+  OPENAI_API_KEY?: string;
+  R2_BUCKET?: R2Bucket; // Generated reports go under reports/
+}
+
+function createOrchestrator(env: Env, workerId?: string): AgentOrchestrator {
+  return new AgentOrchestrator(env.DB, {
+    workerId,
+    timeZone: env.AGENT_TIMEZONE,
+    llm: createLLMProvider(env) || undefined,
+    notificationChannels: createNotificationChannels(env),
+    reportBucket: env.R2_BUCKET
+  });
+}
+
+export default {
+  /**
+   * Status, manual enqueueing, dead-letter replay and chain traces
+   */
+  async fetch(request: Request, env: Env): Promise<Response> {
+    const url = new URL(request.url);
+    const orchestrator = createOrchestrator(env);
+
+    try {
+      if (url.pathname === '/status' && request.method === 'GET') {
+        return Response.json(await orchestrator.getStatus());
+      }
+
+      if (url.pathname === '/history' && request.method === 'GET') {
+        const limit = parseInt(url.searchParams.get('limit') || '100');
+        const agent = url.searchParams.get('agent') || undefined;
+        return Response.json({ tasks: await orchestrator.getHistory(limit, agent) });
+      }
+
+      if (url.pathname === '/dead-letters' && request.method === 'GET') {
+        const limit = parseInt(url.searchParams.get('limit') || '100');
+        const agent = url.searchParams.get('agent') || undefined;
+        return Response.json({ tasks: await orchestrator.getDeadLetters(limit, agent) });
+      }
+
+      const replay = url.pathname.match(/^\/dead-letters\/([^/]+)\/replay$/);
+      if (replay && request.method === 'POST') {
+        const task = await orchestrator.replayTask(decodeURIComponent(replay[1]));
+        if (!task) {
+          return Response.json({ error: 'Task not found in dead letters' }, { status: 404 });
+        }
+        return Response.json({ task }, { status: 202 });
+      }
+
+      const trace = url.pathname.match(/^\/trace\/([^/]+)$/);
+      if (trace && request.method === 'GET') {
+        return Response.json(await orchestrator.getTrace(decodeURIComponent(trace[1])));
+      }
+
+      if (url.pathname === '/tasks' && request.method === 'POST') {
+        const body = await request.json() as {
+          agent: string;
+          data?: any;
+          priority?: 'critical' | 'high' | 'medium' | 'low';
+          scheduledFor?: string;
+        };
+        if (!body.agent) {
+          return Response.json({ error: 'agent is required' }, { status: 400 });
+        }
+
+        const taskId = await orchestrator.queueTask(
+          body.agent,
+          body.data ?? {},
+          body.priority,
+          body.scheduledFor ? new Date(body.scheduledFor) : undefined
+        );
+        return Response.json({ taskId }, { status: 202 });
+      }
+
+      return new Response('Not found', { status: 404 });
+    } catch (error) {
+      console.error('Orchestrator request error:', error);
+      return Response.json({
+        error: error instanceof Error ? error.message : 'Internal error'
+      }, { status: 500 });
+    }
+  },
+
+  /**
+   * Cron trigger: enqueue due agents and drain the queue
+   */
+  async scheduled(event: ScheduledEvent, env: Env): Promise<void> {
+    const orchestrator = createOrchestrator(
+      env,
+      `cron-${event.scheduledTime}-${crypto.randomUUID().substring(0, 8)}`
+    );
+    await orchestrator.runScheduled();
+  }
+};
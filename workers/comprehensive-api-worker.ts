@@ -4,14 +4,35 @@
  */
 
 import { OpenAI } from 'openai';
+import {
+  CloudflareVectorizeIndex,
+  createVectorIndex,
+  encodeEmbedding,
+} from '../lib/services/vector-search';
+import { expandChunkContext, ExpandedPassage } from '../lib/services/context-expansion';
+import { EntityMatcher, type EntityMatchResult } from '../lib/services/entity-matcher';
+import { MatchReviewQueue } from '../lib/services/match-review-queue';
 
 export interface Env {
   DB: D1Database;
   R2_STORAGE: R2Bucket;
   OPENAI_API_KEY: string;
   VECTOR_QUEUE: Queue;
+  VECTORIZE?: VectorizeIndex;
 }
 
+interface VectorSearchRequest {
+  query: string;
+  project_id?: string;
+  limit?: number;
+  min_score?: number;
+  expand_context?: boolean;
+  context_tokens?: number;
+}
+
+// Matches are hydrated with one `IN (...)` query; D1 allows 100 bound parameters
+const MAX_SEARCH_RESULTS = 50;
+
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
     const url = new URL(request.url);
@@ -62,7 +83,7 @@ export default {
       }
 
       if (path === '/api/search' && request.method === 'POST') {
-        const body = await request.json() as { query: string; project_id?: string };
+        const body = await request.json() as VectorSearchRequest;
         return handleVectorSearch(body, env, headers);
       }
 
@@ -148,18 +169,27 @@ async function handleVectorizeMeeting(meetingId: string, env: Env, headers: Head
     const metadata = await extractMetadata(content, env);
     
     // Find matching project and client
-    const projectMatch = await findMatchingProject(metadata, content, env);
-    const clientMatch = projectMatch?.client_id ? 
-      await env.DB.prepare(`SELECT * FROM clients WHERE id = ?`).bind(projectMatch.client_id).first() :
-      await findMatchingClient(metadata, content, env);
+    const match = await matchMeeting(meeting, content, metadata, env);
+    console.log(`Project match: ${match.project?.name || 'None'}`);
+    console.log(`Client match: ${match.client?.name || 'None'}`);
 
-    // For now, just mark that we've processed metadata
-    // The current database doesn't have project_id/client_id columns
-    console.log(`Project match: ${projectMatch?.title || 'None'}`);
-    console.log(`Client match: ${clientMatch?.company_name || 'None'}`);
+    if (match.project || match.client) {
+      await env.DB.prepare(
+        `UPDATE meetings SET project_id = COALESCE(?, project_id), client_id = COALESCE(?, client_id) WHERE id = ?`
+      ).bind(match.project?.id ?? null, match.client?.id ?? null, meetingId).run();
+    }
 
-    // Delete existing chunks (if table exists)
+    // Delete existing chunks (if table exists), and their vectors: new
+    // chunks get new ids, so old vectors would otherwise linger in results
     try {
+      const { results: oldChunks } = await env.DB.prepare(
+        `SELECT id FROM meeting_chunks WHERE meeting_id = ?`
+      ).bind(meetingId).all();
+      const oldChunkIds = oldChunks.map(row => String(row.id));
+
+      if (env.VECTORIZE) {
+        await new CloudflareVectorizeIndex(env.VECTORIZE).delete(oldChunkIds);
+      }
       await env.DB.prepare(
         `DELETE FROM meeting_chunks WHERE meeting_id = ?`
       ).bind(meetingId).run();
@@ -167,6 +197,17 @@ async function handleVectorizeMeeting(meetingId: string, env: Env, headers: Head
       console.log('Note: meeting_chunks table might not exist yet');
     }
 
+    try {
+      await env.DB.prepare(
+        `DELETE FROM vector_index WHERE meeting_id = ?`
+      ).bind(meetingId).run();
+    } catch (e) {
+      console.log('Note: vector_index table might not exist');
+    }
+
+    // The project just matched, if any; the row read above predates it
+    const projectId = match.project?.id ?? (meeting.project_id as string | null) ?? null;
+
     // Create smart chunks
     const chunks = await createSmartChunks(content, metadata);
     
@@ -187,8 +228,7 @@ async function handleVectorizeMeeting(meetingId: string, env: Env, headers: Head
       // Store chunk
       const chunkId = crypto.randomUUID();
       // Convert embedding to base64 for storage
-      const embeddingBuffer = new Float32Array(embedding).buffer;
-      const embeddingBase64 = btoa(String.fromCharCode(...new Uint8Array(embeddingBuffer)));
+      const embeddingBase64 = encodeEmbedding(embedding);
       
       try {
         await env.DB.prepare(
@@ -247,6 +287,18 @@ async function handleVectorizeMeeting(meetingId: string, env: Env, headers: Head
       } catch (e) {
         console.log('Note: vector_index table might not exist');
       }
+
+      // Mirror into Vectorize when bound so /api/search can use it
+      if (env.VECTORIZE) {
+        await new CloudflareVectorizeIndex(env.VECTORIZE).upsert([{
+          id: chunkId,
+          values: embedding,
+          metadata: {
+            meetingId,
+            projectId,
+          },
+        }]);
+      }
     }
 
     // Mark as processed
@@ -258,8 +310,9 @@ async function handleVectorizeMeeting(meetingId: string, env: Env, headers: Head
       JSON.stringify({ 
         success: true, 
         chunks: chunks.length,
-        project_matched: !!projectMatch,
-        client_matched: !!clientMatch
+        project_matched: !!match.project,
+        client_matched: !!match.client,
+        needs_review: match.reviewFor
       }), 
       { headers }
     );
@@ -283,6 +336,7 @@ async function handleTestProjectMatching(env: Env, headers: HeadersInit): Promis
     `).all();
 
     let matched = 0;
+    let queued = 0;
     const total = unmatchedMeetings.results.length;
 
     for (const meeting of unmatchedMeetings.results) {
@@ -294,26 +348,24 @@ async function handleTestProjectMatching(env: Env, headers: HeadersInit): Promis
       const metadata = await extractMetadata(content, env);
       
       // Try to match
-      const projectMatch = await findMatchingProject(metadata, content, env);
-      const clientMatch = projectMatch?.client_id ? 
-        await env.DB.prepare(`SELECT * FROM clients WHERE id = ?`).bind(projectMatch.client_id).first() :
-        await findMatchingClient(metadata, content, env);
+      const match = await matchMeeting(meeting, content, metadata, env);
+      if (match.reviewFor.length > 0) queued++;
 
-      if (projectMatch || clientMatch) {
+      if (match.project || match.client) {
         matched++;
         
         await env.DB.prepare(
-          `UPDATE meetings SET project_id = ?, client_id = ? WHERE id = ?`
+          `UPDATE meetings SET project_id = COALESCE(?, project_id), client_id = COALESCE(?, client_id) WHERE id = ?`
         ).bind(
-          projectMatch?.id,
-          clientMatch?.id || projectMatch?.client_id,
+          match.project?.id ?? null,
+          match.client?.id ?? null,
           meeting.id
         ).run();
       }
     }
 
     return new Response(
-      JSON.stringify({ matched, total }), 
+      JSON.stringify({ matched, queued_for_review: queued, total }), 
       { headers }
     );
   } catch (error) {
@@ -382,9 +434,17 @@ async function handleGetMeetings(env: Env, headers: HeadersInit): Promise<Respon
   }
 }
 
-async function handleVectorSearch(body: { query: string; project_id?: string }, env: Env, headers: HeadersInit): Promise<Response> {
+async function handleVectorSearch(body: VectorSearchRequest, env: Env, headers: HeadersInit): Promise<Response> {
   try {
-    const { query, project_id } = body;
+    const { query, project_id, min_score = 0.2, expand_context = false, context_tokens } = body;
+    const limit = Math.min(Math.max(1, Math.floor(Number(body.limit)) || 10), MAX_SEARCH_RESULTS);
+
+    if (!query || query.trim().length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'Query is required' }), 
+        { status: 400, headers }
+      );
+    }
     
     // Generate embedding for query
     const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
@@ -395,13 +455,29 @@ async function handleVectorSearch(body: { query: string; project_id?: string },
     
     const queryEmbedding = embeddingResponse.data[0].embedding;
     
-    // For now, return a simple text search
-    // TODO: Implement proper vector similarity search
+    // Rank chunks by cosine similarity against the query embedding
+    const index = createVectorIndex(env);
+    const matches = await index.query(queryEmbedding, {
+      topK: limit,
+      minScore: min_score,
+      filter: project_id ? { projectId: project_id } : undefined,
+    });
+    
+    if (matches.length === 0) {
+      return new Response(
+        JSON.stringify({ results: [] }), 
+        { headers }
+      );
+    }
+    
+    // Hydrate matched chunks with meeting and project details
     let searchQuery = `
       SELECT 
         mc.id,
+        mc.meeting_id,
         mc.content,
         mc.speaker,
+        mc.start_time,
         m.title as meeting_title,
         m.date as meeting_date,
         m.project_id,
@@ -409,22 +485,35 @@ async function handleVectorSearch(body: { query: string; project_id?: string },
       FROM meeting_chunks mc
       JOIN meetings m ON mc.meeting_id = m.id
       LEFT JOIN projects p ON m.project_id = p.id
-      WHERE mc.content LIKE ?
+      WHERE mc.id IN (${matches.map(() => '?').join(', ')})
     `;
     
-    const params = [`%${query}%`];
+    const params: string[] = matches.map(match => match.id);
     
+    // Re-check the project here too, external indexes may hold stale metadata
     if (project_id) {
       searchQuery += ` AND m.project_id = ?`;
       params.push(project_id);
     }
     
-    searchQuery += ` LIMIT 10`;
+    const rows = await env.DB.prepare(searchQuery).bind(...params).all();
+    const rowsById = new Map(rows.results.map(row => [row.id as string, row]));
+    
+    const hits = matches.filter(match => rowsById.has(match.id));
     
-    const results = await env.DB.prepare(searchQuery).bind(...params).all();
+    // Stitch neighbouring chunks around each hit so callers get whole passages
+    const passages = expand_context
+      ? await expandChunkContext(env.DB, hits.map(match => match.id), { tokenBudget: context_tokens })
+      : new Map<string, ExpandedPassage>();
+    
+    const results = hits.map(match => ({
+      ...rowsById.get(match.id),
+      similarity: match.score,
+      passage: passages.get(match.id)
+    }));
     
     return new Response(
-      JSON.stringify({ results: results.results }), 
+      JSON.stringify({ results }), 
       { headers }
     );
   } catch (error) {
@@ -518,97 +607,23 @@ async function extractMetadata(content: string, env: Env): Promise<any> {
   };
 }
 
-async function findMatchingProject(metadata: any, content: string, env: Env): Promise<any> {
-  for (const projectName of metadata.project_mentions) {
-    const project = await env.DB.prepare(
-      `SELECT p.*, c.company_name as client_name 
-       FROM projects p
-       LEFT JOIN clients c ON p.client_id = c.id
-       WHERE LOWER(p.title) = LOWER(?)
-       OR LOWER(p.title) LIKE LOWER(?)`
-    ).bind(projectName, `%${projectName}%`).first();
-    
-    if (project) return project;
-  }
-  
-  const activeProjects = await env.DB.prepare(
-    `SELECT p.*, c.company_name as client_name 
-     FROM projects p
-     LEFT JOIN clients c ON p.client_id = c.id
-     WHERE p.status = 'active'`
-  ).all();
-  
-  let bestMatch = null;
-  let bestScore = 0;
-  
-  for (const project of activeProjects.results) {
-    let score = 0;
-    const projectTitle = (project.title || '').toLowerCase();
-    const contentLower = content.toLowerCase();
-    
-    if (contentLower.includes(projectTitle)) {
-      score += 10;
-    }
-    
-    const titleWords = projectTitle.split(/\s+/);
-    for (const word of titleWords) {
-      if (word.length > 3 && contentLower.includes(word)) {
-        score += 2;
-      }
-    }
-    
-    if (project.client_name && contentLower.includes((project.client_name || '').toLowerCase())) {
-      score += 5;
-    }
-    
-    if (score > bestScore) {
-      bestScore = score;
-      bestMatch = project;
-    }
-  }
-  
-  return bestScore > 5 ? bestMatch : null;
-}
+/**
+ * Match a meeting to a project/client; uncertain matches go to the review queue
+ */
+async function matchMeeting(meeting: any, content: string, metadata: any, env: Env): Promise<EntityMatchResult> {
+  const match = await new EntityMatcher(env.DB).match({
+    title: meeting.title,
+    content,
+    participants: metadata.participants,
+    projectMentions: metadata.project_mentions,
+    clientMentions: metadata.client_mentions
+  });
 
-async function findMatchingClient(metadata: any, content: string, env: Env): Promise<any> {
-  for (const clientName of metadata.client_mentions) {
-    const client = await env.DB.prepare(
-      `SELECT * FROM clients 
-       WHERE LOWER(company_name) = LOWER(?)
-       OR LOWER(company_name) LIKE LOWER(?)`
-    ).bind(clientName, `%${clientName}%`).first();
-    
-    if (client) return client;
+  if (match.reviewFor.length > 0) {
+    await new MatchReviewQueue(env.DB).queueFromMatch({ type: 'meeting', id: meeting.id, title: meeting.title }, match);
   }
-  
-  const allClients = await env.DB.prepare(`SELECT * FROM clients`).all();
-  
-  let bestMatch = null;
-  let bestScore = 0;
-  
-  for (const client of allClients.results) {
-    let score = 0;
-    const clientName = (client.company_name || '').toLowerCase();
-    const contentLower = content.toLowerCase();
-    
-    if (contentLower.includes(clientName)) {
-      score += 10;
-    }
-    
-    const nameWords = clientName.split(/\s+/);
-    for (const word of nameWords) {
-      if (word.length > 3 && contentLower.includes(word)) {
-        score += 2;
-      }
-    }
-    
-    if (score > bestScore) {
-      bestScore = score;
-      bestMatch = client;
-    }
-  }
-  
-  return bestScore > 5 ? bestMatch : null;
+
+  return match;
 }
 
 interface Chunk {
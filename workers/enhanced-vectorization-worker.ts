@@ -10,12 +10,16 @@ import SmartChunkingService, {
   ExtractedEntity,
   ChunkRelationship 
 } from '../lib/services/smart-chunking';
+import { EntityRuleStore, DEFAULT_TENANT_ID } from '../lib/services/entity-rules';
+import { EntityRegistry } from '../lib/services/entity-registry';
 
 export interface Env {
   DB: D1Database;
   R2_STORAGE: R2Bucket;
   OPENAI_API_KEY: string;
   VECTOR_QUEUE: Queue;
+  TENANT_ID?: string; // Whose entity rules to extract with; defaults to 'default'
+  TOKENIZER_RANKS_URL?: string; // cl100k_base.tiktoken copy (e.g. in R2); token counts are estimated without it
 }
 
 interface VectorizationTask {
@@ -141,15 +145,18 @@ async function processVectorizationWithSmartChunking(
     const content = await object.text();
     console.log(`Fetched content: ${content.length} characters`);
     
-    // Initialize smart chunking service
+    // Initialize smart chunking service with this tenant's entity rules
+    const entityRules = await new EntityRuleStore(env.DB).load(env.TENANT_ID || DEFAULT_TENANT_ID);
     const chunkingService = new SmartChunkingService(
       {
         maxTokens: 1500,
         minTokens: 100,
         overlapTokens: 200,
         targetTokens: 1000,
+        rankTableUrl: env.TOKENIZER_RANKS_URL,
       },
-      env.OPENAI_API_KEY
+      env.OPENAI_API_KEY,
+      { entityRules }
     );
     
     // Process content with smart chunking
@@ -189,6 +196,14 @@ async function processVectorizationWithSmartChunking(
       env
     );
     
+    // Link this meeting's mentions to canonical entities; a failed pass
+    // leaves them pending for the next run or POST /api/entities/resolve
+    try {
+      await new EntityRegistry(env.DB).resolvePending({ meetingId: actualMeetingId });
+    } catch (error) {
+      console.warn('Entity resolution failed, mentions left pending:', error);
+    }
+    
     // Store timeline events
     await storeTimelineEvents(
       actualMeetingId,
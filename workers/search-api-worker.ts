@@ -1,9 +1,19 @@
 // Search API Worker for Alleato Documents
 // Provides search functionality for the Next.js chat interface
 
+import {
+  createOpenAIEmbedder,
+  hybridSearch,
+  HybridSearchResult,
+  SearchSource,
+} from '../lib/services/hybrid-search';
+import { createVectorIndex } from '../lib/services/vector-search';
+
 interface Env {
   ALLEATO_DB: D1Database;
   AI: Ai;
+  OPENAI_API_KEY?: string;
+  VECTORIZE?: VectorizeIndex;
 }
 
 interface SearchRequest {
@@ -11,13 +21,18 @@ interface SearchRequest {
   limit?: number;
   filters?: {
     project?: string;
+    projectId?: string;
     department?: string;
     dateFrom?: string;
     dateTo?: string;
     type?: string;
+    sources?: SearchSource[];
   };
+  weights?: Partial<Record<SearchSource, number>>;
 }
 
+type SearchResult = HybridSearchResult & { meeting?: Record<string, any> };
+
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
     // Enable CORS for the Next.js app
@@ -62,65 +77,37 @@ async function handleSearch(request: Request, env: Env, corsHeaders: HeadersInit
       );
     }
 
-    // Search in D1 database using full-text search
-    let sql = `
-      SELECT 
-        id, title, date, summary, project, department, 
-        priority, status, keywords, tags, action_items, 
-        decisions, participants, duration, word_count
-      FROM meetings
-      WHERE searchable_text LIKE ?
-    `;
-    
-    const params: any[] = [`%${query.toLowerCase()}%`];
-    
-    // Apply filters if provided
-    if (filters) {
-      if (filters.project) {
-        sql += ' AND project = ?';
-        params.push(filters.project);
-      }
-      if (filters.department) {
-        sql += ' AND department = ?';
-        params.push(filters.department);
-      }
-      if (filters.dateFrom) {
-        sql += ' AND date >= ?';
-        params.push(filters.dateFrom);
-      }
-      if (filters.dateTo) {
-        sql += ' AND date <= ?';
-        params.push(filters.dateTo);
-      }
-      if (filters.type) {
-        sql += ' AND category = ?';
-        params.push(filters.type);
-      }
-    }
-    
-    // Order by relevance (simple scoring based on title match)
-    sql += `
-      ORDER BY 
-        CASE 
-          WHEN title LIKE ? THEN 1 
-          WHEN summary LIKE ? THEN 2 
-          ELSE 3 
-        END,
-        date DESC
-      LIMIT ?
-    `;
-    
-    params.push(`%${query.toLowerCase()}%`, `%${query.toLowerCase()}%`, limit);
+    // Keyword (BM25) and semantic (embedding) retrieval fused with RRF
+    const hits = await hybridSearch(env.ALLEATO_DB, query, {
+      limit: limit * 2,
+      projectId: filters?.projectId,
+      dateFrom: filters?.dateFrom,
+      dateTo: filters?.dateTo,
+      sources: filters?.sources,
+      sourceWeights: searchRequest.weights,
+      embedQuery: env.OPENAI_API_KEY ? createOpenAIEmbedder(env.OPENAI_API_KEY) : undefined,
+      vectorIndex: createVectorIndex({ DB: env.ALLEATO_DB, VECTORIZE: env.VECTORIZE }),
+    });
     
-    const stmt = env.ALLEATO_DB.prepare(sql);
-    const results = await stmt.bind(...params).all();
+    // Attach meeting details to meeting/chunk hits, applying meeting-level filters
+    const meetingIds = Array.from(new Set(
+      hits
+        .filter(hit => hit.sourceType === 'meeting' || hit.sourceType === 'chunk')
+        .map(hit => hit.meetingId)
+        .filter((id): id is string => !!id)
+    ));
+    const meetings = await loadMeetings(env.ALLEATO_DB, meetingIds, filters);
     
-    // Parse JSON fields
-    const formattedResults = results.results.map(row => ({
-      ...row,
-      action_items: row.action_items ? JSON.parse(row.action_items as string) : [],
-      decisions: row.decisions ? JSON.parse(row.decisions as string) : []
-    }));
+    const formattedResults: SearchResult[] = hits
+      .filter(hit => {
+        const isMeetingHit = hit.sourceType === 'meeting' || hit.sourceType === 'chunk';
+        return !isMeetingHit || (hit.meetingId && meetings.has(hit.meetingId));
+      })
+      .slice(0, limit)
+      .map(hit => ({
+        ...hit,
+        meeting: hit.meetingId ? meetings.get(hit.meetingId) : undefined
+      }));
     
     // Use AI to generate a contextual response if results are found
     let aiResponse = '';
@@ -151,16 +138,60 @@ async function handleSearch(request: Request, env: Env, corsHeaders: HeadersInit
   }
 }
 
-async function generateAIResponse(query: string, results: any[], ai: Ai): Promise<string> {
+async function loadMeetings(
+  db: D1Database,
+  meetingIds: string[],
+  filters: SearchRequest['filters']
+): Promise<Map<string, Record<string, any>>> {
+  if (meetingIds.length === 0) return new Map();
+  
+  let sql = `
+    SELECT 
+      id, title, date, summary, project, department, 
+      priority, status, keywords, tags, action_items, 
+      decisions, participants, duration, word_count
+    FROM meetings
+    WHERE id IN (${meetingIds.map(() => '?').join(', ')})
+  `;
+  
+  const params: any[] = [...meetingIds];
+  
+  // Apply filters if provided
+  if (filters) {
+    if (filters.project) {
+      sql += ' AND project = ?';
+      params.push(filters.project);
+    }
+    if (filters.department) {
+      sql += ' AND department = ?';
+      params.push(filters.department);
+    }
+    if (filters.type) {
+      sql += ' AND category = ?';
+      params.push(filters.type);
+    }
+  }
+  
+  const { results } = await db.prepare(sql).bind(...params).all();
+  
+  // Parse JSON fields
+  return new Map(results.map(row => [row.id as string, {
+    ...row,
+    action_items: row.action_items ? JSON.parse(row.action_items as string) : [],
+    decisions: row.decisions ? JSON.parse(row.decisions as string) : []
+  }]));
+}
+
+async function generateAIResponse(query: string, results: SearchResult[], ai: Ai): Promise<string> {
   const prompt = `You are a helpful assistant for the Alleato document search system. 
   The user asked: "${query}"
   
   Here are the relevant documents found:
   ${results.slice(0, 3).map((doc, i) => `
-  ${i + 1}. ${doc.title} (${doc.date})
-  Summary: ${doc.summary}
-  ${doc.action_items?.length > 0 ? `Action Items: ${doc.action_items.slice(0, 2).join(', ')}` : ''}
-  ${doc.decisions?.length > 0 ? `Key Decisions: ${doc.decisions.slice(0, 2).join(', ')}` : ''}
+  ${i + 1}. ${doc.meeting?.title || doc.title} (${doc.sourceType}${doc.date ? `, ${doc.date}` : ''})
+  ${doc.meeting?.summary ? `Summary: ${doc.meeting.summary}` : `Excerpt: ${doc.snippet}`}
+  ${doc.meeting?.action_items?.length > 0 ? `Action Items: ${doc.meeting?.action_items.slice(0, 2).join(', ')}` : ''}
+  ${doc.meeting?.decisions?.length > 0 ? `Key Decisions: ${doc.meeting?.decisions.slice(0, 2).join(', ')}` : ''}
   `).join('\n')}
   
   Please provide a helpful, conversational response that:
@@ -183,7 +214,7 @@ async function generateAIResponse(query: string, results: any[], ai: Ai): Promis
   }
 }
 
-function formatFallbackResponse(query: string, results: any[]): string {
+function formatFallbackResponse(query: string, results: SearchResult[]): string {
   if (results.length === 0) {
     return `I couldn't find any documents matching "${query}". Try using different keywords or checking the spelling.`;
   }
@@ -191,15 +222,17 @@ function formatFallbackResponse(query: string, results: any[]): string {
   const topResult = results[0];
   let response = `I found ${results.length} document${results.length > 1 ? 's' : ''} related to "${query}". `;
   
-  response += `The most relevant is "${topResult.title}" from ${topResult.date}. `;
+  response += `The most relevant is "${topResult.meeting?.title || topResult.title}"${topResult.date ? ` from ${topResult.date}` : ''}. `;
   
-  if (topResult.summary) {
-    response += topResult.summary;
+  if (topResult.meeting?.summary) {
+    response += topResult.meeting.summary;
+  } else if (topResult.snippet) {
+    response += topResult.snippet;
   }
   
-  if (topResult.action_items?.length > 0) {
-    response += ` Key action items include: ${topResult.action_items.slice(0, 2).join(', ')}.`;
+  if (topResult.meeting?.action_items?.length > 0) {
+    response += ` Key action items include: ${topResult.meeting?.action_items.slice(0, 2).join(', ')}.`;
   }
   
   return response;
-}
\ No newline at end of file
+}
@@ -1,9 +1,15 @@
 // High-Performance Hybrid RAG Query System
-// Combines D1 structured queries with AutoRAG semantic search for optimal performance
+// Combines D1 FTS5 keyword search with chunk embedding search for optimal performance
+
+import { createOpenAIEmbedder, hybridSearch, HybridSearchResult } from '../lib/services/hybrid-search';
+import { createVectorIndex } from '../lib/services/vector-search';
+import { getPortfolioMetrics, getProjectsNeedingAttention, getRecentActivity } from '../lib/services/leadership-metrics';
 
 interface Env {
     ALLEATO_DB: D1Database;
     AI: Ai;
+    OPENAI_API_KEY?: string;
+    VECTORIZE?: VectorizeIndex;
   }
   
   interface ProjectInsight {
@@ -80,7 +86,7 @@ interface Env {
             if (!query) {
               return Response.json({ error: 'query parameter required' }, { status: 400, headers: corsHeaders });
             }
-            return handleHybridSearch(query, env, corsHeaders);
+            return handleHybridSearch(query, url.searchParams, env, corsHeaders);
           
           case '/leadership-dashboard':
             return handleLeadershipDashboard(env, corsHeaders);
@@ -324,151 +330,57 @@ interface Env {
     }
   }
   
-  async function handleHybridSearch(query: string, env: Env, corsHeaders: Record<string, string>): Promise<Response> {
+  async function handleHybridSearch(
+    query: string,
+    params: URLSearchParams,
+    env: Env,
+    corsHeaders: Record<string, string>
+  ): Promise<Response> {
     console.log(`🔍 Hybrid search for: "${query}"`);
     
-    // First, search D1 for structured data
-    const structuredResults = await searchStructuredData(query, env.ALLEATO_DB);
-    
-    // Then, search documents via AutoRAG (you'll need to implement this based on your AutoRAG setup)
-    // const semanticResults = await searchAutoRAG(query, env);
+    // Keyword (BM25) and semantic (embedding) retrieval fused with RRF
+    const results = await hybridSearch(env.ALLEATO_DB, query, {
+      limit: parseInt(params.get('limit') || '20'),
+      projectId: params.get('projectId') || undefined,
+      embedQuery: env.OPENAI_API_KEY ? createOpenAIEmbedder(env.OPENAI_API_KEY) : undefined,
+      vectorIndex: createVectorIndex({ DB: env.ALLEATO_DB, VECTORIZE: env.VECTORIZE }),
+    });
     
     return Response.json({
       query,
-      structuredResults,
-      // semanticResults,
+      results,
+      structuredResults: searchStructuredData(results),
+      semanticResults: results.filter(r => r.matchedBy.includes('vector')),
       searchType: 'hybrid',
       timestamp: new Date().toISOString()
     }, { headers: corsHeaders });
   }
   
-  async function searchStructuredData(query: string, db: D1Database) {
-    const searchTerm = `%${query.toLowerCase()}%`;
-    
-    // Search projects
-    const projectsStmt = db.prepare(`
-      SELECT 'project' as type, id, title, status, priority
-      FROM projects 
-      WHERE LOWER(title) LIKE ? OR LOWER(description) LIKE ?
-      LIMIT 5
-    `);
-    
-    // Search meetings
-    const meetingsStmt = db.prepare(`
-      SELECT 'meeting' as type, id, title, date, summary
-      FROM meetings 
-      WHERE LOWER(title) LIKE ? OR LOWER(summary) LIKE ? OR LOWER(searchable_text) LIKE ?
-      ORDER BY date DESC
-      LIMIT 5
-    `);
-    
-    // Search tasks
-    const tasksStmt = db.prepare(`
-      SELECT 'task' as type, id, title, status, priority
-      FROM tasks 
-      WHERE LOWER(title) LIKE ? OR LOWER(description) LIKE ?
-      LIMIT 5
-    `);
-    
-    const [projects, meetings, tasks] = await Promise.all([
-      projectsStmt.bind(searchTerm, searchTerm).all(),
-      meetingsStmt.bind(searchTerm, searchTerm, searchTerm).all(),
-      tasksStmt.bind(searchTerm, searchTerm).all()
-    ]);
+  function searchStructuredData(results: HybridSearchResult[]) {
+    // Group fused hits by source for callers that render per-type sections
+    const projects = results.filter(r => r.sourceType === 'project');
+    const meetings = results.filter(r => r.sourceType === 'meeting');
+    const chunks = results.filter(r => r.sourceType === 'chunk');
+    const tasks = results.filter(r => r.sourceType === 'task');
     
     return {
-      projects: projects.results,
-      meetings: meetings.results,
-      tasks: tasks.results,
-      totalResults: projects.results.length + meetings.results.length + tasks.results.length
+      projects,
+      meetings,
+      chunks,
+      tasks,
+      totalResults: results.length
     };
   }
   
   async function handleLeadershipDashboard(env: Env, corsHeaders: Record<string, string>): Promise<Response> {
     console.log('📊 Generating leadership dashboard...');
     
-    // Get key metrics
-    const metricsStmt = env.ALLEATO_DB.prepare(`
-      SELECT 
-        COUNT(CASE WHEN status IN ('planning', 'active') THEN 1 END) as active_projects,
-        COUNT(CASE WHEN status = 'completed' THEN 1 END) as completed_projects,
-        COALESCE(SUM(CASE WHEN status IN ('planning', 'active') THEN estimated_value END), 0) as active_project_value,
-        COUNT(CASE WHEN priority = 'critical' THEN 1 END) as critical_projects,
-        COUNT(CASE WHEN priority = 'high' THEN 1 END) as high_priority_projects
-      FROM projects
-    `);
-    
-    const metrics = await metricsStmt.first();
-    
-    // Get recent activity (last 7 days)
-    const activityStmt = env.ALLEATO_DB.prepare(`
-      SELECT 
-        'meeting' as activity_type,
-        title,
-        date as activity_date,
-        project_id
-      FROM meetings 
-      WHERE date >= date('now', '-7 days')
-      
-      UNION ALL
-      
-      SELECT 
-        'task_completed' as activity_type,
-        title,
-        completed_date as activity_date,
-        project_id
-      FROM tasks 
-      WHERE completed_date >= date('now', '-7 days')
-      
-      ORDER BY activity_date DESC
-      LIMIT 10
-    `);
-    
-    const { results: recentActivity } = await activityStmt.all();
-    
-    // Get projects needing attention
-    const attentionStmt = env.ALLEATO_DB.prepare(`
-      SELECT 
-        p.id,
-        p.title,
-        p.status,
-        p.priority,
-        c.company_name as client_name,
-        p.estimated_completion,
-        COALESCE(open_tasks.count, 0) as open_tasks_count,
-        COALESCE(overdue_tasks.count, 0) as overdue_tasks_count
-      FROM projects p
-      LEFT JOIN clients c ON p.client_id = c.id
-      LEFT JOIN (
-        SELECT project_id, COUNT(*) as count 
-        FROM tasks 
-        WHERE status != 'completed' 
-        GROUP BY project_id
-      ) open_tasks ON p.id = open_tasks.project_id
-      LEFT JOIN (
-        SELECT project_id, COUNT(*) as count 
-        FROM tasks 
-        WHERE status != 'completed' AND due_date < date('now')
-        GROUP BY project_id
-      ) overdue_tasks ON p.id = overdue_tasks.project_id
-      WHERE p.status IN ('planning', 'active')
-      AND (
-        p.priority IN ('critical', 'high')
-        OR overdue_tasks.count > 0
-        OR p.estimated_completion <= date('now', '+30 days')
-      )
-      ORDER BY 
-        CASE p.priority 
-          WHEN 'critical' THEN 1 
-          WHEN 'high' THEN 2 
-          ELSE 3 
-        END,
-        overdue_tasks.count DESC,
-        p.estimated_completion ASC
-      LIMIT 8
-    `);
-    
-    const { results: projectsNeedingAttention } = await attentionStmt.all();
+    // Same queries feed the generated leadership reports
+    const [metrics, recentActivity, projectsNeedingAttention] = await Promise.all([
+      getPortfolioMetrics(env.ALLEATO_DB),
+      getRecentActivity(env.ALLEATO_DB),
+      getProjectsNeedingAttention(env.ALLEATO_DB)
+    ]);
     
     return Response.json({
       metrics,
@@ -5,6 +5,8 @@
  */
 
 import { OpenAI } from 'openai';
+import { EntityMatcher } from '../lib/services/entity-matcher';
+import { MatchReviewQueue } from '../lib/services/match-review-queue';
 
 export interface Env {
   DB: D1Database;
@@ -176,20 +178,26 @@ async function processVectorization(payload: any, env: Env): Promise<void> {
   // Extract metadata and match with projects/clients
   const metadata = await extractMetadata(content, env);
   
+  // Extract meeting info from filename
+  const fileMatch = r2_key.match(/meetings\/(\d{4}-\d{2}-\d{2})\s*-\s*(.+)\.md$/);
+  const meetingDate = fileMatch?.[1];
+  const title = fileMatch?.[2] || 'Untitled Meeting';
+
   // Find matching project and client
-  const projectMatch = await findMatchingProject(metadata, content, env);
-  const clientMatch = projectMatch?.client_id ? 
-    await findClient(projectMatch.client_id, env) : 
-    await findMatchingClient(metadata, content, env);
+  const matcher = new EntityMatcher(env.DB);
+  const match = await matcher.match({
+    title,
+    content,
+    participants: metadata.participants,
+    projectMentions: metadata.project_mentions,
+    clientMentions: metadata.client_mentions
+  });
+  const projectMatch = match.project;
+  const clientMatch = match.client;
   
   // Create or update meeting record
   let actualMeetingId = meeting_id;
   if (file_type === 'meeting' && !meeting_id) {
-    // Extract meeting info from filename
-    const match = r2_key.match(/meetings\/(\d{4}-\d{2}-\d{2})\s*-\s*(.+)\.md$/);
-    const meetingDate = match?.[1];
-    const title = match?.[2] || 'Untitled Meeting';
-    
     // Check if meeting already exists
     const existing = await env.DB.prepare(
       `SELECT id FROM meetings WHERE r2_key = ?`
@@ -197,12 +205,12 @@ async function processVectorization(payload: any, env: Env): Promise<void> {
     
     if (existing) {
       actualMeetingId = existing.id;
-      // Update with project/client info
+      // Update with project/client info, keeping earlier (possibly reviewed) assignments
       await env.DB.prepare(
         `UPDATE meetings 
-         SET project_id = ?, client_id = ?, vector_processed = false
+         SET project_id = COALESCE(?, project_id), client_id = COALESCE(?, client_id), vector_processed = false
          WHERE id = ?`
-      ).bind(projectMatch?.id, clientMatch?.id, actualMeetingId).run();
+      ).bind(projectMatch?.id ?? null, clientMatch?.id ?? null, actualMeetingId).run();
     } else {
       // Create new meeting record
       actualMeetingId = crypto.randomUUID();
@@ -217,8 +225,8 @@ async function processVectorization(payload: any, env: Env): Promise<void> {
         title,
         meetingDate,
         r2_key,
-        projectMatch?.id,
-        clientMatch?.id,
+        projectMatch?.id ?? null,
+        clientMatch?.id ?? null,
         JSON.stringify(metadata.participants),
         JSON.stringify(metadata.action_items),
         JSON.stringify(metadata.decisions),
@@ -228,6 +236,10 @@ async function processVectorization(payload: any, env: Env): Promise<void> {
       ).run();
     }
   }
+
+  if (actualMeetingId && match.reviewFor.length > 0) {
+    await new MatchReviewQueue(env.DB).queueFromMatch({ type: 'meeting', id: actualMeetingId, title }, match);
+  }
   
   // Smart chunking with context preservation
   const chunks = await createSmartChunks(content, metadata);
@@ -379,124 +391,6 @@ async function extractMetadata(content: string, env: Env): Promise<ExtractedMeta
   };
 }
 
-async function findMatchingProject(
-  metadata: ExtractedMetadata, 
-  content: string, 
-  env: Env
-): Promise<any> {
-  // First try exact matches from metadata
-  for (const projectName of metadata.project_mentions) {
-    const project = await env.DB.prepare(
-      `SELECT p.*, c.company_name as client_name 
-       FROM projects p
-       LEFT JOIN clients c ON p.client_id = c.id
-       WHERE LOWER(p.title) = LOWER(?)
-       OR LOWER(p.title) LIKE LOWER(?)`
-    ).bind(projectName, `%${projectName}%`).first();
-    
-    if (project) return project;
-  }
-  
-  // Try fuzzy matching with all active projects
-  const activeProjects = await env.DB.prepare(
-    `SELECT p.*, c.company_name as client_name 
-     FROM projects p
-     LEFT JOIN clients c ON p.client_id = c.id
-     WHERE p.status = 'active'`
-  ).all();
-  
-  // Score each project based on content matches
-  let bestMatch = null;
-  let bestScore = 0;
-  
-  for (const project of activeProjects.results) {
-    let score = 0;
-    const projectTitle = project.title.toLowerCase();
-    const contentLower = content.toLowerCase();
-    
-    // Check if project title appears in content
-    if (contentLower.includes(projectTitle)) {
-      score += 10;
-    }
-    
-    // Check individual words
-    const titleWords = projectTitle.split(/\s+/);
-    for (const word of titleWords) {
-      if (word.length > 3 && contentLower.includes(word)) {
-        score += 2;
-      }
-    }
-    
-    // Check if client name appears
-    if (project.client_name && contentLower.includes(project.client_name.toLowerCase())) {
-      score += 5;
-    }
-    
-    if (score > bestScore) {
-      bestScore = score;
-      bestMatch = project;
-    }
-  }
-  
-  return bestScore > 5 ? bestMatch : null;
-}
-
-async function findMatchingClient(
-  metadata: ExtractedMetadata,
-  content: string,
-  env: Env
-): Promise<any> {
-  // First try exact matches from metadata
-  for (const clientName of metadata.client_mentions) {
-    const client = await env.DB.prepare(
-      `SELECT * FROM clients 
-       WHERE LOWER(company_name) = LOWER(?)
-       OR LOWER(company_name) LIKE LOWER(?)`
-    ).bind(clientName, `%${clientName}%`).first();
-    
-    if (client) return client;
-  }
-  
-  // Try fuzzy matching with all clients
-  const allClients = await env.DB.prepare(
-    `SELECT * FROM clients`
-  ).all();
-  
-  let bestMatch = null;
-  let bestScore = 0;
-  
-  for (const client of allClients.results) {
-    let score = 0;
-    const clientName = client.company_name.toLowerCase();
-    const contentLower = content.toLowerCase();
-    
-    if (contentLower.includes(clientName)) {
-      score += 10;
-    }
-    
-    // Check individual words
-    const nameWords = clientName.split(/\s+/);
-    for (const word of nameWords) {
-      if (word.length > 3 && contentLower.includes(word)) {
-        score += 2;
-      }
-    }
-    
-    if (score > bestScore) {
-      bestScore = score;
-      bestMatch = client;
-    }
-  }
-  
-  return bestScore > 5 ? bestMatch : null;
-}
-
-async function findClient(clientId: string, env: Env): Promise<any> {
-  return await env.DB.prepare(
-    `SELECT * FROM clients WHERE id = ?`
-  ).bind(clientId).first();
-}
-
 interface Chunk {
   content: string;
   type: 'full' | 'speaker_turn' | 'topic_segment';